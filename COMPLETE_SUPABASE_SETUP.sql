@@ -2,11 +2,12 @@
 -- COMPLETE SUPABASE SETUP
 -- =====================================================
 -- This script includes:
--- 1. Table schemas (rooms, room_players, game_states)
+-- 1. Table schemas (rooms, room_players, room_bans, room_passwords, room_join_requests, room_host_heartbeats, game_states, game_state_patches, game_events,
+--    player_secrets, vote_ballots, player_actions, profiles)
 -- 2. ALL RLS policies for all tables
 -- 3. Policies that allow:
 --    - Host to control game flow and settings
---    - Players to submit answers/votes
+--    - Players to submit answers/votes (as player_actions, applied by the database)
 --    - Real-time syncing to work properly
 -- 4. Bot support: Allows bots without requiring auth.users entries
 --    - Foreign key constraint removed from player_id
@@ -21,14 +22,21 @@
 -- Create rooms table if it doesn't exist
 CREATE TABLE IF NOT EXISTS rooms (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  code TEXT UNIQUE NOT NULL,
+  code TEXT NOT NULL, -- Unique among active rooms only (see idx_rooms_active_code)
   host_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   game_mode TEXT NOT NULL,
   impostor_count INTEGER NOT NULL DEFAULT 1,
   has_jester BOOLEAN NOT NULL DEFAULT false,
   is_randomize_mode BOOLEAN NOT NULL DEFAULT false,
   selected_pack TEXT,
+  privacy TEXT NOT NULL DEFAULT 'open', -- open, password or approval (see ROOM PRIVACY)
+  is_public BOOLEAN NOT NULL DEFAULT false, -- Listed in the room browser
+  language TEXT NOT NULL DEFAULT 'en',
+  capacity INTEGER NOT NULL DEFAULT 10, -- Seats, bots included (see ROOM CAPACITY)
+  player_count INTEGER NOT NULL DEFAULT 0, -- Kept current by sync_room_player_count (see ROOM BROWSER)
+  phase TEXT NOT NULL DEFAULT 'lobby', -- Copied from game_states by sync_room_phase
   is_active BOOLEAN NOT NULL DEFAULT true,
+  last_activity_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- Bumped by touch_room_activity
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -84,11 +92,94 @@ BEGIN
   ) THEN
     ALTER TABLE rooms ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
   END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'rooms' AND column_name = 'last_activity_at'
+  ) THEN
+    ALTER TABLE rooms ADD COLUMN last_activity_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'rooms' AND column_name = 'privacy'
+  ) THEN
+    ALTER TABLE rooms ADD COLUMN privacy TEXT NOT NULL DEFAULT 'open';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'rooms' AND column_name = 'is_public'
+  ) THEN
+    ALTER TABLE rooms ADD COLUMN is_public BOOLEAN NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'rooms' AND column_name = 'language'
+  ) THEN
+    ALTER TABLE rooms ADD COLUMN language TEXT NOT NULL DEFAULT 'en';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'rooms' AND column_name = 'capacity'
+  ) THEN
+    ALTER TABLE rooms ADD COLUMN capacity INTEGER NOT NULL DEFAULT 10;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'rooms' AND column_name = 'player_count'
+  ) THEN
+    ALTER TABLE rooms ADD COLUMN player_count INTEGER NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'rooms' AND column_name = 'phase'
+  ) THEN
+    ALTER TABLE rooms ADD COLUMN phase TEXT NOT NULL DEFAULT 'lobby';
+  END IF;
 END $$;
 
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS rooms_privacy;
+ALTER TABLE rooms ADD CONSTRAINT rooms_privacy CHECK (privacy IN ('open', 'password', 'approval'));
+
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS rooms_language;
+ALTER TABLE rooms ADD CONSTRAINT rooms_language CHECK (language IN ('en', 'ru', 'ka'));
+
+-- Room for at least a game (3 players), at most the 10 the screens are laid out for
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS rooms_capacity;
+ALTER TABLE rooms ADD CONSTRAINT rooms_capacity CHECK (capacity BETWEEN 3 AND 10);
+
+-- Codes used to be unique forever; closed rooms now give their code back
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS rooms_code_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rooms_active_code ON rooms(code) WHERE is_active;
+
+-- Codes are 6 digits, or 5 characters from an alphabet without look-alikes (no 0/O, 1/I/L or U)
+-- NOT VALID skips rows created before the check; every new code must fit
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS rooms_code_format;
+ALTER TABLE rooms ADD CONSTRAINT rooms_code_format
+  CHECK (code ~ '^([0-9]{6}|[23456789ABCDEFGHJKMNPQRSTVWXYZ]{5})$') NOT VALID;
+
 -- Create indexes for faster lookups
 CREATE INDEX IF NOT EXISTS idx_rooms_code ON rooms(code);
+CREATE INDEX IF NOT EXISTS idx_rooms_last_activity_at ON rooms(last_activity_at) WHERE is_active;
 CREATE INDEX IF NOT EXISTS idx_rooms_host_id ON rooms(host_id);
+CREATE INDEX IF NOT EXISTS idx_rooms_public ON rooms(last_activity_at DESC) WHERE is_active AND is_public;
+
+-- Realtime only sends changes for tables in this publication
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND tablename = 'rooms'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE rooms;
+  END IF;
+END $$;
 
 -- =====================================================
 -- ROOM_PLAYERS TABLE
@@ -169,6 +260,82 @@ BEGIN
   END IF;
 END $$;
 
+-- =====================================================
+-- ROOM_BANS TABLE
+-- =====================================================
+-- Players the host banned from a room. The room_players_insert policy keeps
+-- them out, so a banned player can't rejoin with the code or an invite link.
+-- Bans are kept for as long as the room row exists.
+
+CREATE TABLE IF NOT EXISTS room_bans (
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL,
+  banned_by UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (room_id, player_id)
+);
+
+-- =====================================================
+-- ROOM_PASSWORDS AND ROOM_JOIN_REQUESTS TABLES
+-- =====================================================
+-- Private rooms (rooms.privacy):
+-- - open: anyone with the code joins
+-- - password: the player must give the room password first
+-- - approval: the player waits in room_join_requests until the host admits them
+-- A player may only add themselves to room_players once their request is admitted
+-- (see room_players_insert). Requests go through request_room_join(), which
+-- admits right away in open rooms and after a correct password.
+-- rooms is readable by everyone, so the password lives in its own table as a
+-- bcrypt hash that no policy lets anyone read.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS room_passwords (
+  room_id UUID PRIMARY KEY REFERENCES rooms(id) ON DELETE CASCADE,
+  password_hash TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS room_join_requests (
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL,
+  username TEXT NOT NULL,
+  avatar TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'admitted', 'rejected')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (room_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_join_requests_pending ON room_join_requests(room_id) WHERE status = 'pending';
+
+-- Realtime only sends changes for tables in this publication
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND tablename = 'room_join_requests'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE room_join_requests;
+  END IF;
+END $$;
+
+-- =====================================================
+-- ROOM_HOST_HEARTBEATS TABLE
+-- =====================================================
+-- When the host was last heard from, written by touch_room_host() every few
+-- seconds while they host. migrate_room_host() checks it before a player takes
+-- over, so presence alone can't hand someone the room. Kept out of rooms so the
+-- beats don't reach the room browser through Realtime. No policies: only the
+-- HOST MIGRATION functions touch it.
+
+CREATE TABLE IF NOT EXISTS room_host_heartbeats (
+  room_id UUID PRIMARY KEY REFERENCES rooms(id) ON DELETE CASCADE,
+  host_id UUID NOT NULL, -- The host the beat is from; a beat from a former host doesn't count
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
 -- =====================================================
 -- GAME_STATES TABLE
 -- =====================================================
@@ -178,6 +345,7 @@ CREATE TABLE IF NOT EXISTS game_states (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   room_id UUID NOT NULL UNIQUE REFERENCES rooms(id) ON DELETE CASCADE,
   state JSONB NOT NULL,
+  version BIGINT NOT NULL DEFAULT 1, -- Bumped on every write (see bump_game_state_version)
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -191,11 +359,144 @@ BEGIN
   ) THEN
     ALTER TABLE game_states ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
   END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'game_states' AND column_name = 'version'
+  ) THEN
+    ALTER TABLE game_states ADD COLUMN version BIGINT NOT NULL DEFAULT 1;
+  END IF;
 END $$;
 
 -- Create index on room_id for faster lookups
 CREATE INDEX IF NOT EXISTS idx_game_states_room_id ON game_states(room_id);
 
+-- =====================================================
+-- GAME_STATE_PATCHES TABLE
+-- =====================================================
+-- Every game_states write, as JSON-patch ops against the version before it
+-- (see src/utils/gameStatePatch.ts). Clients subscribe to these through Realtime
+-- instead of game_states, so a vote doesn't resend the whole state. Rows are
+-- written by the record_game_state_patch trigger only and pruned as they age.
+
+CREATE TABLE IF NOT EXISTS game_state_patches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  base_version BIGINT NOT NULL, -- Version the ops apply to; 0 = the ops replace the whole state
+  version BIGINT NOT NULL, -- Version after the ops
+  ops JSONB NOT NULL, -- [{ "op": "add" | "replace" | "remove", "path": "/votes/<id>", "value": ... }]
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create index for pruning a room's old patches
+CREATE INDEX IF NOT EXISTS idx_game_state_patches_room_id_version ON game_state_patches(room_id, version);
+
+-- =====================================================
+-- GAME_EVENTS TABLE
+-- =====================================================
+-- Append-only log of every game action (roles assigned, answers, votes,
+-- eliminations, tie-breakers, winners). game_states is the latest snapshot;
+-- folding a room's events in seq order rebuilds it (see src/utils/gameEvents.ts).
+-- Rows are only appended by the backend, in the transaction of the write they
+-- describe (see GAME EVENTS below); there are no INSERT/UPDATE/DELETE policies.
+
+CREATE TABLE IF NOT EXISTS game_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  seq BIGSERIAL NOT NULL, -- Global sequence, so ordering by seq is also the per-room order
+  actor_id UUID NOT NULL, -- Whose write the event describes (the host for bot actions)
+  event JSONB NOT NULL, -- GameEvent: { "type": ..., ...payload }
+  event_type TEXT GENERATED ALWAYS AS (event->>'type') STORED, -- For statistics queries
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create index for reading a room's stream in order
+CREATE INDEX IF NOT EXISTS idx_game_events_room_id_seq ON game_events(room_id, seq);
+
+-- =====================================================
+-- PLAYER_SECRETS TABLE
+-- =====================================================
+-- Each player's share of a deal: role, question/word, jester clue.
+-- game_states.state is readable by the whole room, so the client redacts these
+-- out of it (see src/utils/playerSecrets.ts) and the host stores them here.
+-- A player can only SELECT their own row, the host included: no client sees the whole
+-- deal. The backend reads every row (tally, guard) and reveals them all at results.
+-- The host deals in the lobby only; the deal then stays fixed until the next lobby.
+
+CREATE TABLE IF NOT EXISTS player_secrets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL,
+  secret JSONB NOT NULL, -- PlayerSecret: { playerId, role, question, word, hasJesterClue }
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(room_id, player_id)
+);
+
+-- Create index on room_id for faster lookups
+CREATE INDEX IF NOT EXISTS idx_player_secrets_room_id ON player_secrets(room_id);
+
+-- =====================================================
+-- VOTE_BALLOTS TABLE
+-- =====================================================
+-- Every vote, as checked by cast_vote(). game_states.votes is only a copy for
+-- display: the host writes game_states, so tally_votes() counts these.
+-- Tallied ballots keep the outcome, so a retried tally gets the same answer.
+-- There are no write policies: ballots only change through the VOTING functions.
+
+CREATE TABLE IF NOT EXISTS vote_ballots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  voter_id UUID NOT NULL,
+  target_ids JSONB NOT NULL, -- Player ids voted for
+  cast_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- Casting order, kept when a vote is changed
+  tallied_at TIMESTAMPTZ, -- NULL while the round is open
+  outcome JSONB -- VoteOutcome: { eliminatedPlayerIds, tiedPlayers }, set when tallied
+);
+
+-- One open ballot per voter; tallied rounds keep theirs
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vote_ballots_open ON vote_ballots(room_id, voter_id) WHERE tallied_at IS NULL;
+
+-- =====================================================
+-- PLAYER_ACTIONS TABLE
+-- =====================================================
+-- Answers, votes, ready and seen-role, one row each. Players INSERT here instead
+-- of updating game_states; the apply_player_action trigger checks the action and
+-- applies it to game_states in the same transaction (see src/utils/playerActions.ts).
+-- A rejected action raises an error, so every stored row was applied.
+
+CREATE TABLE IF NOT EXISTS player_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL, -- Whose action it is
+  actor_id UUID NOT NULL DEFAULT auth.uid(), -- Who submitted it (the host for bots)
+  kind TEXT NOT NULL CHECK (kind IN ('answer', 'vote', 'ready', 'seenRole')),
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb, -- { "answer": ... } or { "targetIds": [...] }
+  applied_version BIGINT, -- game_states.version after the action was applied
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create index on room_id for faster lookups
+CREATE INDEX IF NOT EXISTS idx_player_actions_room_id ON player_actions(room_id);
+
+-- =====================================================
+-- PROFILES TABLE
+-- =====================================================
+-- The username and avatar a player picked, one row per auth user. Players start
+-- as anonymous users; linking an email (supabase.auth.updateUser) upgrades the
+-- same user in place, so the profile and every room_players row keep working and
+-- follow them to any device they sign in on.
+-- Needs Authentication > Providers > Anonymous sign-ins and Email turned on, and
+-- the app's URL in the redirect URLs so magic links come back to it.
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  username TEXT NOT NULL CHECK (char_length(username) BETWEEN 1 AND 20),
+  avatar TEXT, -- Same format as room_players.avatar
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
 -- =====================================================
 -- TRIGGERS FOR UPDATED_AT
 -- =====================================================
@@ -230,6 +531,210 @@ CREATE TRIGGER update_game_states_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+-- Trigger for player_secrets table
+DROP TRIGGER IF EXISTS update_player_secrets_updated_at ON player_secrets;
+CREATE TRIGGER update_player_secrets_updated_at
+  BEFORE UPDATE ON player_secrets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Trigger for profiles table
+DROP TRIGGER IF EXISTS update_profiles_updated_at ON profiles;
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- OPTIMISTIC CONCURRENCY FOR GAME_STATES
+-- =====================================================
+-- Every UPDATE bumps version, whatever the client sent.
+-- Clients do compare-and-swap writes with patch_game_state(room, expected, ops):
+-- a stale version matches zero rows and the client re-fetches and retries.
+
+CREATE OR REPLACE FUNCTION bump_game_state_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.version = OLD.version + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_game_state_version_trigger ON game_states;
+CREATE TRIGGER bump_game_state_version_trigger
+  BEFORE UPDATE ON game_states
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_game_state_version();
+
+-- =====================================================
+-- GAME STATE PATCHES
+-- =====================================================
+-- Clients send diffs: patch_game_state() applies ops to the stored state if it is
+-- still at the base version. It runs as the caller, so the game_states RLS applies.
+-- Whoever writes game_states (patches, upserts, RPCs), record_game_state_patch
+-- logs the change as a patch for Realtime. diff_game_state() and
+-- apply_game_state_patch() mirror src/utils/gameStatePatch.ts - keep them in step.
+
+-- RFC 6901 pointer ("/votes/abc") to a jsonb path ('{votes,abc}')
+CREATE OR REPLACE FUNCTION json_pointer_to_path(p_pointer TEXT)
+RETURNS TEXT[]
+AS $$
+  SELECT CASE
+    WHEN p_pointer = '' THEN '{}'::TEXT[]
+    ELSE ARRAY(
+      SELECT replace(replace(s.segment, '~1', '/'), '~0', '~')
+      FROM unnest(string_to_array(substr(p_pointer, 2), '/')) WITH ORDINALITY AS s(segment, ord)
+      ORDER BY s.ord
+    )
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION apply_game_state_patch(p_state JSONB, p_ops JSONB)
+RETURNS JSONB
+AS $$
+DECLARE
+  v_op JSONB;
+  v_path TEXT[];
+BEGIN
+  FOR v_op IN SELECT value FROM jsonb_array_elements(p_ops) LOOP
+    v_path := json_pointer_to_path(v_op->>'path');
+
+    IF v_op->>'op' = 'remove' THEN
+      p_state := p_state #- v_path;
+    ELSIF v_op->>'op' NOT IN ('add', 'replace') THEN
+      RAISE EXCEPTION 'Unsupported patch op: %', v_op->>'op';
+    ELSIF cardinality(v_path) = 0 THEN
+      p_state := COALESCE(v_op->'value', 'null'::jsonb);
+    ELSE
+      p_state := jsonb_set(p_state, v_path, COALESCE(v_op->'value', 'null'::jsonb), true);
+    END IF;
+  END LOOP;
+
+  RETURN p_state;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Objects key by key, same-length arrays index by index, anything else replaced whole
+CREATE OR REPLACE FUNCTION diff_game_state(p_before JSONB, p_after JSONB, p_pointer TEXT DEFAULT '')
+RETURNS JSONB
+AS $$
+DECLARE
+  v_ops JSONB := '[]'::jsonb;
+  v_key TEXT;
+  v_key_pointer TEXT;
+  v_index INTEGER;
+BEGIN
+  IF p_before IS NOT DISTINCT FROM p_after THEN
+    RETURN v_ops;
+  END IF;
+
+  IF jsonb_typeof(p_before) = 'object' AND jsonb_typeof(p_after) = 'object' THEN
+    FOR v_key IN SELECT jsonb_object_keys(p_before) LOOP
+      IF NOT p_after ? v_key THEN
+        v_ops := v_ops || jsonb_build_array(jsonb_build_object(
+          'op', 'remove',
+          'path', p_pointer || '/' || replace(replace(v_key, '~', '~0'), '/', '~1')
+        ));
+      END IF;
+    END LOOP;
+
+    FOR v_key IN SELECT jsonb_object_keys(p_after) LOOP
+      v_key_pointer := p_pointer || '/' || replace(replace(v_key, '~', '~0'), '/', '~1');
+      IF p_before ? v_key THEN
+        v_ops := v_ops || diff_game_state(p_before->v_key, p_after->v_key, v_key_pointer);
+      ELSE
+        v_ops := v_ops || jsonb_build_array(jsonb_build_object('op', 'add', 'path', v_key_pointer, 'value', p_after->v_key));
+      END IF;
+    END LOOP;
+
+    RETURN v_ops;
+  END IF;
+
+  IF jsonb_typeof(p_before) = 'array'
+    AND jsonb_typeof(p_after) = 'array'
+    AND jsonb_array_length(p_before) = jsonb_array_length(p_after) THEN
+    FOR v_index IN 0 .. jsonb_array_length(p_after) - 1 LOOP
+      v_ops := v_ops || diff_game_state(p_before->v_index, p_after->v_index, p_pointer || '/' || v_index);
+    END LOOP;
+
+    RETURN v_ops;
+  END IF;
+
+  RETURN jsonb_build_array(jsonb_build_object('op', 'replace', 'path', p_pointer, 'value', p_after));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Returns the new version, or NULL if the state is no longer at p_base_version
+CREATE OR REPLACE FUNCTION patch_game_state(
+  p_room_id UUID,
+  p_base_version BIGINT,
+  p_ops JSONB
+)
+RETURNS BIGINT
+SET search_path = public
+AS $$
+DECLARE
+  v_version BIGINT;
+BEGIN
+  UPDATE game_states
+  SET state = apply_game_state_patch(state, p_ops),
+      updated_at = NOW()
+  WHERE room_id = p_room_id
+    AND version = p_base_version
+  RETURNING version INTO v_version;
+
+  RETURN v_version;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION patch_game_state(UUID, BIGINT, JSONB) TO authenticated;
+
+CREATE OR REPLACE FUNCTION record_game_state_patch()
+RETURNS TRIGGER
+SECURITY DEFINER -- Patches have no write policies
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO game_state_patches (room_id, base_version, version, ops)
+    VALUES (
+      NEW.room_id,
+      0,
+      NEW.version,
+      jsonb_build_array(jsonb_build_object('op', 'replace', 'path', '', 'value', NEW.state))
+    );
+  ELSE
+    INSERT INTO game_state_patches (room_id, base_version, version, ops)
+    VALUES (NEW.room_id, OLD.version, NEW.version, diff_game_state(OLD.state, NEW.state));
+  END IF;
+
+  -- Clients that fall this far behind load the full state instead
+  DELETE FROM game_state_patches
+  WHERE room_id = NEW.room_id
+    AND version <= NEW.version - 100;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_game_state_patch_trigger ON game_states;
+CREATE TRIGGER record_game_state_patch_trigger
+  AFTER INSERT OR UPDATE ON game_states
+  FOR EACH ROW
+  EXECUTE FUNCTION record_game_state_patch();
+
+-- Realtime only sends changes for tables in this publication
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND tablename = 'game_state_patches'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE game_state_patches;
+  END IF;
+END $$;
+
 -- =====================================================
 -- VALIDATION FUNCTION FOR PLAYER_ID
 -- =====================================================
@@ -273,65 +778,1788 @@ CREATE TRIGGER validate_player_id_trigger
   EXECUTE FUNCTION validate_player_id();
 
 -- =====================================================
--- ROW LEVEL SECURITY (RLS) POLICIES
+-- HOST MIGRATION
 -- =====================================================
+-- When the host has been offline too long, the connected player who has been
+-- in the room longest calls this to take over (see claimHostIfAbsent in
+-- src/services/roomService.ts). A takeover is refused until the host's last
+-- heartbeat (room_host_heartbeats, or the room's creation before the first beat)
+-- is older than the disconnect timeout, HOST_MIGRATION_TIMEOUT_MS in
+-- src/hooks/useSupabaseRoom.ts - keep them in step. The host also calls it to
+-- hand the room to another player from the lobby (see transferHost). rooms.host_id,
+-- room_players.is_host and game_states.state->hostId change in one transaction.
+-- Bots have no owner of their own: RLS lets whoever is rooms.host_id manage
+-- them, so the new host takes them over with the room.
+-- p_expected_host_id makes it compare-and-swap: if two players race, one wins.
 
--- Enable RLS on all tables
-ALTER TABLE rooms ENABLE ROW LEVEL SECURITY;
-ALTER TABLE room_players ENABLE ROW LEVEL SECURITY;
-ALTER TABLE game_states ENABLE ROW LEVEL SECURITY;
+CREATE OR REPLACE FUNCTION migrate_room_host(
+  p_room_id UUID,
+  p_expected_host_id UUID,
+  p_new_host_id UUID
+)
+RETURNS BOOLEAN
+SECURITY DEFINER -- Non-hosts can't update rooms under RLS
+SET search_path = public
+AS $$
+BEGIN
+  -- Players can only promote themselves, unless the host is handing the room over
+  IF auth.uid() IS DISTINCT FROM p_new_host_id AND auth.uid() IS DISTINCT FROM p_expected_host_id THEN
+    RETURN false;
+  END IF;
 
--- Drop all existing policies to start fresh
-DROP POLICY IF EXISTS "rooms_select" ON rooms;
-DROP POLICY IF EXISTS "rooms_insert" ON rooms;
-DROP POLICY IF EXISTS "rooms_update" ON rooms;
+  -- The new host must be a human player in the room
+  IF NOT EXISTS (
+    SELECT 1
+    FROM room_players
+    WHERE room_id = p_room_id
+      AND player_id = p_new_host_id
+      AND is_bot = false
+  ) THEN
+    RETURN false;
+  END IF;
 
-DROP POLICY IF EXISTS "room_players_select" ON room_players;
-DROP POLICY IF EXISTS "room_players_insert" ON room_players;
-DROP POLICY IF EXISTS "room_players_update" ON room_players;
-DROP POLICY IF EXISTS "room_players_delete" ON room_players;
+  -- Taking over (rather than being handed the room) needs the host to have gone quiet
+  IF auth.uid() IS DISTINCT FROM p_expected_host_id AND (
+    SELECT COALESCE(
+      (SELECT h.last_seen_at FROM room_host_heartbeats h WHERE h.room_id = r.id AND h.host_id = p_expected_host_id),
+      r.created_at
+    )
+    FROM rooms r
+    WHERE r.id = p_room_id
+  ) > NOW() - INTERVAL '20 seconds' THEN
+    RETURN false;
+  END IF;
 
-DROP POLICY IF EXISTS "game_states_select" ON game_states;
-DROP POLICY IF EXISTS "game_states_insert" ON game_states;
-DROP POLICY IF EXISTS "game_states_update" ON game_states;
-DROP POLICY IF EXISTS "game_states_all" ON game_states;
+  UPDATE rooms
+  SET host_id = p_new_host_id
+  WHERE id = p_room_id
+    AND host_id = p_expected_host_id
+    AND is_active = true;
 
--- =====================================================
--- ROOMS TABLE POLICIES
--- =====================================================
+  -- Someone else already took over (or the room is closed)
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
 
--- Anyone can read rooms (to join by code)
-CREATE POLICY "rooms_select" ON rooms
-  FOR SELECT
-  USING (true);
+  -- The new host counts as just seen until their own heartbeats arrive
+  INSERT INTO room_host_heartbeats (room_id, host_id, last_seen_at)
+  VALUES (p_room_id, p_new_host_id, NOW())
+  ON CONFLICT (room_id) DO UPDATE
+  SET host_id = EXCLUDED.host_id,
+      last_seen_at = EXCLUDED.last_seen_at;
 
--- Only authenticated users can create rooms (they become host)
-CREATE POLICY "rooms_insert" ON rooms
-  FOR INSERT
-  WITH CHECK (auth.uid() = host_id);
+  UPDATE room_players
+  SET is_host = (player_id = p_new_host_id)
+  WHERE room_id = p_room_id
+    AND is_host IS DISTINCT FROM (player_id = p_new_host_id);
 
--- Only the host can update room settings
--- This controls: impostor_count, has_jester, is_randomize_mode, selected_pack, is_active
-CREATE POLICY "rooms_update" ON rooms
-  FOR UPDATE
-  USING (auth.uid() = host_id)
-  WITH CHECK (auth.uid() = host_id);
+  UPDATE game_states
+  SET state = jsonb_set(state, '{hostId}', to_jsonb(p_new_host_id::text)),
+      updated_at = NOW()
+  WHERE room_id = p_room_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The host's heartbeat; from anyone else it does nothing
+CREATE OR REPLACE FUNCTION touch_room_host(p_room_id UUID)
+RETURNS VOID
+SECURITY DEFINER -- room_host_heartbeats has no policies
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO room_host_heartbeats (room_id, host_id, last_seen_at)
+  SELECT id, host_id, NOW()
+  FROM rooms
+  WHERE id = p_room_id
+    AND host_id = auth.uid()
+    AND is_active = true
+  ON CONFLICT (room_id) DO UPDATE
+  SET host_id = EXCLUDED.host_id,
+      last_seen_at = EXCLUDED.last_seen_at;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION migrate_room_host(UUID, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION touch_room_host(UUID) TO authenticated;
 
 -- =====================================================
--- ROOM_PLAYERS TABLE POLICIES
+-- ROOM PRIVACY
 -- =====================================================
+-- set_room_password: the host sets (or with NULL clears) the room password.
+-- request_room_join: a player asks to join. Banned players are refused; open
+-- rooms and a correct password admit at once; approval rooms leave the request
+-- pending for the host, who admits or rejects it by updating its status.
+-- A wrong password raises invalid_password (28P01), and so does any password
+-- while a password room has none set (e.g. it was cleared), so nobody gets in free.
 
--- Anyone can read room players (to see who's in the room)
-CREATE POLICY "room_players_select" ON room_players
+CREATE OR REPLACE FUNCTION set_room_password(p_room_id UUID, p_password TEXT)
+RETURNS VOID
+SECURITY DEFINER -- room_passwords has no policies
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND host_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the host can set the room password' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_password IS NULL OR p_password = '' THEN
+    DELETE FROM room_passwords WHERE room_id = p_room_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO room_passwords (room_id, password_hash)
+  VALUES (p_room_id, crypt(p_password, gen_salt('bf')))
+  ON CONFLICT (room_id) DO UPDATE
+  SET password_hash = EXCLUDED.password_hash, updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION request_room_join(
+  p_room_id UUID,
+  p_username TEXT,
+  p_avatar TEXT,
+  p_password TEXT DEFAULT NULL
+)
+RETURNS room_join_requests
+SECURITY DEFINER -- Reads room_passwords and admits without an INSERT policy
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_room rooms;
+  v_hash TEXT;
+  v_status TEXT;
+  v_row room_join_requests;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join a room' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Room not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM room_bans WHERE room_id = p_room_id AND player_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Player is banned from the room' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_room.privacy = 'password' THEN
+    SELECT password_hash INTO v_hash FROM room_passwords WHERE room_id = p_room_id;
+    IF v_hash IS NULL THEN
+      RAISE EXCEPTION 'The room password has not been set' USING ERRCODE = 'invalid_password';
+    END IF;
+    IF p_password IS NULL OR crypt(p_password, v_hash) <> v_hash THEN
+      RAISE EXCEPTION 'Wrong room password' USING ERRCODE = 'invalid_password';
+    END IF;
+  END IF;
+
+  v_status := CASE WHEN v_room.privacy = 'approval' THEN 'pending' ELSE 'admitted' END;
+
+  -- Asking again keeps an admission; a rejected player may ask once more
+  INSERT INTO room_join_requests (room_id, player_id, username, avatar, status)
+  VALUES (p_room_id, auth.uid(), p_username, p_avatar, v_status)
+  ON CONFLICT (room_id, player_id) DO UPDATE
+  SET username = EXCLUDED.username,
+      avatar = EXCLUDED.avatar,
+      status = CASE WHEN room_join_requests.status = 'admitted' THEN 'admitted' ELSE EXCLUDED.status END,
+      updated_at = NOW()
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION set_room_password(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION request_room_join(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- ROOM CAPACITY
+-- =====================================================
+-- A new player (bots included) is refused once rooms.capacity seats are taken.
+-- The room row is locked while counting, so two players joining at once queue up
+-- behind each other and only one can take the last seat.
+-- Raises configuration_limit_exceeded (53400), which the app reports as 'full'.
+-- Upserts fire BEFORE INSERT too, so players already in the room are let through.
+
+CREATE OR REPLACE FUNCTION enforce_room_capacity()
+RETURNS TRIGGER
+SECURITY DEFINER -- Locking the room row needs UPDATE rights on rooms, which only the host has
+SET search_path = public
+AS $$
+DECLARE
+  v_capacity INTEGER;
+  v_taken INTEGER;
+BEGIN
+  SELECT capacity INTO v_capacity FROM rooms WHERE id = NEW.room_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NEW; -- The foreign key reports the missing room
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM room_players WHERE room_id = NEW.room_id AND player_id = NEW.player_id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO v_taken FROM room_players WHERE room_id = NEW.room_id;
+  IF v_taken >= v_capacity THEN
+    RAISE EXCEPTION 'Room is full (% players)', v_capacity USING ERRCODE = 'configuration_limit_exceeded';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_room_capacity_trigger ON room_players;
+CREATE TRIGGER enforce_room_capacity_trigger
+  BEFORE INSERT ON room_players
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_room_capacity();
+
+-- =====================================================
+-- ROOM BROWSER
+-- =====================================================
+-- Public rooms (rooms.is_public) are listed with their player count and phase.
+-- Both are kept on rooms so the browser reads and subscribes to one table:
+-- game_states is only readable by room members, and room_players changes for
+-- every room would be far too many events.
+
+CREATE OR REPLACE FUNCTION sync_room_player_count()
+RETURNS TRIGGER
+SECURITY DEFINER -- Players can't update rooms under RLS
+SET search_path = public
+AS $$
+DECLARE
+  v_room_id UUID := COALESCE(NEW.room_id, OLD.room_id);
+BEGIN
+  UPDATE rooms
+  SET player_count = (SELECT COUNT(*) FROM room_players WHERE room_id = v_room_id)
+  WHERE id = v_room_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_room_player_count_trigger ON room_players;
+CREATE TRIGGER sync_room_player_count_trigger
+  AFTER INSERT OR DELETE ON room_players
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_room_player_count();
+
+CREATE OR REPLACE FUNCTION sync_room_phase()
+RETURNS TRIGGER
+SECURITY DEFINER -- Runs for whoever writes game_states, including player actions
+SET search_path = public
+AS $$
+DECLARE
+  v_phase TEXT := COALESCE(NEW.state->>'phase', 'lobby');
+BEGIN
+  -- Most game state writes don't change the phase; skip those rooms writes
+  UPDATE rooms
+  SET phase = v_phase
+  WHERE id = NEW.room_id
+    AND phase IS DISTINCT FROM v_phase;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_room_phase_trigger ON game_states;
+CREATE TRIGGER sync_room_phase_trigger
+  AFTER INSERT OR UPDATE ON game_states
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_room_phase();
+
+-- =====================================================
+-- SERVER CLOCK
+-- =====================================================
+-- The host stamps timed phases with an absolute deadline (GameState.phaseDeadline,
+-- epoch ms). Device clocks drift apart, so every client measures its offset from
+-- the database clock with server_time() and counts down to the deadline on it.
+-- clock_timestamp() is the wall clock, not the start of the transaction.
+
+CREATE OR REPLACE FUNCTION server_time()
+RETURNS BIGINT
+AS $$
+  SELECT (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT;
+$$ LANGUAGE sql VOLATILE;
+
+GRANT EXECUTE ON FUNCTION server_time() TO anon, authenticated;
+
+-- =====================================================
+-- ROOM EXPIRY
+-- =====================================================
+-- Any write to a room's players, game state or events keeps the room alive.
+-- cleanup_stale_rooms() closes rooms idle for longer than the timeout: the room
+-- is deactivated (freeing its code) and its players, game state and secrets are
+-- deleted. game_events are kept for statistics.
+-- The client sweeps once on start-up; on Supabase, also schedule it with pg_cron:
+--   SELECT cron.schedule('cleanup-stale-rooms', '*/15 * * * *', 'SELECT cleanup_stale_rooms()');
+-- Any player may call it, so the timeout can't go below 30 minutes. To try it by hand:
+--   UPDATE rooms SET last_activity_at = NOW() - INTERVAL '1 day' WHERE code = '123456';
+--   SELECT cleanup_stale_rooms();
+
+CREATE OR REPLACE FUNCTION touch_room_activity()
+RETURNS TRIGGER
+SECURITY DEFINER -- Players can't update rooms under RLS
+SET search_path = public
+AS $$
+BEGIN
+  -- At most one rooms write per minute, however busy the game is
+  UPDATE rooms
+  SET last_activity_at = NOW()
+  WHERE id = NEW.room_id
+    AND last_activity_at < NOW() - INTERVAL '1 minute';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_room_activity_trigger ON room_players;
+CREATE TRIGGER touch_room_activity_trigger
+  AFTER INSERT OR UPDATE ON room_players
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_room_activity();
+
+DROP TRIGGER IF EXISTS touch_room_activity_trigger ON game_states;
+CREATE TRIGGER touch_room_activity_trigger
+  AFTER INSERT OR UPDATE ON game_states
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_room_activity();
+
+DROP TRIGGER IF EXISTS touch_room_activity_trigger ON game_events;
+CREATE TRIGGER touch_room_activity_trigger
+  AFTER INSERT ON game_events
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_room_activity();
+
+CREATE OR REPLACE FUNCTION cleanup_stale_rooms(p_inactive_for_minutes INTEGER DEFAULT 120)
+RETURNS INTEGER
+SECURITY DEFINER -- Deletes rows the caller could not delete under RLS
+SET search_path = public
+AS $$
+DECLARE
+  v_closed INTEGER;
+BEGIN
+  WITH stale AS (
+    UPDATE rooms
+    SET is_active = false
+    WHERE is_active = true
+      AND last_activity_at < NOW() - make_interval(mins => GREATEST(p_inactive_for_minutes, 30))
+    RETURNING id
+  ),
+  deleted_players AS (
+    DELETE FROM room_players WHERE room_id IN (SELECT id FROM stale)
+  ),
+  deleted_states AS (
+    DELETE FROM game_states WHERE room_id IN (SELECT id FROM stale)
+  ),
+  deleted_patches AS (
+    DELETE FROM game_state_patches WHERE room_id IN (SELECT id FROM stale)
+  ),
+  deleted_secrets AS (
+    DELETE FROM player_secrets WHERE room_id IN (SELECT id FROM stale)
+  ),
+  deleted_ballots AS (
+    DELETE FROM vote_ballots WHERE room_id IN (SELECT id FROM stale)
+  ),
+  deleted_actions AS (
+    DELETE FROM player_actions WHERE room_id IN (SELECT id FROM stale)
+  ),
+  deleted_join_requests AS (
+    DELETE FROM room_join_requests WHERE room_id IN (SELECT id FROM stale)
+  ),
+  deleted_passwords AS (
+    DELETE FROM room_passwords WHERE room_id IN (SELECT id FROM stale)
+  ),
+  deleted_heartbeats AS (
+    DELETE FROM room_host_heartbeats WHERE room_id IN (SELECT id FROM stale)
+  )
+  SELECT COUNT(*) INTO v_closed FROM stale;
+
+  RETURN v_closed;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION cleanup_stale_rooms(INTEGER) TO authenticated;
+
+-- =====================================================
+-- VOTING
+-- =====================================================
+-- cast_vote() checks a ballot against the stored round and records it;
+-- tally_votes() lets the host count the round and applies the outcome to
+-- game_states in the same transaction (eliminations, tie-breakers, winners).
+-- guard_game_state_outcome() stops any other write from changing those.
+-- compute_vote_outcome() mirrors src/utils/voteTally.ts and apply_vote_outcome()
+-- the reducer's tallyVotes - keep them in step.
+-- A new deal (deleting the previous player_secrets) clears the room's ballots.
+
+-- Votes per candidate as [{ id, votes }], most first; equal counts keep candidate order
+CREATE OR REPLACE FUNCTION rank_vote_candidates(p_candidates JSONB, p_ballots JSONB)
+RETURNS JSONB
+AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('id', c.id, 'votes', c.votes) ORDER BY c.votes DESC, c.ord), '[]'::jsonb)
+  FROM (
+    SELECT
+      cand.id,
+      MIN(cand.ord) AS ord,
+      (
+        SELECT COUNT(*)
+        FROM jsonb_array_elements(p_ballots) AS b(ballot),
+             jsonb_array_elements_text(b.ballot->'targetIds') AS t(target_id)
+        WHERE t.target_id = cand.id
+      )::INTEGER AS votes
+    FROM jsonb_array_elements_text(p_candidates) WITH ORDINALITY AS cand(id, ord)
+    GROUP BY cand.id
+  ) c;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Ids of ranked candidates with between p_min_votes and p_max_votes (NULL = no limit), in rank order
+CREATE OR REPLACE FUNCTION vote_candidates_between(p_ranked JSONB, p_min_votes INTEGER, p_max_votes INTEGER DEFAULT NULL)
+RETURNS JSONB
+AS $$
+  SELECT COALESCE(jsonb_agg(x.r->'id' ORDER BY x.ord), '[]'::jsonb)
+  FROM jsonb_array_elements(p_ranked) WITH ORDINALITY AS x(r, ord)
+  WHERE (x.r->>'votes')::INTEGER >= p_min_votes
+    AND (p_max_votes IS NULL OR (x.r->>'votes')::INTEGER <= p_max_votes);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- A player who isn't in the game any more (or never was) can't vote or be voted for
+CREATE OR REPLACE FUNCTION vote_player_is_out(p_state JSONB, p_player_id TEXT)
+RETURNS BOOLEAN
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_state->'players') AS p(player)
+    WHERE p.player->>'id' = p_player_id
+      AND NOT COALESCE((p.player->>'isEliminated')::BOOLEAN, false)
+  )
+  OR COALESCE(p_state->'eliminatedPlayers', '[]'::jsonb) ? p_player_id;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Every player's role as the backend judges the game: the dealt ones (player_secrets), plus
+-- 'spectator' for players the tally eliminated in randomize mode. Roles written anywhere else
+-- in the state don't count. Reads every secret when called from a SECURITY DEFINER function.
+-- Mirrors dealtRoles in src/utils/playerSecrets.ts
+CREATE OR REPLACE FUNCTION vote_dealt_roles(p_room_id UUID, p_state JSONB)
+RETURNS JSONB
+AS $$
+  SELECT
+    (
+      SELECT COALESCE(jsonb_object_agg(player_id::TEXT, secret->'role'), '{}'::jsonb)
+      FROM player_secrets
+      WHERE room_id = p_room_id
+    ) || (
+      SELECT COALESCE(jsonb_object_agg(r.player_id, r.role), '{}'::jsonb)
+      FROM jsonb_each(COALESCE(p_state->'playerRoles', '{}'::jsonb)) AS r(player_id, role)
+      WHERE r.role = '"spectator"'::jsonb
+        AND COALESCE(p_state->'eliminatedPlayers', '[]'::jsonb) ? r.player_id
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Why a ballot can't be accepted in the current round, or NULL if it can
+-- p_state's playerRoles must be the dealt ones (vote_dealt_roles), not what the host wrote
+CREATE OR REPLACE FUNCTION validate_ballot(p_state JSONB, p_voter_id TEXT, p_target_ids JSONB)
+RETURNS TEXT
+AS $$
+DECLARE
+  v_eliminated_count INTEGER := jsonb_array_length(COALESCE(p_state->'eliminatedPlayers', '[]'::jsonb));
+  v_is_tie_vote BOOLEAN := COALESCE((p_state->>'isTieVote')::BOOLEAN, false);
+  v_max_targets INTEGER;
+  v_target_count INTEGER;
+BEGIN
+  IF p_state->>'phase' IS DISTINCT FROM 'voting' THEN
+    RETURN 'Voting is not open';
+  END IF;
+
+  IF vote_player_is_out(p_state, p_voter_id) OR p_state->'playerRoles'->>p_voter_id = 'spectator' THEN
+    RETURN 'Voter is not in the game';
+  END IF;
+
+  IF jsonb_typeof(p_target_ids) IS DISTINCT FROM 'array' THEN
+    RETURN 'Targets must be a list of player ids';
+  END IF;
+
+  v_max_targets := CASE
+    WHEN COALESCE((p_state->>'isRandomizeMode')::BOOLEAN, false) OR v_is_tie_vote THEN 1
+    ELSE GREATEST(COALESCE((p_state->>'impostorCount')::INTEGER, 1) - v_eliminated_count, 1)
+  END;
+  v_target_count := jsonb_array_length(p_target_ids);
+  IF v_target_count = 0
+    OR v_target_count > v_max_targets
+    OR (SELECT COUNT(DISTINCT t) FROM jsonb_array_elements_text(p_target_ids) AS t) <> v_target_count THEN
+    RETURN format('Expected between 1 and %s different targets', v_max_targets);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM jsonb_array_elements_text(p_target_ids) AS t WHERE vote_player_is_out(p_state, t)) THEN
+    RETURN 'Target is not in the game';
+  END IF;
+
+  IF v_is_tie_vote AND EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements_text(p_target_ids) AS t
+    WHERE NOT COALESCE(p_state->'tiedPlayers', '[]'::jsonb) ? t
+  ) THEN
+    RETURN 'Only tied players can be voted for in a tie-breaker';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Decide the outcome of a round; p_ballots is [{ voterId, targetIds }] in casting order
+CREATE OR REPLACE FUNCTION compute_vote_outcome(p_state JSONB, p_ballots JSONB)
+RETURNS JSONB
+AS $$
+DECLARE
+  v_eliminated JSONB := COALESCE(p_state->'eliminatedPlayers', '[]'::jsonb);
+  v_impostor_count INTEGER := COALESCE((p_state->>'impostorCount')::INTEGER, 1);
+  v_no_outcome CONSTANT JSONB := '{"eliminatedPlayerIds": [], "tiedPlayers": []}'::jsonb;
+  v_ranked JSONB;
+  v_ranked_count INTEGER;
+  v_top_ids JSONB;
+  v_nth_votes INTEGER;
+  v_threshold_votes INTEGER;
+  v_slots INTEGER;
+  v_out_ids JSONB;
+  v_tied_ids JSONB;
+BEGIN
+  -- Randomize mode: exactly one player goes; a tie for the most votes is re-voted
+  IF COALESCE((p_state->>'isRandomizeMode')::BOOLEAN, false) THEN
+    -- Every voted-for player is a candidate, in the order they were first voted for
+    v_ranked := rank_vote_candidates(
+      (
+        SELECT COALESCE(jsonb_agg(t.target_id ORDER BY b.ord, t.ord), '[]'::jsonb)
+        FROM jsonb_array_elements(p_ballots) WITH ORDINALITY AS b(ballot, ord),
+             jsonb_array_elements_text(b.ballot->'targetIds') WITH ORDINALITY AS t(target_id, ord)
+      ),
+      p_ballots
+    );
+    IF jsonb_array_length(v_ranked) = 0 THEN
+      RETURN v_no_outcome;
+    END IF;
+
+    v_top_ids := vote_candidates_between(v_ranked, (v_ranked->0->>'votes')::INTEGER, (v_ranked->0->>'votes')::INTEGER);
+    IF jsonb_array_length(v_top_ids) > 1 THEN
+      RETURN jsonb_build_object('eliminatedPlayerIds', '[]'::jsonb, 'tiedPlayers', v_top_ids);
+    END IF;
+    RETURN jsonb_build_object('eliminatedPlayerIds', v_top_ids, 'tiedPlayers', '[]'::jsonb);
+  END IF;
+
+  -- Standard mode: the top N go; players tied at the N-th place go into a tie-breaker
+  IF NOT COALESCE((p_state->>'isTieVote')::BOOLEAN, false) THEN
+    v_ranked := rank_vote_candidates(
+      (
+        SELECT COALESCE(jsonb_agg(x.player->'id' ORDER BY x.ord), '[]'::jsonb)
+        FROM jsonb_array_elements(p_state->'players') WITH ORDINALITY AS x(player, ord)
+        WHERE NOT v_eliminated ? (x.player->>'id')
+      ),
+      p_ballots
+    );
+    IF jsonb_array_length(v_ranked) < v_impostor_count THEN
+      RETURN v_no_outcome;
+    END IF;
+
+    v_nth_votes := CASE WHEN v_impostor_count >= 1 THEN (v_ranked->(v_impostor_count - 1)->>'votes')::INTEGER ELSE -1 END;
+
+    -- Nobody outside the top N has as many votes as the N-th player
+    IF NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(v_ranked) WITH ORDINALITY AS x(r, ord)
+      WHERE x.ord > v_impostor_count
+        AND (x.r->>'votes')::INTEGER = v_nth_votes
+    ) THEN
+      RETURN jsonb_build_object(
+        'eliminatedPlayerIds', (
+          SELECT COALESCE(jsonb_agg(x.r->'id' ORDER BY x.ord), '[]'::jsonb)
+          FROM jsonb_array_elements(v_ranked) WITH ORDINALITY AS x(r, ord)
+          WHERE x.ord <= v_impostor_count
+        ),
+        'tiedPlayers', '[]'::jsonb
+      );
+    END IF;
+
+    -- Players clearly above the tie go now
+    v_out_ids := vote_candidates_between(v_ranked, v_nth_votes + 1);
+    IF v_impostor_count - (jsonb_array_length(v_eliminated) + jsonb_array_length(v_out_ids)) <= 0 THEN
+      RETURN jsonb_build_object('eliminatedPlayerIds', v_out_ids, 'tiedPlayers', '[]'::jsonb);
+    END IF;
+    RETURN jsonb_build_object(
+      'eliminatedPlayerIds', v_out_ids,
+      'tiedPlayers', vote_candidates_between(v_ranked, v_nth_votes, v_nth_votes)
+    );
+  END IF;
+
+  -- Tie-breaker: only votes for tied players count, and eliminated players don't vote
+  v_ranked := rank_vote_candidates(
+    COALESCE(p_state->'tiedPlayers', '[]'::jsonb),
+    (
+      SELECT COALESCE(jsonb_agg(x.ballot ORDER BY x.ord), '[]'::jsonb)
+      FROM jsonb_array_elements(p_ballots) WITH ORDINALITY AS x(ballot, ord)
+      WHERE NOT v_eliminated ? (x.ballot->>'voterId')
+    )
+  );
+  v_ranked_count := jsonb_array_length(v_ranked);
+  IF v_ranked_count = 0 THEN
+    RETURN v_no_outcome;
+  END IF;
+
+  -- Still tied at the top - vote again between them
+  v_top_ids := vote_candidates_between(v_ranked, (v_ranked->0->>'votes')::INTEGER, (v_ranked->0->>'votes')::INTEGER);
+  IF jsonb_array_length(v_top_ids) > 1 THEN
+    RETURN jsonb_build_object('eliminatedPlayerIds', '[]'::jsonb, 'tiedPlayers', v_top_ids);
+  END IF;
+
+  v_slots := GREATEST(v_impostor_count - jsonb_array_length(v_eliminated), 0);
+  IF v_slots = 0 THEN
+    RETURN v_no_outcome;
+  END IF;
+
+  -- Fill the slots from the top; a tie at the last slot goes to another tie-breaker
+  v_threshold_votes := (v_ranked->(LEAST(v_ranked_count - 1, v_slots - 1))->>'votes')::INTEGER;
+  v_out_ids := vote_candidates_between(v_ranked, v_threshold_votes + 1);
+  v_tied_ids := vote_candidates_between(v_ranked, v_threshold_votes, v_threshold_votes);
+  v_slots := v_slots - jsonb_array_length(v_out_ids);
+
+  IF v_slots > 0 AND jsonb_array_length(v_tied_ids) > v_slots THEN
+    RETURN jsonb_build_object('eliminatedPlayerIds', v_out_ids, 'tiedPlayers', v_tied_ids);
+  END IF;
+  RETURN jsonb_build_object(
+    'eliminatedPlayerIds', CASE WHEN v_slots > 0 THEN v_out_ids || v_tied_ids ELSE v_out_ids END,
+    'tiedPlayers', '[]'::jsonb
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Applying an outcome to the game mirrors the tallyVotes action in
+-- src/utils/gameReducer.ts (votingUtils.ts, wordsGameLogic.ts, randomizeGameLogic.ts).
+-- p_roles maps player id to role, as vote_dealt_roles() builds it (like withDealtRoles
+-- does for the local transport).
+
+-- A player's role for deciding winners; a role written on the player itself doesn't count
+CREATE OR REPLACE FUNCTION vote_player_role(p_roles JSONB, p_player JSONB)
+RETURNS TEXT
+AS $$
+  SELECT p_roles->>(p_player->>'id');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Players dealt p_role (minus p_excluded ids), with the role shown as winners show it
+CREATE OR REPLACE FUNCTION vote_players_with_role(p_players JSONB, p_roles JSONB, p_role TEXT, p_excluded JSONB DEFAULT '[]'::jsonb)
+RETURNS JSONB
+AS $$
+  SELECT COALESCE(jsonb_agg(x.player || jsonb_build_object('role', p_role) ORDER BY x.ord), '[]'::jsonb)
+  FROM jsonb_array_elements(p_players) WITH ORDINALITY AS x(player, ord)
+  WHERE p_roles->>(x.player->>'id') = p_role
+    AND NOT p_excluded ? (x.player->>'id');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Ids in first-seen order, without repeats
+CREATE OR REPLACE FUNCTION vote_unique_ids(p_ids JSONB)
+RETURNS JSONB
+AS $$
+  SELECT COALESCE(jsonb_agg(u.id ORDER BY u.ord), '[]'::jsonb)
+  FROM (
+    SELECT e.id, MIN(e.ord) AS ord
+    FROM jsonb_array_elements(p_ids) WITH ORDINALITY AS e(id, ord)
+    GROUP BY e.id
+  ) u;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Flag the players in p_ids as eliminated (and as spectators in randomize mode)
+CREATE OR REPLACE FUNCTION vote_mark_eliminated(p_players JSONB, p_ids JSONB, p_as_spectators BOOLEAN DEFAULT false)
+RETURNS JSONB
+AS $$
+  SELECT COALESCE(jsonb_agg(
+    CASE
+      WHEN NOT p_ids ? (x.player->>'id') THEN x.player
+      WHEN p_as_spectators THEN x.player || '{"isEliminated": true, "role": "spectator"}'::jsonb
+      ELSE x.player || '{"isEliminated": true}'::jsonb
+    END
+    ORDER BY x.ord
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(p_players) WITH ORDINALITY AS x(player, ord);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Mirrors appendUniqueTieVote: a round's votes are only logged once
+CREATE OR REPLACE FUNCTION vote_append_tie_vote(p_log JSONB, p_votes JSONB)
+RETURNS JSONB
+AS $$
+  SELECT CASE
+    WHEN jsonb_array_length(v.log) > 0 AND v.log->-1 = p_votes THEN v.log
+    ELSE v.log || jsonb_build_array(p_votes)
+  END
+  FROM (SELECT COALESCE(NULLIF(p_log, 'null'::jsonb), '[]'::jsonb) AS log) v;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Set winners and winnerType; no winnerType leaves the key out, as undefined does in the app
+CREATE OR REPLACE FUNCTION vote_with_winners(p_state JSONB, p_result JSONB)
+RETURNS JSONB
+AS $$
+  SELECT CASE
+    WHEN COALESCE(p_result->'winnerType', 'null'::jsonb) = 'null'::jsonb
+      THEN (p_state || jsonb_build_object('winners', COALESCE(p_result->'winners', '[]'::jsonb))) - 'winnerType'
+    ELSE p_state || jsonb_build_object('winners', p_result->'winners', 'winnerType', p_result->'winnerType')
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Mirrors determineRandomizeWinner / determineWordsGameWinner (the host finishing the game):
+-- the impostors win while any of them is still in, otherwise the innocents
+CREATE OR REPLACE FUNCTION vote_final_winners(p_state JSONB, p_roles JSONB)
+RETURNS JSONB
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(p_state->'players') AS p(player)
+      WHERE p_roles->>(p.player->>'id') = 'impostor'
+        AND NOT COALESCE(p_state->'eliminatedPlayers', '[]'::jsonb) ? (p.player->>'id')
+    )
+      THEN jsonb_build_object('winners', vote_players_with_role(p_state->'players', p_roles, 'impostor'), 'winnerType', 'impostor')
+    ELSE jsonb_build_object('winners', vote_players_with_role(p_state->'players', p_roles, 'innocent'), 'winnerType', 'innocent')
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Mirrors checkWinConditions in src/utils/gameLogic.ts (questions game)
+-- Returns { winners, winnerType }; no winnerType means the game goes on
+CREATE OR REPLACE FUNCTION vote_check_win_conditions(p_state JSONB, p_players JSONB, p_roles JSONB, p_eliminated_now JSONB)
+RETURNS JSONB
+AS $$
+DECLARE
+  v_randomize BOOLEAN := COALESCE((p_state->>'isRandomizeMode')::BOOLEAN, false);
+  v_all_eliminated JSONB := COALESCE(p_state->'eliminatedPlayers', '[]'::jsonb) || p_eliminated_now;
+  v_jester_id TEXT;
+  v_jester_winners JSONB;
+  v_active_count INTEGER;
+  v_active_impostors INTEGER;
+BEGIN
+  SELECT e.id INTO v_jester_id
+  FROM jsonb_array_elements_text(p_eliminated_now) WITH ORDINALITY AS e(id, ord)
+  WHERE p_roles->>e.id = 'jester'
+  ORDER BY e.ord
+  LIMIT 1;
+
+  SELECT COALESCE(jsonb_agg(p.player || '{"role": "jester"}'::jsonb), '[]'::jsonb) INTO v_jester_winners
+  FROM jsonb_array_elements(p_players) AS p(player)
+  WHERE p.player->>'id' = v_jester_id;
+
+  -- An eliminated jester wins straight away (there is no jester in randomize mode)
+  IF NOT v_randomize AND v_jester_id IS NOT NULL THEN
+    RETURN jsonb_build_object('winners', v_jester_winners, 'winnerType', 'jester');
+  END IF;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE p_roles->>(p.player->>'id') = 'impostor')
+  INTO v_active_count, v_active_impostors
+  FROM jsonb_array_elements(p_players) AS p(player)
+  WHERE vote_player_role(p_roles, p.player) IS DISTINCT FROM 'spectator'
+    AND NOT v_all_eliminated ? (p.player->>'id');
+
+  IF NOT v_randomize THEN
+    IF v_active_impostors = 0 THEN
+      RETURN jsonb_build_object('winners', vote_players_with_role(p_players, p_roles, 'innocent', v_all_eliminated), 'winnerType', 'innocent');
+    END IF;
+    RETURN jsonb_build_object('winners', vote_players_with_role(p_players, p_roles, 'impostor'), 'winnerType', 'impostor');
+  END IF;
+
+  IF v_active_count <= 2 THEN
+    RETURN jsonb_build_object('winners', vote_players_with_role(p_players, p_roles, 'impostor'), 'winnerType', 'impostor');
+  END IF;
+  IF v_active_impostors = 0 THEN
+    RETURN jsonb_build_object('winners', vote_players_with_role(p_players, p_roles, 'innocent', v_all_eliminated), 'winnerType', 'innocent');
+  END IF;
+  IF v_jester_id IS NOT NULL THEN
+    RETURN jsonb_build_object('winners', v_jester_winners, 'winnerType', 'jester');
+  END IF;
+  RETURN jsonb_build_object('winners', '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Mirrors checkWordsGameWinConditions in src/utils/wordsGameLogic.ts: there is always a winner
+CREATE OR REPLACE FUNCTION vote_check_words_win_conditions(p_state JSONB, p_players JSONB, p_roles JSONB, p_eliminated_now JSONB)
+RETURNS JSONB
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(p_players) AS p(player)
+      WHERE vote_player_role(p_roles, p.player) IS DISTINCT FROM 'spectator'
+        AND NOT v.all_eliminated ? (p.player->>'id')
+        AND p_roles->>(p.player->>'id') = 'impostor'
+    )
+      THEN jsonb_build_object('winners', vote_players_with_role(p_players, p_roles, 'impostor'), 'winnerType', 'impostor')
+    ELSE jsonb_build_object('winners', vote_players_with_role(p_players, p_roles, 'innocent', v.all_eliminated), 'winnerType', 'innocent')
+  END
+  FROM (SELECT COALESCE(p_state->'eliminatedPlayers', '[]'::jsonb) || p_eliminated_now AS all_eliminated) v;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Mirrors checkRandomizeAutoEnd in src/utils/randomizeGameLogic.ts
+-- Returns { winners, winnerType } when the game ends by itself, NULL while it goes on
+CREATE OR REPLACE FUNCTION vote_check_randomize_auto_end(p_state JSONB, p_players JSONB, p_roles JSONB, p_eliminated_now JSONB)
+RETURNS JSONB
+AS $$
+DECLARE
+  v_all_eliminated JSONB := COALESCE(p_state->'eliminatedPlayers', '[]'::jsonb) || p_eliminated_now;
+  v_remaining INTEGER;
+  v_remaining_impostors INTEGER;
+  v_jester_id TEXT;
+BEGIN
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE p_roles->>(p.player->>'id') = 'impostor')
+  INTO v_remaining, v_remaining_impostors
+  FROM jsonb_array_elements(p_players) AS p(player)
+  WHERE NOT v_all_eliminated ? (p.player->>'id')
+    AND p_roles->>(p.player->>'id') IS DISTINCT FROM 'spectator';
+
+  IF v_remaining <= 2 THEN
+    RETURN jsonb_build_object('winners', vote_players_with_role(p_players, p_roles, 'impostor'), 'winnerType', 'impostor');
+  END IF;
+  IF p_state->>'gameMode' IS DISTINCT FROM 'words' AND v_remaining_impostors = 0 THEN
+    RETURN jsonb_build_object('winners', vote_players_with_role(p_players, p_roles, 'innocent'), 'winnerType', 'innocent');
+  END IF;
+
+  SELECT e.id INTO v_jester_id
+  FROM jsonb_array_elements_text(p_eliminated_now) WITH ORDINALITY AS e(id, ord)
+  WHERE p_roles->>e.id = 'jester'
+  ORDER BY e.ord
+  LIMIT 1;
+  IF v_jester_id IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'winners', (
+        SELECT COALESCE(jsonb_agg(p.player || '{"role": "jester"}'::jsonb), '[]'::jsonb)
+        FROM jsonb_array_elements(p_players) AS p(player)
+        WHERE p.player->>'id' = v_jester_id
+      ),
+      'winnerType', 'jester'
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Mirrors updateGameStateAfterRandomizeElimination: the eliminated become spectators
+-- Returns the changed keys only
+CREATE OR REPLACE FUNCTION vote_randomize_elimination(p_state JSONB, p_eliminated_now JSONB, p_was_tie_vote BOOLEAN)
+RETURNS JSONB
+AS $$
+DECLARE
+  v_ids JSONB := vote_unique_ids(p_eliminated_now);
+  v_eliminated JSONB := COALESCE(p_state->'eliminatedPlayers', '[]'::jsonb);
+  v_votes JSONB := COALESCE(p_state->'votes', '{}'::jsonb);
+  v_changes JSONB;
+BEGIN
+  v_changes := jsonb_build_object(
+    'phase', 'voteResults',
+    'votes', v_votes,
+    'players', vote_mark_eliminated(p_state->'players', v_ids, true),
+    'playerRoles', COALESCE(p_state->'playerRoles', '{}'::jsonb) || (
+      SELECT COALESCE(jsonb_object_agg(e.id, 'spectator'::TEXT), '{}'::jsonb)
+      FROM jsonb_array_elements_text(v_ids) AS e(id)
+    ),
+    'eliminatedPlayers', v_eliminated || (
+      SELECT COALESCE(jsonb_agg(e.id ORDER BY e.ord), '[]'::jsonb)
+      FROM jsonb_array_elements(v_ids) WITH ORDINALITY AS e(id, ord)
+      WHERE NOT v_eliminated @> jsonb_build_array(e.id)
+    ),
+    'previousEliminatedPlayers', v_eliminated,
+    'isTieVote', false,
+    'tiedPlayers', '[]'::jsonb,
+    'originalVotes', COALESCE(NULLIF(p_state->'originalVotes', 'null'::jsonb), v_votes)
+  );
+  IF p_was_tie_vote THEN
+    v_changes := v_changes || jsonb_build_object('tieBreakerVotes', vote_append_tie_vote(p_state->'tieBreakerVotes', v_votes));
+  END IF;
+  RETURN v_changes;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- The game after a tallied round: eliminations, tie-breakers, winners and the next screen
+-- Returns p_state itself when the round leads nowhere (like the reducer returning the same state)
+CREATE OR REPLACE FUNCTION apply_vote_outcome(p_state JSONB, p_outcome JSONB, p_roles JSONB)
+RETURNS JSONB
+AS $$
+DECLARE
+  v_players JSONB := COALESCE(p_state->'players', '[]'::jsonb);
+  v_votes JSONB := COALESCE(p_state->'votes', '{}'::jsonb);
+  v_original_votes JSONB := NULLIF(p_state->'originalVotes', 'null'::jsonb);
+  v_tie_log JSONB := COALESCE(NULLIF(p_state->'tieBreakerVotes', 'null'::jsonb), '[]'::jsonb);
+  v_eliminated JSONB := COALESCE(p_state->'eliminatedPlayers', '[]'::jsonb);
+  v_out JSONB := COALESCE(p_outcome->'eliminatedPlayerIds', '[]'::jsonb);
+  v_tied JSONB := COALESCE(p_outcome->'tiedPlayers', '[]'::jsonb);
+  v_is_tie_vote BOOLEAN := COALESCE((p_state->>'isTieVote')::BOOLEAN, false);
+  v_randomize BOOLEAN := COALESCE((p_state->>'isRandomizeMode')::BOOLEAN, false);
+  v_impostor_count INTEGER := COALESCE((p_state->>'impostorCount')::INTEGER, 1);
+  v_remaining INTEGER;
+  v_round INTEGER;
+  v_new_eliminated JSONB;
+  v_marked_players JSONB;
+  v_win JSONB;
+  v_next JSONB;
+  v_phase TEXT;
+BEGIN
+  SELECT COUNT(*) INTO v_remaining
+  FROM jsonb_array_elements(v_players) AS p(player)
+  WHERE NOT v_eliminated ? (p.player->>'id');
+
+  -- Words game, randomize mode
+  IF p_state->>'gameMode' = 'words' AND v_randomize THEN
+    IF jsonb_array_length(v_tied) > 0 THEN
+      v_round := COALESCE((p_state->>'currentTieBreakerRound')::INTEGER, 0) + 1;
+      v_next := p_state || jsonb_build_object(
+        'phase', 'voting',
+        'currentScreen', 'voting',
+        'isTieVote', true,
+        'tiedPlayers', v_tied,
+        'votes', '{}'::jsonb,
+        'originalVotes', COALESCE(v_original_votes, v_votes),
+        'tieBreakerHistory', COALESCE(NULLIF(p_state->'tieBreakerHistory', 'null'::jsonb), '[]'::jsonb) || CASE
+          WHEN v_is_tie_vote THEN jsonb_build_array(jsonb_build_object('round', v_round - 1, 'votes', v_votes, 'tiedPlayers', v_tied))
+          ELSE '[]'::jsonb
+        END,
+        'currentTieBreakerRound', v_round
+      );
+      RETURN CASE
+        WHEN v_is_tie_vote THEN v_next || jsonb_build_object('tieBreakerVotes', vote_append_tie_vote(p_state->'tieBreakerVotes', v_votes))
+        ELSE v_next - 'tieBreakerVotes'
+      END;
+    END IF;
+
+    IF vote_check_randomize_auto_end(p_state, v_players, p_roles, v_out) IS NOT NULL THEN
+      v_win := vote_final_winners(p_state, p_roles);
+      RETURN p_state || v_win || '{"phase": "results", "currentScreen": "results", "isTieVote": false}'::jsonb;
+    END IF;
+
+    IF jsonb_array_length(v_out) = 0 THEN
+      RETURN p_state;
+    END IF;
+    RETURN p_state || vote_randomize_elimination(p_state, v_out, v_is_tie_vote) || '{"currentScreen": "voteResults"}'::jsonb;
+  END IF;
+
+  -- Words game, standard mode (processWordsGameVotes)
+  IF p_state->>'gameMode' = 'words' THEN
+    IF v_is_tie_vote THEN
+      v_tie_log := v_tie_log || jsonb_build_array(v_votes);
+
+      IF jsonb_array_length(COALESCE(p_state->'tiedPlayers', '[]'::jsonb)) = 0 THEN
+        -- Nobody to break the tie between - end the round
+        v_next := p_state || vote_check_words_win_conditions(p_state, v_players, p_roles, v_eliminated) || jsonb_build_object(
+          'phase', 'voteResults', 'votes', '{}'::jsonb, 'tieBreakerVotes', v_tie_log, 'isTieVote', false, 'tiedPlayers', '[]'::jsonb
+        );
+      ELSIF jsonb_array_length(v_tied) > 0 AND jsonb_array_length(v_out) = 0 THEN
+        -- Still tied at the top - vote again
+        v_next := p_state || jsonb_build_object(
+          'phase', 'voting', 'isTieVote', true, 'tiedPlayers', v_tied, 'votes', '{}'::jsonb, 'tieBreakerVotes', v_tie_log
+        );
+      ELSIF jsonb_array_length(v_tied) > 0 THEN
+        -- Some players went, but the last slot(s) are still tied
+        v_next := p_state || jsonb_build_object(
+          'phase', 'voting', 'eliminatedPlayers', v_eliminated || v_out, 'votes', '{}'::jsonb,
+          'isTieVote', true, 'tiedPlayers', v_tied, 'tieBreakerVotes', v_tie_log
+        );
+      ELSE
+        v_next := p_state || vote_check_words_win_conditions(p_state, v_players, p_roles, v_eliminated || v_out) || jsonb_build_object(
+          'phase', 'voteResults', 'eliminatedPlayers', v_eliminated || v_out, 'votes', '{}'::jsonb,
+          'tieBreakerVotes', v_tie_log, 'isTieVote', false, 'tiedPlayers', '[]'::jsonb
+        );
+      END IF;
+    ELSIF v_remaining < v_impostor_count THEN
+      v_next := p_state || jsonb_build_object('votes', v_votes, 'phase', 'discussion');
+    ELSIF jsonb_array_length(v_tied) > 0 THEN
+      v_next := p_state || jsonb_build_object(
+        'eliminatedPlayers', v_eliminated || v_out, 'phase', 'voting', 'isTieVote', true,
+        'tiedPlayers', v_tied, 'votes', '{}'::jsonb, 'originalVotes', v_votes
+      );
+    ELSIF jsonb_array_length(v_out) < v_impostor_count THEN
+      -- Earlier rounds already filled the slots; the words game always has a winner here
+      v_next := p_state || vote_check_words_win_conditions(p_state, v_players, p_roles, v_eliminated || v_out) || jsonb_build_object(
+        'phase', 'results', 'votes', v_votes, 'eliminatedPlayers', v_eliminated || v_out, 'isTieVote', false, 'tiedPlayers', '[]'::jsonb
+      );
+    ELSE
+      v_next := p_state || vote_check_words_win_conditions(p_state, v_players, p_roles, v_out) || jsonb_build_object(
+        'phase', 'voteResults', 'votes', v_votes, 'originalVotes', v_votes, 'eliminatedPlayers', v_eliminated || v_out,
+        'isTieVote', false, 'tiedPlayers', '[]'::jsonb, 'previousEliminatedPlayers', v_eliminated
+      );
+    END IF;
+
+    RETURN v_next || jsonb_build_object('currentScreen', CASE
+      WHEN v_next->>'phase' IN ('results', 'voteResults') THEN v_next->'phase'
+      WHEN v_next->>'phase' = 'voting' AND COALESCE((v_next->>'isTieVote')::BOOLEAN, false) THEN '"voting"'::jsonb
+      ELSE COALESCE(p_state->'currentScreen', 'null'::jsonb)
+    END);
+  END IF;
+
+  -- Questions game, tie-breaker round in standard mode
+  IF v_is_tie_vote AND NOT v_randomize THEN
+    v_tie_log := v_tie_log || jsonb_build_array(v_votes);
+
+    IF jsonb_array_length(COALESCE(p_state->'tiedPlayers', '[]'::jsonb)) = 0 THEN
+      -- Nobody to break the tie between - end the round
+      v_win := vote_check_win_conditions(p_state, vote_mark_eliminated(v_players, v_eliminated), p_roles, v_eliminated);
+      RETURN vote_with_winners(p_state || jsonb_build_object(
+        'phase', 'voteResults', 'currentScreen', 'voteResults', 'eliminatedPlayers', v_eliminated, 'votes', '{}'::jsonb,
+        'tieBreakerVotes', v_tie_log, 'isTieVote', false, 'tiedPlayers', '[]'::jsonb
+      ), v_win);
+    END IF;
+
+    IF jsonb_array_length(v_tied) > 0 AND jsonb_array_length(v_out) = 0 THEN
+      RETURN p_state || jsonb_build_object(
+        'isTieVote', true, 'tiedPlayers', v_tied, 'votes', '{}'::jsonb, 'tieBreakerVotes', v_tie_log, 'currentScreen', 'voting'
+      );
+    END IF;
+
+    v_new_eliminated := vote_unique_ids(v_eliminated || v_out);
+    v_marked_players := vote_mark_eliminated(v_players, v_new_eliminated);
+    IF jsonb_array_length(v_tied) > 0 THEN
+      RETURN p_state || jsonb_build_object(
+        'players', v_marked_players, 'eliminatedPlayers', v_new_eliminated, 'votes', '{}'::jsonb,
+        'tieBreakerVotes', v_tie_log, 'isTieVote', true, 'tiedPlayers', v_tied, 'currentScreen', 'voting'
+      );
+    END IF;
+
+    v_win := vote_check_win_conditions(p_state, v_marked_players, p_roles, v_new_eliminated);
+    RETURN vote_with_winners(p_state || jsonb_build_object(
+      'phase', 'voteResults', 'currentScreen', 'voteResults', 'players', v_marked_players,
+      'eliminatedPlayers', v_new_eliminated, 'votes', '{}'::jsonb, 'tieBreakerVotes', v_tie_log,
+      'isTieVote', false, 'tiedPlayers', '[]'::jsonb
+    ), v_win);
+  END IF;
+
+  IF v_remaining < v_impostor_count THEN
+    RETURN p_state;
+  END IF;
+
+  -- Questions game, randomize mode
+  IF v_randomize THEN
+    IF jsonb_array_length(v_tied) > 0 THEN
+      v_next := p_state || jsonb_build_object(
+        'phase', 'voting', 'currentScreen', 'voting', 'isTieVote', true, 'tiedPlayers', v_tied,
+        'votes', '{}'::jsonb, 'originalVotes', COALESCE(v_original_votes, v_votes)
+      );
+      IF NOT v_is_tie_vote THEN
+        RETURN v_next - 'tieBreakerVotes';
+      END IF;
+      -- A re-vote that only repeats logged votes isn't logged again
+      IF v_original_votes = v_votes OR EXISTS (SELECT 1 FROM jsonb_array_elements(v_tie_log) AS l(votes) WHERE l.votes = v_votes) THEN
+        RETURN v_next || jsonb_build_object('tieBreakerVotes', v_tie_log);
+      END IF;
+      RETURN v_next || jsonb_build_object('tieBreakerVotes', v_tie_log || jsonb_build_array(v_votes));
+    END IF;
+
+    IF jsonb_array_length(v_out) = 0 THEN
+      RETURN p_state;
+    END IF;
+
+    v_next := p_state || vote_randomize_elimination(p_state, v_out, v_is_tie_vote);
+    -- One player (or none) left: the game is over
+    IF (
+      SELECT COUNT(*)
+      FROM jsonb_array_elements(v_players) AS p(player)
+      WHERE NOT (v_eliminated || v_out) ? (p.player->>'id')
+        AND p_roles->>(p.player->>'id') IS DISTINCT FROM 'spectator'
+    ) <= 1 THEN
+      v_win := COALESCE(vote_check_randomize_auto_end(p_state, v_players, p_roles, v_out), jsonb_build_object('winners', '[]'::jsonb));
+      RETURN vote_with_winners(v_next || '{"phase": "results", "currentScreen": "results"}'::jsonb, v_win);
+    END IF;
+    RETURN v_next || '{"currentScreen": "voteResults"}'::jsonb;
+  END IF;
+
+  -- Questions game, standard mode
+  IF jsonb_array_length(v_tied) > 0 THEN
+    -- Players clearly above the tie are eliminated now, the tied ones vote again
+    RETURN p_state || jsonb_build_object(
+      'eliminatedPlayers', v_eliminated || v_out, 'phase', 'voting', 'currentScreen', 'voting',
+      'isTieVote', true, 'tiedPlayers', v_tied, 'votes', '{}'::jsonb, 'originalVotes', v_votes
+    );
+  END IF;
+
+  IF jsonb_array_length(v_out) < v_impostor_count THEN
+    -- Earlier rounds already filled the slots
+    v_win := vote_check_win_conditions(p_state, v_players, p_roles, v_eliminated || v_out);
+    v_phase := CASE WHEN v_win ? 'winnerType' THEN 'results' ELSE 'voteResults' END;
+    RETURN vote_with_winners(p_state || jsonb_build_object(
+      'phase', v_phase, 'currentScreen', v_phase, 'votes', v_votes, 'eliminatedPlayers', v_eliminated || v_out,
+      'isTieVote', false, 'tiedPlayers', '[]'::jsonb
+    ), v_win);
+  END IF;
+
+  -- No tie: the top N go
+  v_win := vote_check_win_conditions(p_state, v_players, p_roles, v_out);
+  v_new_eliminated := v_eliminated || v_out;
+  RETURN vote_with_winners(p_state || jsonb_build_object(
+    'phase', 'voteResults', 'currentScreen', 'voteResults', 'players', vote_mark_eliminated(v_players, v_new_eliminated),
+    'votes', v_votes, 'originalVotes', v_votes, 'eliminatedPlayers', v_new_eliminated,
+    'previousEliminatedPlayers', v_eliminated, 'isTieVote', false, 'tiedPlayers', '[]'::jsonb
+  ), v_win);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Record a ballot: your own, or a bot's if you are the host
+-- The vote is a player action like any other; apply_player_action checks and applies it
+-- Returns the game_states row with the vote copied into state->votes
+CREATE OR REPLACE FUNCTION cast_vote(
+  p_room_id UUID,
+  p_voter_id UUID,
+  p_target_ids JSONB
+)
+RETURNS game_states
+SECURITY DEFINER -- Ballots have no write policies
+SET search_path = public
+AS $$
+DECLARE
+  v_row game_states;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM p_voter_id AND NOT (
+    EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND host_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM room_players WHERE room_id = p_room_id AND player_id = p_voter_id AND is_bot = true)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to cast this vote' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO player_actions (room_id, player_id, actor_id, kind, payload)
+  VALUES (p_room_id, p_voter_id, auth.uid(), 'vote', jsonb_build_object('targetIds', p_target_ids));
+
+  SELECT * INTO v_row FROM game_states WHERE room_id = p_room_id;
+  RETURN v_row;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Count the open ballots (host only), apply the outcome to the game, log it and return the VoteOutcome
+-- Returns NULL, changing nothing, when no ballots are open: nobody has voted yet, or a retry
+-- came in after the tally that counted them (the stored game already shows that one)
+CREATE OR REPLACE FUNCTION tally_votes(p_room_id UUID)
+RETURNS JSONB
+SECURITY DEFINER -- Ballots have no write policies
+SET search_path = public
+AS $$
+DECLARE
+  v_state JSONB;
+  v_ballots JSONB;
+  v_outcome JSONB;
+  v_roles JSONB;
+  v_next JSONB;
+  v_event JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND host_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the host can tally votes' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Lock the state so no ballot slips in while counting
+  SELECT state INTO v_state FROM game_states WHERE room_id = p_room_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No game in this room' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('voterId', voter_id, 'targetIds', target_ids) ORDER BY cast_at, id)
+  INTO v_ballots
+  FROM vote_ballots
+  WHERE room_id = p_room_id
+    AND tallied_at IS NULL;
+
+  IF v_ballots IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_outcome := compute_vote_outcome(v_state, v_ballots);
+
+  UPDATE vote_ballots
+  SET tallied_at = NOW(),
+      outcome = v_outcome
+  WHERE room_id = p_room_id
+    AND tallied_at IS NULL;
+
+  -- The winners depend on the dealt roles, which the shared state leaves out
+  v_roles := vote_dealt_roles(p_room_id, v_state);
+
+  v_next := apply_vote_outcome(v_state, v_outcome, v_roles);
+  IF v_next IS DISTINCT FROM v_state THEN
+    -- Like stampPhaseDeadline: after a tally only the last words before a words game re-vote are timed
+    -- (PHASE_DURATIONS_MS.votingDiscussion in src/utils/phaseDeadline.ts)
+    IF v_next->>'currentScreen' = 'voting'
+      AND v_next->>'phase' IS DISTINCT FROM 'voting'
+      AND NOT COALESCE((v_next->>'isRandomizeMode')::BOOLEAN, false)
+      AND NOT COALESCE((v_next->>'isTieVote')::BOOLEAN, false) THEN
+      v_next := v_next || jsonb_build_object('phaseDeadline', server_time() + 60000);
+    ELSE
+      v_next := v_next - 'phaseDeadline';
+    END IF;
+
+    -- Only this transaction gets past guard_game_state_outcome
+    PERFORM set_config('impasta.applying_vote_outcome', 'on', true);
+    UPDATE game_states
+    SET state = v_next,
+        updated_at = NOW()
+    WHERE room_id = p_room_id;
+    PERFORM set_config('impasta.applying_vote_outcome', 'off', true);
+  END IF;
+
+  -- Mirror of describeTally
+  PERFORM append_game_event(p_room_id, auth.uid(), jsonb_build_object('type', 'votesTallied', 'outcome', v_outcome));
+  FOR v_event IN SELECT jsonb_array_elements(describe_outcome_events(v_state, v_next)) LOOP
+    PERFORM append_game_event(p_room_id, auth.uid(), v_event);
+  END LOOP;
+
+  RETURN v_outcome;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION clear_vote_ballots()
+RETURNS TRIGGER
+SECURITY DEFINER -- Ballots have no write policies
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM vote_ballots WHERE room_id = OLD.room_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS clear_vote_ballots_trigger ON player_secrets;
+CREATE TRIGGER clear_vote_ballots_trigger
+  AFTER DELETE ON player_secrets
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_vote_ballots();
+
+-- Eliminations, tie-breakers and the end of a vote only come from tally_votes().
+-- Every other write (the host's saves and patches, player actions) must keep them as
+-- stored; winners may only change by finishing the game, which takes the ones it has earned.
+-- The deal (its dealId, settings, public roles, who was dealt in) is fixed until the game is back
+-- in the lobby, which starts over; the player_secrets policies fix the secrets likewise.
+CREATE OR REPLACE FUNCTION guard_game_state_outcome()
+RETURNS TRIGGER
+SECURITY DEFINER -- Reads every dealt role, not just the writer's
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP = 'UPDATE' THEN OLD.state END;
+  v_new JSONB := NEW.state;
+  v_starts_over BOOLEAN := v_old IS NULL OR v_old->>'phase' = 'lobby';
+  v_roles JSONB;
+  v_final JSONB;
+BEGIN
+  IF current_setting('impasta.applying_vote_outcome', true) = 'on' OR v_new->>'phase' = 'lobby' THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_starts_over THEN
+    v_old := '{"eliminatedPlayers": [], "players": [], "isTieVote": false, "tiedPlayers": [], "winners": []}'::jsonb;
+  END IF;
+
+  IF COALESCE(v_new->'eliminatedPlayers', '[]'::jsonb) IS DISTINCT FROM COALESCE(v_old->'eliminatedPlayers', '[]'::jsonb)
+    OR EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(COALESCE(v_new->'players', '[]'::jsonb)) AS p(player)
+      WHERE COALESCE((p.player->>'isEliminated')::BOOLEAN, false)
+        AND NOT EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements(COALESCE(v_old->'players', '[]'::jsonb)) AS o(player)
+          WHERE o.player->>'id' = p.player->>'id'
+            AND COALESCE((o.player->>'isEliminated')::BOOLEAN, false)
+        )
+    ) THEN
+    RAISE EXCEPTION 'Game state rejected: Only the vote tally eliminates players' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- A tie-breaker can be kept or dropped, but not started or changed
+  IF (COALESCE((v_new->>'isTieVote')::BOOLEAN, false) AND NOT COALESCE((v_old->>'isTieVote')::BOOLEAN, false))
+    OR (
+      jsonb_array_length(COALESCE(v_new->'tiedPlayers', '[]'::jsonb)) > 0
+      AND COALESCE(v_new->'tiedPlayers', '[]'::jsonb) IS DISTINCT FROM COALESCE(v_old->'tiedPlayers', '[]'::jsonb)
+    ) THEN
+    RAISE EXCEPTION 'Game state rejected: Only the vote tally starts a tie-breaker' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_old->>'phase' = 'voting' AND v_new->>'phase' IN ('voteResults', 'results') THEN
+    RAISE EXCEPTION 'Game state rejected: Only the vote tally ends a vote' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Players may leave a running game but nobody is dealt in; results states carry every role
+  IF NOT v_starts_over AND (
+    v_new->'impostorCount' IS DISTINCT FROM v_old->'impostorCount'
+    OR v_new->'isRandomizeMode' IS DISTINCT FROM v_old->'isRandomizeMode'
+    OR v_new->'hasJester' IS DISTINCT FROM v_old->'hasJester'
+    OR v_new->'gameMode' IS DISTINCT FROM v_old->'gameMode'
+    OR v_new->'dealId' IS DISTINCT FROM v_old->'dealId'
+    OR EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(COALESCE(v_new->'players', '[]'::jsonb)) AS p(player)
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(COALESCE(v_old->'players', '[]'::jsonb)) AS o(player)
+        WHERE o.player->>'id' = p.player->>'id'
+      )
+    )
+    OR (
+      v_new->>'phase' IS DISTINCT FROM 'results'
+      AND COALESCE(v_new->'playerRoles', '{}'::jsonb) IS DISTINCT FROM COALESCE(v_old->'playerRoles', '{}'::jsonb)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Game state rejected: The deal is fixed until the game is back in the lobby' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(v_new->'winners', '[]'::jsonb) IS DISTINCT FROM COALESCE(v_old->'winners', '[]'::jsonb)
+    OR v_new->'winnerType' IS DISTINCT FROM v_old->'winnerType' THEN
+    IF v_new->>'phase' IS DISTINCT FROM 'results' THEN
+      RAISE EXCEPTION 'Game state rejected: The winners are decided by the game' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- The host finished the game without seeing the dealt roles: it takes the winners it has
+    -- earned, with the stored state's spectators rather than ones this write adds
+    v_roles := vote_dealt_roles(NEW.room_id, v_old);
+    v_final := vote_final_winners(v_new, v_roles);
+    NEW.state := vote_with_winners(v_new, v_final);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_game_state_outcome_trigger ON game_states;
+CREATE TRIGGER guard_game_state_outcome_trigger
+  BEFORE INSERT OR UPDATE ON game_states
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_game_state_outcome();
+
+-- Roles stop being secret once the game is over, but no client can read every secret:
+-- any write that leaves the game at results (the tally's or the host's) gets the whole
+-- deal put back - every role, the questions, the word and the jester clues.
+-- Mirrors withDealtRoles in src/utils/playerSecrets.ts. Runs after the guard (triggers
+-- fire in name order), so the guard still judges what the writer sent.
+CREATE OR REPLACE FUNCTION reveal_results_deal()
+RETURNS TRIGGER
+SECURITY DEFINER -- Reads every dealt secret
+SET search_path = public
+AS $$
+DECLARE
+  v_roles JSONB;
+  v_secrets JSONB;
+  v_innocent JSONB;
+  v_impostor JSONB;
+  v_is_questions BOOLEAN := NEW.state->>'gameMode' = 'questions';
+BEGIN
+  IF NEW.state->>'phase' IS DISTINCT FROM 'results' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT jsonb_agg(secret ORDER BY created_at, player_id) INTO v_secrets
+  FROM player_secrets
+  WHERE room_id = NEW.room_id;
+  IF v_secrets IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_roles := vote_dealt_roles(NEW.room_id, NEW.state);
+  SELECT s INTO v_impostor FROM jsonb_array_elements(v_secrets) AS s WHERE s->>'role' = 'impostor' LIMIT 1;
+  SELECT s INTO v_innocent FROM jsonb_array_elements(v_secrets) AS s WHERE s->>'role' NOT IN ('impostor', 'spectator') LIMIT 1;
+
+  NEW.state := NEW.state || jsonb_build_object(
+    'players', (
+      SELECT COALESCE(jsonb_agg(
+        CASE
+          WHEN v_roles ? (x.player->>'id') THEN x.player || jsonb_build_object('role', v_roles->(x.player->>'id'))
+          ELSE x.player - 'role'
+        END
+        ORDER BY x.ord
+      ), '[]'::jsonb)
+      FROM jsonb_array_elements(COALESCE(NEW.state->'players', '[]'::jsonb)) WITH ORDINALITY AS x(player, ord)
+    ),
+    'playerRoles', v_roles,
+    -- As dealt, before anyone was eliminated
+    'originalPlayerRoles', (SELECT jsonb_object_agg(s->>'playerId', s->'role') FROM jsonb_array_elements(v_secrets) AS s),
+    'jesterCluePlayers', vote_unique_ids(
+      COALESCE(NEW.state->'jesterCluePlayers', '[]'::jsonb) || (
+        SELECT COALESCE(jsonb_agg(s->'playerId'), '[]'::jsonb)
+        FROM jsonb_array_elements(v_secrets) AS s
+        WHERE COALESCE((s->>'hasJesterClue')::BOOLEAN, false)
+      )
+    ),
+    'currentQuestion', COALESCE(NULLIF(NEW.state->>'currentQuestion', ''), CASE WHEN v_is_questions THEN v_innocent->>'question' END, ''),
+    'currentImpostorQuestion', COALESCE(NULLIF(NEW.state->>'currentImpostorQuestion', ''), CASE WHEN v_is_questions THEN v_impostor->>'question' END, ''),
+    'currentWord', COALESCE(NULLIF(NEW.state->>'currentWord', ''), NULLIF(v_innocent->>'word', ''), '')
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reveal_results_deal_trigger ON game_states;
+CREATE TRIGGER reveal_results_deal_trigger
+  BEFORE INSERT OR UPDATE ON game_states
+  FOR EACH ROW
+  EXECUTE FUNCTION reveal_results_deal();
+
+GRANT EXECUTE ON FUNCTION cast_vote(UUID, UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION tally_votes(UUID) TO authenticated;
+
+-- =====================================================
+-- PLAYER ACTIONS
+-- =====================================================
+-- Applies each inserted player action to game_states, mirroring
+-- src/utils/playerActions.ts - keep them in step. Who may insert is up to the
+-- player_actions_insert policy (yourself, or the host for bots).
+-- Rejections raise check_violation, which the app reports as a 'conflict' RoomError.
+
+CREATE OR REPLACE FUNCTION apply_player_action()
+RETURNS TRIGGER
+SECURITY DEFINER -- Players can't update game_states under RLS
+SET search_path = public
+AS $$
+DECLARE
+  v_state JSONB;
+  v_player_id TEXT := NEW.player_id::TEXT;
+  v_rejection TEXT;
+BEGIN
+  -- Lock the state so the action and the state it was checked against can't drift apart
+  SELECT state INTO v_state FROM game_states WHERE room_id = NEW.room_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No game in this room' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- A retry of an action that was already applied (the client picks the id): skip the row
+  -- instead of checking it again, so a timed-out answer isn't rejected as already submitted
+  IF EXISTS (SELECT 1 FROM player_actions WHERE id = NEW.id) THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_state->'players') AS p(player) WHERE p.player->>'id' = v_player_id
+  ) THEN
+    RAISE EXCEPTION 'Player action rejected: Player is not in the game' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.kind = 'answer' THEN
+    IF v_state->>'phase' IS DISTINCT FROM 'questions' OR v_state->>'gameMode' IS DISTINCT FROM 'questions' THEN
+      RAISE EXCEPTION 'Player action rejected: Answers are not open' USING ERRCODE = 'check_violation';
+    END IF;
+    IF COALESCE((v_state->'submittedAnswers'->>v_player_id)::BOOLEAN, false) THEN
+      RAISE EXCEPTION 'Player action rejected: Answer already submitted' USING ERRCODE = 'check_violation';
+    END IF;
+    IF jsonb_typeof(NEW.payload->'answer') IS DISTINCT FROM 'string' OR char_length(NEW.payload->>'answer') > 500 THEN
+      RAISE EXCEPTION 'Player action rejected: Answers are text of at most 500 characters' USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_state := jsonb_set(v_state, '{playerAnswers}',
+      COALESCE(v_state->'playerAnswers', '{}'::jsonb) || jsonb_build_object(v_player_id, NEW.payload->'answer'));
+    v_state := jsonb_set(v_state, '{submittedAnswers}',
+      COALESCE(v_state->'submittedAnswers', '{}'::jsonb) || jsonb_build_object(v_player_id, true));
+
+  ELSIF NEW.kind = 'vote' THEN
+    v_rejection := validate_ballot(
+      v_state || jsonb_build_object('playerRoles', vote_dealt_roles(NEW.room_id, v_state)),
+      v_player_id,
+      NEW.payload->'targetIds'
+    );
+    IF v_rejection IS NOT NULL THEN
+      RAISE EXCEPTION 'Player action rejected: %', v_rejection USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Re-voting replaces the ballot but keeps its place in the casting order
+    INSERT INTO vote_ballots (room_id, voter_id, target_ids)
+    VALUES (NEW.room_id, NEW.player_id, NEW.payload->'targetIds')
+    ON CONFLICT (room_id, voter_id) WHERE tallied_at IS NULL
+    DO UPDATE SET target_ids = EXCLUDED.target_ids;
+
+    v_state := jsonb_set(v_state, '{votes}',
+      COALESCE(v_state->'votes', '{}'::jsonb) || jsonb_build_object(v_player_id, NEW.payload->'targetIds'));
+
+  ELSIF NEW.kind = 'seenRole' THEN
+    IF v_state->>'phase' = 'lobby' THEN
+      RAISE EXCEPTION 'Player action rejected: No roles have been dealt' USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_state := jsonb_set(v_state, '{players}', (
+      SELECT jsonb_agg(
+        CASE WHEN x.player->>'id' = v_player_id THEN x.player || '{"hasSeenRole": true}'::jsonb ELSE x.player END
+        ORDER BY x.ord
+      )
+      FROM jsonb_array_elements(v_state->'players') WITH ORDINALITY AS x(player, ord)
+    ));
+
+  ELSIF NEW.kind = 'ready' THEN
+    v_state := jsonb_set(v_state, '{readyPlayers}',
+      COALESCE(v_state->'readyPlayers', '{}'::jsonb) || jsonb_build_object(v_player_id, true));
+  END IF;
+
+  UPDATE game_states
+  SET state = v_state,
+      updated_at = NOW()
+  WHERE room_id = NEW.room_id
+  RETURNING version INTO NEW.applied_version;
+
+  PERFORM append_game_event(NEW.room_id, NEW.actor_id, CASE NEW.kind
+    WHEN 'answer' THEN jsonb_build_object('type', 'answerSubmitted', 'playerId', v_player_id, 'answer', NEW.payload->'answer')
+    WHEN 'vote' THEN jsonb_build_object('type', 'voteCast', 'playerId', v_player_id, 'targetIds', NEW.payload->'targetIds')
+    WHEN 'seenRole' THEN jsonb_build_object('type', 'roleSeen', 'playerId', v_player_id)
+    ELSE jsonb_build_object('type', 'playerReady', 'playerId', v_player_id)
+  END);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS apply_player_action_trigger ON player_actions;
+CREATE TRIGGER apply_player_action_trigger
+  BEFORE INSERT ON player_actions
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_player_action();
+
+-- =====================================================
+-- GAME EVENTS
+-- =====================================================
+-- game_events rows are appended here only, in the transaction of the write they
+-- describe: apply_player_action logs each player action (bots' too), tally_votes
+-- logs the tally and its outcome, and log_game_state_events logs the host's saves.
+-- Mirrors the describe* functions in src/utils/gameEvents.ts - keep them in step.
+
+-- Not SECURITY DEFINER: the functions above and below call it as the table owner,
+-- while a client calling it directly still has no INSERT policy to get past
+CREATE OR REPLACE FUNCTION append_game_event(p_room_id UUID, p_actor_id UUID, p_event JSONB)
+RETURNS VOID
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO game_events (room_id, actor_id, event)
+  VALUES (p_room_id, p_actor_id, p_event);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Eliminations, a fresh tie-breaker and the winners, going from one state to the next
+CREATE OR REPLACE FUNCTION describe_outcome_events(p_before JSONB, p_after JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_events JSONB := '[]'::jsonb;
+  v_eliminated JSONB;
+BEGIN
+  SELECT COALESCE(jsonb_agg(p.player->'id' ORDER BY p.ord), '[]'::jsonb)
+  INTO v_eliminated
+  FROM jsonb_array_elements(COALESCE(p_after->'players', '[]'::jsonb)) WITH ORDINALITY AS p(player, ord)
+  WHERE COALESCE((p.player->>'isEliminated')::BOOLEAN, false)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(COALESCE(p_before->'players', '[]'::jsonb)) AS b(player)
+      WHERE b.player->>'id' = p.player->>'id'
+        AND COALESCE((b.player->>'isEliminated')::BOOLEAN, false)
+    );
+  IF jsonb_array_length(v_eliminated) > 0 THEN
+    v_events := v_events || jsonb_build_array(jsonb_build_object('type', 'playerEliminated', 'playerIds', v_eliminated));
+  END IF;
+
+  -- A tally that ends in a tie always opens a fresh tie-breaker round
+  IF COALESCE((p_after->>'isTieVote')::BOOLEAN, false) THEN
+    v_events := v_events || jsonb_build_array(jsonb_build_object(
+      'type', 'tieBreakerStarted',
+      'round', COALESCE((p_after->>'currentTieBreakerRound')::INTEGER, 1),
+      'tiedPlayers', COALESCE(p_after->'tiedPlayers', '[]'::jsonb),
+      'votes', COALESCE(p_before->'votes', '{}'::jsonb)
+    ));
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_after->'winners', '[]'::jsonb)) > 0
+    AND jsonb_array_length(COALESCE(p_before->'winners', '[]'::jsonb)) = 0 THEN
+    v_events := v_events || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+      'type', 'winnerDecided',
+      'winnerIds', (SELECT jsonb_agg(w.winner->'id' ORDER BY w.ord) FROM jsonb_array_elements(p_after->'winners') WITH ORDINALITY AS w(winner, ord)),
+      'winnerType', p_after->'winnerType'
+    )));
+  END IF;
+
+  RETURN v_events;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- The host's transitions, told apart by what each one changes (see gameReducer):
+-- back to the lobby, a new deal, finishing, voting, another round, the role reveal
+-- and its confirmation. Saves that change none of it (roster, deadlines) log nothing.
+CREATE OR REPLACE FUNCTION describe_game_state_write(p_before JSONB, p_after JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_before_phase TEXT := COALESCE(p_before->>'phase', 'lobby');
+  v_after_phase TEXT := p_after->>'phase';
+BEGIN
+  IF v_after_phase = 'lobby' THEN
+    RETURN CASE WHEN v_before_phase <> 'lobby' THEN '[{"type": "gameReset"}]'::jsonb ELSE '[]'::jsonb END;
+  END IF;
+
+  -- Leaving the lobby deals a new game (the state is stored without anyone's secrets)
+  IF v_before_phase = 'lobby' THEN
+    RETURN jsonb_build_array(jsonb_build_object('type', 'rolesAssigned', 'state', p_after));
+  END IF;
+
+  IF v_after_phase = 'results' AND v_before_phase <> 'results' THEN
+    RETURN '[{"type": "gameFinished"}]'::jsonb || describe_outcome_events(p_before, p_after);
+  END IF;
+
+  IF v_after_phase = 'voting' AND v_before_phase <> 'voting' THEN
+    RETURN '[{"type": "votingStarted"}]'::jsonb;
+  END IF;
+
+  IF COALESCE((p_after->>'continueCount')::INTEGER, 0) > COALESCE((p_before->>'continueCount')::INTEGER, 0) THEN
+    RETURN '[{"type": "roundContinued"}]'::jsonb;
+  END IF;
+
+  IF p_after->>'currentScreen' IS DISTINCT FROM p_before->>'currentScreen' THEN
+    IF p_after->>'currentScreen' = 'roleReveal' THEN
+      RETURN '[{"type": "rolesRevealed"}]'::jsonb;
+    END IF;
+    IF p_before->>'currentScreen' = 'roleReveal' THEN
+      RETURN '[{"type": "rolesConfirmed"}]'::jsonb;
+    END IF;
+  END IF;
+
+  RETURN '[]'::jsonb;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Log the host's game_states writes (saves and patches)
+-- tally_votes logs its own write; player actions don't change anything described here
+CREATE OR REPLACE FUNCTION log_game_state_events()
+RETURNS TRIGGER
+SECURITY DEFINER -- game_events has no write policies
+SET search_path = public
+AS $$
+DECLARE
+  v_event JSONB;
+BEGIN
+  IF current_setting('impasta.applying_vote_outcome', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_event IN
+    SELECT jsonb_array_elements(describe_game_state_write(CASE WHEN TG_OP = 'UPDATE' THEN OLD.state END, NEW.state))
+  LOOP
+    PERFORM append_game_event(
+      NEW.room_id,
+      COALESCE(auth.uid(), (SELECT host_id FROM rooms WHERE id = NEW.room_id)),
+      v_event
+    );
+  END LOOP;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS log_game_state_events_trigger ON game_states;
+CREATE TRIGGER log_game_state_events_trigger
+  AFTER INSERT OR UPDATE ON game_states
+  FOR EACH ROW
+  EXECUTE FUNCTION log_game_state_events();
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+-- Enable RLS on all tables
+ALTER TABLE rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE room_players ENABLE ROW LEVEL SECURITY;
+ALTER TABLE room_bans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE room_passwords ENABLE ROW LEVEL SECURITY;
+ALTER TABLE room_join_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE room_host_heartbeats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE game_states ENABLE ROW LEVEL SECURITY;
+ALTER TABLE game_state_patches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE game_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE player_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vote_ballots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE player_actions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+-- Drop all existing policies to start fresh
+DROP POLICY IF EXISTS "rooms_select" ON rooms;
+DROP POLICY IF EXISTS "rooms_insert" ON rooms;
+DROP POLICY IF EXISTS "rooms_update" ON rooms;
+
+DROP POLICY IF EXISTS "room_players_select" ON room_players;
+DROP POLICY IF EXISTS "room_players_insert" ON room_players;
+DROP POLICY IF EXISTS "room_players_update" ON room_players;
+DROP POLICY IF EXISTS "room_players_delete" ON room_players;
+
+DROP POLICY IF EXISTS "room_bans_select" ON room_bans;
+DROP POLICY IF EXISTS "room_bans_insert" ON room_bans;
+
+DROP POLICY IF EXISTS "room_join_requests_select" ON room_join_requests;
+DROP POLICY IF EXISTS "room_join_requests_update" ON room_join_requests;
+
+DROP POLICY IF EXISTS "game_states_select" ON game_states;
+DROP POLICY IF EXISTS "game_states_insert" ON game_states;
+DROP POLICY IF EXISTS "game_states_update" ON game_states;
+DROP POLICY IF EXISTS "game_states_all" ON game_states;
+
+DROP POLICY IF EXISTS "game_state_patches_select" ON game_state_patches;
+
+DROP POLICY IF EXISTS "game_events_select" ON game_events;
+DROP POLICY IF EXISTS "game_events_insert" ON game_events;
+
+DROP POLICY IF EXISTS "player_secrets_select" ON player_secrets;
+DROP POLICY IF EXISTS "player_secrets_insert" ON player_secrets;
+DROP POLICY IF EXISTS "player_secrets_delete" ON player_secrets;
+
+DROP POLICY IF EXISTS "vote_ballots_select" ON vote_ballots;
+
+DROP POLICY IF EXISTS "player_actions_select" ON player_actions;
+DROP POLICY IF EXISTS "player_actions_insert" ON player_actions;
+
+DROP POLICY IF EXISTS "profiles_select" ON profiles;
+DROP POLICY IF EXISTS "profiles_insert" ON profiles;
+DROP POLICY IF EXISTS "profiles_update" ON profiles;
+
+-- =====================================================
+-- ROOMS TABLE POLICIES
+-- =====================================================
+
+-- Anyone can read rooms (to join by code)
+CREATE POLICY "rooms_select" ON rooms
+  FOR SELECT
+  USING (true);
+
+-- Only authenticated users can create rooms (they become host)
+CREATE POLICY "rooms_insert" ON rooms
+  FOR INSERT
+  WITH CHECK (auth.uid() = host_id);
+
+-- Only the host can update room settings
+-- This controls: impostor_count, has_jester, is_randomize_mode, selected_pack, privacy, is_public, is_active
+CREATE POLICY "rooms_update" ON rooms
+  FOR UPDATE
+  USING (auth.uid() = host_id)
+  WITH CHECK (auth.uid() = host_id);
+
+-- =====================================================
+-- ROOM_PLAYERS TABLE POLICIES
+-- =====================================================
+
+-- Anyone can read room players (to see who's in the room)
+CREATE POLICY "room_players_select" ON room_players
   FOR SELECT
   USING (true);
 
--- Players can add themselves OR host can add bots
+-- Players can add themselves (unless banned, and once admitted to a private room) OR host can add bots
 CREATE POLICY "room_players_insert" ON room_players
   FOR INSERT
   WITH CHECK (
     -- Player adding themselves
-    auth.uid() = player_id
+    (
+      auth.uid() = player_id
+      AND NOT EXISTS (
+        SELECT 1
+        FROM room_bans
+        WHERE room_id = room_players.room_id
+          AND player_id = room_players.player_id
+      )
+      AND EXISTS (
+        SELECT 1
+        FROM rooms
+        WHERE id = room_players.room_id
+          AND (
+            privacy = 'open'
+            OR host_id = auth.uid()
+            -- Already in the room (rejoining after the room went private)
+            OR EXISTS (
+              SELECT 1
+              FROM room_players rp
+              WHERE rp.room_id = room_players.room_id
+                AND rp.player_id = room_players.player_id
+            )
+            OR EXISTS (
+              SELECT 1
+              FROM room_join_requests jr
+              WHERE jr.room_id = room_players.room_id
+                AND jr.player_id = room_players.player_id
+                AND jr.status = 'admitted'
+            )
+          )
+      )
+    )
     OR
     -- Host adding a bot
     (
@@ -390,6 +2618,78 @@ CREATE POLICY "room_players_delete" ON room_players
     )
   );
 
+-- =====================================================
+-- ROOM_BANS TABLE POLICIES
+-- =====================================================
+
+-- A player can READ their own bans (to be told why they can't join); the host reads the room's
+CREATE POLICY "room_bans_select" ON room_bans
+  FOR SELECT
+  USING (
+    player_id = auth.uid()
+    OR EXISTS (
+      SELECT 1
+      FROM rooms
+      WHERE id = room_bans.room_id
+        AND host_id = auth.uid()
+    )
+  );
+
+-- Only the host bans, as themselves and never themselves
+CREATE POLICY "room_bans_insert" ON room_bans
+  FOR INSERT
+  WITH CHECK (
+    banned_by = auth.uid()
+    AND player_id <> auth.uid()
+    AND EXISTS (
+      SELECT 1
+      FROM rooms
+      WHERE id = room_bans.room_id
+        AND host_id = auth.uid()
+    )
+  );
+
+-- No UPDATE or DELETE policies: bans last as long as the room
+
+-- =====================================================
+-- ROOM_PASSWORDS AND ROOM_JOIN_REQUESTS TABLE POLICIES
+-- =====================================================
+-- room_passwords has no policies at all: only set_room_password() and
+-- request_room_join() touch it. Neither has room_host_heartbeats (HOST MIGRATION).
+
+-- A player can READ their own request (to see when they are let in); the host reads the room's
+CREATE POLICY "room_join_requests_select" ON room_join_requests
+  FOR SELECT
+  USING (
+    player_id = auth.uid()
+    OR EXISTS (
+      SELECT 1
+      FROM rooms
+      WHERE id = room_join_requests.room_id
+        AND host_id = auth.uid()
+    )
+  );
+
+-- Only the host answers requests (admit or reject); players ask through request_room_join()
+CREATE POLICY "room_join_requests_update" ON room_join_requests
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM rooms
+      WHERE id = room_join_requests.room_id
+        AND host_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM rooms
+      WHERE id = room_join_requests.room_id
+        AND host_id = auth.uid()
+    )
+  );
+
 -- =====================================================
 -- GAME_STATES TABLE POLICIES
 -- =====================================================
@@ -422,30 +2722,201 @@ CREATE POLICY "game_states_insert" ON game_states
     )
   );
 
--- IMPORTANT: Allow any player in the room to UPDATE game state
--- This is needed so non-host players can submit answers and votes
--- The application logic (App.tsx) enforces host-only for screen transitions
+-- Only the host can UPDATE game state
+-- Players submit answers and votes as player_actions, which the database applies
 CREATE POLICY "game_states_update" ON game_states
   FOR UPDATE
   USING (
-    -- Allow update if user is in the room_players table (any player in the room)
+    EXISTS (
+      SELECT 1
+      FROM rooms
+      WHERE id = game_states.room_id
+        AND host_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM rooms
+      WHERE id = game_states.room_id
+        AND host_id = auth.uid()
+    )
+  );
+
+-- =====================================================
+-- GAME_STATE_PATCHES TABLE POLICIES
+-- =====================================================
+
+-- Same readers as game_states: anyone in the room
+CREATE POLICY "game_state_patches_select" ON game_state_patches
+  FOR SELECT
+  USING (
     EXISTS (
       SELECT 1
       FROM room_players rp
-      WHERE rp.room_id = game_states.room_id
+      WHERE rp.room_id = game_state_patches.room_id
         AND rp.player_id = auth.uid()
     )
-  )
+  );
+
+-- No INSERT, UPDATE or DELETE policies: only record_game_state_patch writes patches
+
+-- =====================================================
+-- GAME_EVENTS TABLE POLICIES
+-- =====================================================
+
+-- Anyone in the room can READ the event log (audit trail, replays, catch-up)
+CREATE POLICY "game_events_select" ON game_events
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM room_players rp
+      WHERE rp.room_id = game_events.room_id
+        AND rp.player_id = auth.uid()
+    )
+  );
+
+-- No INSERT, UPDATE or DELETE policies: only the backend appends (see GAME EVENTS)
+
+-- =====================================================
+-- PLAYER_SECRETS TABLE POLICIES
+-- =====================================================
+
+-- A player can READ only their own secret, the host included (see reveal_results_deal)
+CREATE POLICY "player_secrets_select" ON player_secrets
+  FOR SELECT
+  USING (player_id = auth.uid());
+
+-- Only the host deals, and only in the lobby: INSERT new secrets and DELETE the previous deal's
+-- Once the game has left the lobby its deal is fixed (tally_votes and the guard read these roles)
+CREATE POLICY "player_secrets_insert" ON player_secrets
+  FOR INSERT
   WITH CHECK (
-    -- Same check for the new row
+    EXISTS (
+      SELECT 1
+      FROM rooms
+      WHERE id = player_secrets.room_id
+        AND host_id = auth.uid()
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM game_states
+      WHERE room_id = player_secrets.room_id
+        AND state->>'phase' IS DISTINCT FROM 'lobby'
+    )
+  );
+
+CREATE POLICY "player_secrets_delete" ON player_secrets
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM rooms
+      WHERE id = player_secrets.room_id
+        AND host_id = auth.uid()
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM game_states
+      WHERE room_id = player_secrets.room_id
+        AND state->>'phase' IS DISTINCT FROM 'lobby'
+    )
+  );
+
+-- =====================================================
+-- VOTE_BALLOTS TABLE POLICIES
+-- =====================================================
+
+-- Anyone in the room can READ ballots (they are public in game_states anyway)
+CREATE POLICY "vote_ballots_select" ON vote_ballots
+  FOR SELECT
+  USING (
     EXISTS (
       SELECT 1
       FROM room_players rp
-      WHERE rp.room_id = game_states.room_id
+      WHERE rp.room_id = vote_ballots.room_id
+        AND rp.player_id = auth.uid()
+    )
+  );
+
+-- No INSERT, UPDATE or DELETE policies: only cast_vote() and tally_votes() write ballots
+
+-- =====================================================
+-- PLAYER_ACTIONS TABLE POLICIES
+-- =====================================================
+
+-- Anyone in the room can READ actions (answers and votes end up in game_states anyway)
+CREATE POLICY "player_actions_select" ON player_actions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM room_players rp
+      WHERE rp.room_id = player_actions.room_id
         AND rp.player_id = auth.uid()
     )
   );
 
+-- Players INSERT their own actions; the host also inserts for bots
+CREATE POLICY "player_actions_insert" ON player_actions
+  FOR INSERT
+  WITH CHECK (
+    actor_id = auth.uid()
+    AND (
+      -- Player acting for themselves
+      (
+        player_id = auth.uid()
+        AND EXISTS (
+          SELECT 1
+          FROM room_players rp
+          WHERE rp.room_id = player_actions.room_id
+            AND rp.player_id = auth.uid()
+        )
+      )
+      OR
+      -- Host acting for a bot
+      (
+        EXISTS (
+          SELECT 1
+          FROM rooms
+          WHERE id = player_actions.room_id
+            AND host_id = auth.uid()
+        )
+        AND EXISTS (
+          SELECT 1
+          FROM room_players rp
+          WHERE rp.room_id = player_actions.room_id
+            AND rp.player_id = player_actions.player_id
+            AND rp.is_bot = true
+        )
+      )
+    )
+  );
+
+-- No UPDATE or DELETE policies: actions are applied once and kept
+
+-- =====================================================
+-- PROFILES TABLE POLICIES
+-- =====================================================
+
+-- Each user READS and writes only their own profile; rooms copy the name and
+-- avatar into room_players, so nobody else needs to see it
+CREATE POLICY "profiles_select" ON profiles
+  FOR SELECT
+  USING (id = auth.uid());
+
+CREATE POLICY "profiles_insert" ON profiles
+  FOR INSERT
+  WITH CHECK (id = auth.uid());
+
+CREATE POLICY "profiles_update" ON profiles
+  FOR UPDATE
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+-- No DELETE policy: the profile goes when the auth user is deleted
+
 -- =====================================================
 -- VERIFICATION
 -- =====================================================
@@ -454,12 +2925,12 @@ CREATE POLICY "game_states_update" ON game_states
 -- SELECT tablename, rowsecurity 
 -- FROM pg_tables 
 -- WHERE schemaname = 'public' 
---   AND table_name IN ('rooms', 'room_players', 'game_states');
+--   AND table_name IN ('rooms', 'room_players', 'room_bans', 'room_passwords', 'room_join_requests', 'room_host_heartbeats', 'game_states', 'game_state_patches', 'game_events', 'player_secrets', 'vote_ballots', 'player_actions', 'profiles');
 
 -- Verify all policies exist
 -- SELECT schemaname, tablename, policyname, cmd, qual, with_check
 -- FROM pg_policies
--- WHERE tablename IN ('rooms', 'room_players', 'game_states')
+-- WHERE tablename IN ('rooms', 'room_players', 'room_bans', 'room_passwords', 'room_join_requests', 'room_host_heartbeats', 'game_states', 'game_state_patches', 'game_events', 'player_secrets', 'vote_ballots', 'player_actions', 'profiles')
 -- ORDER BY table_name, policyname;
 
 -- =====================================================
@@ -467,15 +2938,60 @@ CREATE POLICY "game_states_update" ON game_states
 -- =====================================================
 -- ✅ Rooms: Host-only updates (settings control)
 -- ✅ Room Players: Self-updates + Host can manage all (bot management)
+--    - is_connected is kept current by the host from Realtime presence
 --    - Bots can be created with any valid UUID (no auth.users required)
 --    - Real players must exist in auth.users (enforced by validate_player_id trigger)
 --    - Foreign key constraint removed, replaced with trigger-based validation
+--    - The host can remove any player (kick); banned players can't insert themselves again
+-- ✅ Room Bans: host-only INSERT, readable by the host and the banned player
+-- ✅ Private rooms: rooms.privacy is open, password or approval
+--    - Players join a private room only once room_join_requests admits them
+--    - Passwords are bcrypt hashes in room_passwords, which nobody can SELECT
+--    - request_room_join() checks the password; the host admits/rejects approval requests
+-- ✅ Room capacity: enforce_room_capacity refuses new players (bots too) past rooms.capacity
+--    - The room row is locked while counting, so simultaneous joins can't overfill it
+-- ✅ Room browser: rooms.is_public lists a room for anyone to find
+--    - player_count and phase are kept on rooms by sync_room_player_count / sync_room_phase
+--    - The browser hides rooms that are full (player_count >= capacity) or past the lobby
+-- ✅ Server clock: server_time() returns the database time in epoch ms
+--    - Clients estimate their clock offset from it and count down to the host's phase deadlines
 -- ✅ Game States: 
 --    - Host-only INSERT (starting game)
---    - Any player in room can UPDATE (answer/vote submissions)
+--    - Host-only UPDATE (players submit through player_actions)
 --    - Any player in room can SELECT (view game state)
+-- ✅ Game state writes are versioned (compare-and-swap on game_states.version)
+-- ✅ Game State Patches: every game_states write is logged as JSON-patch ops for Realtime
+--    - patch_game_state() lets clients send diffs instead of the whole state
+--    - Room members can SELECT, only the record_game_state_patch trigger writes
+-- ✅ Game Events: append-only log, room members can SELECT
+--    - Appended by apply_player_action, tally_votes and log_game_state_events, in the write's transaction
+--    - Nobody INSERTs directly, so the log can't be forged
+-- ✅ Player Secrets: roles/questions/words kept out of game_states
+--    - Each player can SELECT only their own row, host can SELECT all
+--    - Host-only INSERT/DELETE (dealing a new game)
+-- ✅ Player Actions: answers, votes, ready and seen-role
+--    - Players INSERT their own (host for bots), apply_player_action applies them
+--    - Invalid actions are rejected, so players never need UPDATE on game_states
+-- ✅ Vote Ballots: cast_vote() validates every ballot, tally_votes() counts them
+--    - Room members can SELECT, nobody writes directly
+--    - Host-only tally; with no open ballots it returns NULL and changes nothing
+--    - tally_votes() applies the outcome to game_states in the same transaction
+--    - guard_game_state_outcome keeps every other write off eliminations, tie-breakers and winners
+--    - A new deal clears the room's ballots
+-- ✅ Profiles: username and avatar per auth user, readable and writable by that user only
+--    - Anonymous users are upgraded in place when they link an email, so the id never changes
 -- ✅ All reads: Open to room members or public (for joining)
 -- ✅ Host-only control is enforced in App.tsx for screen transitions
+-- ✅ Host migration: migrate_room_host() hands an abandoned room to a connected player
+--    - rooms.host_id, room_players.is_host and game_states.state->hostId in one transaction
+--    - Compare-and-swap on the old host_id, callers can only promote themselves
+--    - A takeover needs the host's heartbeat (touch_room_host) to be older than the disconnect timeout
+--    - The host can also hand the room to another human player (transferHost)
+-- ✅ Room expiry: rooms.last_activity_at is kept current by touch_room_activity
+--    - cleanup_stale_rooms() closes idle rooms and deletes their players/state/secrets/join requests
+--    - Room codes are unique among active rooms only, so expired codes are reused
+-- ✅ Room codes: 6 digits or 5 unambiguous characters (rooms_code_format)
+--    - A taken code fails on idx_rooms_active_code and the client retries with a fresh one
 -- ✅ Bot UUID validation: Trigger function validates UUID format for bots
 -- =====================================================
 
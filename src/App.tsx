@@ -1,25 +1,24 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Player, GameState, GameMode, WordPack, GamePack, WinnerType, PlayerRole } from './types';
-import { generateRoomCode } from './utils/gameUtils';
+import { Player, GameState, GameMode, WordPack, GamePack, PlayerSecret, Result, RoomCode, RoomError, RoomPrivacy } from './types';
+import { generateRoomCode } from './utils/roomCode';
+import { clearInviteFromUrl, readInviteCode } from './utils/inviteLink';
 import { createBot, generateBotAnswer } from './utils/botUtils';
 import { generateUUID } from './utils/uuid';
-import { determineWinner, initializeGame } from './utils/gameLogic';
-import { 
-  processRandomizeVotes, 
-  checkRandomizeAutoEnd, 
-  determineRandomizeWinner,
-  updateGameStateAfterRandomizeElimination,
-  prepareNextRandomizeRound,
-  appendUniqueTieVote
-} from './utils/randomizeGameLogic';
-import { processWordsGameVotes, determineWordsGameWinner } from './utils/wordsGameLogic';
-import { processVotingResults } from './utils/votingUtils';
+import { applyRoomRoster, GameAction, gameReducer, haveAllPlayersVoted, MIN_PLAYERS_TO_START } from './utils/gameReducer';
+import { PHASE_DEADLINE_GRACE_MS, stampPhaseDeadline } from './utils/phaseDeadline';
+import { buildPlayerSecrets } from './utils/playerSecrets';
+import { ok } from './utils/result';
+import { PassAndPlaySettings } from './utils/passAndPlay';
 import CustomQuestionCreationScreen from './components/CustomQuestionCreationScreen';
 import CustomWordCreationScreen from './components/CustomWordCreationScreen';
 import { useSupabaseRoom } from './hooks/useSupabaseRoom';
+import { useLocalStorage } from './hooks/useLocalStorage';
+import { useRoomOutbox } from './hooks/useRoomOutbox';
+import { useJoinRequests } from './hooks/useJoinRequests';
+import { useAccount } from './hooks/useAccount';
 import * as roomService from './services/roomService';
-import { signInAnonymously, getCurrentUserId } from './services/authService';
-import { playerToRoomPlayer, roomToGameState } from './utils/supabaseUtils';
+import { signInAnonymously, getCurrentUserId, linkEmail, sendMagicLink, setPassword, signInWithPassword, signOut, ProfileRow } from './services/authService';
+import { playerToRoomPlayer, roomPlayerToPlayer, roomToGameState } from './utils/supabaseUtils';
 
 // Import screens
 import EnteringScreen from './components/EnteringScreen';
@@ -27,6 +26,7 @@ import HomeScreen from './components/HomeScreen';
 import RoomModeScreen from './components/RoomModeScreen';
 import GamePackScreen from './components/GamePackScreen';
 import JoinRoomScreen from './components/JoinRoomScreen';
+import PublicRoomsScreen from './components/PublicRoomsScreen';
 import LobbyScreen from './components/LobbyScreen';
 import QuestionScreen from './components/QuestionScreen';
 import DiscussionScreen from './components/DiscussionScreen';
@@ -34,9 +34,32 @@ import VotingScreen from './components/VotingScreen';
 import VoteResultsScreen from './components/VoteResultsScreen';
 import ResultsScreen from './components/ResultsScreen';
 import RoleRevealModal from './components/RoleRevealModal';
+import SyncStatusBanner from './components/SyncStatusBanner';
+import SpectatorBanner from './components/SpectatorBanner';
+import RemovedFromRoomNotice from './components/RemovedFromRoomNotice';
 import AnswerDisplayScreen from './components/AnswerDisplayScreen';
+import PassAndPlaySetupScreen from './components/PassAndPlaySetupScreen';
+import PassAndPlayScreen from './components/PassAndPlayScreen';
+import AccountScreen from './components/AccountScreen';
 
-type Screen = 'entering' | 'home' | 'roomMode' | 'gamePack' | 'customQuestionCreation' | 'customWordCreation' | 'joinRoom' | 'lobby' | 'questions' | 'answers' | 'roleReveal' | 'discussion' | 'voting' | 'voteResults' | 'results';
+type Screen = 'entering' | 'home' | 'roomMode' | 'browseRooms' | 'passAndPlaySetup' | 'passAndPlay' | 'account' | 'gamePack' | 'customQuestionCreation' | 'customWordCreation' | 'joinRoom' | 'lobby' | 'questions' | 'answers' | 'roleReveal' | 'discussion' | 'voting' | 'voteResults' | 'results';
+
+// The room this browser is playing in, kept across reloads so the game can be resumed
+interface ActiveRoomSession {
+  roomId: string;
+  playerId: string;
+  screen: Screen;
+}
+
+// One saved session per player: tabs on the local transport are separate players sharing localStorage
+const ACTIVE_ROOM_SESSION_KEY = 'impasta:active-room';
+const activeRoomSessionKey = (playerId: string | null) => `${ACTIVE_ROOM_SESSION_KEY}:${playerId || 'signed-out'}`;
+
+// How often the server clock offset is measured again while in a room
+const SERVER_CLOCK_RESYNC_MS = 5 * 60 * 1000;
+
+// Screens where a resumed player gets their role shown again (role reveal shows it anyway)
+const SCREENS_AFTER_ROLE_REVEAL: Screen[] = ['questions', 'answers', 'discussion', 'voting', 'voteResults'];
 
 function App() {
   const [currentScreen, setCurrentScreen] = useState<Screen>('entering');
@@ -45,6 +68,32 @@ function App() {
   const [hasPlayedOnce, setHasPlayedOnce] = useState(false);
   const [roomId, setRoomId] = useState<string | null>(null);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [playerSecret, setPlayerSecret] = useState<PlayerSecret | null>(null);
+  const [activeSession, setActiveSession] = useLocalStorage<ActiveRoomSession | null>(activeRoomSessionKey(currentUserId), null);
+  const [hasCheckedResume, setHasCheckedResume] = useState(false);
+  const [isOwnRoleShown, setIsOwnRoleShown] = useState(false);
+  const [joinRoomError, setJoinRoomError] = useState<RoomError | null>(null);
+  const [lobbyError, setLobbyError] = useState<RoomError | null>(null);
+  const [voteError, setVoteError] = useState<RoomError | null>(null);
+  // Room from an invite link, joined once the player has entered their name
+  const [inviteCode, setInviteCode] = useState<RoomCode | null>(() => readInviteCode());
+  // Set when the host kicked or banned this player, until they close the notice
+  const [removalNotice, setRemovalNotice] = useState<{ wasBanned: boolean } | null>(null);
+  // Room this player has been seen in, so dropping out of its roster can be told apart from not having joined yet
+  const rosterRoomIdRef = useRef<string | null>(null);
+  // Who may join the room this player is in; only the host can change it
+  const [roomPrivacy, setRoomPrivacy] = useState<RoomPrivacy>('open');
+  // Whether the room is listed in the public room browser; only the host can change it
+  const [isRoomPublic, setIsRoomPublic] = useState(false);
+  // Room picked in the room browser, joined from the join screen
+  const [browsedRoomCode, setBrowsedRoomCode] = useState<RoomCode | null>(null);
+  // Room code that asked for a password, so the join screen shows the password field
+  const [passwordRoomCode, setPasswordRoomCode] = useState<RoomCode | null>(null);
+  // Private room this player asked to join and is waiting on the host for
+  const [pendingJoinRoom, setPendingJoinRoom] = useState<roomService.RoomRow | null>(null);
+  // Pass and play game on this device - never touches a room or the backend
+  const [passAndPlaySettings, setPassAndPlaySettings] = useState<PassAndPlaySettings | null>(null);
+  const resumeAttemptedRef = useRef(false);
   const gameStateUpdateTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   
   const [gameState, setGameState] = useState<GameState>({
@@ -86,15 +135,39 @@ function App() {
   // Initialize authentication
   useEffect(() => {
     async function initAuth() {
-      let userId = await getCurrentUserId();
+      const existing = await getCurrentUserId();
+      let userId = existing.ok ? existing.value : null;
       if (!userId) {
-        userId = await signInAnonymously();
+        const signedIn = await signInAnonymously();
+        if (!signedIn.ok) {
+          console.error('❌ Could not sign in:', signedIn.error.kind, signedIn.error.message);
+        }
+        userId = signedIn.ok ? signedIn.value : null;
       }
       setCurrentUserId(userId);
+
+      // Close rooms abandoned since the last sweep (pg_cron also does this on the server)
+      if (userId) {
+        roomService.cleanupStaleRooms();
+      }
     }
     initAuth();
   }, []);
 
+  // Fetch this player's own role and question/word whenever a game is in progress
+  useEffect(() => {
+    if (!roomId || !currentUserId || gameState.phase === 'lobby') {
+      setPlayerSecret(null);
+      return;
+    }
+
+    let cancelled = false;
+    roomService.getPlayerSecret(roomId, currentUserId).then(secret => {
+      if (!cancelled && secret.ok) setPlayerSecret(secret.value);
+    });
+    return () => { cancelled = true; };
+  }, [roomId, currentUserId, gameState.phase]);
+
   // Save game state to Supabase when it changes (debounced)
   const saveGameStateToSupabase = useCallback(async (state: GameState) => {
     if (!roomId) return;
@@ -104,15 +177,52 @@ function App() {
       clearTimeout(gameStateUpdateTimeoutRef.current);
     }
 
+    // The state being saved was built on what the client has now, not on what arrives while waiting
+    const base = roomService.getAcknowledgedGameState(roomId);
+
     // Debounce updates to avoid too many writes
     gameStateUpdateTimeoutRef.current = setTimeout(async () => {
-      await roomService.saveGameState(roomId, state as unknown as Record<string, unknown>);
+      await roomService.saveGameState(roomId, state as unknown as Record<string, unknown>, base);
     }, 500);
   }, [roomId]);
 
+  // Writes still queued for the room, shown as "Syncing..." / offline / failed
+  const roomOutbox = useRoomOutbox(roomId);
+  const joinRequests = useJoinRequests(roomId, !!roomId && currentUserId === gameState.hostId);
+
+  // The name and avatar are kept on the user's profile, so a returning player doesn't type them again
+  const handleProfileLoaded = useCallback((profile: ProfileRow) => {
+    setUsername(profile.username);
+    setAvatar(profile.avatar || '');
+  }, []);
+  const { account, reloadAccount } = useAccount(currentUserId, username, avatar, handleProfileLoaded);
+
+  // Phase deadlines are on the server clock: measure this device's offset on entering a room
+  // and now and then after, since device clocks drift
+  useEffect(() => {
+    if (!roomId) return;
+
+    roomService.syncServerClock();
+    const resync = setInterval(() => roomService.syncServerClock(), SERVER_CLOCK_RESYNC_MS);
+    return () => clearInterval(resync);
+  }, [roomId]);
+
+  // Host: the deadline of the timed phase that has run out (after a short grace), so the phase can be moved on
+  const [expiredPhaseDeadline, setExpiredPhaseDeadline] = useState<number | null>(null);
+  useEffect(() => {
+    const deadline = gameState.phaseDeadline;
+    if (deadline === undefined || currentUserId !== gameState.hostId) return;
+
+    const timer = setTimeout(() => setExpiredPhaseDeadline(deadline), Math.max(0, deadline + PHASE_DEADLINE_GRACE_MS - roomService.serverNow()));
+    return () => clearTimeout(timer);
+  }, [gameState.phaseDeadline, gameState.hostId, currentUserId]);
+  const isPhaseTimeUp = gameState.phaseDeadline !== undefined && expiredPhaseDeadline === gameState.phaseDeadline;
+
   // Use Supabase room hook for real-time updates
   useSupabaseRoom({
     roomId,
+    isHost: !!currentUserId && currentUserId === gameState.hostId,
+    hostId: gameState.hostId,
     onGameStateUpdate: (updatedState) => {
       // Update game state and sync screen
       console.log('📥 Received game state update from Supabase:', {
@@ -149,7 +259,14 @@ function App() {
       });
     },
     onPlayersUpdate: (players) => {
-      setGameState(prev => ({ ...prev, players }));
+      // Gone from a roster that was in this room before: the host removed this player
+      // (an empty roster is a room that expired, not a kick)
+      if (roomId && currentUserId && players.length > 0 && rosterRoomIdRef.current === roomId &&
+          !players.some(p => p.id === currentUserId)) {
+        handleRemovedFromRoom(roomId);
+        return;
+      }
+      setGameState(prev => applyRoomRoster(prev, players));
     },
     onScreenUpdate: (screen) => {
       // Sync screen from game state (only if different to avoid loops)
@@ -163,6 +280,15 @@ function App() {
   });
 
 
+  // Remember the room once this player shows up in it (joined, created or resumed)
+  useEffect(() => {
+    if (!roomId || !currentUserId) return;
+    const isInRoom = [...gameState.players, ...(gameState.spectators || [])].some(p => p.id === currentUserId);
+    if (isInRoom) {
+      rosterRoomIdRef.current = roomId;
+    }
+  }, [roomId, currentUserId, gameState.players, gameState.spectators]);
+
   // Save game state when it changes (only if user is host)
   // CRITICAL: Only save when host makes explicit changes, NOT when receiving real-time syncs
   // Real-time syncs are handled by onGameStateUpdate callback
@@ -186,6 +312,7 @@ function App() {
       phase: gameState.phase,
       currentScreen: currentScreen,
       players: gameState.players.length,
+      spectators: gameState.spectators?.length || 0,
       submittedAnswers: Object.keys(gameState.submittedAnswers || {}).length,
       votes: Object.keys(gameState.votes || {}).length
     });
@@ -288,6 +415,7 @@ function App() {
             ...gameState,
             phase: 'lobby',
             players: [hostPlayer],
+            spectators: [],
       hostId: currentUserId,
       roomCode: roomCode,
       selectedPack: pack,
@@ -327,17 +455,22 @@ function App() {
         gameState.impostorCount,
         gameState.hasJester,
         gameState.isRandomizeMode,
-        pack
+        pack,
+        'en'
       ),
-    ]).then(async ([room]) => {
-      if (!room) {
-        console.error('Failed to create room');
+    ]).then(async ([created]) => {
+      if (!created.ok) {
+        console.error('Failed to create room:', created.error.kind, created.error.message);
         // Revert to previous screen on error
         setCurrentScreen('gamePack');
         return;
       }
 
+      const room = created.value;
       setRoomId(room.id);
+      // The code shown optimistically may have been taken - the room got a free one instead
+      const createdGameState: GameState = { ...newGameState, roomCode: room.code };
+      setGameState(prev => ({ ...prev, roomCode: room.code }));
 
       // Run remaining operations in parallel
       await Promise.all([
@@ -351,7 +484,7 @@ function App() {
         false
         ),
         // Save game state (non-critical, can be deferred)
-        roomService.saveGameState(room.id, newGameState as unknown as Record<string, unknown>)
+        roomService.saveGameState(room.id, createdGameState as unknown as Record<string, unknown>)
       ]);
     }).catch((error) => {
       console.error('Error during room creation:', error);
@@ -388,6 +521,7 @@ function App() {
           ...gameState,
           phase: 'lobby',
           players: [hostPlayer],
+          spectators: [],
       hostId: currentUserId,
       roomCode: roomCode,
       selectedPack: 'custom',
@@ -430,17 +564,22 @@ function App() {
         gameState.impostorCount,
         gameState.hasJester,
         gameState.isRandomizeMode,
-        'custom'
+        'custom',
+        'en'
       ),
-    ]).then(async ([room]) => {
-      if (!room) {
-        console.error('Failed to create room');
+    ]).then(async ([created]) => {
+      if (!created.ok) {
+        console.error('Failed to create room:', created.error.kind, created.error.message);
         // Revert to previous screen on error
         setCurrentScreen('customQuestionCreation');
         return;
       }
 
+      const room = created.value;
       setRoomId(room.id);
+      // The code shown optimistically may have been taken - the room got a free one instead
+      const createdGameState: GameState = { ...newGameState, roomCode: room.code };
+      setGameState(prev => ({ ...prev, roomCode: room.code }));
 
       // Run remaining operations in parallel
       await Promise.all([
@@ -454,7 +593,7 @@ function App() {
         false
         ),
         // Save game state (non-critical, can be deferred)
-        roomService.saveGameState(room.id, newGameState as unknown as Record<string, unknown>)
+        roomService.saveGameState(room.id, createdGameState as unknown as Record<string, unknown>)
       ]);
     }).catch((error) => {
       console.error('Error during room creation:', error);
@@ -472,21 +611,23 @@ function App() {
     const roomCode = generateRoomCode();
     
     // Create room in Supabase
-    const room = await roomService.createRoom(
+    const created = await roomService.createRoom(
       currentUserId,
       roomCode,
       gameState.gameMode,
       gameState.impostorCount,
       gameState.hasJester,
       gameState.isRandomizeMode,
-      'custom'
+      'custom',
+      'en'
     );
 
-    if (!room) {
-      console.error('Failed to create room');
+    if (!created.ok) {
+      console.error('Failed to create room:', created.error.kind, created.error.message);
       return;
     }
 
+    const room = created.value;
     setRoomId(room.id);
 
     const hostPlayer: Player = {
@@ -517,8 +658,9 @@ function App() {
         ...gameState,
         phase: 'lobby',
         players: [hostPlayer],
+        spectators: [],
       hostId: currentUserId,
-      roomCode: roomCode,
+      roomCode: room.code,
       selectedPack: 'custom',
       selectedPackType: 'custom',
       currentRound: 1,
@@ -566,11 +708,7 @@ function App() {
     
     console.log('🎯 Host starting voting phase');
     
-    const updatedState = {
-      ...gameState,
-      phase: 'voting' as const,
-      currentScreen: 'voting' as const
-    };
+    const updatedState = roomService.applyGameAction(gameState, { type: 'startVoting' });
     
     setGameState(updatedState);
     setCurrentScreen('voting');
@@ -594,106 +732,244 @@ function App() {
     }
   }, [currentUserId, gameState.hostId, gameState, roomId]);
 
-  const handleJoinRoomSubmit = async (roomCode: string) => {
-    if (!currentUserId) {
-      console.error('User not authenticated');
-      return;
+  // Load a room's players and game state into local state and show the screen it is on
+  // Shared by joining by code and by resuming after a reload
+  const loadRoom = useCallback(async (room: roomService.RoomRow): Promise<Result<GameState>> => {
+    // Get existing players and game state in parallel for better performance
+    const [roomPlayers, gameStateData] = await Promise.all([
+      roomService.getRoomPlayers(room.id),
+      roomService.loadGameState(room.id)
+    ]);
+    if (!roomPlayers.ok) {
+      return roomPlayers;
+    }
+    if (!gameStateData.ok) {
+      return gameStateData;
     }
-
-    try {
-      // Get room by code with timeout
-      const room = await Promise.race([
-        roomService.getRoomByCode(roomCode),
-        new Promise<null>((_, reject) => 
-          setTimeout(() => reject(new Error('Room lookup timeout')), 10000)
-        )
-      ]) as Awaited<ReturnType<typeof roomService.getRoomByCode>>;
-      
-      if (!room) {
-        console.error('Room not found');
-        // TODO: Show error message to user
-        return;
-      }
-
-      if (!room.is_active) {
-        console.error('Room is not active');
-        // TODO: Show error message to user
-        return;
-      }
-
-      setRoomId(room.id);
-
-      // Add player to room (or update if already exists)
-      // UPSERT handles re-joins gracefully - if player already exists, it updates their status
-      const roomPlayer = await Promise.race([
-        roomService.addPlayerToRoom(
-          room.id,
-          currentUserId,
-          username,
-          avatar || null,
-          false,
-          false
-        ),
-        new Promise<null>((_, reject) => 
-          setTimeout(() => reject(new Error('Add player timeout')), 10000)
-        )
-      ]) as Awaited<ReturnType<typeof roomService.addPlayerToRoom>>;
-
-      if (!roomPlayer) {
-        console.error('Failed to join room - player may already be in room or database error occurred');
-        // Try to get existing players to see if we're already in the room
-        const existingPlayers = await roomService.getRoomPlayers(room.id);
-        const alreadyInRoom = existingPlayers.some(p => p.player_id === currentUserId);
-        
-        if (alreadyInRoom) {
-          console.log('Player already in room, continuing with existing data...');
-          // Continue with existing room data instead of failing
-        } else {
-          // Real error - can't join
-          return;
-        }
-      }
-
-      // Get existing players and game state in parallel for better performance
-      const [roomPlayers, gameStateData] = await Promise.all([
-        roomService.getRoomPlayers(room.id),
-        roomService.getGameState(room.id)
-      ]);
 
     // Convert room data to game state
-    const existingGameState = gameStateData?.state as GameState | undefined;
-    const players = roomPlayers.map(rp => {
-      const playerFromState = existingGameState?.players.find(p => p.id === rp.player_id);
-      return {
-        id: rp.player_id,
-        username: rp.username,
-        avatar: rp.avatar || undefined,
-        isHost: rp.is_host,
-        role: playerFromState?.role || 'innocent',
-        isConnected: rp.is_connected,
-        answer: playerFromState?.answer || '',
-        hasVoted: playerFromState?.hasVoted || false,
-        hasSubmittedAnswer: playerFromState?.hasSubmittedAnswer || false,
-        hasSeenRole: playerFromState?.hasSeenRole || false,
-        isEliminated: playerFromState?.isEliminated || false,
-        isBot: rp.is_bot,
-      };
-    });
+    const existingGameState = gameStateData.value || undefined;
+    const players = roomPlayers.value.map(rp => roomPlayerToPlayer(rp, existingGameState));
 
     // Merge room data with existing game state
+    // Someone joining a game that is already running watches it as a spectator
     const roomGameStateData = roomToGameState(room);
-    const mergedGameState: GameState = {
+    const roomGameState = {
       ...existingGameState,
       ...roomGameStateData,
-      players,
       roomCode: room.code,
       hostId: room.host_id,
     } as GameState;
+    const mergedGameState = existingGameState
+      ? applyRoomRoster(roomGameState, players)
+      : { ...roomGameState, players };
 
     setGameState(mergedGameState);
+    setRoomPrivacy(room.privacy);
+    setIsRoomPublic(room.is_public);
     // Sync screen from game state if available, otherwise default to lobby
     const screenToShow = mergedGameState.currentScreen || 'lobby';
     setCurrentScreen(screenToShow as Screen);
+    return ok(mergedGameState);
+  }, []);
+
+  // Resume the room this browser was in before a reload or app switch
+  // Re-setting roomId re-subscribes; loadRoom re-fetches players and game state
+  useEffect(() => {
+    if (!currentUserId || resumeAttemptedRef.current) return;
+    resumeAttemptedRef.current = true;
+
+    // Sessions belong to one identity - another player's session can't be resumed
+    if (!activeSession || activeSession.playerId !== currentUserId) {
+      setHasCheckedResume(true);
+      return;
+    }
+
+    async function resume(session: ActiveRoomSession) {
+      try {
+        const [roomResult, roomPlayers] = await Promise.all([
+          roomService.getRoomById(session.roomId),
+          roomService.getRoomPlayers(session.roomId)
+        ]);
+        const room = roomResult.ok ? roomResult.value : null;
+        const me = roomPlayers.ok ? roomPlayers.value.find(p => p.player_id === session.playerId) : undefined;
+
+        // Offline or timed out - keep the session so the next launch can try again
+        if (!roomResult.ok && (roomResult.error.kind === 'network' || roomResult.error.kind === 'timeout')) {
+          console.warn('⚠️ Could not reach the saved room - not resuming this time:', roomResult.error.message);
+          return;
+        }
+
+        if (!room || roomService.isRoomExpired(room) || !me) {
+          setActiveSession(null);
+          return;
+        }
+
+        setUsername(me.username);
+        setAvatar(me.avatar || '');
+        setRoomId(room.id);
+        const restored = await loadRoom(room);
+        if (!restored.ok) {
+          console.error('❌ Could not load the saved room:', restored.error.kind, restored.error.message);
+          return;
+        }
+        const restoredState = restored.value;
+
+        // No game state yet (e.g. still creating custom content) - go back where we were
+        if (!restoredState.currentScreen && session.screen !== 'entering') {
+          setCurrentScreen(session.screen);
+        }
+
+        // Show this player their own role again - locally, without re-running role reveal
+        if (restoredState.currentScreen && SCREENS_AFTER_ROLE_REVEAL.includes(restoredState.currentScreen)) {
+          setIsOwnRoleShown(true);
+        }
+      } catch (error) {
+        console.error('Error resuming room:', error);
+      } finally {
+        setHasCheckedResume(true);
+      }
+    }
+
+    resume(activeSession);
+  }, [currentUserId, activeSession, setActiveSession, loadRoom]);
+
+  // Keep the saved session in step with the room and screen we are on
+  useEffect(() => {
+    if (!hasCheckedResume) return;
+    if (!roomId || !currentUserId) {
+      setActiveSession(null);
+      return;
+    }
+    setActiveSession({ roomId, playerId: currentUserId, screen: currentScreen });
+  }, [hasCheckedResume, roomId, currentUserId, currentScreen, setActiveSession]);
+
+  const dismissInvite = () => {
+    setInviteCode(null);
+    clearInviteFromUrl();
+  };
+
+  // Signing in to an account switches this device to that account's user
+  const refreshSignedInUser = useCallback(async () => {
+    const userId = await getCurrentUserId();
+    if (userId.ok && userId.value) {
+      setCurrentUserId(userId.value);
+    }
+    reloadAccount();
+  }, [reloadAccount]);
+
+  // Upgrades the guest in place: same user id, so rooms and the profile carry over
+  const handleLinkEmail = async (email: string) => {
+    const linked = await linkEmail(email);
+    if (linked.ok) reloadAccount();
+    return linked;
+  };
+
+  const handleSignIn = async (email: string, password: string | null): Promise<Result<void>> => {
+    const signedIn = password ? await signInWithPassword(email, password) : await sendMagicLink(email);
+    if (!signedIn.ok) return signedIn;
+
+    await refreshSignedInUser();
+    return ok();
+  };
+
+  // Carry on as a new guest; the name and avatar stay with the account
+  const handleSignOut = async () => {
+    const signedOut = await signOut();
+    if (!signedOut.ok) {
+      console.error('❌ Could not sign out:', signedOut.error.kind, signedOut.error.message);
+      return;
+    }
+
+    const guest = await signInAnonymously();
+    if (!guest.ok) {
+      console.error('❌ Could not sign in:', guest.error.kind, guest.error.message);
+    }
+    setCurrentUserId(guest.ok ? guest.value : null);
+    setUsername('');
+    setAvatar('');
+    setCurrentScreen('home');
+  };
+
+  // The join screen picks the invited code up and joins it straight away
+  const handleJoinInvite = () => {
+    setJoinRoomError(null);
+    setCurrentScreen('joinRoom');
+  };
+
+  // Join a room this player has been let into
+  const enterRoom = useCallback(async (room: roomService.RoomRow) => {
+    if (!currentUserId) return;
+
+    // Add player to room (or update if already exists)
+    // UPSERT handles re-joins gracefully - if player already exists, it updates their status
+    const joined = await roomService.addPlayerToRoom(
+      room.id,
+      currentUserId,
+      username,
+      avatar || null,
+      false,
+      false
+    );
+    if (!joined.ok) {
+      console.error('❌ Failed to join room:', joined.error.kind, joined.error.message);
+      setJoinRoomError(joined.error);
+      return;
+    }
+
+    setJoinRoomError(null);
+    setPasswordRoomCode(null);
+    setPendingJoinRoom(null);
+    setBrowsedRoomCode(null);
+    setRoomId(room.id);
+    setInviteCode(null);
+    clearInviteFromUrl();
+
+    const loaded = await loadRoom(room);
+    if (!loaded.ok) {
+      console.error('❌ Failed to load room:', loaded.error.kind, loaded.error.message);
+      setRoomId(null);
+      setJoinRoomError(loaded.error);
+    }
+  }, [currentUserId, username, avatar, loadRoom]);
+
+  const handleJoinRoomSubmit = async (roomCode: RoomCode, password?: string) => {
+    if (!currentUserId) {
+      console.error('User not authenticated');
+      return;
+    }
+
+    try {
+      // Room calls time out on their own, as a 'timeout' error
+      const found = await roomService.getRoomByCode(roomCode);
+      if (!found.ok) {
+        console.warn('❌ Could not join room:', found.error.kind, found.error.message);
+        setJoinRoomError(found.error);
+        return;
+      }
+      const room = found.value;
+
+      // Password rooms ask for the password before trying
+      if (room.privacy === 'password' && !password) {
+        setJoinRoomError(null);
+        setPasswordRoomCode(room.code);
+        return;
+      }
+
+      const entry = await roomService.requestRoomEntry(room, currentUserId, username, avatar || null, password || null);
+      if (!entry.ok) {
+        console.warn('❌ Not let into room:', entry.error.kind, entry.error.message);
+        setJoinRoomError(entry.error);
+        return;
+      }
+
+      if (entry.value === 'pending') {
+        setJoinRoomError(null);
+        setPendingJoinRoom(room);
+        return;
+      }
+
+      await enterRoom(room);
     } catch (error) {
       console.error('Error joining room:', error);
       // Reset loading state will be handled by JoinRoomScreen
@@ -701,6 +977,23 @@ function App() {
     }
   };
 
+  // Wait for the host to answer our request to join a private room
+  useEffect(() => {
+    if (!pendingJoinRoom || !currentUserId) return;
+
+    const subscription = roomService.subscribeToJoinRequests(pendingJoinRoom.id, requests => {
+      const mine = requests.find(r => r.player_id === currentUserId);
+      if (mine?.status === 'admitted') {
+        enterRoom(pendingJoinRoom);
+      } else if (mine?.status === 'rejected') {
+        console.warn('❌ The host turned down our request to join');
+        setPendingJoinRoom(null);
+        setJoinRoomError({ kind: 'rejected', message: 'The host turned down the request to join' });
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [pendingJoinRoom, currentUserId, enterRoom]);
+
   const handleAddBot = async () => {
     // Only host can add bots
     if (roomId && currentUserId !== gameState.hostId) {
@@ -733,8 +1026,13 @@ function App() {
       true
     );
 
-    if (!botPlayer) {
-      console.warn('⚠️ Bot creation failed - this is OK! Bots are optional.');
+    if (!botPlayer.ok) {
+      // A full room is worth telling the host about; anything else is just logged
+      if (botPlayer.error.kind === 'full') {
+        setLobbyError(botPlayer.error);
+        return;
+      }
+      console.warn('⚠️ Bot creation failed - this is OK! Bots are optional.', botPlayer.error.kind);
       console.info('💡 Tip: You can test the game by opening multiple browser tabs/windows instead');
       console.info('💡 To enable bots, make sure COMPLETE_SUPABASE_SETUP.sql has been run in Supabase');
       // Don't show alert - bots are optional, just log and return gracefully
@@ -742,6 +1040,7 @@ function App() {
     }
 
     console.log('✅ Bot added to room_players table');
+    setLobbyError(null);
 
     // Update local state immediately
     const updatedPlayers = [...gameState.players, { ...bot, id: botId }];
@@ -762,6 +1061,112 @@ function App() {
   };
 
 
+  const handleKickPlayer = async (playerId: string) => {
+    // Only host can remove players, and not themselves
+    if (!roomId || currentUserId !== gameState.hostId || playerId === currentUserId) {
+      console.warn('Only host can remove other players');
+      return;
+    }
+
+    const removed = await roomService.removePlayerFromRoom(roomId, playerId);
+    setLobbyError(removed.ok ? null : removed.error);
+    if (removed.ok) {
+      setGameState(prev => ({ ...prev, players: prev.players.filter(p => p.id !== playerId) }));
+    }
+  };
+
+  const handleBanPlayer = async (playerId: string) => {
+    // Only host can ban players, and not themselves
+    if (!roomId || !currentUserId || currentUserId !== gameState.hostId || playerId === currentUserId) {
+      console.warn('Only host can ban other players');
+      return;
+    }
+
+    const banned = await roomService.banPlayer(roomId, currentUserId, playerId);
+    setLobbyError(banned.ok ? null : banned.error);
+    if (banned.ok) {
+      setGameState(prev => ({ ...prev, players: prev.players.filter(p => p.id !== playerId) }));
+    }
+  };
+
+  const handleTransferHost = async (playerId: string) => {
+    // Only host can hand the room over
+    if (!roomId || !currentUserId || currentUserId !== gameState.hostId || playerId === currentUserId) {
+      console.warn('Only host can hand the room to another player');
+      return;
+    }
+
+    const transferred = await roomService.transferHost(roomId, currentUserId, playerId);
+    setLobbyError(transferred.ok ? null : transferred.error);
+    if (transferred.ok) {
+      // The new hostId also arrives as a game state patch; set it now so this client stops acting as host
+      setGameState(prev => ({
+        ...prev,
+        hostId: playerId,
+        players: prev.players.map(p => ({ ...p, isHost: p.id === playerId }))
+      }));
+    }
+  };
+
+  const handlePrivacyChange = async (privacy: RoomPrivacy, password?: string) => {
+    // Only host can decide who may join
+    if (!roomId || currentUserId !== gameState.hostId) {
+      console.warn('Only host can change who may join');
+      return;
+    }
+
+    const updated = await roomService.setRoomPrivacy(roomId, privacy, password);
+    setLobbyError(updated.ok ? null : updated.error);
+    if (updated.ok) {
+      setRoomPrivacy(updated.value.privacy);
+    }
+  };
+
+  const handlePublicToggle = async (isPublic: boolean) => {
+    // Only host can list the room
+    if (!roomId || currentUserId !== gameState.hostId) {
+      console.warn('Only host can list the room publicly');
+      return;
+    }
+
+    setIsRoomPublic(isPublic);
+    const updated = await roomService.updateRoom(roomId, { is_public: isPublic });
+    setLobbyError(updated.ok ? null : updated.error);
+    if (!updated.ok) {
+      setIsRoomPublic(!isPublic);
+    }
+  };
+
+  // The join screen takes the picked room from here, so password and approval rooms work as usual
+  const handleJoinPublicRoom = (code: RoomCode) => {
+    setJoinRoomError(null);
+    setBrowsedRoomCode(code);
+    setCurrentScreen('joinRoom');
+  };
+
+  const handleAnswerJoinRequest = async (playerId: string, admit: boolean) => {
+    // Only host can let players in
+    if (!roomId || currentUserId !== gameState.hostId) {
+      console.warn('Only host can answer join requests');
+      return;
+    }
+
+    const answered = await roomService.answerJoinRequest(roomId, playerId, admit);
+    setLobbyError(answered.ok ? null : answered.error);
+  };
+
+  // The host kicked or banned this player: go home and say why
+  const handleRemovedFromRoom = async (removedFromRoomId: string) => {
+    rosterRoomIdRef.current = null;
+    console.warn('🚪 Removed from the room by the host');
+    handleBackToHome();
+
+    const banned = currentUserId
+      ? await roomService.isPlayerBanned(removedFromRoomId, currentUserId)
+      : null;
+    setRemovalNotice({ wasBanned: !!banned?.ok && banned.value });
+  };
+
   const handleImpostorCountChange = async (count: number) => {
     // Only host can change settings
     if (roomId && currentUserId !== gameState.hostId) {
@@ -772,7 +1177,8 @@ function App() {
     setGameState(prev => ({ ...prev, impostorCount: count }));
     // Update room in Supabase if user is host
     if (roomId && currentUserId === gameState.hostId) {
-      await roomService.updateRoom(roomId, { impostor_count: count });
+      const updated = await roomService.updateRoom(roomId, { impostor_count: count });
+      setLobbyError(updated.ok ? null : updated.error);
     }
   };
 
@@ -786,7 +1192,8 @@ function App() {
     setGameState(prev => ({ ...prev, isRandomizeMode: enabled }));
     // Update room in Supabase if user is host
     if (roomId && currentUserId === gameState.hostId) {
-      await roomService.updateRoom(roomId, { is_randomize_mode: enabled });
+      const updated = await roomService.updateRoom(roomId, { is_randomize_mode: enabled });
+      setLobbyError(updated.ok ? null : updated.error);
     }
   };
 
@@ -800,7 +1207,8 @@ function App() {
     setGameState(prev => ({ ...prev, hasJester: enabled }));
     // Update room in Supabase if user is host
     if (roomId && currentUserId === gameState.hostId) {
-      await roomService.updateRoom(roomId, { has_jester: enabled });
+      const updated = await roomService.updateRoom(roomId, { has_jester: enabled });
+      setLobbyError(updated.ok ? null : updated.error);
     }
   };
 
@@ -818,11 +1226,11 @@ function App() {
       setCurrentScreen(newScreen);
       
       // Update game state with new screen (will trigger save to Supabase if host)
-      return {
+      return stampPhaseDeadline(prev, {
         ...prev,
         currentScreen: newScreen,
         ...additionalStateUpdates
-      };
+      }, roomService.serverNow());
     });
   }, [currentUserId, roomId]);
 
@@ -841,8 +1249,9 @@ function App() {
     }
 
     // Check if all non-spectator players have submitted (including bots)
-    const allPlayersSubmitted = nonSpectatorPlayers.every(player => 
-      gameState.submittedAnswers[player.id] || player.isBot
+    // Players who have dropped (presence lost) are not waited for, and nobody is once time is up
+    const allPlayersSubmitted = isPhaseTimeUp || nonSpectatorPlayers.every(player => 
+      gameState.submittedAnswers[player.id] || player.isBot || !player.isConnected
     );
     
     // Debug logging
@@ -856,6 +1265,7 @@ function App() {
       nonBotSubmitted: nonBotSubmittedCount,
       submittedAnswers: gameState.submittedAnswers,
       allPlayersSubmitted,
+      isPhaseTimeUp,
       currentScreen,
       phase: gameState.phase
     });
@@ -884,13 +1294,12 @@ function App() {
         };
         setGameState(updatedState);
         
-        // Save bot answers to Supabase immediately
+        // Save bot answers to Supabase immediately, as player actions the host submits for them
+        // The backend applies each to the latest stored answers and logs it
         if (roomId && currentUserId === gameState.hostId) {
-          const stateToSave = {
-            ...updatedState,
-            currentScreen: currentScreen
-          };
-          roomService.saveGameState(roomId, stateToSave as unknown as Record<string, unknown>);
+          Object.entries(botAnswers).forEach(([botId, answer]) => {
+            roomService.submitPlayerAction(roomId, botId, { kind: 'answer', answer });
+          });
         }
         return; // Wait for next render after bot answers are added
       }
@@ -902,10 +1311,7 @@ function App() {
         
         // CRITICAL: Save to Supabase IMMEDIATELY so all players sync
         // Don't rely on transitionToScreen's debounced save - this is a critical transition
-        const updatedStateForTransition = {
-          ...gameState,
-          currentScreen: 'roleReveal' as const
-        };
+        const updatedStateForTransition = roomService.applyGameAction(gameState, { type: 'revealRoles' });
         
         setGameState(updatedStateForTransition);
         setCurrentScreen('roleReveal');
@@ -913,11 +1319,9 @@ function App() {
         // Save immediately to Supabase
         if (roomId) {
           isSavingRef.current = true;
-          const stateToSave = {
-            ...updatedStateForTransition,
-            currentScreen: 'roleReveal'
-          };
-          roomService.saveGameState(roomId, stateToSave as unknown as Record<string, unknown>)
+          roomService.dispatchGameAction(roomId, { type: 'revealRoles' }, latest =>
+            latest.currentScreen === 'questions'
+          )
             .then(() => {
               console.log('✅ Transitioned to roleReveal - state saved to Supabase, all players should sync');
               setTimeout(() => { isSavingRef.current = false; }, 1000);
@@ -929,7 +1333,7 @@ function App() {
         }
       }
     }
-  }, [gameState.submittedAnswers, gameState.players, currentScreen, gameState.phase, currentUserId, gameState.hostId, roomId]);
+  }, [gameState.submittedAnswers, gameState.players, currentScreen, gameState.phase, currentUserId, gameState.hostId, roomId, isPhaseTimeUp]);
 
   const handleStartGame = () => {
     // Only host can start the game
@@ -939,57 +1343,22 @@ function App() {
     }
 
     console.log('handleStartGame called, players:', gameState.players.length);
-    if (gameState.players.length < 3) {
-      alert('Need at least 3 players to start the game');
+    if (gameState.players.length < MIN_PLAYERS_TO_START) {
+      alert(`Need at least ${MIN_PLAYERS_TO_START} players to start the game`);
       return;
     }
     
     // Mark that we've played at least once
     setHasPlayedOnce(true);
 
-    const customContent = gameState.gameMode === 'questions'
-      ? [gameState.currentQuestion, gameState.currentImpostorQuestion]
-      : [gameState.currentWord];
-
-    const newGameState = initializeGame(
-      gameState.players,
-      gameState.isRandomizeMode ? 'randomize' : gameState.impostorCount,
-      gameState.hasJester,
-      gameState.gameMode,
-      gameState.isRandomizeMode,
-      gameState.selectedPackType === 'custom' ? customContent : undefined,
-      gameState.selectedPackType // Pass the selected pack type
-    );
-
-    // Determine target screen based on role
-    const currentPlayer = gameState.players.find(p => p.username === username);
-    const targetScreen: Screen = currentPlayer?.role === 'spectator' ? 'answers' : 'questions';
-    
-    const updatedGameState = {
-      ...gameState,
-      ...newGameState,
-      // Preserve players and room info from lobby
-      players: newGameState.players.map(p => {
-        const oldPlayer = gameState.players.find(op => op.id === p.id);
-        return { ...oldPlayer, ...p };
-      }),
-      roomCode: gameState.roomCode, 
-      selectedPack: gameState.selectedPack,
-      selectedPackType: gameState.selectedPackType,
-      // IMPORTANT: Include currentScreen in game state for syncing
-      currentScreen: targetScreen
-    };
+    const updatedGameState = roomService.applyGameAction(gameState, { type: 'startGame' });
+    const targetScreen: Screen = updatedGameState.currentScreen || 'questions';
     
     setGameState(updatedGameState);
     
     // Transition to screen immediately (optimistic update)
-    if (currentPlayer?.role === 'spectator') {
-      console.log('Host is spectator, going to answers screen to wait for players');
-      setCurrentScreen('answers');
-    } else {
-      console.log('Setting screen to questions');
-      setCurrentScreen('questions');
-    }
+    console.log('Setting screen to', targetScreen);
+    setCurrentScreen(targetScreen);
     
     // CRITICAL: Save to Supabase IMMEDIATELY so all players see the game start
     // Don't rely on debounced save - this is a critical transition
@@ -1000,8 +1369,16 @@ function App() {
         ...updatedGameState,
         currentScreen: targetScreen
       };
-      roomService.saveGameState(roomId, stateToSave as unknown as Record<string, unknown>)
-        .then(() => {
+      // Secrets go first so players can read their role as soon as the dealt state arrives
+      // Both are queued in the outbox, which keeps retrying them in order while the connection is down
+      roomService.savePlayerSecrets(roomId, buildPlayerSecrets(updatedGameState))
+        .then(() => roomService.saveGameState(roomId, stateToSave as unknown as Record<string, unknown>))
+        .then((saved) => {
+          if (!saved.ok) {
+            console.error('❌ Game start state could not be saved - waiting for the player to retry', saved.error);
+            isSavingRef.current = false;
+            return;
+          }
           console.log('✅ Game started - state saved to Supabase, all players should sync');
           // Reset flag after a short delay
           setTimeout(() => { isSavingRef.current = false; }, 1000);
@@ -1017,84 +1394,31 @@ function App() {
     const currentPlayer = gameState.players.find(p => p.username === username);
     if (!currentPlayer) return;
 
-    // CRITICAL: Fetch latest state from Supabase to merge submissions properly
-    // This prevents overwriting other players' submissions
-    let latestState = gameState;
-    if (roomId) {
-      try {
-        const latestGameState = await roomService.getGameState(roomId);
-        if (latestGameState?.state) {
-          latestState = latestGameState.state as GameState;
-          console.log('📥 Fetched latest state from Supabase before saving submission');
-        }
-      } catch (error) {
-        console.warn('⚠️ Could not fetch latest state, using local state:', error);
-        // Continue with local state if fetch fails
-      }
-    }
-
-    // Merge our submission with the latest state from Supabase
-    const updatedGameState = {
-      ...latestState,
-      playerAnswers: {
-        ...latestState.playerAnswers,
-        [currentPlayer.id]: answer
-      },
-      submittedAnswers: {
-        ...latestState.submittedAnswers,
-        [currentPlayer.id]: true
-      },
-      // Preserve other important state that might have changed
-      players: gameState.players, // Use local players (they might have updated)
-      phase: gameState.phase,
-      currentScreen: currentScreen
-    };
+    const submitAnswer: GameAction = { type: 'submitAnswer', playerId: currentPlayer.id, answer };
 
-    setGameState(updatedGameState);
+    // Optimistic local update
+    setGameState(prev => gameReducer(prev, submitAnswer));
 
     // CRITICAL: Save to Supabase IMMEDIATELY so other players see the submission
-    // Each player saves their own submission - this ensures fast sync
+    // The answer goes in as a player action; the backend applies it to the latest
+    // stored state, so concurrent submissions never overwrite each other
     if (roomId) {
-      const stateToSave = {
-        ...updatedGameState,
-        currentScreen: currentScreen
-      };
-      
-      // Double-check host status - use both currentUserId and currentPlayer.isHost
       const isHost = currentUserId === gameState.hostId || currentPlayer.isHost;
-      
-      console.log('📝 Answer submission save check:', {
-        currentUserId,
-        hostId: gameState.hostId,
-        isHost: isHost,
-        playerIsHost: currentPlayer.isHost,
-        username: currentPlayer.username,
-        submittedAnswersCount: Object.keys(updatedGameState.submittedAnswers || {}).length,
-        allSubmittedAnswers: updatedGameState.submittedAnswers
-      });
-      
       if (isHost) {
-        // Host can INSERT or UPDATE (UPSERT)
         // Temporarily block debounced save to prevent overwriting
         isSavingRef.current = true;
-        try {
-          await roomService.saveGameState(roomId, stateToSave as unknown as Record<string, unknown>);
-          console.log('✅ Host: Answer submitted and saved to Supabase immediately');
-        } catch (error: any) {
-          // If UPSERT fails with 403, fallback to UPDATE (shouldn't happen, but safety)
-          if (error?.code === '42501' || error?.message?.includes('403')) {
-            console.warn('⚠️ Host UPSERT failed, falling back to UPDATE');
-            await roomService.updateGameState(roomId, stateToSave as unknown as Record<string, unknown>);
-          } else {
-            throw error;
-          }
-        }
+      }
+
+      const submitted = await roomService.submitPlayerAction(roomId, currentPlayer.id, { kind: 'answer', answer });
+      if (submitted.ok) {
+        console.log('✅ Answer submitted and saved to Supabase');
+      } else {
+        console.error('❌ Failed to save answer submission', submitted.error);
+      }
+
+      if (isHost) {
         // Reset flag after sync completes
         setTimeout(() => { isSavingRef.current = false; }, 500);
-      } else {
-        // Non-host can only UPDATE (game state should already exist from host)
-        await roomService.updateGameState(roomId, stateToSave as unknown as Record<string, unknown>);
-        console.log('✅ Non-host: Answer submitted and saved to Supabase immediately');
       }
     }
 
@@ -1138,11 +1462,8 @@ function App() {
       return;
     }
 
-    setGameState(prev => ({
-      ...prev,
-      phase: 'voting',
-      currentScreen: 'voting'
-    }));
+    const updatedState = roomService.applyGameAction(gameState, { type: 'startVoting' });
+    setGameState(updatedState);
 
     transitionToScreen('voting');
   };
@@ -1151,17 +1472,8 @@ function App() {
     const botPlayer = gameState.players.find(p => p.id === botId);
     console.log(`Bot ${botPlayer?.username || botId} voting for ${votes.join(', ')}`);
     console.log('Current votes before bot vote:', gameState.votes);
-    setGameState(prev => {
-      const newVotes = {
-        ...prev.votes,
-        [botId]: votes
-      };
-      console.log('New votes after bot vote:', newVotes);
-      return {
-        ...prev,
-        votes: newVotes
-      };
-    });
+    const botVote: GameAction = { type: 'castVote', playerId: botId, targetIds: votes };
+    setGameState(prev => gameReducer(prev, botVote));
   };
 
 
@@ -1176,135 +1488,85 @@ function App() {
     console.log('App.tsx handleSubmitVotes: Current player found:', currentPlayer.username);
     
     // Add user's vote to the votes if provided
-    const allVotes = { ...gameState.votes };
-    if (userVotes.length > 0) {
-      allVotes[currentPlayer.id] = userVotes;
-      console.log('App.tsx handleSubmitVotes: Added user vote to allVotes:', allVotes);
-    }
+    const updatedGameState = userVotes.length > 0
+      ? gameReducer(gameState, { type: 'castVote', playerId: currentPlayer.id, targetIds: userVotes })
+      : gameState;
+    const allVotes = updatedGameState.votes;
     
-    // Update local state immediately
-    const updatedGameState = {
-      ...gameState,
-      votes: allVotes
-    };
     setGameState(updatedGameState);
 
+    // Double-check host status - use both currentUserId and currentPlayer.isHost
+    const isHost = currentUserId === gameState.hostId || currentPlayer.isHost;
+
+    // A stored state only accepts these votes while it is still in the same voting round
+    const isSameVotingRound = (reference: GameState) => (latest: GameState) =>
+      latest.phase === reference.phase &&
+      latest.isTieVote === reference.isTieVote &&
+      JSON.stringify(latest.tiedPlayers || []) === JSON.stringify(reference.tiedPlayers || []);
+
+    // Bots only vote on the host's client, so the host carries their ballots into the write
+    const localBotVotes: Record<string, string[]> = isHost
+      ? Object.fromEntries(Object.entries(allVotes).filter(([voterId]) =>
+          updatedGameState.players.some(p => p.id === voterId && p.isBot)))
+      : {};
+
     // CRITICAL: Save votes to Supabase immediately so other players see the vote
-    // Host uses UPSERT (can INSERT or UPDATE), non-host uses UPDATE only
-    // IMPORTANT: Non-hosts should preserve currentScreen from latest state to avoid overwriting host transitions
+    // Every ballot goes through the backend, which checks it against the stored round
+    let latestState: GameState = updatedGameState;
     if (roomId) {
-      // Double-check host status - use both currentUserId and currentPlayer.isHost
-      const isHost = currentUserId === gameState.hostId || currentPlayer.isHost;
-      
-      console.log('📝 Vote submission save check:', {
-        currentUserId,
-        hostId: gameState.hostId,
-        isHost: isHost,
-        playerIsHost: currentPlayer.isHost,
-        username: currentPlayer.username,
-        currentScreen: currentScreen
-      });
-      
       if (isHost) {
-        // Host can INSERT or UPDATE (UPSERT)
-        // Host controls screen transitions, so use currentScreen
-        const stateToSave = {
-          ...updatedGameState,
-          currentScreen: currentScreen // Host controls screen
-        };
-        try {
-          await roomService.saveGameState(roomId, stateToSave as unknown as Record<string, unknown>);
-          console.log('✅ Host: Vote submitted and saved to Supabase immediately');
-        } catch (error: any) {
-          // If UPSERT fails with 403, fallback to UPDATE (shouldn't happen, but safety)
-          if (error?.code === '42501' || error?.message?.includes('403')) {
-            console.warn('⚠️ Host UPSERT failed, falling back to UPDATE');
-            await roomService.updateGameState(roomId, stateToSave as unknown as Record<string, unknown>);
-          } else {
-            throw error;
-          }
+        isSavingRef.current = true;
+      }
+
+      setVoteError(null);
+      const storedRow = await roomService.getGameState(roomId);
+      const storedState = storedRow.ok ? storedRow.value?.state as unknown as GameState | undefined : undefined;
+      if (!storedState) {
+        console.error('❌ Failed to load game state before casting votes');
+        if (!storedRow.ok) {
+          setVoteError(storedRow.error);
         }
+      } else if (!isSameVotingRound(updatedGameState)(storedState)) {
+        console.warn('⚠️ Voting round moved on before the vote was saved - dropping stale vote');
+        latestState = storedState;
       } else {
-        // Non-host can only UPDATE (game state should already exist from host)
-        // CRITICAL: Non-hosts should NEVER update currentScreen - only host controls screen transitions
-        // Fetch latest state and merge ONLY votes, preserving everything else (especially currentScreen)
-        let stateToSave: GameState;
-        try {
-          const latestGameState = await roomService.getGameState(roomId);
-          if (latestGameState?.state) {
-            const latest = latestGameState.state as GameState;
-            console.log('📥 Non-host: Fetched latest state before saving vote:', {
-              latestScreen: latest.currentScreen,
-              latestPhase: latest.phase,
-              localScreen: currentScreen,
-              preservingScreen: latest.currentScreen // Always preserve host's screen
-            });
-            // Merge ONLY votes into latest state, preserving currentScreen and phase from host
-            // CRITICAL: Never update currentScreen or phase - these are host-controlled
-            stateToSave = {
-              ...latest, // Start with latest state from host (preserves currentScreen, phase, etc.)
-              votes: {
-                ...latest.votes, // Preserve existing votes
-                ...updatedGameState.votes // Merge in new votes (overwrites if same player voted again)
-              },
-              // Preserve other fields from latest state
-              players: latest.players || updatedGameState.players,
-              playerAnswers: latest.playerAnswers || updatedGameState.playerAnswers,
-              submittedAnswers: latest.submittedAnswers || updatedGameState.submittedAnswers,
-              // CRITICAL: Never touch currentScreen or phase - these are host-controlled
-              currentScreen: latest.currentScreen, // Always use host's screen
-              phase: latest.phase // Always use host's phase
-            };
-          } else {
-            // Fallback: if can't fetch, merge votes but preserve currentScreen from gameState
-            console.warn('⚠️ Non-host: Could not fetch latest state, preserving screen from gameState');
-            stateToSave = {
-              ...updatedGameState,
-              currentScreen: gameState.currentScreen, // Preserve from gameState (host's last known screen)
-              phase: gameState.phase // Preserve phase too
-            };
+        latestState = storedState;
+        const ballots = Object.entries(localBotVotes).filter(([voterId]) => !storedState.votes?.[voterId]);
+        if (userVotes.length > 0) {
+          ballots.push([currentPlayer.id, userVotes]);
+        }
+
+        for (const [voterId, targetIds] of ballots) {
+          const saved = await roomService.castVote(roomId, voterId, targetIds);
+          if (!saved.ok) {
+            console.error('❌ Failed to save vote for', voterId, saved.error);
+            // Only the player's own ballot is theirs to hear about
+            if (voterId === currentPlayer.id) {
+              setVoteError(saved.error);
+            }
+            continue;
           }
-        } catch (error) {
-          console.warn('⚠️ Non-host: Error fetching latest state, preserving screen from gameState:', error);
-          // Fallback: preserve currentScreen from gameState (host's last known screen)
-          stateToSave = {
-            ...updatedGameState,
-            currentScreen: gameState.currentScreen, // Preserve from gameState, not local currentScreen
-            phase: gameState.phase // Preserve phase too
-          };
+          latestState = saved.value.state as unknown as GameState;
+          console.log('✅ Vote saved to Supabase (version', saved.value.version, ')');
         }
-        
-        await roomService.updateGameState(roomId, stateToSave as unknown as Record<string, unknown>);
-        console.log('✅ Non-host: Vote submitted and saved to Supabase immediately (preserved screen:', stateToSave.currentScreen, ', phase:', stateToSave.phase, ')');
+      }
+
+      if (isHost) {
+        setTimeout(() => { isSavingRef.current = false; }, 500);
       }
     }
     
-    // Get non-eliminated players for validation
-    const nonEliminatedPlayers = gameState.players.filter(p => !p.isEliminated);
-          
-    // VALIDATION: Ensure all NON-SPECTATOR players have voted before processing results
-    const allPlayers = nonEliminatedPlayers;
-    const nonSpectatorPlayers = allPlayers.filter(p => 
-      gameState.selectedPackType !== 'custom' || p.role !== 'spectator'
-    );
-    const playersWhoVoted = Object.keys(allVotes);
-    const playersWhoHaventVoted = nonSpectatorPlayers.filter(p => !playersWhoVoted.includes(p.id));
-    
     console.log('VOTING VALIDATION:', {
-      totalPlayers: allPlayers.length,
-      nonSpectatorPlayers: nonSpectatorPlayers.length,
-      playersWhoVoted: playersWhoVoted.length,
-      playersWhoHaventVoted: playersWhoHaventVoted.map(p => ({ id: p.id, username: p.username, isBot: p.isBot, role: p.role })),
-      allVotes: Object.keys(allVotes),
-      allVotesDetails: allVotes,
+      playersWhoVoted: Object.keys(latestState.votes || {}).length,
+      allVotesDetails: latestState.votes,
       gameMode: gameState.gameMode,
       selectedPackType: gameState.selectedPackType
     });
     
-    if (playersWhoHaventVoted.length > 0) {
-      console.log('⏳ Waiting for more players to vote:', playersWhoHaventVoted.map(p => p.username));
+    if (!haveAllPlayersVoted(latestState)) {
       // Don't process results until all players have voted
       // The useEffect watching synced votes will handle the transition
+      console.log('⏳ Waiting for more players to vote');
       return;
     }
     
@@ -1315,184 +1577,49 @@ function App() {
       return;
     }
       
-    // Process voting results - use appropriate logic based on game mode and randomize mode
+    // The backend tallies the ballots and applies the outcome to the game (eliminations,
+    // tie-breakers, winners) in one write; the host shows the state it stored
     // Only host reaches this point
-    if (gameState.gameMode === 'words') {
-      if (gameState.isRandomizeMode) {
-        const wasTieBreakerRound = gameState.isTieVote;
-        const { isTie, tiedPlayers, eliminatedPlayerIds } = processRandomizeVotes(gameState, allVotes, gameState.players);
-
-        if (isTie) {
-          setGameState(prev => {
-            const votesSnapshot = JSON.parse(JSON.stringify(allVotes));
-            const nextTieBreakerVotes = prev.isTieVote
-              ? appendUniqueTieVote(prev.tieBreakerVotes, votesSnapshot)
-              : undefined;
-
-            const nextTieBreakerRound = (prev.currentTieBreakerRound || 0) + 1;
-            const existingHistory = prev.tieBreakerHistory || [];
-            const nextHistory = prev.isTieVote
-              ? [...existingHistory, { round: nextTieBreakerRound - 1, votes: votesSnapshot, tiedPlayers }]
-              : existingHistory;
-
-            return {
-              ...prev,
-              phase: 'voting' as const,
-              isTieVote: true,
-              tiedPlayers,
-              votes: {},
-              originalVotes: prev.originalVotes || votesSnapshot,
-              tieBreakerVotes: nextTieBreakerVotes,
-              tieBreakerHistory: nextHistory,
-              currentTieBreakerRound: nextTieBreakerRound,
-            };
-          });
-          transitionToScreen('voting');
-          return;
-        }
-        
-        const autoEndResult = checkRandomizeAutoEnd(gameState, gameState.players, eliminatedPlayerIds);
-        
-        if (autoEndResult.shouldAutoEnd) {
-          const winnerResult = determineRandomizeWinner(gameState, gameState.players);
-          
-          setGameState(prev => ({
-            ...prev,
-            ...winnerResult,
-            phase: 'results',
-            isTieVote: false
-          }));
-          
-          transitionToScreen('results');
-          return;
-        }
-        
-        if (eliminatedPlayerIds.length > 0) {
-          setGameState(prev => ({
-              ...prev,
-              ...updateGameStateAfterRandomizeElimination(
-                prev,
-                eliminatedPlayerIds,
-                allVotes,
-                wasTieBreakerRound
-            ),
-            currentScreen: 'voteResults'
-          }));
-
-          transitionToScreen('voteResults');
-        }
-      } else {
-        const updatedGameState = processWordsGameVotes(gameState, allVotes, gameState.players);
-        
-        setGameState({
-          ...updatedGameState,
-          currentScreen: updatedGameState.phase === 'results' ? 'results' 
-            : updatedGameState.phase === 'voteResults' ? 'voteResults'
-            : updatedGameState.phase === 'voting' && updatedGameState.isTieVote ? 'voting'
-            : undefined
-        });
-        
-        if (updatedGameState.phase === 'results') {
-          transitionToScreen('results');
-        } else if (updatedGameState.phase === 'voteResults') {
-          transitionToScreen('voteResults');
-        } else if (updatedGameState.phase === 'voting' && updatedGameState.isTieVote) {
-          transitionToScreen('voting');
-        }
-      }
-    } else {
-      // Process voting results for questions game standard mode
-      // CRITICAL: Wrap setGameState to save immediately when transitioning to voteResults
-      let finalStateAfterProcessing: GameState | null = null;
-      let shouldSaveAfterProcessing = false;
-      
-      const wrappedSetGameState = (updatedState: GameState | ((prev: GameState) => GameState)) => {
-        setGameState(prev => {
-          const newState = typeof updatedState === 'function' 
-            ? (updatedState as (prev: GameState) => GameState)(prev)
-            : updatedState;
-          
-          // Store the final state for saving after processing completes
-          finalStateAfterProcessing = newState;
-          
-          // If transitioning to voteResults, mark for saving
-          if (newState.currentScreen === 'voteResults' && newState.currentScreen !== prev.currentScreen) {
-            console.log('🎯 Processing voting results, transitioning to voteResults:', {
-              from: prev.currentScreen,
-              to: newState.currentScreen,
-              phase: newState.phase,
-              hasRoomId: !!roomId
-            });
-            setCurrentScreen(newState.currentScreen);
-            shouldSaveAfterProcessing = true;
-          } else if (newState.currentScreen && newState.currentScreen !== prev.currentScreen) {
-            // Other screen changes - just update locally
-            console.log('🎯 Screen changed during vote processing:', {
-              from: prev.currentScreen,
-              to: newState.currentScreen
-            });
-            setCurrentScreen(newState.currentScreen);
-          }
-          
-          return newState;
-        });
-      };
-      
-      // Process voting results
-      processVotingResults(
-        allVotes, 
-        gameState, 
-        wrappedSetGameState, 
-        (screen: string) => {
-          // Screen transition callback - state already updated by wrappedSetGameState
-          const newScreen = screen as Screen;
-          console.log('🎯 processVotingResults setCurrentScreen callback:', newScreen);
-          setCurrentScreen(newScreen);
-          
-          // If transitioning to voteResults, mark for saving
-          if (newScreen === 'voteResults') {
-            shouldSaveAfterProcessing = true;
-          }
-        }, 
-        determineWinner
-      );
-      
-      // CRITICAL: After processVotingResults completes, save the final state immediately
-      // This ensures all players sync to voteResults screen
-      if (shouldSaveAfterProcessing && finalStateAfterProcessing && roomId) {
-        const targetScreen = finalStateAfterProcessing.currentScreen || 'voteResults';
-        console.log('💾 Saving final voting results state to Supabase:', {
-          currentScreen: targetScreen,
-          phase: finalStateAfterProcessing.phase,
-          eliminatedPlayers: finalStateAfterProcessing.eliminatedPlayers.length,
-          hasWinners: !!(finalStateAfterProcessing.winners && finalStateAfterProcessing.winners.length > 0)
-        });
-        
-        isSavingRef.current = true;
-        const stateToSave = {
-          ...finalStateAfterProcessing,
-          currentScreen: targetScreen
-        };
-        
-        roomService.saveGameState(roomId, stateToSave as unknown as Record<string, unknown>)
-          .then(() => {
-            console.log(`✅ Final state saved to Supabase with screen: ${targetScreen} - all players should sync`);
-            setTimeout(() => { isSavingRef.current = false; }, 1000);
-          })
-          .catch((error) => {
-            console.error(`❌ Error saving final voting results state:`, error);
-            isSavingRef.current = false;
-          });
-      } else {
-        console.warn('⚠️ Not saving vote results - missing conditions:', {
-          shouldSave: shouldSaveAfterProcessing,
-          hasState: !!finalStateAfterProcessing,
-          currentScreen: finalStateAfterProcessing?.currentScreen,
-          hasRoomId: !!roomId
-        });
+    if (!roomId) {
+      const processedState = roomService.applyGameAction(latestState, { type: 'tallyVotes' });
+      if (processedState === latestState) {
+        console.warn('⚠️ Vote tally produced no transition');
+        return;
       }
+      setGameState(processedState);
+      setCurrentScreen(processedState.currentScreen || currentScreen);
+      return;
+    }
+
+    isSavingRef.current = true;
+    const tallied = await roomService.tallyVotes(roomId);
+    if (!tallied.ok) {
+      console.error('❌ Backend did not tally the votes', tallied.error);
+      setVoteError(tallied.error);
+      isSavingRef.current = false;
+      return;
     }
-  }, [gameState.gameMode, gameState.isRandomizeMode, gameState.isTieVote, gameState.players, gameState.selectedPackType, gameState.votes, username, roomId, gameState]);
+
+    const talliedState = tallied.value.row.state as unknown as GameState;
+    const targetScreen: Screen = talliedState.currentScreen || currentScreen;
+    if (!tallied.value.outcome) {
+      // Nothing open to count (no ballots yet, or they were tallied already) - show the game as stored
+      console.warn('⚠️ No open ballots to tally - showing the stored game');
+      setGameState(talliedState);
+      setCurrentScreen(targetScreen);
+      isSavingRef.current = false;
+      return;
+    }
+    console.log('✅ Votes tallied by the backend:', {
+      currentScreen: targetScreen,
+      phase: talliedState.phase,
+      eliminatedPlayers: talliedState.eliminatedPlayers.length,
+      hasWinners: !!(talliedState.winners && talliedState.winners.length > 0)
+    });
+    setGameState(talliedState);
+    setCurrentScreen(targetScreen);
+    setTimeout(() => { isSavingRef.current = false; }, 1000);
+  }, [gameState, username, roomId, currentUserId, currentScreen]);
 
   // Helper function to handle vote submission (reduces duplication)
   // Must be defined after handleSubmitVotes since it depends on it
@@ -1513,127 +1640,29 @@ function App() {
   const handleContinueRandomize = () => {
     console.log('CONTINUE RANDOMIZE: Starting new round');
     
-    setGameState(prev => {
-      const newContinueCount = (prev.continueCount || 0) + 1;
-      console.log('Continue count:', newContinueCount, '/ 3');
-      
-      return {
-        ...prev,
-        continueCount: newContinueCount,
-        ...prepareNextRandomizeRound(prev),
-      };
-    });
+    const nextState = roomService.applyGameAction(gameState, { type: 'continueRound' });
+    setGameState(nextState);
     
-    // Always go to answer display screen for next round
-    if (gameState.gameMode === 'words') {
-      transitionToScreen('discussion');
-    } else {
-      transitionToScreen('answers');
-    }
+    // Always go to answer display screen (or discussion for words) for next round
+    transitionToScreen(nextState.currentScreen || 'answers');
   };
 
   const handleFinishRandomize = () => {
-    // Use appropriate winner determination logic based on game mode
-    const { winners, winnerType } = gameState.gameMode === 'words' 
-      ? determineWordsGameWinner(gameState, gameState.players)
-      : determineRandomizeWinner(gameState, gameState.players);
-    
-    setGameState(prev => ({
-      ...prev,
-      phase: 'results',
-      winners,
-      winnerType
-    }));
+    const finishedState = roomService.applyGameAction(gameState, { type: 'finishGame' });
+    setGameState(finishedState);
     transitionToScreen('results');
   };
 
   const handlePlayAgain = () => {
-    // For custom packs, check if we've played once before
-    if (gameState.selectedPackType === 'custom') {
-      if (hasPlayedOnce) {
-        // After playing once, go back to creation screen to create new questions
-        setCurrentScreen(gameState.gameMode === 'questions' ? 'customQuestionCreation' : 'customWordCreation');
-        return;
-      } else {
-        // First time playing, stay in lobby with same players but reset game settings
-        setGameState(prev => {
-          // Reset isEliminated status and roles for all players
-          const resetPlayers = prev.players.map(p => ({ 
-            ...p, 
-            isEliminated: false,
-            role: undefined as unknown as PlayerRole // Reset role to undefined so it gets reassigned in new game
-          }));
-
-          return {
-            ...prev,
-            players: resetPlayers,
-            phase: 'lobby',
-          currentRound: 1,
-          eliminatedPlayers: [],
-          winners: [],
-          winnerType: undefined,
-          playerAnswers: {},
-          submittedAnswers: {},
-          votes: {},
-          originalVotes: undefined, // Clear previous game's original votes
-          tieBreakerVotes: undefined, // Clear previous game's tie-breaker votes
-          playerRoles: {},
-          jesterCluePlayers: [],
-          isTieVote: false,
-          tiedPlayers: [],
-          gameEndReason: undefined,
-          currentVoteResult: undefined,
-          // Reset game settings to defaults
-          impostorCount: 1,
-          hasJester: false,
-          isRandomizeMode: false,
-          // Keep custom content and players
-          currentImpostorWord: '' // Clear previous game's custom word
-          };
-        });
-        transitionToScreen('lobby');
-        return;
-      }
+    // After playing a custom pack once, go back to creation screen to create new questions
+    if (gameState.selectedPackType === 'custom' && hasPlayedOnce) {
+      setCurrentScreen(gameState.gameMode === 'questions' ? 'customQuestionCreation' : 'customWordCreation');
+      return;
     }
       
-    // For regular packs, go back to lobby with same pack and reset settings
-    setGameState(prev => {
-      // Reset isEliminated status and roles for all players
-      const resetPlayers = prev.players.map(p => ({ 
-        ...p, 
-        isEliminated: false,
-        role: undefined as unknown as PlayerRole // Reset role to undefined so it gets reassigned in new game
-      }));
-
-      return {
-        ...prev,
-        players: resetPlayers,
-        phase: 'lobby',
-        currentRound: 1,
-        eliminatedPlayers: [],
-        winners: [],
-        winnerType: undefined,
-        playerAnswers: {},
-        submittedAnswers: {},
-        votes: {},
-        originalVotes: undefined, // Clear previous game's original votes
-        tieBreakerVotes: undefined, // Clear previous game's tie-breaker votes
-        originalPlayerRoles: undefined, // Clear previous game's original player roles
-        continueCount: 0, // Reset continue count for new game
-        playerRoles: {},
-        jesterCluePlayers: [],
-        isTieVote: false,
-        tiedPlayers: [],
-        gameEndReason: undefined,
-        currentVoteResult: undefined,
-        // Reset game settings to defaults
-        impostorCount: 1,
-        hasJester: false,
-        isRandomizeMode: false,
-        currentImpostorWord: '', // Clear previous game's custom word
-        currentScreen: 'lobby' as Screen // Sync screen
-      };
-    });
+    // Otherwise go back to lobby with same players and pack, and reset settings
+    const lobbyState = roomService.applyGameAction(gameState, { type: 'resetToLobby' });
+    setGameState(lobbyState);
     transitionToScreen('lobby');
   };
 
@@ -1675,25 +1704,30 @@ function App() {
       currentVoteResult: undefined
     });
     setHasPlayedOnce(false); // Reset play state when going back to home
+    setRoomId(null); // Leave the room so it is not resumed after a reload
+    setRoomPrivacy('open');
+    setIsRoomPublic(false);
+    setLobbyError(null);
+    setVoteError(null);
     setCurrentScreen('home');
   };
 
   const handleRoleConfirmed = () => {
     // After role reveal, go to answers screen for questions game, discussion for words game
-    // Only host controls screen transitions
+    // Only host controls screen transitions; other players just record that they saw their role
     if (currentUserId !== gameState.hostId) {
-      console.warn('Only host can confirm role and transition');
+      const currentPlayer = gameState.players.find(p => p.id === currentUserId);
+      if (roomId && currentPlayer && !currentPlayer.hasSeenRole) {
+        setGameState(prev => gameReducer(prev, { type: 'markRoleSeen', playerId: currentPlayer.id }));
+        roomService.submitPlayerAction(roomId, currentPlayer.id, { kind: 'seenRole' });
+      }
       return;
     }
     
-    const targetScreen: Screen = gameState.gameMode === 'words' ? 'discussion' : 'answers';
+    const updatedState = roomService.applyGameAction(gameState, { type: 'confirmRoles' });
+    const targetScreen: Screen = updatedState.currentScreen || 'answers';
     console.log('🎯 Host confirming role, transitioning to:', targetScreen);
     
-    const updatedState = {
-      ...gameState,
-      currentScreen: targetScreen
-    };
-    
     setGameState(updatedState);
     setCurrentScreen(targetScreen);
     
@@ -1733,8 +1767,9 @@ function App() {
     if ((currentScreen === 'voting' && gameState.phase === 'voting') || 
         (currentScreen === 'answers' && gameState.phase === 'voting')) {
       // Check if all non-spectator, non-eliminated players have voted
+      // Players who have dropped (presence lost) are not waited for
       const allPlayers = gameState.players;
-      const activePlayers = allPlayers.filter(p => !p.isEliminated);
+      const activePlayers = allPlayers.filter(p => !p.isEliminated && p.isConnected);
       const nonSpectatorPlayers = activePlayers.filter(p => 
         gameState.selectedPackType !== 'custom' || p.role !== 'spectator'
       );
@@ -1819,6 +1854,8 @@ function App() {
     const handleNavigateToDiscussion = () => {
       console.log('Navigating to discussion screen from word game');
       setCurrentScreen('discussion');
+      // The host's move carries the discussion deadline to everyone
+      transitionToScreen('discussion');
     };
 
     window.addEventListener('navigateToVoting', handleNavigateToVoting);
@@ -1827,7 +1864,7 @@ function App() {
       window.removeEventListener('navigateToVoting', handleNavigateToVoting);
       window.removeEventListener('navigateToDiscussion', handleNavigateToDiscussion);
     };
-  }, []);
+  }, [transitionToScreen]);
 
   // Auto-adjust game settings when player count changes or when entering lobby
   useEffect(() => {
@@ -1866,6 +1903,14 @@ function App() {
     }
   }, [currentScreen, gameState.phase, gameState.players.length, gameState.selectedPackType, gameState.impostorCount, gameState.hasJester, gameState.isRandomizeMode]);
 
+  // Joined after the game started: watches the game, but has nothing to answer or vote with
+  const isSpectating = !!roomId && !!currentUserId && gameState.phase !== 'lobby' &&
+    !gameState.players.some(p => p.id === currentUserId);
+
+  // Spectators see the same screens as players, without being able to act on them
+  const asSpectatorView = (screen: JSX.Element) =>
+    isSpectating ? <div className="pointer-events-none select-none">{screen}</div> : screen;
+
   const renderScreen = () => {
     switch (currentScreen) {
       case 'entering':
@@ -1880,17 +1925,70 @@ function App() {
             onAvatarChange={setAvatar}
             language="en"
             onLanguageChange={() => {}}
+            inviteCode={inviteCode}
+            onJoinInvite={handleJoinInvite}
+            onDismissInvite={dismissInvite}
+            onPassAndPlay={() => setCurrentScreen('passAndPlaySetup')}
+            accountEmail={account && !account.is_anonymous ? account.email : null}
+            onOpenAccount={() => setCurrentScreen('account')}
+          />
+        );
+      case 'account':
+        return (
+          <AccountScreen
+            account={account}
+            onLinkEmail={handleLinkEmail}
+            onSetPassword={setPassword}
+            onSignIn={handleSignIn}
+            onSignOut={handleSignOut}
+            onBack={() => setCurrentScreen('home')}
+            language="en"
           />
         );
       case 'roomMode':
         return (
           <RoomModeScreen
             onCreateRoom={() => setCurrentScreen('gamePack')}
-            onJoinRoom={() => setCurrentScreen('joinRoom')}
+            onJoinRoom={() => {
+              setJoinRoomError(null);
+              setCurrentScreen('joinRoom');
+            }}
+            onBrowseRooms={() => setCurrentScreen('browseRooms')}
+            onBack={() => setCurrentScreen('home')}
+            language="en"
+          />
+        );
+      case 'passAndPlaySetup':
+        return (
+          <PassAndPlaySetupScreen
+            hostName={username}
+            onStart={(settings) => {
+              setPassAndPlaySettings(settings);
+              setCurrentScreen('passAndPlay');
+            }}
             onBack={() => setCurrentScreen('home')}
             language="en"
           />
         );
+      case 'passAndPlay':
+        return passAndPlaySettings && (
+          <PassAndPlayScreen
+            settings={passAndPlaySettings}
+            onExit={() => {
+              setPassAndPlaySettings(null);
+              setCurrentScreen('home');
+            }}
+            language="en"
+          />
+        );
+      case 'browseRooms':
+        return (
+          <PublicRoomsScreen
+            onJoinRoom={handleJoinPublicRoom}
+            onBack={() => setCurrentScreen('roomMode')}
+            language="en"
+          />
+        );
       case 'gamePack':
         return (
           <GamePackScreen
@@ -1920,9 +2018,20 @@ function App() {
         return (
           <JoinRoomScreen
             onJoinRoom={handleJoinRoomSubmit}
-            onBack={() => setCurrentScreen('home')}
-            error=""
+            onBack={() => {
+              dismissInvite();
+              setPasswordRoomCode(null);
+              setPendingJoinRoom(null);
+              setBrowsedRoomCode(null);
+              setCurrentScreen('home');
+            }}
+            error={joinRoomError}
             language="en"
+            initialCode={pendingJoinRoom?.code ?? passwordRoomCode ?? browsedRoomCode ?? inviteCode}
+            autoJoin={!!(browsedRoomCode || inviteCode) && !passwordRoomCode && !pendingJoinRoom}
+            needsPassword={!!passwordRoomCode}
+            isAwaitingApproval={!!pendingJoinRoom}
+            onCancelRequest={() => setPendingJoinRoom(null)}
           />
         );
       case 'lobby':
@@ -1936,20 +2045,34 @@ function App() {
             onJesterToggle={handleJesterToggle}
             onStartGame={handleStartGame}
             onBack={handleBackToHome}
+            onKickPlayer={handleKickPlayer}
+            onBanPlayer={handleBanPlayer}
+            onTransferHost={handleTransferHost}
+            privacy={roomPrivacy}
+            onPrivacyChange={handlePrivacyChange}
+            isPublic={isRoomPublic}
+            onPublicToggle={handlePublicToggle}
+            joinRequests={joinRequests}
+            onAnswerJoinRequest={handleAnswerJoinRequest}
             language="en"
+            error={lobbyError}
           />
         );
       case 'questions':
+        if (isSpectating) {
+          return <SpectatorBanner language="en" isWaitingForAnswers />;
+        }
         return (
           <QuestionScreen
             gameState={gameState}
             currentUsername={username}
+            playerSecret={playerSecret}
             onSubmitAnswer={handleAnswerSubmit}
             language="en"
           />
         );
       case 'answers':
-          return (
+          return asSpectatorView(
             <AnswerDisplayScreen
               gameState={gameState}
               currentUsername={username}
@@ -1963,7 +2086,7 @@ function App() {
         return (
           <>
             {/* Show AnswerDisplayScreen as background */}
-            <AnswerDisplayScreen
+            {asSpectatorView(<AnswerDisplayScreen
               gameState={gameState}
               currentUsername={username}
               language="en"
@@ -1976,10 +2099,10 @@ function App() {
               }}
               onVote={handleVoteSubmission}
               setGameState={setGameState}
-            />
-            {/* Show RoleRevealModal as overlay */}
-            <RoleRevealModal
-              playerRole={gameState.playerRoles[gameState.players.find(p => p.username === username)?.id || ''] as 'innocent' | 'impostor' | 'jester' || 'innocent'}
+            />)}
+            {/* Show RoleRevealModal as overlay - spectators have no role to reveal */}
+            {!isSpectating && <RoleRevealModal
+              playerRole={(playerSecret?.role || gameState.playerRoles[gameState.players.find(p => p.username === username)?.id || '']) as 'innocent' | 'impostor' | 'jester' || 'innocent'}
               playerName={username}
               onClose={handleRoleConfirmed}
               isOpen={true}
@@ -1989,11 +2112,11 @@ function App() {
               currentQuestion={gameState.currentQuestion}
               currentWord={gameState.currentWord}
               gameMode={gameState.gameMode}
-            />
+            />}
           </>
         );
       case 'discussion':
-        return (
+        return asSpectatorView(
           <DiscussionScreen
             gameState={gameState}
             currentUsername={username}
@@ -2005,7 +2128,7 @@ function App() {
           />
         );
       case 'voting':
-        return (
+        return asSpectatorView(
           <VotingScreen
             gameState={gameState}
             currentUsername={username}
@@ -2028,10 +2151,12 @@ function App() {
               console.log('Voting started by host');
               // Voting starts automatically in VotingScreen component
             }}
+            language="en"
+            roomError={voteError}
           />
         );
       case 'voteResults':
-        return (
+        return asSpectatorView(
           <VoteResultsScreen
             gameState={gameState}
             currentUsername={username}
@@ -2058,6 +2183,33 @@ function App() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-amber-50 via-orange-50 to-red-50">
       {renderScreen()}
+      {isSpectating && currentScreen !== 'questions' && <SpectatorBanner language="en" />}
+      {/* Own role, re-shown to a player who resumed mid-game (only on their device) */}
+      {isOwnRoleShown && playerSecret && playerSecret.role !== 'spectator' && currentScreen !== 'roleReveal' && (
+        <RoleRevealModal
+          playerRole={playerSecret.role}
+          playerName={username}
+          onClose={() => setIsOwnRoleShown(false)}
+          isOpen={true}
+          language="en"
+          gameMode={gameState.gameMode}
+        />
+      )}
+      {removalNotice && (
+        <RemovedFromRoomNotice
+          wasBanned={removalNotice.wasBanned}
+          language="en"
+          onClose={() => setRemovalNotice(null)}
+        />
+      )}
+      {roomId && (
+        <SyncStatusBanner
+          status={roomOutbox.status}
+          language="en"
+          onRetry={roomOutbox.retry}
+          onDiscard={roomOutbox.discard}
+        />
+      )}
     </div>
   );
 }
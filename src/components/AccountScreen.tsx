@@ -0,0 +1,331 @@
+import React, { useState } from 'react';
+import { Mail, UserCheck } from 'lucide-react';
+import { Language, Result, RoomError, RoomErrorKind } from '../types';
+import type { AuthUser } from '../services/authService';
+import { getRoomErrorMessage } from '../utils/roomErrorMessages';
+
+interface AccountScreenProps {
+  account: AuthUser | null;
+  onLinkEmail: (email: string) => Promise<Result<AuthUser>>;
+  onSetPassword: (password: string) => Promise<Result<void>>; // Only once the email is confirmed
+  onSignIn: (email: string, password: string | null) => Promise<Result<void>>; // No password sends a magic link
+  onSignOut: () => void;
+  onBack: () => void;
+  language: Language;
+}
+
+type AccountFormMode = 'link' | 'signIn';
+
+export default function AccountScreen({ account, onLinkEmail, onSetPassword, onSignIn, onSignOut, onBack, language }: AccountScreenProps) {
+  const [mode, setMode] = useState<AccountFormMode>('link');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<RoomError | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const texts = {
+    en: {
+      title: 'Your Account',
+      guestSubtitle: 'You are playing as a guest. Add an email to keep your name, avatar and rooms on any device.',
+      signedInAs: 'Signed in as',
+      pendingConfirmation: (address: string) => `Open the link we sent to ${address} to confirm it.`,
+      link: 'Save my account',
+      signIn: 'I have an account',
+      emailPlaceholder: 'Email',
+      linkHint: 'We email you a link to confirm the address. Once it is confirmed you can add a password.',
+      signInPasswordPlaceholder: 'Password',
+      signInPasswordHint: 'Leave the password empty to get a sign-in link by email.',
+      saveAccount: 'Save Account',
+      signInButton: 'Sign In',
+      sendLink: 'Email Me a Link',
+      linkSent: 'Check your email for the sign-in link.',
+      accountSaved: 'Account saved. You can now sign in to it on any device.',
+      passwordTitle: 'Password',
+      passwordHint: 'Add a password to sign in without waiting for an email link.',
+      newPasswordPlaceholder: 'New password',
+      savePassword: 'Save Password',
+      passwordSaved: 'Password saved.',
+      signOut: 'Sign Out',
+      back: 'Back',
+      errors: {
+        conflict: 'This email already has an account. Sign in to it instead.',
+        wrongPassword: 'Wrong email or password',
+        notFound: 'No account uses this email',
+        invalid: 'Check the email address. Passwords need at least 6 characters.'
+      } as Partial<Record<RoomErrorKind, string>>
+    },
+    ru: {
+      title: 'Ваш аккаунт',
+      guestSubtitle: 'Вы играете как гость. Добавьте email, чтобы имя, аватар и комнаты были с вами на любом устройстве.',
+      signedInAs: 'Вы вошли как',
+      pendingConfirmation: (address: string) => `Откройте ссылку, которую мы отправили на ${address}, чтобы подтвердить его.`,
+      link: 'Сохранить аккаунт',
+      signIn: 'У меня есть аккаунт',
+      emailPlaceholder: 'Email',
+      linkHint: 'Мы отправим ссылку для подтверждения адреса. После подтверждения можно будет добавить пароль.',
+      signInPasswordPlaceholder: 'Пароль',
+      signInPasswordHint: 'Оставьте пароль пустым, чтобы получить ссылку для входа на email.',
+      saveAccount: 'Сохранить аккаунт',
+      signInButton: 'Войти',
+      sendLink: 'Отправить ссылку',
+      linkSent: 'Проверьте почту: мы отправили ссылку для входа.',
+      accountSaved: 'Аккаунт сохранён. Теперь в него можно войти на любом устройстве.',
+      passwordTitle: 'Пароль',
+      passwordHint: 'Добавьте пароль, чтобы входить без ссылки из письма.',
+      newPasswordPlaceholder: 'Новый пароль',
+      savePassword: 'Сохранить пароль',
+      passwordSaved: 'Пароль сохранён.',
+      signOut: 'Выйти',
+      back: 'Назад',
+      errors: {
+        conflict: 'У этого email уже есть аккаунт. Войдите в него.',
+        wrongPassword: 'Неверный email или пароль',
+        notFound: 'Нет аккаунта с этим email',
+        invalid: 'Проверьте email. Пароль должен быть не короче 6 символов.'
+      } as Partial<Record<RoomErrorKind, string>>
+    },
+    ka: {
+      title: 'თქვენი ანგარიში',
+      guestSubtitle: 'თქვენ თამაშობთ როგორც სტუმარი. დაამატეთ ელფოსტა, რომ სახელი, ავატარი და ოთახები ნებისმიერ მოწყობილობაზე შეინახოთ.',
+      signedInAs: 'შესული ხართ როგორც',
+      pendingConfirmation: (address: string) => `დასადასტურებლად გახსენით ბმული, რომელიც გამოვაგზავნეთ ${address}-ზე.`,
+      link: 'ანგარიშის შენახვა',
+      signIn: 'მაქვს ანგარიში',
+      emailPlaceholder: 'ელფოსტა',
+      linkHint: 'მისამართის დასადასტურებლად ბმულს გამოგიგზავნით. დადასტურების შემდეგ შეძლებთ პაროლის დამატებას.',
+      signInPasswordPlaceholder: 'პაროლი',
+      signInPasswordHint: 'დატოვეთ პაროლი ცარიელი, რომ ელფოსტაზე მიიღოთ შესვლის ბმული.',
+      saveAccount: 'ანგარიშის შენახვა',
+      signInButton: 'შესვლა',
+      sendLink: 'ბმულის გამოგზავნა',
+      linkSent: 'შეამოწმეთ ელფოსტა - გამოგიგზავნეთ შესვლის ბმული.',
+      accountSaved: 'ანგარიში შენახულია. ახლა მასში ნებისმიერი მოწყობილობიდან შეხვალთ.',
+      passwordTitle: 'პაროლი',
+      passwordHint: 'დაამატეთ პაროლი, რომ ელფოსტის ბმულის გარეშე შეხვიდეთ.',
+      newPasswordPlaceholder: 'ახალი პაროლი',
+      savePassword: 'პაროლის შენახვა',
+      passwordSaved: 'პაროლი შენახულია.',
+      signOut: 'გასვლა',
+      back: 'უკან',
+      errors: {
+        conflict: 'ამ ელფოსტას უკვე აქვს ანგარიში. შედით მასში.',
+        wrongPassword: 'ელფოსტა ან პაროლი არასწორია',
+        notFound: 'ამ ელფოსტით ანგარიში არ არსებობს',
+        invalid: 'შეამოწმეთ ელფოსტა. პაროლი უნდა იყოს მინიმუმ 6 სიმბოლო.'
+      } as Partial<Record<RoomErrorKind, string>>
+    }
+  };
+
+  const t = texts[language];
+
+  const isGuest = !account || account.is_anonymous;
+  const pendingEmail = account?.new_email;
+
+  const handleModeChange = (nextMode: AccountFormMode) => {
+    setMode(nextMode);
+    setError(null);
+    setNotice(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+    if (mode === 'link') {
+      const linked = await onLinkEmail(email);
+      setIsSubmitting(false);
+      if (!linked.ok) {
+        setError(linked.error);
+        return;
+      }
+      // Until the confirmation link is opened, the pending notice says what to do
+      if (!linked.value.new_email) setNotice(t.accountSaved);
+    } else {
+      const signedIn = await onSignIn(email, password || null);
+      setIsSubmitting(false);
+      if (!signedIn.ok) {
+        setError(signedIn.error);
+        return;
+      }
+      if (!password) setNotice(t.linkSent);
+    }
+    setPassword('');
+  };
+
+  // The password goes on only after the email is confirmed, so nobody can set one on an address they don't own
+  const handleSetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newPassword || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+    const saved = await onSetPassword(newPassword);
+    setIsSubmitting(false);
+    if (!saved.ok) {
+      setError(saved.error);
+      return;
+    }
+    setNewPassword('');
+    setNotice(t.passwordSaved);
+  };
+
+  const errorMessage = error && (
+    <div className="rounded-xl p-4 border" style={{ backgroundColor: 'rgba(239, 68, 68, 0.15)', borderColor: 'rgba(239, 68, 68, 0.3)' }}>
+      <p className="text-red-400 text-sm text-center font-medium">
+        {t.errors[error.kind] || getRoomErrorMessage(error, language)}
+      </p>
+    </div>
+  );
+
+  const submitLabel = mode === 'link' ? t.saveAccount : password ? t.signInButton : t.sendLink;
+
+  return (
+    <div className="min-h-screen p-4" style={{ backgroundColor: '#101721' }}>
+      <div className="relative z-10 max-w-md mx-auto">
+        {/* Header */}
+        <div className="text-center py-12">
+          <div className="mb-6">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl mb-4 shadow-lg" style={{ backgroundColor: '#10B981', boxShadow: '0 10px 25px rgba(16, 185, 129, 0.25)' }}>
+              <UserCheck className="w-8 h-8 text-white" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold mb-3 leading-tight text-white">{t.title}</h1>
+          {isGuest && <p className="text-gray-400 text-lg">{t.guestSubtitle}</p>}
+        </div>
+
+        {/* Linked Account */}
+        {!isGuest && account && (
+          <div className="rounded-3xl p-6 mb-8 border shadow-2xl text-center" style={{ backgroundColor: 'rgba(16, 185, 129, 0.15)', borderColor: 'rgba(16, 185, 129, 0.3)' }}>
+            <p className="text-gray-300 text-sm mb-1">{t.signedInAs}</p>
+            <p className="text-white text-xl font-semibold break-all">{account.email}</p>
+          </div>
+        )}
+
+        {/* Password, once the email is confirmed */}
+        {!isGuest && account && !pendingEmail && (
+          <form onSubmit={handleSetPassword} className="rounded-3xl p-6 mb-8 border shadow-2xl space-y-4" style={{ backgroundColor: 'rgba(59, 130, 246, 0.15)', borderColor: 'rgba(59, 130, 246, 0.3)' }}>
+            <div>
+              <h2 className="text-lg text-gray-300 mb-1">{t.passwordTitle}</h2>
+              <p className="text-xs text-gray-400">{t.passwordHint}</p>
+            </div>
+            <input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder={t.newPasswordPlaceholder}
+              className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700/50 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              autoComplete="new-password"
+            />
+            {errorMessage}
+            <button
+              type="submit"
+              disabled={!newPassword || isSubmitting}
+              className="w-full py-3 rounded-xl bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold transition-all duration-300"
+            >
+              {t.savePassword}
+            </button>
+          </form>
+        )}
+
+        {/* Waiting for the confirmation link */}
+        {pendingEmail && (
+          <div className="rounded-xl p-4 mb-8 border" style={{ backgroundColor: 'rgba(234, 179, 8, 0.15)', borderColor: 'rgba(234, 179, 8, 0.3)' }}>
+            <p className="text-yellow-200 text-sm text-center font-medium flex items-center justify-center space-x-2">
+              <Mail className="w-4 h-4 flex-shrink-0" />
+              <span>{t.pendingConfirmation(pendingEmail)}</span>
+            </p>
+          </div>
+        )}
+
+        {/* Link / Sign In Form */}
+        {isGuest && (
+          <form onSubmit={handleSubmit} className="space-y-6 mb-3">
+            <div className="rounded-3xl p-6 border shadow-2xl space-y-4" style={{ backgroundColor: 'rgba(59, 130, 246, 0.15)', borderColor: 'rgba(59, 130, 246, 0.3)' }}>
+              <div className="flex gap-2">
+                {(['link', 'signIn'] as const).map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => handleModeChange(option)}
+                    className={`flex-1 px-3 py-2 rounded-xl text-sm font-medium transition-all duration-200 ${
+                      mode === option ? 'bg-blue-500 text-white' : 'bg-gray-600 hover:bg-gray-500 text-white'
+                    }`}
+                  >
+                    {option === 'link' ? t.link : t.signIn}
+                  </button>
+                ))}
+              </div>
+
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder={t.emailPlaceholder}
+                className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700/50 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                autoComplete="email"
+              />
+              {mode === 'signIn' ? (
+                <div className="space-y-2">
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={t.signInPasswordPlaceholder}
+                    className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700/50 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    autoComplete="current-password"
+                  />
+                  <p className="text-xs text-gray-400">{t.signInPasswordHint}</p>
+                </div>
+              ) : (
+                <p className="text-xs text-gray-400">{t.linkHint}</p>
+              )}
+
+              {errorMessage}
+            </div>
+
+            <button
+              type="submit"
+              disabled={!email.trim() || isSubmitting}
+              className="w-full py-4 rounded-2xl bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold text-lg transition-all duration-300"
+            >
+              {isSubmitting ? (
+                <span className="flex items-center justify-center">
+                  <span className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></span>
+                </span>
+              ) : (
+                submitLabel
+              )}
+            </button>
+          </form>
+        )}
+
+        {notice && (
+          <p className="text-green-300 text-sm text-center font-medium mb-6">{notice}</p>
+        )}
+
+        <div className="space-y-3">
+          {!isGuest && (
+            <button
+              onClick={onSignOut}
+              className="w-full py-4 rounded-2xl bg-red-500 hover:bg-red-600 text-white font-semibold transition-all duration-300"
+            >
+              {t.signOut}
+            </button>
+          )}
+          <button
+            onClick={onBack}
+            className="w-full py-4 bg-gradient-to-br from-gray-600/80 to-gray-700/80 text-white font-medium rounded-2xl hover:from-gray-500/80 hover:to-gray-600/80 transition-all duration-300 border border-gray-500/70"
+          >
+            {t.back}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { GameState } from '../types';
 import { Clock, Vote, User, Users } from 'lucide-react';
 import { generateBotVotes } from '../utils/botUtils';
+import { usePhaseCountdown } from '../hooks/usePhaseCountdown';
 
 interface AnswerDisplayScreenProps {
   gameState: GameState;
@@ -20,8 +21,8 @@ const AnswerDisplayScreen: React.FC<AnswerDisplayScreenProps> = ({
   onVote,
   setGameState
 }) => {
-  const [timeLeft, setTimeLeft] = useState(180); // 3 minutes in seconds
-  const [isTimerRunning, setIsTimerRunning] = useState(true);
+  // 3 minutes to discuss, counted down to the host's deadline
+  const { secondsLeft: timeLeft } = usePhaseCountdown(gameState.phaseDeadline, 'answers');
   const [votingStarted, setVotingStarted] = useState(false);
   const [selectedVotes, setSelectedVotes] = useState<string[]>([]);
   const [submitted, setSubmitted] = useState(false);
@@ -39,23 +40,6 @@ const AnswerDisplayScreen: React.FC<AnswerDisplayScreenProps> = ({
     }
   }, [gameState.isTieVote, gameState.tiedPlayers]);
   
-  // Timer countdown
-  useEffect(() => {
-    if (!isTimerRunning || timeLeft <= 0) return;
-
-    const timer = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
-          setIsTimerRunning(false);
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => clearInterval(timer);
-  }, [isTimerRunning, timeLeft]);
-
 
   // Calculate votes needed
   const votesNeeded = gameState.isRandomizeMode || gameState.isTieVote ? 1 : gameState.impostorCount - gameState.eliminatedPlayers.length;
@@ -122,8 +106,6 @@ const AnswerDisplayScreen: React.FC<AnswerDisplayScreenProps> = ({
   const handleStartVoting = () => {
     if (votingStarted) return;
     setVotingStarted(true);
-    setTimeLeft(0); // Stop the timer
-    setIsTimerRunning(false);
     onStartVoting();
   };
 
@@ -318,6 +300,12 @@ const AnswerDisplayScreen: React.FC<AnswerDisplayScreenProps> = ({
               <p className="text-gray-400">
                 {isHost ? 'Click "Start Voting" when ready.' : 'The host will start voting when ready.'}
               </p>
+              <div className="flex items-center justify-center space-x-2 text-white">
+                <Clock className={`w-5 h-5 ${timeLeft < 60 ? 'text-red-400' : 'text-blue-400'}`} />
+                <span className={`font-mono text-lg font-semibold ${timeLeft < 60 ? 'text-red-400' : ''}`}>
+                  {t.timeLeft}: {Math.floor(timeLeft / 60)}:{(timeLeft % 60).toString().padStart(2, '0')}
+                </span>
+              </div>
             </div>
           ) : (
             <div className="space-y-4">
@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { Clock, User, Crown, Eye, EyeOff, Users, Play, Vote } from 'lucide-react';
+import { Clock, User, Crown, Eye, EyeOff, Users, Play, Vote, WifiOff } from 'lucide-react';
 import { GameState, Language, Player } from '../types';
 import { generateBotVotes } from '../utils/botUtils';
 import { generateWordsGameBotVotes } from '../utils/wordsGameLogic';
+import { usePhaseCountdown } from '../hooks/usePhaseCountdown';
 
 // Function to extract colors from bot avatar gradient classes
 function getBotColor(botUsername: string, isSecondary: boolean = false): string {
@@ -48,7 +49,7 @@ export default function DiscussionScreen({
   const [submitted, setSubmitted] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const [timeLeft, setTimeLeft] = useState(180); // 3 minutes discussion time
+  const { secondsLeft: timeLeft } = usePhaseCountdown(gameState.phaseDeadline, 'discussion'); // 3 minutes discussion time
   const [showAnswers, setShowAnswers] = useState(true); // Always show answers in discussion
 
   // Voting logic - memoized for performance
@@ -177,6 +178,7 @@ export default function DiscussionScreen({
       waitingForHost: 'Waiting for host to start voting...',
       playerAnswers: 'Player Answers',
       noAnswer: 'No answer provided',
+      disconnected: 'Disconnected',
       discussionPhase: 'Discuss the answers and find the impostors!',
       playerWords: 'Player Words',
       wordsPhase: 'Discuss who might be the impostor!',
@@ -208,6 +210,7 @@ export default function DiscussionScreen({
       waitingForHost: 'Ждем хоста для начала голосования...',
       playerAnswers: 'Ответы игроков',
       noAnswer: 'Ответ не предоставлен',
+      disconnected: 'Не в сети',
       discussionPhase: 'Обсудите ответы и найдите самозванцев!',
       playerWords: 'Слова игроков',
       wordsPhase: 'Обсудите, кто может быть самозванцем!',
@@ -239,6 +242,7 @@ export default function DiscussionScreen({
       waitingForHost: 'ველოდებით მასპინძელს ხმის მიცემის დასაწყებად...',
       playerAnswers: 'მოთამაშეების პასუხები',
       noAnswer: 'პასუხი არ არის მოწოდებული',
+      disconnected: 'გათიშულია',
       discussionPhase: 'განიხილეთ პასუხები და იპოვეთ თაღლითები!',
       playerWords: 'მოთამაშეების სიტყვები',
       wordsPhase: 'განიხილეთ ვინ შეიძლება იყოს თაღლითი!',
@@ -268,20 +272,6 @@ export default function DiscussionScreen({
 
   const t = texts[language];
 
-  useEffect(() => {
-    const timer = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
-          clearInterval(timer);
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => clearInterval(timer);
-  }, []);
-
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -546,6 +536,12 @@ export default function DiscussionScreen({
                           {player.username}
                           {isCurrentPlayer && ' (You)'}
                         </p>
+                        {!player.isConnected && (
+                          <span className="inline-flex items-center gap-1 text-xs text-red-400 font-medium">
+                            <WifiOff className="w-3 h-3" />
+                            {t.disconnected}
+                          </span>
+                        )}
                       </div>
                       
                       
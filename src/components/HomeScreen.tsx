@@ -1,6 +1,6 @@
 import { useState, useRef, useEffect } from 'react';
-import { Camera, User, Upload, TowerControl as GameController2, MessageSquare } from 'lucide-react';
-import { Language } from '../types';
+import { Camera, User, Upload, TowerControl as GameController2, MessageSquare, Users, Smartphone } from 'lucide-react';
+import { Language, RoomCode } from '../types';
 
 interface HomeScreenProps {
   onGameModeSelect: (mode: 'questions' | 'words') => void;
@@ -10,6 +10,12 @@ interface HomeScreenProps {
   onAvatarChange: (avatar: string) => void;
   language: Language;
   onLanguageChange: (language: Language) => void;
+  inviteCode?: RoomCode | null; // Room from the invite link the app was opened with
+  onJoinInvite?: () => void;
+  onDismissInvite?: () => void;
+  onPassAndPlay?: () => void; // Single-device game, no room or name needed
+  accountEmail?: string | null; // Email of the linked account, null while playing as a guest
+  onOpenAccount?: () => void;
 }
 
 export default function HomeScreen({
@@ -19,7 +25,13 @@ export default function HomeScreen({
   avatar,
   onAvatarChange,
   language,
-  onLanguageChange
+  onLanguageChange,
+  inviteCode,
+  onJoinInvite,
+  onDismissInvite,
+  onPassAndPlay,
+  accountEmail,
+  onOpenAccount
 }: HomeScreenProps) {
   const [showLanguageMenu, setShowLanguageMenu] = useState(false);
   const [showPhotoMenu, setShowPhotoMenu] = useState(false);
@@ -334,9 +346,57 @@ export default function HomeScreen({
               />
               <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-yellow-400/10 to-orange-500/10 opacity-0 focus-within:opacity-100 transition-opacity duration-300 pointer-events-none"></div>
             </div>
+
+            {/* Account */}
+            {onOpenAccount && (
+              <button
+                onClick={onOpenAccount}
+                className="text-sm text-gray-400 hover:text-white underline transition-colors duration-300"
+              >
+                {accountEmail ? `Signed in as ${accountEmail}` : 'Save your name and avatar to an account'}
+              </button>
+            )}
           </div>
         </div>
 
+        {/* Invite Link */}
+        {inviteCode && onJoinInvite && (
+          <div className="mb-4 text-center">
+            <button
+              onClick={onJoinInvite}
+              disabled={!username.trim()}
+              className="group relative w-full rounded-3xl p-6 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl hover:-translate-y-1"
+              style={{ 
+                backgroundColor: '#10B981',
+                boxShadow: '0 0 20px rgba(16, 185, 129, 0.4), 0 0 40px rgba(16, 185, 129, 0.2), 0 10px 25px rgba(0, 0, 0, 0.3)',
+                border: '1px solid rgba(16, 185, 129, 0.8)'
+              }}
+            >
+              <div className="absolute inset-0 rounded-3xl bg-gradient-to-br from-white/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
+              <div className="relative flex items-center justify-between">
+                <div className="flex items-center space-x-4">
+                  <div className="w-14 h-14 bg-white/20 backdrop-blur-sm rounded-2xl flex items-center justify-center shadow-lg">
+                    <Users className="w-7 h-7 text-white" />
+                  </div>
+                  <div className="text-left">
+                    <h3 className="text-lg font-bold text-white mb-1">Join Room <span className="font-mono tracking-wider">{inviteCode}</span></h3>
+                    <p className="text-sm text-white/80">You were invited - enter your name and jump in</p>
+                  </div>
+                </div>
+                <div className="text-white/80 text-sm font-medium group-hover:text-white transition-colors duration-300">→</div>
+              </div>
+            </button>
+            {onDismissInvite && (
+              <button
+                onClick={onDismissInvite}
+                className="mt-2 text-sm text-gray-500 hover:text-gray-400 transition-colors duration-200 underline"
+              >
+                Not now
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Game Mode Cards */}
         <div className="space-y-4 mb-8">
           <div className="grid grid-cols-1 gap-4">
@@ -396,6 +456,32 @@ export default function HomeScreen({
             </div>
           </button>
 
+            {onPassAndPlay && (
+              <button
+                onClick={onPassAndPlay}
+                className="group relative rounded-3xl p-6 transition-all duration-300 shadow-lg hover:shadow-xl hover:-translate-y-1"
+                style={{ 
+                  backgroundColor: '#F97316',
+                  boxShadow: '0 0 20px rgba(249, 115, 22, 0.4), 0 0 40px rgba(249, 115, 22, 0.2), 0 10px 25px rgba(0, 0, 0, 0.3)',
+                  border: '1px solid rgba(249, 115, 22, 0.8)'
+                }}
+              >
+                <div className="absolute inset-0 rounded-3xl bg-gradient-to-br from-white/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
+                <div className="relative flex items-center justify-between">
+                  <div className="flex items-center space-x-4">
+                    <div className="w-14 h-14 bg-white/20 backdrop-blur-sm rounded-2xl flex items-center justify-center shadow-lg">
+                      <Smartphone className="w-7 h-7 text-white" />
+                    </div>
+                    <div className="text-left">
+                      <h3 className="text-lg font-bold text-white mb-1">Pass & Play</h3>
+                      <p className="text-sm text-white/80">One phone, passed around the table</p>
+                    </div>
+                  </div>
+                  <div className="text-white/80 text-sm font-medium group-hover:text-white transition-colors duration-300">→</div>
+                </div>
+              </button>
+            )}
+
             </div>
         </div>
 
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { Check, Link } from 'lucide-react';
+import { Language, RoomCode } from '../types';
+import { buildInviteUrl } from '../utils/inviteLink';
+
+interface InviteCardProps {
+  roomCode: RoomCode;
+  language: Language;
+}
+
+// How long "Link copied!" stays on the button
+const COPIED_NOTICE_MS = 2000;
+
+export default function InviteCard({ roomCode, language }: InviteCardProps) {
+  const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+  const inviteUrl = buildInviteUrl(roomCode);
+
+  // Drawn on this device, so no QR service ever sees the room link
+  useEffect(() => {
+    let isCurrent = true;
+    QRCode.toDataURL(inviteUrl, { margin: 1, width: 192, errorCorrectionLevel: 'M' })
+      .then(url => {
+        if (isCurrent) setQrCodeUrl(url);
+      })
+      .catch(error => {
+        console.error('Failed to draw invite QR code:', error);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [inviteUrl]);
+
+  useEffect(() => {
+    if (!isCopied) return;
+    const timer = setTimeout(() => setIsCopied(false), COPIED_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [isCopied]);
+
+  const texts = {
+    en: {
+      title: 'Invite Players',
+      scan: 'Scan to join',
+      copyLink: 'Copy invite link',
+      linkCopied: 'Link copied!'
+    },
+    ru: {
+      title: 'Пригласить игроков',
+      scan: 'Отсканируйте, чтобы войти',
+      copyLink: 'Скопировать ссылку',
+      linkCopied: 'Ссылка скопирована!'
+    },
+    ka: {
+      title: 'მოთამაშეების მოწვევა',
+      scan: 'დაასკანერეთ შესასვლელად',
+      copyLink: 'მოსაწვევი ბმულის კოპირება',
+      linkCopied: 'ბმული კოპირებულია!'
+    }
+  };
+
+  const t = texts[language];
+
+  const copyInviteLink = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+      setIsCopied(true);
+    } catch (err) {
+      console.error('Failed to copy invite link:', err);
+    }
+  };
+
+  return (
+    <div className="backdrop-blur-sm rounded-3xl p-6 mb-8 border shadow-2xl" style={{ backgroundColor: 'rgba(59, 130, 246, 0.1)', borderColor: 'rgba(59, 130, 246, 0.3)' }}>
+      <div className="text-center">
+        <h2 className="text-xl font-bold text-white mb-4">{t.title}</h2>
+        {qrCodeUrl && (
+          <div className="inline-block bg-white rounded-2xl p-3 mb-2 shadow-lg">
+            <img src={qrCodeUrl} alt={inviteUrl} className="w-40 h-40" />
+          </div>
+        )}
+        {qrCodeUrl && <p className="text-sm text-gray-400 mb-4">{t.scan}</p>}
+        <button
+          onClick={copyInviteLink}
+          className="w-full py-3 rounded-2xl bg-gray-800/50 hover:bg-gray-700/50 border border-gray-600/50 text-white font-medium transition-all duration-300 flex items-center justify-center space-x-2"
+        >
+          {isCopied ? <Check className="w-4 h-4 text-green-400" /> : <Link className="w-4 h-4" />}
+          <span>{isCopied ? t.linkCopied : t.copyLink}</span>
+        </button>
+        <p className="text-xs text-gray-500 mt-2 break-all">{inviteUrl}</p>
+      </div>
+    </div>
+  );
+}
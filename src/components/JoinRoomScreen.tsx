@@ -1,67 +1,109 @@
-import React, { useState } from 'react';
-import { Users } from 'lucide-react';
-import { Language } from '../types';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Lock, Users } from 'lucide-react';
+import { Language, RoomCode, RoomError } from '../types';
+import { getRoomErrorMessage } from '../utils/roomErrorMessages';
+import { normalizeRoomCodeInput, parseRoomCode, ROOM_CODE_MAX_LENGTH } from '../utils/roomCode';
 
 interface JoinRoomScreenProps {
-  onJoinRoom: (code: string) => void;
+  onJoinRoom: (code: RoomCode, password?: string) => void;
   onBack: () => void;
   language: Language;
-  error?: string;
+  error?: RoomError | null;
+  initialCode?: RoomCode | null; // Code from an invite link, or of the room being joined
+  autoJoin?: boolean; // Join initialCode right away instead of waiting for the button
+  needsPassword?: boolean; // The room asked for a password
+  isAwaitingApproval?: boolean; // Waiting for the host to let this player in
+  onCancelRequest?: () => void;
 }
 
-export default function JoinRoomScreen({ onJoinRoom, onBack, language, error }: JoinRoomScreenProps) {
-  const [roomCode, setRoomCode] = useState('');
+export default function JoinRoomScreen({
+  onJoinRoom,
+  onBack,
+  language,
+  error,
+  initialCode,
+  autoJoin = false,
+  needsPassword = false,
+  isAwaitingApproval = false,
+  onCancelRequest
+}: JoinRoomScreenProps) {
+  const [roomCode, setRoomCode] = useState<string>(initialCode || '');
+  const [password, setPassword] = useState('');
   const [isJoining, setIsJoining] = useState(false);
+  const hasAutoJoinedRef = useRef(false);
 
   const texts = {
     en: {
       title: 'Join Room',
       codeLabel: 'Room Code',
-      codePlaceholder: 'Enter 6-digit code...',
+      codePlaceholder: 'Enter room code...',
       join: 'Join Room',
       back: 'Back',
-      roomNotFound: 'Room not found',
-      invalidCode: 'Invalid room code'
+      passwordLabel: 'This room needs a password',
+      passwordPlaceholder: 'Room password',
+      awaitingApproval: 'Waiting for the host to let you in…',
+      cancelRequest: 'Stop waiting'
     },
     ru: {
       title: 'Присоединиться к комнате',
       codeLabel: 'Код комнаты',
-      codePlaceholder: 'Введите 6-значный код...',
+      codePlaceholder: 'Введите код комнаты...',
       join: 'Присоединиться',
       back: 'Назад',
-      roomNotFound: 'Комната не найдена',
-      invalidCode: 'Неверный код комнаты'
+      passwordLabel: 'Для входа в комнату нужен пароль',
+      passwordPlaceholder: 'Пароль комнаты',
+      awaitingApproval: 'Ждём, пока хост впустит вас…',
+      cancelRequest: 'Перестать ждать'
     },
     ka: {
       title: 'ოთახში შესვლა',
       codeLabel: 'ოთახის კოდი',
-      codePlaceholder: 'შეიყვანეთ 6-ნიშნა კოდი...',
+      codePlaceholder: 'შეიყვანეთ ოთახის კოდი...',
       join: 'ოთახში შესვლა',
       back: 'უკან',
-      roomNotFound: 'ოთახი ვერ მოიძებნა',
-      invalidCode: 'არასწორი ოთახის კოდი'
+      passwordLabel: 'ამ ოთახს პაროლი სჭირდება',
+      passwordPlaceholder: 'ოთახის პაროლი',
+      awaitingApproval: 'ველოდებით, სანამ მასპინძელი შეგიშვებთ…',
+      cancelRequest: 'ლოდინის შეწყვეტა'
     }
   };
 
   const t = texts[language];
 
+  // 6 digits or 5 letters and digits - null until the input is a whole code
+  const parsedCode = parseRoomCode(roomCode);
+
+  const joinRoom = useCallback(async (code: RoomCode) => {
+    setIsJoining(true);
+    try {
+      await onJoinRoom(code, needsPassword ? password : undefined);
+    } catch (err) {
+      console.error('Error joining room:', err);
+    } finally {
+      // On success this screen is already gone; on failure let the player try again
+      setIsJoining(false);
+    }
+  }, [onJoinRoom, needsPassword, password]);
+
+  // Invite links skip the button - the ref makes it happen once, also when joinRoom changes
+  // and on StrictMode's second mount
+  useEffect(() => {
+    if (autoJoin && initialCode && !hasAutoJoinedRef.current) {
+      hasAutoJoinedRef.current = true;
+      joinRoom(initialCode);
+    }
+  }, [autoJoin, initialCode, joinRoom]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (roomCode.length === 6 && !isJoining) {
-      setIsJoining(true);
-      try {
-        await onJoinRoom(roomCode);
-      } catch (err) {
-        console.error('Error joining room:', err);
-        setIsJoining(false);
-      }
+    if (parsedCode && !isJoining && !isAwaitingApproval && (!needsPassword || password)) {
+      joinRoom(parsedCode);
     }
   };
 
   const handleCodeChange = (value: string) => {
-    // Only allow numbers and limit to 6 digits
-    const cleaned = value.replace(/\D/g, '').slice(0, 6);
-    setRoomCode(cleaned);
+    // Upper case, no spaces or dashes, and only characters a room code can have
+    setRoomCode(normalizeRoomCodeInput(value));
   };
 
   return (
@@ -106,16 +148,55 @@ export default function JoinRoomScreen({ onJoinRoom, onBack, language, error }:
                 onChange={(e) => handleCodeChange(e.target.value)}
                 placeholder={t.codePlaceholder}
                 className="w-full px-6 py-4 bg-gray-800/50 border border-gray-700/50 rounded-xl text-center text-2xl font-mono tracking-widest text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-300"
-                maxLength={6}
+                maxLength={ROOM_CODE_MAX_LENGTH}
+                autoCapitalize="characters"
+                autoComplete="off"
+                spellCheck={false}
               />
 
+              {/* Password Input */}
+              {needsPassword && (
+                <div className="space-y-2">
+                  <label className="flex items-center justify-center space-x-2 text-sm text-gray-300">
+                    <Lock className="w-4 h-4" />
+                    <span>{t.passwordLabel}</span>
+                  </label>
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={t.passwordPlaceholder}
+                    className="w-full px-6 py-4 bg-gray-800/50 border border-gray-700/50 rounded-xl text-center text-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-300"
+                    autoComplete="off"
+                    autoFocus
+                  />
+                </div>
+              )}
+
+              {/* Waiting for Approval */}
+              {isAwaitingApproval && (
+                <div className="rounded-xl p-4 border text-center" style={{ backgroundColor: 'rgba(234, 179, 8, 0.15)', borderColor: 'rgba(234, 179, 8, 0.3)' }}>
+                  <p className="text-yellow-200 text-sm font-medium flex items-center justify-center">
+                    <span className="animate-spin rounded-full h-4 w-4 border-b-2 border-yellow-200 mr-2"></span>
+                    {t.awaitingApproval}
+                  </p>
+                  {onCancelRequest && (
+                    <button
+                      type="button"
+                      onClick={onCancelRequest}
+                      className="mt-3 text-xs text-yellow-300 underline hover:text-yellow-100"
+                    >
+                      {t.cancelRequest}
+                    </button>
+                  )}
+                </div>
+              )}
+
               {/* Error Message */}
               {error && (
                 <div className="rounded-xl p-4 border" style={{ backgroundColor: 'rgba(239, 68, 68, 0.15)', borderColor: 'rgba(239, 68, 68, 0.3)', backdropFilter: 'blur(4px)', WebkitBackdropFilter: 'blur(4px)' }}>
                   <p className="text-red-400 text-sm text-center font-medium">
-                    {error === 'roomNotFound' && t.roomNotFound}
-                    {error === 'invalidCode' && t.invalidCode}
-                    {!['roomNotFound', 'invalidCode'].includes(error) && error}
+                    {getRoomErrorMessage(error, language)}
                   </p>
                 </div>
               )}
@@ -125,11 +206,11 @@ export default function JoinRoomScreen({ onJoinRoom, onBack, language, error }:
           {/* Join Button */}
           <button
             type="submit"
-            disabled={roomCode.length !== 6 || isJoining}
+            disabled={!parsedCode || isJoining || isAwaitingApproval || (needsPassword && !password)}
             className="w-full py-4 rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 font-semibold text-lg text-white relative"
             style={{ 
               backgroundColor: '#3B82F6',
-              boxShadow: roomCode.length === 6 && !isJoining ? '0 0 20px rgba(59, 130, 246, 0.4), 0 0 40px rgba(59, 130, 246, 0.2), 0 10px 25px rgba(0, 0, 0, 0.3)' : '0 10px 25px rgba(0, 0, 0, 0.3)',
+              boxShadow: parsedCode && !isJoining ? '0 0 20px rgba(59, 130, 246, 0.4), 0 0 40px rgba(59, 130, 246, 0.2), 0 10px 25px rgba(0, 0, 0, 0.3)' : '0 10px 25px rgba(0, 0, 0, 0.3)',
               border: '1px solid rgba(59, 130, 246, 0.8)'
             }}
           >
@@ -1,7 +1,10 @@
 import { useState, useEffect, useRef } from 'react';
-import { Copy, Play, Users, Crown, User, Bot, HelpCircle } from 'lucide-react';
-import { GameState, Language } from '../types';
+import { Copy, Play, Users, Crown, User, Bot, HelpCircle, WifiOff, UserX, Ban, Lock, Check, X, Globe } from 'lucide-react';
+import { GameState, Language, RoomError, RoomPrivacy } from '../types';
+import { MAX_ROOM_PLAYERS, RoomJoinRequestRow } from '../services/roomService';
 import { Bot as BotType } from '../utils/botUtils';
+import { getRoomErrorMessage } from '../utils/roomErrorMessages';
+import InviteCard from './InviteCard';
 
 interface LobbyScreenProps {
   gameState: GameState;
@@ -12,7 +15,20 @@ interface LobbyScreenProps {
   onJesterToggle: (enabled: boolean) => void;
   onStartGame: () => void;
   onBack: () => void;
+  // Host moderation
+  onKickPlayer?: (playerId: string) => void;
+  onBanPlayer?: (playerId: string) => void;
+  onTransferHost?: (playerId: string) => void;
+  // Who may join, and players waiting for the host to let them in
+  privacy?: RoomPrivacy;
+  onPrivacyChange?: (privacy: RoomPrivacy, password?: string) => void;
+  joinRequests?: RoomJoinRequestRow[];
+  onAnswerJoinRequest?: (playerId: string, admit: boolean) => void;
+  // Listed in the public room browser
+  isPublic?: boolean;
+  onPublicToggle?: (isPublic: boolean) => void;
   language: Language;
+  error?: RoomError | null; // Last failed lobby call (adding a bot, changing settings)
 }
 
 export default function LobbyScreen({
@@ -24,7 +40,17 @@ export default function LobbyScreen({
   onJesterToggle,
   onStartGame,
   onBack,
-  language
+  onKickPlayer,
+  onBanPlayer,
+  onTransferHost,
+  privacy = 'open',
+  onPrivacyChange,
+  joinRequests = [],
+  onAnswerJoinRequest,
+  isPublic = false,
+  onPublicToggle,
+  language,
+  error
 }: LobbyScreenProps) {
   const { roomCode, players } = gameState;
   // Check if CURRENT user is host (not just if any player is host)
@@ -34,6 +60,11 @@ export default function LobbyScreen({
   
   const [showRandomizeTooltip, setShowRandomizeTooltip] = useState(false);
   const [showJesterTooltip, setShowJesterTooltip] = useState(false);
+  // Banning takes a second tap on the same player
+  const [banConfirmPlayerId, setBanConfirmPlayerId] = useState<string | null>(null);
+  // Password being typed for a password room, sent when the host saves it
+  const [roomPassword, setRoomPassword] = useState('');
+  const [isEditingPassword, setIsEditingPassword] = useState(false);
   
   // Refs for tooltip buttons
   const randomizeTooltipRef = useRef<HTMLButtonElement>(null);
@@ -87,6 +118,23 @@ export default function LobbyScreen({
       normal: 'Normal',
       custom: 'Custom',
       bot: 'Bot',
+      disconnected: 'Disconnected',
+      kick: 'Remove from room',
+      ban: 'Ban from room',
+      confirmBan: 'Tap again to ban',
+      makeHost: 'Make host',
+      publicRoom: 'Public room',
+      publicHint: 'Listed in Browse Rooms for anyone to find',
+      whoCanJoin: 'Who can join',
+      privacyOpen: 'Anyone',
+      privacyPassword: 'Password',
+      privacyApproval: 'Approval',
+      passwordPlaceholder: 'Room password',
+      savePassword: 'Save',
+      passwordSet: 'Players need the password to join',
+      waitingToJoin: 'Waiting to join',
+      admit: 'Let in',
+      reject: 'Turn away',
       jesterEnabled: 'Jester role enabled',
       jesterDisabled: 'Jester role disabled',
       randomizeEnabled: 'Randomize mode enabled',
@@ -116,6 +164,23 @@ export default function LobbyScreen({
       normal: 'Обычный',
       custom: 'Пользовательский',
       bot: 'Бот',
+      disconnected: 'Не в сети',
+      kick: 'Удалить из комнаты',
+      ban: 'Заблокировать в комнате',
+      confirmBan: 'Нажмите ещё раз, чтобы заблокировать',
+      makeHost: 'Сделать хостом',
+      publicRoom: 'Открытая комната',
+      publicHint: 'Комнату видно всем в поиске комнат',
+      whoCanJoin: 'Кто может войти',
+      privacyOpen: 'Все',
+      privacyPassword: 'Пароль',
+      privacyApproval: 'Одобрение',
+      passwordPlaceholder: 'Пароль комнаты',
+      savePassword: 'Сохранить',
+      passwordSet: 'Для входа нужен пароль',
+      waitingToJoin: 'Ждут входа',
+      admit: 'Впустить',
+      reject: 'Отклонить',
       jesterEnabled: 'Роль шута включена',
       jesterDisabled: 'Роль шута отключена',
       randomizeEnabled: 'Режим случайности включен',
@@ -145,6 +210,23 @@ export default function LobbyScreen({
       normal: 'ჩვეულებრივი',
       custom: 'პერსონალური',
       bot: 'ბოტი',
+      disconnected: 'გათიშულია',
+      kick: 'ოთახიდან გაძევება',
+      ban: 'ოთახში შესვლის აკრძალვა',
+      confirmBan: 'დააჭირეთ ხელახლა ასაკრძალად',
+      makeHost: 'ჰოსტად დანიშვნა',
+      publicRoom: 'ღია ოთახი',
+      publicHint: 'ოთახი ყველასთვის ჩანს ოთახების ძებნაში',
+      whoCanJoin: 'ვის შეუძლია შესვლა',
+      privacyOpen: 'ყველას',
+      privacyPassword: 'პაროლი',
+      privacyApproval: 'დადასტურება',
+      passwordPlaceholder: 'ოთახის პაროლი',
+      savePassword: 'შენახვა',
+      passwordSet: 'შესასვლელად პაროლია საჭირო',
+      waitingToJoin: 'შესვლას ელოდებიან',
+      admit: 'შეშვება',
+      reject: 'უარყოფა',
       jesterEnabled: 'ჯოკერის როლი ჩართულია',
       jesterDisabled: 'ჯოკერის როლი გამორთულია',
       randomizeEnabled: 'შემთხვევითობის რეჟიმი ჩართულია',
@@ -228,6 +310,9 @@ export default function LobbyScreen({
           </div>
         </div>
 
+        {/* Invite Link and QR Code */}
+        {roomCode && <InviteCard roomCode={roomCode} language={language} />}
+
         {/* Game Settings */}
         {isHost && (
           <div className="backdrop-blur-sm rounded-3xl p-6 mb-8 border shadow-2xl" style={{ backgroundColor: 'rgba(16, 185, 129, 0.1)', borderColor: 'rgba(16, 185, 129, 0.3)' }}>
@@ -348,12 +433,135 @@ export default function LobbyScreen({
                   </div>
                 )}
               </div>
+
+              {/* Public Listing */}
+              {onPublicToggle && (
+                <div>
+                  <label className="block text-lg text-gray-300 mb-3 flex items-center space-x-2">
+                    <Globe className="w-4 h-4" />
+                    <span>{t.publicRoom}</span>
+                  </label>
+                  <button
+                    onClick={() => onPublicToggle(!isPublic)}
+                    className={`w-full px-4 py-3 rounded-xl font-medium text-sm transition-all duration-200 ${
+                      isPublic
+                        ? 'bg-gradient-to-r from-purple-500 to-indigo-500 text-white'
+                        : 'bg-gray-600 hover:bg-gray-500 text-white'
+                    }`}
+                  >
+                    {isPublic ? t.on : t.off}
+                  </button>
+                  {isPublic && <p className="text-sm text-gray-400 mt-2">{t.publicHint}</p>}
+                </div>
+              )}
+
+              {/* Who Can Join */}
+              {onPrivacyChange && (
+                <div>
+                  <label className="block text-lg text-gray-300 mb-3 flex items-center space-x-2">
+                    <Lock className="w-4 h-4" />
+                    <span>{t.whoCanJoin}</span>
+                  </label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {(['open', 'password', 'approval'] as RoomPrivacy[]).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => {
+                          if (option === 'password') {
+                            setIsEditingPassword(true);
+                            return;
+                          }
+                          setIsEditingPassword(false);
+                          setRoomPassword('');
+                          onPrivacyChange(option);
+                        }}
+                        className={`px-3 py-3 rounded-xl font-medium text-sm transition-all duration-200 ${
+                          privacy === option || (option === 'password' && isEditingPassword)
+                            ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white'
+                            : 'bg-gray-600 hover:bg-gray-500 text-white'
+                        }`}
+                      >
+                        {option === 'open' && t.privacyOpen}
+                        {option === 'password' && t.privacyPassword}
+                        {option === 'approval' && t.privacyApproval}
+                      </button>
+                    ))}
+                  </div>
+                  {isEditingPassword && (
+                    <div className="flex space-x-2 mt-3">
+                      <input
+                        type="password"
+                        value={roomPassword}
+                        onChange={(e) => setRoomPassword(e.target.value)}
+                        placeholder={t.passwordPlaceholder}
+                        className="flex-1 min-w-0 px-4 py-3 bg-gray-800/50 border border-gray-700/50 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        autoComplete="new-password"
+                      />
+                      <button
+                        onClick={() => {
+                          onPrivacyChange('password', roomPassword);
+                          setIsEditingPassword(false);
+                          setRoomPassword('');
+                        }}
+                        disabled={!roomPassword}
+                        className="px-4 py-3 rounded-xl bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium text-sm transition-all duration-200"
+                      >
+                        {t.savePassword}
+                      </button>
+                    </div>
+                  )}
+                  {privacy === 'password' && !isEditingPassword && (
+                    <p className="text-sm text-gray-400 mt-2">{t.passwordSet}</p>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Join Requests */}
+        {isHost && onAnswerJoinRequest && joinRequests.length > 0 && (
+          <div className="backdrop-blur-sm rounded-3xl p-6 mb-8 border shadow-2xl" style={{ backgroundColor: 'rgba(234, 179, 8, 0.1)', borderColor: 'rgba(234, 179, 8, 0.3)' }}>
+            <h2 className="text-xl font-bold text-white mb-4 text-center">{t.waitingToJoin}</h2>
+            <div className="space-y-3">
+              {joinRequests.map(request => (
+                <div key={request.player_id} className="flex items-center justify-between bg-gray-800/50 rounded-2xl px-4 py-3">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    {request.avatar && request.avatar.startsWith('data:') ? (
+                      <img src={request.avatar} alt={`${request.username}'s avatar`} className="w-10 h-10 rounded-full object-cover" />
+                    ) : (
+                      <div className={`w-10 h-10 ${request.avatar || 'bg-gradient-to-br from-gray-500 to-gray-600'} rounded-full flex items-center justify-center`}>
+                        <User className="w-5 h-5 text-white" />
+                      </div>
+                    )}
+                    <span className="text-white font-medium truncate">{request.username}</span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => onAnswerJoinRequest(request.player_id, true)}
+                      title={t.admit}
+                      aria-label={t.admit}
+                      className="w-9 h-9 rounded-xl bg-green-500 hover:bg-green-600 text-white flex items-center justify-center transition-all duration-200"
+                    >
+                      <Check className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => onAnswerJoinRequest(request.player_id, false)}
+                      title={t.reject}
+                      aria-label={t.reject}
+                      className="w-9 h-9 rounded-xl bg-red-500 hover:bg-red-600 text-white flex items-center justify-center transition-all duration-200"
+                    >
+                      <X className="w-5 h-5" />
+                    </button>
+                  </div>
+                </div>
+              ))}
             </div>
           </div>
         )}
 
         {/* Add Bots Button */}
-        {isHost && players.length < 10 && (
+        {isHost && players.length < MAX_ROOM_PLAYERS && (
           <div className="mb-8">
             <button
               onClick={onAddBot}
@@ -375,14 +583,23 @@ export default function LobbyScreen({
           </div>
         )}
 
+        {/* Error Message */}
+        {error && (
+          <div className="mb-6">
+            <div className="bg-red-500/20 border border-red-500/50 rounded-xl p-4 text-center">
+              <p className="text-red-200 font-medium">{getRoomErrorMessage(error, language)}</p>
+            </div>
+          </div>
+        )}
+
         {/* Room Full Message */}
-        {players.length >= 10 && (
+        {players.length >= MAX_ROOM_PLAYERS && (
           <div className="mb-6">
             <div className="bg-yellow-500/20 border border-yellow-500/50 rounded-xl p-4 text-center">
               <p className="text-yellow-200 font-medium">
-                {language === 'en' && 'Room is full (10 players maximum)'}
-                {language === 'ru' && 'Комната полная (максимум 10 игроков)'}
-                {language === 'ka' && 'ოთახი სავსეა (მაქსიმუმ 10 მოთამაშე)'}
+                {language === 'en' && `Room is full (${MAX_ROOM_PLAYERS} players maximum)`}
+                {language === 'ru' && `Комната полная (максимум ${MAX_ROOM_PLAYERS} игроков)`}
+                {language === 'ka' && `ოთახი სავსეა (მაქსიმუმ ${MAX_ROOM_PLAYERS} მოთამაშე)`}
               </p>
             </div>
           </div>
@@ -396,7 +613,7 @@ export default function LobbyScreen({
             </div>
             <h2 className="text-xl font-bold text-white">{t.lobby}</h2>
             <span className="text-sm text-gray-400">
-              ({players.length}/10){gameState.selectedPackType === 'custom' ? ` - ${playingPlayers.length} playing` : ''}
+              ({players.length}/{MAX_ROOM_PLAYERS}){gameState.selectedPackType === 'custom' ? ` - ${playingPlayers.length} playing` : ''}
             </span>
           </div>
 
@@ -408,7 +625,7 @@ export default function LobbyScreen({
                   player.id === currentPlayerId 
                     ? 'border-orange-500/50 bg-orange-500/20 shadow-lg' 
                     : 'border-gray-600/50 bg-gray-700/30'
-                }`}
+                } ${!player.isConnected ? 'opacity-50' : ''}`}
               >
                 {/* Avatar */}
                 <div className="relative mx-auto mb-3">
@@ -455,8 +672,64 @@ export default function LobbyScreen({
                     {(player as BotType).isBot && (
                       <div className="text-xs text-blue-400 font-medium">{t.bot}</div>
                     )}
+                    {!player.isConnected && (
+                      <div className="text-xs text-red-400 font-medium flex items-center justify-center gap-1">
+                        <WifiOff className="w-3 h-3" />
+                        {t.disconnected}
+                      </div>
+                    )}
                   </div>
                 </div>
+
+                {/* Host Controls - bots can only be removed */}
+                {isHost && player.id !== currentPlayerId && (
+                  <div className="flex items-center justify-center gap-2 mt-3">
+                    {onTransferHost && !player.isBot && (
+                      <button
+                        onClick={() => onTransferHost(player.id)}
+                        title={t.makeHost}
+                        aria-label={t.makeHost}
+                        className="w-8 h-8 rounded-lg bg-yellow-500/20 hover:bg-yellow-500/40 text-yellow-300 flex items-center justify-center transition-all duration-200"
+                      >
+                        <Crown className="w-4 h-4" />
+                      </button>
+                    )}
+                    {onKickPlayer && (
+                      <button
+                        onClick={() => onKickPlayer(player.id)}
+                        title={t.kick}
+                        aria-label={t.kick}
+                        className="w-8 h-8 rounded-lg bg-gray-600/50 hover:bg-gray-500/50 text-gray-200 flex items-center justify-center transition-all duration-200"
+                      >
+                        <UserX className="w-4 h-4" />
+                      </button>
+                    )}
+                    {onBanPlayer && !player.isBot && (
+                      <button
+                        onClick={() => {
+                          if (banConfirmPlayerId === player.id) {
+                            setBanConfirmPlayerId(null);
+                            onBanPlayer(player.id);
+                          } else {
+                            setBanConfirmPlayerId(player.id);
+                          }
+                        }}
+                        title={banConfirmPlayerId === player.id ? t.confirmBan : t.ban}
+                        aria-label={banConfirmPlayerId === player.id ? t.confirmBan : t.ban}
+                        className={`w-8 h-8 rounded-lg flex items-center justify-center transition-all duration-200 ${
+                          banConfirmPlayerId === player.id
+                            ? 'bg-red-500 text-white animate-pulse'
+                            : 'bg-red-500/20 hover:bg-red-500/40 text-red-300'
+                        }`}
+                      >
+                        <Ban className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                )}
+                {banConfirmPlayerId === player.id && (
+                  <p className="text-xs text-red-300 text-center mt-1">{t.confirmBan}</p>
+                )}
               </div>
             ))}
           </div>
@@ -0,0 +1,407 @@
+import { useState } from 'react';
+import { AlertCircle, EyeOff, MessageCircle, Smartphone, Vote } from 'lucide-react';
+import { GameState, Language } from '../types';
+import { gameReducer } from '../utils/gameReducer';
+import {
+  getTurnPlayers,
+  getVoteChoices,
+  PassAndPlaySettings,
+  ROUND_END_ACTIONS,
+  startPassAndPlayGame
+} from '../utils/passAndPlay';
+import RoleRevealModal from './RoleRevealModal';
+import VoteResultsScreen from './VoteResultsScreen';
+import ResultsScreen from './ResultsScreen';
+
+interface PassAndPlayScreenProps {
+  settings: PassAndPlaySettings;
+  onExit: () => void;
+  language: Language;
+}
+
+export default function PassAndPlayScreen({ settings, onExit, language }: PassAndPlayScreenProps) {
+  const [gameState, setGameState] = useState<GameState>(() => startPassAndPlayGame(settings));
+  // Whose turn it is with the phone on the current screen, and whether it is still being handed over
+  const [turnIndex, setTurnIndex] = useState(0);
+  const [isPassing, setIsPassing] = useState(true);
+  const [answer, setAnswer] = useState('');
+  const [selectedVotes, setSelectedVotes] = useState<string[]>([]);
+  const [isShowingWord, setIsShowingWord] = useState(false);
+
+  const texts = {
+    en: {
+      passTo: 'Pass the phone to',
+      noPeeking: 'Everyone else, no peeking!',
+      itsMe: "I'm",
+      quit: 'Quit game',
+      quitConfirm: 'Quit this game and go back to the home screen?',
+      yourQuestion: 'Your Question',
+      answerPlaceholder: 'Type your answer...',
+      submitAnswer: 'Submit and pass on',
+      jesterClue: 'You might be a jester... 🤡',
+      jesterClueDescription: 'Act suspicious to get voted out!',
+      yourWord: 'Your Word',
+      impostorWord: 'You are the Impasta',
+      hideAndPass: 'Hide and pass on',
+      discussion: 'Discussion Time',
+      discussionHint: 'Put the phone in the middle and talk it over. Who are the impostors?',
+      question: 'Question',
+      noAnswer: 'No answer',
+      startingPlayer: 'starts describing the word',
+      startVoting: 'Start Voting',
+      voteFor: (count: number) => `Vote for ${count} player${count > 1 ? 's' : ''}`,
+      tieBreaker: 'Tie-breaker: vote again between the tied players',
+      submitVote: 'Vote and pass on'
+    },
+    ru: {
+      passTo: 'Передайте телефон игроку',
+      noPeeking: 'Остальные, не подглядывайте!',
+      itsMe: 'Я',
+      quit: 'Выйти из игры',
+      quitConfirm: 'Выйти из этой игры и вернуться на главный экран?',
+      yourQuestion: 'Ваш вопрос',
+      answerPlaceholder: 'Введите ваш ответ...',
+      submitAnswer: 'Отправить и передать',
+      jesterClue: 'Возможно, вы шут... 🤡',
+      jesterClueDescription: 'Ведите себя подозрительно, чтобы вас проголосовали!',
+      yourWord: 'Ваше слово',
+      impostorWord: 'Вы самозванец',
+      hideAndPass: 'Скрыть и передать',
+      discussion: 'Время обсуждения',
+      discussionHint: 'Положите телефон в центр и обсудите. Кто самозванцы?',
+      question: 'Вопрос',
+      noAnswer: 'Нет ответа',
+      startingPlayer: 'начинает описывать слово',
+      startVoting: 'Начать голосование',
+      voteFor: (count: number) => `Проголосуйте за ${count} ${count > 1 ? 'игроков' : 'игрока'}`,
+      tieBreaker: 'Ничья: проголосуйте ещё раз между игроками с равными голосами',
+      submitVote: 'Проголосовать и передать'
+    },
+    ka: {
+      passTo: 'გადაეცით ტელეფონი',
+      noPeeking: 'დანარჩენებო, არ ჩაიხედოთ!',
+      itsMe: 'მე ვარ',
+      quit: 'თამაშიდან გასვლა',
+      quitConfirm: 'გავიდეთ ამ თამაშიდან და დავბრუნდეთ მთავარ ეკრანზე?',
+      yourQuestion: 'თქვენი კითხვა',
+      answerPlaceholder: 'ჩაწერეთ თქვენი პასუხი...',
+      submitAnswer: 'გაგზავნა და გადაცემა',
+      jesterClue: 'შესაძლოა ჯოკერი ხართ... 🤡',
+      jesterClueDescription: 'იქცეოდით ეჭვიანად, რომ გამოგიყვანოთ!',
+      yourWord: 'თქვენი სიტყვა',
+      impostorWord: 'თქვენ ხართ თაღლითი',
+      hideAndPass: 'დამალვა და გადაცემა',
+      discussion: 'დისკუსიის დრო',
+      discussionHint: 'დადეთ ტელეფონი შუაში და განიხილეთ. ვინ არიან თაღლითები?',
+      question: 'კითხვა',
+      noAnswer: 'პასუხი არ არის',
+      startingPlayer: 'იწყებს სიტყვის აღწერას',
+      startVoting: 'ხმის მიცემის დაწყება',
+      voteFor: (count: number) => `მიეცით ხმა ${count} მოთამაშეს`,
+      tieBreaker: 'ფრე: ხელახლა მიეცით ხმა თანაბარი ხმების მქონე მოთამაშეებს',
+      submitVote: 'ხმის მიცემა და გადაცემა'
+    }
+  };
+
+  const t = texts[language];
+
+  const turnPlayers = getTurnPlayers(gameState);
+  const turnPlayer = turnPlayers[turnIndex];
+  const host = gameState.players.find(p => p.id === gameState.hostId);
+
+  // Hand the phone to the next player, or move the game on once everyone has had it
+  const passOn = (state: GameState) => {
+    const isLastTurn = turnIndex + 1 >= getTurnPlayers(state).length;
+    const roundEndAction = isLastTurn && state.currentScreen ? ROUND_END_ACTIONS[state.currentScreen] : undefined;
+
+    setGameState(roundEndAction ? gameReducer(state, roundEndAction) : state);
+    setTurnIndex(isLastTurn ? 0 : turnIndex + 1);
+    setIsPassing(true);
+    setAnswer('');
+    setSelectedVotes([]);
+    setIsShowingWord(false);
+  };
+
+  const handleQuit = () => {
+    if (window.confirm(t.quitConfirm)) {
+      onExit();
+    }
+  };
+
+  const handleSubmitAnswer = () => {
+    if (!turnPlayer || !answer.trim()) return;
+    passOn(gameReducer(gameState, { type: 'submitAnswer', playerId: turnPlayer.id, answer: answer.trim() }));
+  };
+
+  const handleRoleSeen = () => {
+    if (!turnPlayer) return;
+    const seen = gameReducer(gameState, { type: 'markRoleSeen', playerId: turnPlayer.id });
+    // In the word game the word comes after the role, on the same turn
+    if (gameState.gameMode === 'words' && !isShowingWord) {
+      setGameState(seen);
+      setIsShowingWord(true);
+      return;
+    }
+    passOn(seen);
+  };
+
+  const handleStartVoting = () => {
+    setGameState(gameReducer(gameState, { type: 'startVoting' }));
+    setTurnIndex(0);
+    setIsPassing(true);
+  };
+
+  const handleSubmitVote = (votesNeeded: number) => {
+    if (!turnPlayer || selectedVotes.length !== votesNeeded) return;
+    passOn(gameReducer(gameState, { type: 'castVote', playerId: turnPlayer.id, targetIds: selectedVotes }));
+  };
+
+  const handleVoteToggle = (playerId: string, votesNeeded: number) => {
+    setSelectedVotes(prev => {
+      if (prev.includes(playerId)) return prev.filter(id => id !== playerId);
+      if (votesNeeded === 1) return [playerId];
+      return prev.length < votesNeeded ? [...prev, playerId] : prev;
+    });
+  };
+
+  // Shared screens: the phone lies in the middle of the table
+  if (gameState.currentScreen === 'voteResults') {
+    return (
+      <VoteResultsScreen
+        gameState={gameState}
+        currentUsername={host?.username || ''}
+        onFinishGame={() => setGameState({ ...gameState, currentScreen: 'results' })}
+        onContinueRandomize={() => setGameState(gameReducer(gameState, { type: 'continueRound' }))}
+        onFinishRandomize={() => setGameState(gameReducer(gameState, { type: 'finishGame' }))}
+        language={language}
+      />
+    );
+  }
+
+  if (gameState.currentScreen === 'results') {
+    return (
+      <ResultsScreen
+        gameState={gameState}
+        onPlayAgain={() => {
+          setGameState(startPassAndPlayGame(settings));
+          setTurnIndex(0);
+          setIsPassing(true);
+        }}
+        onBackToHome={onExit}
+        language={language}
+      />
+    );
+  }
+
+  if (gameState.currentScreen === 'answers' || gameState.currentScreen === 'discussion') {
+    return (
+      <div className="min-h-screen p-4" style={{ backgroundColor: '#101721' }}>
+        <div className="relative z-10 max-w-md mx-auto">
+          <div className="text-center py-12">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl mb-4 shadow-lg" style={{ backgroundColor: '#3B82F6', boxShadow: '0 10px 25px rgba(59, 130, 246, 0.25)' }}>
+              <MessageCircle className="w-8 h-8 text-white" />
+            </div>
+            <h1 className="text-3xl font-bold mb-3 leading-tight text-white">{t.discussion}</h1>
+            <p className="text-gray-400 text-lg">{t.discussionHint}</p>
+          </div>
+
+          {gameState.gameMode === 'questions' ? (
+            <div className="backdrop-blur-sm rounded-3xl p-6 mb-8 border shadow-2xl" style={{ backgroundColor: 'rgba(16, 185, 129, 0.1)', borderColor: 'rgba(16, 185, 129, 0.3)' }}>
+              <h2 className="text-sm text-gray-400 mb-1">{t.question}</h2>
+              <p className="text-lg text-white mb-6 break-words">{gameState.currentQuestion}</p>
+              <div className="space-y-3">
+                {gameState.players.filter(p => !p.isEliminated).map(player => (
+                  <div key={player.id} className="flex items-center justify-between rounded-xl px-4 py-3 bg-white/5">
+                    <span className="font-semibold text-white">{player.username}</span>
+                    <span className="text-gray-300 text-right break-words ml-4">
+                      {gameState.playerAnswers[player.id] || t.noAnswer}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : gameState.startingPlayer && (
+            <div className="backdrop-blur-sm rounded-2xl p-4 mb-8 border shadow-2xl text-center" style={{ backgroundColor: 'rgba(245, 158, 11, 0.1)', borderColor: 'rgba(245, 158, 11, 0.3)' }}>
+              <p className="text-orange-300 font-semibold text-lg">
+                <span className="font-bold text-orange-200">{gameState.startingPlayer.username}</span> {t.startingPlayer}
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <button
+              onClick={handleStartVoting}
+              className="w-full py-4 rounded-2xl bg-red-500 hover:bg-red-600 text-white font-semibold flex items-center justify-center space-x-2 transition-all duration-300"
+            >
+              <Vote className="w-5 h-5" />
+              <span>{t.startVoting}</span>
+            </button>
+            <button onClick={handleQuit} className="w-full text-sm text-gray-500 hover:text-gray-400 underline">
+              {t.quit}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!turnPlayer) {
+    return null;
+  }
+
+  // Handing over: nothing secret on screen until the right player has the phone
+  if (isPassing) {
+    return (
+      <div className="min-h-screen p-6 flex items-center justify-center" style={{ backgroundColor: '#101721' }}>
+        <div className="w-full max-w-md backdrop-blur-sm rounded-3xl p-8 border shadow-2xl text-center" style={{ backgroundColor: 'rgba(249, 115, 22, 0.1)', borderColor: 'rgba(249, 115, 22, 0.3)' }}>
+          <Smartphone className="w-12 h-12 text-orange-400 mx-auto mb-4" />
+          <p className="text-gray-300 mb-2">{t.passTo}</p>
+          <h2 className="text-3xl font-bold text-white mb-4">{turnPlayer.username}</h2>
+          <p className="text-sm text-gray-400 mb-8 flex items-center justify-center space-x-2">
+            <EyeOff className="w-4 h-4" />
+            <span>{t.noPeeking}</span>
+          </p>
+          <button
+            onClick={() => setIsPassing(false)}
+            className="w-full py-4 rounded-2xl bg-orange-500 hover:bg-orange-600 text-white font-semibold transition-all duration-300"
+          >
+            {t.itsMe} {turnPlayer.username}
+          </button>
+          <button onClick={handleQuit} className="mt-4 text-sm text-gray-500 hover:text-gray-400 underline">
+            {t.quit}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const role = gameState.playerRoles[turnPlayer.id] || 'innocent';
+
+  if (gameState.currentScreen === 'questions') {
+    const question = role === 'impostor' ? gameState.currentImpostorQuestion : gameState.currentQuestion;
+    return (
+      <div className="min-h-screen p-4" style={{ backgroundColor: '#101721' }}>
+        <div className="relative z-10 max-w-md mx-auto py-12 space-y-6">
+          <h1 className="text-2xl font-bold text-white text-center">{turnPlayer.username}</h1>
+
+          {gameState.jesterCluePlayers.includes(turnPlayer.id) && (
+            <div className="rounded-2xl p-4 border flex items-center gap-3" style={{ backgroundColor: 'rgba(245, 158, 11, 0.1)', borderColor: 'rgba(245, 158, 11, 0.3)' }}>
+              <AlertCircle className="w-6 h-6 text-yellow-400 flex-shrink-0" />
+              <div>
+                <p className="font-bold text-yellow-300">{t.jesterClue}</p>
+                <p className="text-yellow-200/80 text-sm">{t.jesterClueDescription}</p>
+              </div>
+            </div>
+          )}
+
+          <div className="backdrop-blur-sm rounded-3xl p-6 border shadow-2xl" style={{ backgroundColor: 'rgba(168, 85, 247, 0.1)', borderColor: 'rgba(168, 85, 247, 0.3)' }}>
+            <h2 className="text-sm text-gray-400 mb-2 text-center">{t.yourQuestion}</h2>
+            <p className="text-xl text-white text-center break-words">"{question}"</p>
+          </div>
+
+          <textarea
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            placeholder={t.answerPlaceholder}
+            className="w-full h-24 px-4 py-3 bg-white/10 border border-white/20 rounded-2xl resize-none focus:outline-none focus:ring-2 focus:ring-green-500 text-white placeholder-gray-300"
+            maxLength={50}
+          />
+          <button
+            onClick={handleSubmitAnswer}
+            disabled={!answer.trim()}
+            className="w-full py-4 rounded-2xl bg-green-500 hover:bg-green-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold transition-all duration-300"
+          >
+            {t.submitAnswer}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (gameState.currentScreen === 'roleReveal') {
+    if (isShowingWord) {
+      return (
+        <div className="min-h-screen p-6 flex items-center justify-center" style={{ backgroundColor: '#101721' }}>
+          <div className="w-full max-w-md rounded-3xl p-10 border-2 shadow-2xl text-center" style={{ backgroundColor: 'rgba(59, 130, 246, 0.1)', borderColor: 'rgba(59, 130, 246, 0.3)' }}>
+            <h2 className="text-lg text-gray-300 mb-4">{turnPlayer.username}</h2>
+            {role === 'impostor' ? (
+              <p className="text-4xl font-black text-red-300">{t.impostorWord}</p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-400 mb-2">{t.yourWord}</p>
+                <p className="text-4xl font-bold text-white break-words">"{gameState.currentWord}"</p>
+              </>
+            )}
+            <button
+              onClick={handleRoleSeen}
+              className="mt-10 w-full py-4 rounded-2xl bg-blue-500 hover:bg-blue-600 text-white font-semibold transition-all duration-300"
+            >
+              {t.hideAndPass}
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="min-h-screen" style={{ backgroundColor: '#101721' }}>
+        <RoleRevealModal
+          key={turnPlayer.id}
+          playerRole={role === 'spectator' ? 'innocent' : role}
+          playerName={turnPlayer.username}
+          onClose={handleRoleSeen}
+          isOpen={true}
+          language={language}
+          players={gameState.players}
+          playerAnswers={gameState.playerAnswers}
+          currentQuestion={gameState.currentQuestion}
+          currentWord={gameState.currentWord}
+          gameMode={gameState.gameMode}
+        />
+      </div>
+    );
+  }
+
+  if (gameState.currentScreen === 'voting') {
+    const { votesNeeded, candidates } = getVoteChoices(gameState, turnPlayer.id);
+    return (
+      <div className="min-h-screen p-4" style={{ backgroundColor: '#101721' }}>
+        <div className="relative z-10 max-w-md mx-auto py-12 space-y-6">
+          <div className="text-center">
+            <h1 className="text-2xl font-bold text-white mb-2">{turnPlayer.username}</h1>
+            <p className="text-gray-300">{t.voteFor(votesNeeded)}</p>
+            {gameState.isTieVote && <p className="text-yellow-300 text-sm mt-2">{t.tieBreaker}</p>}
+          </div>
+
+          <div className="space-y-3">
+            {candidates.map(player => {
+              const isSelected = selectedVotes.includes(player.id);
+              return (
+                <button
+                  key={player.id}
+                  onClick={() => handleVoteToggle(player.id, votesNeeded)}
+                  className={`w-full px-4 py-4 rounded-2xl border text-left font-semibold transition-all duration-200 ${
+                    isSelected ? 'bg-red-500/30 border-red-400 text-white' : 'bg-white/5 border-white/10 text-gray-200 hover:bg-white/10'
+                  }`}
+                >
+                  {player.username}
+                </button>
+              );
+            })}
+          </div>
+
+          <p className="text-center text-gray-400">{selectedVotes.length}/{votesNeeded}</p>
+          <button
+            onClick={() => handleSubmitVote(votesNeeded)}
+            disabled={selectedVotes.length !== votesNeeded}
+            className="w-full py-4 rounded-2xl bg-red-500 hover:bg-red-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold transition-all duration-300"
+          >
+            {t.submitVote}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+}
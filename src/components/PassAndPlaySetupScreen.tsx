@@ -0,0 +1,272 @@
+import { useState } from 'react';
+import { Plus, Smartphone, X } from 'lucide-react';
+import { GameMode, Language } from '../types';
+import { MIN_PLAYERS_TO_START } from '../utils/gameReducer';
+import { getMaxImpostorCount, MAX_PASS_AND_PLAY_PLAYERS, PassAndPlaySettings } from '../utils/passAndPlay';
+
+interface PassAndPlaySetupScreenProps {
+  hostName: string; // Pre-filled as the first player
+  onStart: (settings: PassAndPlaySettings) => void;
+  onBack: () => void;
+  language: Language;
+}
+
+const PACKS: Record<GameMode, PassAndPlaySettings['packType'][]> = {
+  questions: ['normal', 'party', 'spicy'],
+  words: ['celebrities', 'characters', 'objects', 'spicy']
+};
+
+export default function PassAndPlaySetupScreen({ hostName, onStart, onBack, language }: PassAndPlaySetupScreenProps) {
+  const [playerNames, setPlayerNames] = useState<string[]>(() => [hostName.trim(), '', '']);
+  const [gameMode, setGameMode] = useState<GameMode>('questions');
+  const [packType, setPackType] = useState<PassAndPlaySettings['packType']>('normal');
+  const [impostorCount, setImpostorCount] = useState(1);
+  const [hasJester, setHasJester] = useState(false);
+
+  const texts = {
+    en: {
+      title: 'Pass and Play',
+      subtitle: 'One phone, passed around the table - no internet needed',
+      players: 'Players',
+      playerPlaceholder: 'Player name',
+      addPlayer: 'Add Player',
+      gameMode: 'Game',
+      questions: 'Questions',
+      words: 'Words',
+      pack: 'Pack',
+      packs: {
+        normal: 'Normal',
+        party: 'Party',
+        spicy: 'Spicy',
+        celebrities: 'Celebrities',
+        characters: 'Characters',
+        objects: 'Objects'
+      } as Record<string, string>,
+      impostors: 'Impostors',
+      jester: 'Jester',
+      on: 'ON',
+      off: 'OFF',
+      needPlayers: `Enter at least ${MIN_PLAYERS_TO_START} different names`,
+      start: 'Start Game',
+      back: 'Back'
+    },
+    ru: {
+      title: 'Игра на одном телефоне',
+      subtitle: 'Один телефон передаётся по кругу - интернет не нужен',
+      players: 'Игроки',
+      playerPlaceholder: 'Имя игрока',
+      addPlayer: 'Добавить игрока',
+      gameMode: 'Игра',
+      questions: 'Вопросы',
+      words: 'Слова',
+      pack: 'Пакет',
+      packs: {
+        normal: 'Обычный',
+        party: 'Вечеринка',
+        spicy: 'Острый',
+        celebrities: 'Знаменитости',
+        characters: 'Персонажи',
+        objects: 'Предметы'
+      } as Record<string, string>,
+      impostors: 'Самозванцы',
+      jester: 'Шут',
+      on: 'ВКЛ',
+      off: 'ВЫКЛ',
+      needPlayers: `Введите хотя бы ${MIN_PLAYERS_TO_START} разных имени`,
+      start: 'Начать игру',
+      back: 'Назад'
+    },
+    ka: {
+      title: 'ერთ ტელეფონზე თამაში',
+      subtitle: 'ერთი ტელეფონი გადაეცემა წრეში - ინტერნეტი არ არის საჭირო',
+      players: 'მოთამაშეები',
+      playerPlaceholder: 'მოთამაშის სახელი',
+      addPlayer: 'მოთამაშის დამატება',
+      gameMode: 'თამაში',
+      questions: 'კითხვები',
+      words: 'სიტყვები',
+      pack: 'პაკეტი',
+      packs: {
+        normal: 'ჩვეულებრივი',
+        party: 'ღონისძიება',
+        spicy: 'მწვავე',
+        celebrities: 'ცნობილი ადამიანები',
+        characters: 'პერსონაჟები',
+        objects: 'ნივთები'
+      } as Record<string, string>,
+      impostors: 'თაღლითები',
+      jester: 'ჯოკერი',
+      on: 'ჩართ.',
+      off: 'გამორთ.',
+      needPlayers: `შეიყვანეთ მინიმუმ ${MIN_PLAYERS_TO_START} განსხვავებული სახელი`,
+      start: 'თამაშის დაწყება',
+      back: 'უკან'
+    }
+  };
+
+  const t = texts[language];
+
+  const filledNames = playerNames.map(name => name.trim()).filter(Boolean);
+  const hasDuplicateNames = new Set(filledNames.map(name => name.toLowerCase())).size !== filledNames.length;
+  const canStart = filledNames.length >= MIN_PLAYERS_TO_START && !hasDuplicateNames;
+  const maxImpostors = getMaxImpostorCount(Math.max(filledNames.length, MIN_PLAYERS_TO_START));
+
+  const handleNameChange = (index: number, name: string) => {
+    setPlayerNames(prev => prev.map((current, i) => (i === index ? name : current)));
+  };
+
+  const handleRemovePlayer = (index: number) => {
+    setPlayerNames(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleGameModeChange = (mode: GameMode) => {
+    setGameMode(mode);
+    setPackType(PACKS[mode][0]);
+    if (mode === 'words') setHasJester(false); // The jester is a questions game role
+  };
+
+  const handleStart = () => {
+    if (!canStart) return;
+    onStart({
+      playerNames: filledNames,
+      gameMode,
+      packType,
+      impostorCount: Math.min(impostorCount, maxImpostors),
+      hasJester
+    });
+  };
+
+  const optionClass = (isSelected: boolean) => `px-4 py-2 rounded-xl text-sm font-medium transition-all duration-200 ${
+    isSelected ? 'bg-orange-500 text-white' : 'bg-gray-600 hover:bg-gray-500 text-white'
+  }`;
+
+  return (
+    <div className="min-h-screen p-4" style={{ backgroundColor: '#101721' }}>
+      <div className="relative z-10 max-w-md mx-auto">
+        {/* Header */}
+        <div className="text-center py-12">
+          <div className="mb-6">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl mb-4 shadow-lg" style={{ backgroundColor: '#F97316', boxShadow: '0 10px 25px rgba(249, 115, 22, 0.25)' }}>
+              <Smartphone className="w-8 h-8 text-white" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold mb-3 leading-tight text-white">{t.title}</h1>
+          <p className="text-gray-400 text-lg">{t.subtitle}</p>
+        </div>
+
+        {/* Players */}
+        <div className="backdrop-blur-sm rounded-3xl p-6 mb-6 border shadow-2xl" style={{ backgroundColor: 'rgba(249, 115, 22, 0.1)', borderColor: 'rgba(249, 115, 22, 0.3)' }}>
+          <h2 className="text-lg text-gray-300 mb-4">{t.players} ({filledNames.length}/{MAX_PASS_AND_PLAY_PLAYERS})</h2>
+          <div className="space-y-3">
+            {playerNames.map((name, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => handleNameChange(index, e.target.value)}
+                  placeholder={`${t.playerPlaceholder} ${index + 1}`}
+                  className="flex-1 px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-orange-500"
+                  maxLength={15}
+                />
+                {playerNames.length > MIN_PLAYERS_TO_START && (
+                  <button
+                    onClick={() => handleRemovePlayer(index)}
+                    className="w-10 h-10 rounded-xl bg-gray-600 hover:bg-red-500 text-white flex items-center justify-center transition-all duration-200"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          {playerNames.length < MAX_PASS_AND_PLAY_PLAYERS && (
+            <button
+              onClick={() => setPlayerNames(prev => [...prev, ''])}
+              className="mt-4 w-full py-3 rounded-xl border border-dashed border-orange-400/60 text-orange-300 hover:bg-orange-500/10 flex items-center justify-center space-x-2 transition-all duration-200"
+            >
+              <Plus className="w-4 h-4" />
+              <span>{t.addPlayer}</span>
+            </button>
+          )}
+        </div>
+
+        {/* Game Settings */}
+        <div className="backdrop-blur-sm rounded-3xl p-6 mb-8 border shadow-2xl space-y-6" style={{ backgroundColor: 'rgba(59, 130, 246, 0.1)', borderColor: 'rgba(59, 130, 246, 0.3)' }}>
+          <div>
+            <label className="block text-lg text-gray-300 mb-3">{t.gameMode}</label>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => handleGameModeChange('questions')} className={optionClass(gameMode === 'questions')}>{t.questions}</button>
+              <button onClick={() => handleGameModeChange('words')} className={optionClass(gameMode === 'words')}>{t.words}</button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-lg text-gray-300 mb-3">{t.pack}</label>
+            <div className="flex flex-wrap gap-2">
+              {PACKS[gameMode].map(pack => (
+                <button key={pack} onClick={() => setPackType(pack)} className={optionClass(packType === pack)}>
+                  {t.packs[pack]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-lg text-gray-300 mb-3">{t.impostors}</label>
+            <div className="flex items-center justify-center space-x-4">
+              <button
+                onClick={() => setImpostorCount(Math.max(1, impostorCount - 1))}
+                disabled={impostorCount <= 1}
+                className="w-12 h-12 bg-red-500 hover:bg-red-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-xl flex items-center justify-center font-bold text-lg transition-all duration-200 hover:scale-105"
+              >
+                -
+              </button>
+              <div className="bg-gray-700/50 rounded-xl py-3 px-6 min-w-[4rem] text-center">
+                <span className="text-white font-bold text-2xl">{Math.min(impostorCount, maxImpostors)}</span>
+              </div>
+              <button
+                onClick={() => setImpostorCount(Math.min(maxImpostors, impostorCount + 1))}
+                disabled={impostorCount >= maxImpostors}
+                className="w-12 h-12 bg-green-500 hover:bg-green-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-xl flex items-center justify-center font-bold text-lg transition-all duration-200 hover:scale-105"
+              >
+                +
+              </button>
+            </div>
+          </div>
+
+          {gameMode === 'questions' && (
+            <div>
+              <label className="block text-lg text-gray-300 mb-3">{t.jester}</label>
+              <button
+                onClick={() => setHasJester(!hasJester)}
+                className={`w-full px-4 py-3 rounded-xl font-medium text-sm transition-all duration-200 ${
+                  hasJester ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white' : 'bg-gray-600 hover:bg-gray-500 text-white'
+                }`}
+              >
+                {hasJester ? t.on : t.off}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Start / Back */}
+        <div className="space-y-3">
+          {!canStart && <p className="text-gray-400 text-sm text-center">{t.needPlayers}</p>}
+          <button
+            onClick={handleStart}
+            disabled={!canStart}
+            className="w-full py-4 rounded-2xl bg-orange-500 hover:bg-orange-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold transition-all duration-300"
+          >
+            {t.start}
+          </button>
+          <button
+            onClick={onBack}
+            className="w-full py-4 bg-gradient-to-br from-gray-600/80 to-gray-700/80 backdrop-blur-sm text-white font-medium rounded-2xl hover:from-gray-500/80 hover:to-gray-600/80 transition-all duration-300 border border-gray-500/70"
+          >
+            {t.back}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { Globe, Lock, Users } from 'lucide-react';
+import { Language, RoomCode } from '../types';
+import { usePublicRooms } from '../hooks/usePublicRooms';
+import { getRoomErrorMessage } from '../utils/roomErrorMessages';
+
+interface PublicRoomsScreenProps {
+  onJoinRoom: (code: RoomCode) => void;
+  onBack: () => void;
+  language: Language;
+}
+
+// Room languages are shown in their own language, whatever the app is set to
+const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  ru: 'Русский',
+  ka: 'ქართული'
+};
+
+export default function PublicRoomsScreen({ onJoinRoom, onBack, language }: PublicRoomsScreenProps) {
+  const { rooms, isLoading, error } = usePublicRooms();
+
+  const texts = {
+    en: {
+      title: 'Public Rooms',
+      subtitle: 'Open games you can jump into',
+      loading: 'Looking for rooms...',
+      empty: 'No public rooms right now. Create one and make it public from the lobby!',
+      questions: 'Questions',
+      words: 'Words',
+      noPack: 'No pack',
+      packs: {
+        party: 'Party',
+        spicy: 'Spicy',
+        normal: 'Normal',
+        custom: 'Custom',
+        celebrities: 'Celebrities',
+        characters: 'Characters',
+        objects: 'Objects'
+      } as Record<string, string>,
+      join: 'Join',
+      back: 'Back'
+    },
+    ru: {
+      title: 'Открытые комнаты',
+      subtitle: 'Игры, к которым можно присоединиться',
+      loading: 'Ищем комнаты...',
+      empty: 'Сейчас нет открытых комнат. Создайте свою и сделайте её открытой в лобби!',
+      questions: 'Вопросы',
+      words: 'Слова',
+      noPack: 'Без пакета',
+      packs: {
+        party: 'Вечеринка',
+        spicy: 'Острый',
+        normal: 'Обычный',
+        custom: 'Пользовательский',
+        celebrities: 'Знаменитости',
+        characters: 'Персонажи',
+        objects: 'Предметы'
+      } as Record<string, string>,
+      join: 'Войти',
+      back: 'Назад'
+    },
+    ka: {
+      title: 'ღია ოთახები',
+      subtitle: 'თამაშები, რომლებსაც შეგიძლიათ შეუერთდეთ',
+      loading: 'ვეძებთ ოთახებს...',
+      empty: 'ახლა ღია ოთახები არ არის. შექმენით ოთახი და ლობიდან გახადეთ ღია!',
+      questions: 'კითხვები',
+      words: 'სიტყვები',
+      noPack: 'პაკეტის გარეშე',
+      packs: {
+        party: 'ღონისძიება',
+        spicy: 'მწვავე',
+        normal: 'ჩვეულებრივი',
+        custom: 'პერსონალური',
+        celebrities: 'ცნობილი ადამიანები',
+        characters: 'პერსონაჟები',
+        objects: 'ნივთები'
+      } as Record<string, string>,
+      join: 'შესვლა',
+      back: 'უკან'
+    }
+  };
+
+  const t = texts[language];
+
+  return (
+    <div className="min-h-screen p-4" style={{ backgroundColor: '#101721' }}>
+      <div className="relative z-10 max-w-md mx-auto">
+        {/* Header */}
+        <div className="text-center py-12">
+          <div className="mb-6">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl mb-4 shadow-lg" style={{ backgroundColor: '#8B5CF6', boxShadow: '0 10px 25px rgba(139, 92, 246, 0.25)' }}>
+              <Globe className="w-8 h-8 text-white" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold mb-3 leading-tight text-white">{t.title}</h1>
+          <p className="text-gray-400 text-lg">{t.subtitle}</p>
+        </div>
+
+        {/* Room List */}
+        <div className="space-y-3 mb-8">
+          {error && (
+            <div className="rounded-xl p-4 border" style={{ backgroundColor: 'rgba(239, 68, 68, 0.15)', borderColor: 'rgba(239, 68, 68, 0.3)' }}>
+              <p className="text-red-400 text-sm text-center font-medium">{getRoomErrorMessage(error, language)}</p>
+            </div>
+          )}
+
+          {isLoading && (
+            <p className="text-gray-400 text-center flex items-center justify-center">
+              <span className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-400 mr-2"></span>
+              {t.loading}
+            </p>
+          )}
+
+          {!isLoading && !error && rooms.length === 0 && (
+            <p className="text-gray-400 text-center">{t.empty}</p>
+          )}
+
+          {rooms.map(room => (
+            <button
+              key={room.id}
+              onClick={() => onJoinRoom(room.code)}
+              className="w-full rounded-2xl p-4 border text-left transition-all duration-300 hover:-translate-y-0.5"
+              style={{ backgroundColor: 'rgba(139, 92, 246, 0.1)', borderColor: 'rgba(139, 92, 246, 0.3)' }}
+            >
+              <div className="flex items-center justify-between">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2 mb-1">
+                    <span className="font-mono font-bold text-white tracking-widest">{room.code}</span>
+                    {room.privacy !== 'open' && <Lock className="w-4 h-4 text-yellow-400" />}
+                  </div>
+                  <p className="text-sm text-gray-300 truncate">
+                    {room.game_mode === 'words' ? t.words : t.questions}
+                    {' · '}
+                    {room.selected_pack ? t.packs[room.selected_pack] || room.selected_pack : t.noPack}
+                    {' · '}
+                    {LANGUAGE_NAMES[room.language] || room.language}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0 ml-3">
+                  <span className="flex items-center space-x-1 text-sm text-gray-300">
+                    <Users className="w-4 h-4" />
+                    <span>{room.player_count}/{room.capacity}</span>
+                  </span>
+                  <span className="px-3 py-1 rounded-xl bg-purple-500 text-white text-sm font-medium">{t.join}</span>
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {/* Back Button */}
+        <button
+          onClick={onBack}
+          className="w-full py-4 bg-gradient-to-br from-gray-600/80 to-gray-700/80 backdrop-blur-sm text-white font-medium rounded-2xl hover:from-gray-500/80 hover:to-gray-600/80 transition-all duration-300 border border-gray-500/70"
+        >
+          {t.back}
+        </button>
+      </div>
+    </div>
+  );
+}
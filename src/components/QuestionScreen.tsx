@@ -1,10 +1,12 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Clock, Send, AlertCircle, CheckCircle, MessageCircle } from 'lucide-react';
-import { GameState, Language } from '../types';
+import { GameState, Language, PlayerSecret } from '../types';
+import { usePhaseCountdown } from '../hooks/usePhaseCountdown';
 
 interface QuestionScreenProps {
   gameState: GameState;
   currentUsername: string;
+  playerSecret?: PlayerSecret | null; // This player's role and question/word from the secrets channel
   onSubmitAnswer: (answer: string) => void;
   language: Language;
 }
@@ -12,19 +14,22 @@ interface QuestionScreenProps {
 export default function QuestionScreen({
   gameState,
   currentUsername,
+  playerSecret = null,
   onSubmitAnswer,
   language
 }: QuestionScreenProps) {
   const { players, playerRoles = {}, jesterCluePlayers = [] } = gameState;
   const currentPlayer = players.find(p => p.username === currentUsername);
   const [answer, setAnswer] = useState('');
-  const [timeLeft, setTimeLeft] = useState(120); // 2 minutes
   const [submitted, setSubmitted] = useState(false); // Start with false, will be set to true for word mode after word is shown
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Word game timer (1 minute)
-  const [wordGameTimeLeft, setWordGameTimeLeft] = useState(60);
+  // Counts down to the host's deadline: 2 minutes to answer, 1 minute to look at the word
+  const { secondsLeft: timeLeft, isTimeUp } = usePhaseCountdown(
+    gameState.phaseDeadline,
+    gameState.gameMode === 'words' ? 'wordReveal' : 'questions'
+  );
   const [wordGameTimerRunning, setWordGameTimerRunning] = useState(false);
 
   // Check if current player is a spectator - they shouldn't see this screen
@@ -38,26 +43,30 @@ export default function QuestionScreen({
 
   // Safely get player role with fallbacks
   const playerRole = useMemo(() => {
+    if (playerSecret) return playerSecret.role;
     if (!currentPlayer?.id) return 'innocent';
     // Try playerRoles first, then currentPlayer.role, then default to innocent
     return playerRoles[currentPlayer.id] || currentPlayer.role || 'innocent';
-  }, [playerRoles, currentPlayer?.id, currentPlayer?.role]);
+  }, [playerSecret, playerRoles, currentPlayer?.id, currentPlayer?.role]);
 
-  // Get role-specific question/word
+  // Get role-specific question/word - the shared state no longer carries the impostor's
   const question = useMemo(() => (
-    playerRole === 'impostor' ? gameState.currentImpostorQuestion : gameState.currentQuestion
-  ), [playerRole, gameState.currentImpostorQuestion, gameState.currentQuestion]);
+    playerSecret?.question ||
+    (playerRole === 'impostor' ? gameState.currentImpostorQuestion : gameState.currentQuestion)
+  ), [playerSecret, playerRole, gameState.currentImpostorQuestion, gameState.currentQuestion]);
   // For word game mode, use getWordForRole to get correct word based on role
   const word = useMemo(() => {
     if (gameState.gameMode === 'words') {
-      return playerRole === 'impostor' ? 'You are the Impasta' : gameState.currentWord;
+      return playerRole === 'impostor' ? 'You are the Impasta' : playerSecret?.word || gameState.currentWord;
     }
     return playerRole === 'impostor' ? gameState.currentImpostorWord : gameState.currentWord;
-  }, [gameState.gameMode, playerRole, gameState.currentWord, gameState.currentImpostorWord]);
+  }, [gameState.gameMode, playerRole, playerSecret, gameState.currentWord, gameState.currentImpostorWord]);
 
   
   // Check if current player should see jester clue
-  const shouldShowJesterClue = jesterCluePlayers?.includes(currentPlayer?.id || '') || false;
+  const shouldShowJesterClue = playerSecret
+    ? playerSecret.hasJesterClue
+    : jesterCluePlayers?.includes(currentPlayer?.id || '') || false;
 
   // Auto-set submitted and start timer for word game mode
   useEffect(() => {
@@ -102,44 +111,19 @@ export default function QuestionScreen({
     }
   }, [gameState.gameMode, answer, submitted, isSubmitting, onSubmitAnswer]);
 
-  // Timer countdown - Only for questions mode
+  // Send what has been typed when time runs out - the host moves everyone on right after
   useEffect(() => {
-    if (gameState.gameMode === 'questions' && !isSpectator && !submitted) {
-      if (timeLeft > 0) {
-        const timer = setTimeout(() => setTimeLeft(prev => prev - 1), 1000);
-        return () => clearTimeout(timer);
-      }
+    if (gameState.gameMode === 'questions' && !isSpectator && !submitted && isTimeUp) {
       handleSubmit();
     }
-  }, [gameState.gameMode, timeLeft, submitted, handleSubmit, isSpectator]);
-
-  // Word game timer and auto-navigation
-  useEffect(() => {
-    if (gameState.gameMode === 'words' && wordGameTimerRunning && wordGameTimeLeft > 0) {
-      const timer = setTimeout(() => {
-        setWordGameTimeLeft(prev => {
-          if (prev <= 1) {
-            // Auto-navigate to discussion screen
-            setWordGameTimerRunning(false);
-            // Navigate to discussion screen
-            const event = new CustomEvent('navigateToDiscussion');
-            window.dispatchEvent(event);
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-      return () => clearTimeout(timer);
-    }
-  }, [gameState.gameMode, wordGameTimerRunning, wordGameTimeLeft]);
+  }, [gameState.gameMode, isTimeUp, submitted, handleSubmit, isSpectator]);
 
-  // Auto-submit all remaining answers when timer runs out (including bots) - Only for questions mode
+  // Word game: go to the discussion once the word time is up
   useEffect(() => {
-    if (gameState.gameMode === 'questions' && timeLeft === 0 && !submitted) {
-      const event = new CustomEvent('forceSubmitAllAnswers');
-      window.dispatchEvent(event);
+    if (gameState.gameMode === 'words' && wordGameTimerRunning && isTimeUp) {
+      handleProceedToDiscussion();
     }
-  }, [gameState.gameMode, timeLeft, submitted]);
+  }, [gameState.gameMode, wordGameTimerRunning, isTimeUp, handleProceedToDiscussion]);
 
   const texts = {
     en: {
@@ -250,7 +234,7 @@ export default function QuestionScreen({
               <div className="flex items-center justify-center gap-3 text-white">
                 <Clock className="w-5 h-5" />
                 <span className="text-lg font-medium">
-                  Time Remaining: {Math.floor(wordGameTimeLeft / 60)}:{(wordGameTimeLeft % 60).toString().padStart(2, '0')}
+                  Time Remaining: {Math.floor(timeLeft / 60)}:{(timeLeft % 60).toString().padStart(2, '0')}
                 </span>
               </div>
             </div>
@@ -353,7 +337,7 @@ export default function QuestionScreen({
                 </span>
                 <button
                   onClick={handleSubmit}
-                  disabled={!answer.trim() || timeLeft === 0 || isSubmitting}
+                  disabled={!answer.trim() || isTimeUp || isSubmitting}
                   className="group relative min-w-[12rem] rounded-2xl px-6 py-3 transition-transform duration-300 shadow-lg hover:shadow-xl hover:-translate-y-1 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 disabled:hover:-translate-y-0"
                   style={{ 
                     backgroundColor: '#10B981',
@@ -0,0 +1,51 @@
+import { UserX } from 'lucide-react';
+import { Language } from '../types';
+
+interface RemovedFromRoomNoticeProps {
+  wasBanned: boolean;
+  language: Language;
+  onClose: () => void;
+}
+
+export default function RemovedFromRoomNotice({ wasBanned, language, onClose }: RemovedFromRoomNoticeProps) {
+  const texts = {
+    en: {
+      title: 'You were removed from the room',
+      kicked: 'The host removed you from the room. You can join again with the room code.',
+      banned: 'The host banned you from the room, so you can not join it again.',
+      ok: 'OK'
+    },
+    ru: {
+      title: 'Вас удалили из комнаты',
+      kicked: 'Хост удалил вас из комнаты. Вы можете войти снова по коду комнаты.',
+      banned: 'Хост заблокировал вас в этой комнате, поэтому войти в неё снова нельзя.',
+      ok: 'OK'
+    },
+    ka: {
+      title: 'ოთახიდან გაგაძევეს',
+      kicked: 'მასპინძელმა ოთახიდან გაგაძევათ. შეგიძლიათ ხელახლა შეხვიდეთ ოთახის კოდით.',
+      banned: 'მასპინძელმა ამ ოთახში შესვლა აგიკრძალათ, ამიტომ ხელახლა ვერ შეხვალთ.',
+      ok: 'კარგი'
+    }
+  };
+
+  const t = texts[language];
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 z-[9999]">
+      <div className="w-full max-w-sm rounded-3xl p-6 border shadow-2xl text-center" style={{ backgroundColor: '#101721', borderColor: 'rgba(239, 68, 68, 0.5)' }}>
+        <div className="w-14 h-14 mx-auto mb-4 rounded-2xl bg-red-500/20 flex items-center justify-center">
+          <UserX className="w-7 h-7 text-red-400" />
+        </div>
+        <h2 className="text-xl font-bold text-white mb-2">{t.title}</h2>
+        <p className="text-gray-300 mb-6">{wasBanned ? t.banned : t.kicked}</p>
+        <button
+          onClick={onClose}
+          className="w-full py-3 rounded-2xl bg-red-500 hover:bg-red-600 text-white font-semibold transition-all duration-300"
+        >
+          {t.ok}
+        </button>
+      </div>
+    </div>
+  );
+}
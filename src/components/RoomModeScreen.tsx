@@ -1,15 +1,16 @@
 import React from 'react';
-import { Plus, Users } from 'lucide-react';
+import { Globe, Plus, Users } from 'lucide-react';
 import { Language } from '../types';
 
 interface RoomModeScreenProps {
   onCreateRoom: () => void;
   onJoinRoom: () => void;
+  onBrowseRooms: () => void;
   onBack: () => void;
   language: Language;
 }
 
-export default function RoomModeScreen({ onCreateRoom, onJoinRoom, onBack, language }: RoomModeScreenProps) {
+export default function RoomModeScreen({ onCreateRoom, onJoinRoom, onBrowseRooms, onBack, language }: RoomModeScreenProps) {
   console.log('RoomModeScreen rendered with props:', { onCreateRoom: !!onCreateRoom, onJoinRoom: !!onJoinRoom, onBack: !!onBack, language });
   const texts = {
     en: {
@@ -18,6 +19,8 @@ export default function RoomModeScreen({ onCreateRoom, onJoinRoom, onBack, langu
       joinRoom: 'Join a Room',
       createDesc: 'Host a new game and invite friends',
       joinDesc: 'Enter a room code to join existing game',
+      browseRooms: 'Browse Rooms',
+      browseDesc: 'Find an open game to jump into',
       back: 'Back'
     },
     ru: {
@@ -26,6 +29,8 @@ export default function RoomModeScreen({ onCreateRoom, onJoinRoom, onBack, langu
       joinRoom: 'Присоединиться к комнате',
       createDesc: 'Создать новую игру и пригласить друзей',
       joinDesc: 'Введите код комнаты для присоединения',
+      browseRooms: 'Найти комнату',
+      browseDesc: 'Найдите открытую игру и присоединяйтесь',
       back: 'Назад'
     },
     ka: {
@@ -34,6 +39,8 @@ export default function RoomModeScreen({ onCreateRoom, onJoinRoom, onBack, langu
       joinRoom: 'ოთახში შესვლა',
       createDesc: 'ახალი თამაშის ჩატარება და მეგობრების მოწვევა',
       joinDesc: 'შეიყვანეთ ოთახის კოდი არსებულ თამაშში შესასვლელად',
+      browseRooms: 'ოთახების ძებნა',
+      browseDesc: 'იპოვეთ ღია თამაში და შეუერთდით',
       back: 'უკან'
     }
   };
@@ -116,6 +123,30 @@ export default function RoomModeScreen({ onCreateRoom, onJoinRoom, onBack, langu
               <div className="text-white/80 text-sm font-medium group-hover:text-white transition-colors duration-300">→</div>
             </div>
           </button>
+
+          <button
+            onClick={onBrowseRooms}
+            className="group relative rounded-3xl p-6 transition-all duration-300 w-full shadow-lg hover:shadow-xl hover:-translate-y-1"
+            style={{ 
+              backgroundColor: '#8B5CF6',
+              boxShadow: '0 0 20px rgba(139, 92, 246, 0.4), 0 0 40px rgba(139, 92, 246, 0.2), 0 10px 25px rgba(0, 0, 0, 0.3)',
+              border: '1px solid rgba(139, 92, 246, 0.8)'
+            }}
+          >
+            <div className="absolute inset-0 rounded-3xl bg-gradient-to-br from-white/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
+            <div className="relative flex items-center justify-between">
+              <div className="flex items-center space-x-4">
+                <div className="w-14 h-14 bg-white/20 backdrop-blur-sm rounded-2xl flex items-center justify-center shadow-lg">
+                  <Globe className="w-7 h-7 text-white" />
+                </div>
+                <div className="text-left">
+                  <h3 className="text-lg font-bold text-white mb-1">{t.browseRooms}</h3>
+                  <p className="text-sm text-white/80">{t.browseDesc}</p>
+                </div>
+              </div>
+              <div className="text-white/80 text-sm font-medium group-hover:text-white transition-colors duration-300">→</div>
+            </div>
+          </button>
         </div>
 
         {/* Back Button */}
@@ -0,0 +1,53 @@
+import { Eye } from 'lucide-react';
+import { Language } from '../types';
+
+interface SpectatorBannerProps {
+  language: Language;
+  // While players answer there is nothing to watch yet, so the banner fills the screen
+  isWaitingForAnswers?: boolean;
+}
+
+export default function SpectatorBanner({ language, isWaitingForAnswers = false }: SpectatorBannerProps) {
+  const texts = {
+    en: {
+      spectating: 'You are watching this game',
+      nextGame: 'You will join the players when the next game starts',
+      waitingForAnswers: 'Players are answering – their answers will show up here'
+    },
+    ru: {
+      spectating: 'Вы наблюдаете за этой игрой',
+      nextGame: 'Вы присоединитесь к игрокам, когда начнётся следующая игра',
+      waitingForAnswers: 'Игроки отвечают – их ответы появятся здесь'
+    },
+    ka: {
+      spectating: 'თქვენ ამ თამაშს უყურებთ',
+      nextGame: 'შემდეგი თამაშის დაწყებისას მოთამაშეებს შეუერთდებით',
+      waitingForAnswers: 'მოთამაშეები პასუხობენ – მათი პასუხები აქ გამოჩნდება'
+    }
+  };
+
+  const t = texts[language];
+
+  if (isWaitingForAnswers) {
+    return (
+      <div className="min-h-screen p-6 flex items-center justify-center" style={{ backgroundColor: '#101721' }}>
+        <div className="w-full max-w-md backdrop-blur-sm rounded-3xl p-8 border shadow-2xl text-center" style={{ backgroundColor: 'rgba(59, 130, 246, 0.1)', borderColor: 'rgba(59, 130, 246, 0.3)' }}>
+          <Eye className="w-12 h-12 text-blue-400 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-white mb-2">{t.spectating}</h2>
+          <p className="text-gray-300 mb-4">{t.waitingForAnswers}</p>
+          <p className="text-sm text-gray-400">{t.nextGame}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed top-4 left-1/2 transform -translate-x-1/2 w-80 max-w-[calc(100vw-2rem)] px-4 py-3 bg-blue-600/90 backdrop-blur-sm text-white text-sm rounded-2xl shadow-lg z-[9999]">
+      <div className="flex items-center space-x-2">
+        <Eye className="w-5 h-5 flex-shrink-0" />
+        <span className="font-semibold">{t.spectating}</span>
+      </div>
+      <p className="text-xs text-white/80 mt-1">{t.nextGame}</p>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Loader2, RefreshCw, WifiOff } from 'lucide-react';
+import { Language } from '../types';
+import type { RoomOutboxStatus } from '../services/roomService';
+
+interface SyncStatusBannerProps {
+  status: RoomOutboxStatus;
+  language: Language;
+  onRetry: () => void;
+  onDiscard: () => void;
+}
+
+// Most writes land well within this, so only slow ones flash "Syncing..."
+const SYNCING_NOTICE_DELAY_MS = 1000;
+
+export default function SyncStatusBanner({ status, language, onRetry, onDiscard }: SyncStatusBannerProps) {
+  const [isSlow, setIsSlow] = useState(false);
+
+  useEffect(() => {
+    if (status.pending === 0) {
+      setIsSlow(false);
+      return;
+    }
+    const timer = setTimeout(() => setIsSlow(true), SYNCING_NOTICE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [status.pending]);
+
+  const texts = {
+    en: {
+      syncing: 'Syncing…',
+      offline: 'You are offline',
+      offlinePending: 'You are offline – your changes will sync when you reconnect',
+      failed: 'Some changes could not be saved',
+      retry: 'Retry',
+      discard: 'Discard'
+    },
+    ru: {
+      syncing: 'Синхронизация…',
+      offline: 'Нет подключения',
+      offlinePending: 'Нет подключения – изменения сохранятся, когда связь вернётся',
+      failed: 'Не удалось сохранить некоторые изменения',
+      retry: 'Повторить',
+      discard: 'Отменить'
+    },
+    ka: {
+      syncing: 'სინქრონიზაცია…',
+      offline: 'კავშირი არ არის',
+      offlinePending: 'კავშირი არ არის – ცვლილებები შეინახება, როცა კავშირი აღდგება',
+      failed: 'ზოგიერთი ცვლილება ვერ შეინახა',
+      retry: 'თავიდან ცდა',
+      discard: 'გაუქმება'
+    }
+  };
+
+  const t = texts[language];
+
+  if (status.failed > 0) {
+    return (
+      <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 w-80 max-w-[calc(100vw-2rem)] p-4 bg-red-600/90 backdrop-blur-sm text-white text-sm rounded-2xl shadow-lg z-[9999]">
+        <div className="flex items-center space-x-2 mb-3">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <span className="font-semibold">{t.failed}</span>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={onRetry}
+            className="flex-1 py-2 bg-white/20 hover:bg-white/30 rounded-xl font-medium transition-all duration-300 flex items-center justify-center space-x-2"
+          >
+            <RefreshCw className="w-4 h-4" />
+            <span>{t.retry}</span>
+          </button>
+          <button
+            onClick={onDiscard}
+            className="flex-1 py-2 bg-black/20 hover:bg-black/30 rounded-xl font-medium transition-all duration-300"
+          >
+            {t.discard}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!status.isOnline) {
+    return (
+      <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 max-w-[calc(100vw-2rem)] px-4 py-3 bg-gray-800/90 backdrop-blur-sm text-white text-sm rounded-2xl shadow-lg z-[9999] flex items-center space-x-2">
+        <WifiOff className="w-4 h-4 flex-shrink-0" />
+        <span>{status.pending > 0 ? t.offlinePending : t.offline}</span>
+      </div>
+    );
+  }
+
+  if (status.pending > 0 && (isSlow || status.isRetrying)) {
+    return (
+      <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 px-4 py-3 bg-gray-800/90 backdrop-blur-sm text-white text-sm rounded-2xl shadow-lg z-[9999] flex items-center space-x-2">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>{t.syncing}</span>
+      </div>
+    );
+  }
+
+  return null;
+}
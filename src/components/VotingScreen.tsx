@@ -1,8 +1,10 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { GameState } from '../types';
+import { GameState, Language, RoomError } from '../types';
 import { generateBotVotes } from '../utils/botUtils';
+import { getRoomErrorMessage } from '../utils/roomErrorMessages';
 import { generateWordsGameBotVotes } from '../utils/wordsGameLogic';
-import { User, Vote, Clock, MessageCircle, Play } from 'lucide-react';
+import { usePhaseCountdown } from '../hooks/usePhaseCountdown';
+import { User, Vote, Clock, MessageCircle, Play, WifiOff } from 'lucide-react';
 
 interface VotingScreenProps {
   gameState: GameState;
@@ -10,6 +12,8 @@ interface VotingScreenProps {
   onVote: (votes: string[]) => void;
   onBotVote: (botId: string, votes: string[]) => void;
   onStartVoting?: () => void;
+  language?: Language;
+  roomError?: RoomError | null; // Why the last ballot or tally didn't go through
 }
 
 export default function VotingScreen({
@@ -17,12 +21,15 @@ export default function VotingScreen({
   currentUsername,
   onVote, 
   onBotVote,
-  onStartVoting
+  onStartVoting,
+  language = 'en',
+  roomError
 }: VotingScreenProps) {
   const [selectedVotes, setSelectedVotes] = useState<string[]>([]);
   const [submitted, setSubmitted] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [discussionTimeLeft, setDiscussionTimeLeft] = useState(60);
+  // A last minute of discussion before voting opens, counted down to the host's deadline
+  const { secondsLeft: discussionTimeLeft, isTimeUp: isDiscussionOver } = usePhaseCountdown(gameState.phaseDeadline, 'votingDiscussion');
   const [votingStarted, setVotingStarted] = useState(gameState.phase === 'voting');
 
   // Memoize current player to prevent unnecessary recalculations
@@ -94,13 +101,7 @@ useEffect(() => {
     setError(null);
     
     // For tie-breaker or randomize mode, start voting immediately
-    if (gameState.isRandomizeMode || gameState.isTieVote || gameState.phase === 'voting') {
-      setVotingStarted(true);
-      setDiscussionTimeLeft(0);
-    } else {
-      setVotingStarted(false);
-      setDiscussionTimeLeft(60);
-    }
+    setVotingStarted(gameState.isRandomizeMode || gameState.isTieVote || gameState.phase === 'voting');
   }, [gameState.isRandomizeMode, gameState.isTieVote, gameState.phase]);
 
   // Stable timer callback to prevent recreation
@@ -109,22 +110,11 @@ useEffect(() => {
     onStartVoting?.();
   }, [onStartVoting]);
 
-  // Discussion timer - single effect with proper cleanup
+  // Open voting once the discussion deadline has passed
   useEffect(() => {
-    if (votingStarted || discussionTimeLeft <= 0 || gameState.isRandomizeMode || gameState.isTieVote) return;
-
-    const timer = setInterval(() => {
-      setDiscussionTimeLeft(prev => {
-        if (prev <= 1) {
-          handleStartVoting();
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => clearInterval(timer);
-  }, [votingStarted, handleStartVoting, gameState.isRandomizeMode, gameState.isTieVote, discussionTimeLeft]);
+    if (votingStarted || !isDiscussionOver || gameState.isRandomizeMode || gameState.isTieVote) return;
+    handleStartVoting();
+  }, [votingStarted, handleStartVoting, gameState.isRandomizeMode, gameState.isTieVote, isDiscussionOver]);
 
   // Bot voting - INSTANT VOTING
   useEffect(() => {
@@ -510,9 +500,11 @@ useEffect(() => {
         )}
 
         {/* Error Message */}
-        {error && (
+        {(error || roomError) && (
           <div className="bg-red-500/20 border border-red-500/50 rounded-xl p-4 mb-6">
-            <p className="text-red-200 text-center font-medium">{error}</p>
+            <p className="text-red-200 text-center font-medium">
+              {error || (roomError && getRoomErrorMessage(roomError, language))}
+            </p>
           </div>
         )}
 
@@ -578,6 +570,12 @@ useEffect(() => {
                       {player.username}
                       {player.id === currentPlayerId && ' (You)'}
                     </h3>
+                    {!player.isConnected && (
+                      <span className="inline-flex items-center gap-1 text-xs text-red-400 font-medium">
+                        <WifiOff className="w-3 h-3" />
+                        Disconnected
+                      </span>
+                    )}
                   </div>
                   
                   {/* Answer Display - Only show for questions game */}
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as authService from '../services/authService';
+
+// Wait for the player to stop typing before saving their name
+const PROFILE_SAVE_DELAY_MS = 1000;
+
+/**
+ * The signed-in user's account and profile
+ * Loads both whenever the user changes, hands a saved name and avatar to onProfileLoaded,
+ * and saves the name and avatar back to the profile as the player edits them
+ */
+export function useAccount(
+  userId: string | null,
+  username: string,
+  avatar: string,
+  onProfileLoaded: (profile: authService.ProfileRow) => void
+) {
+  const [account, setAccount] = useState<authService.AuthUser | null>(null);
+  const [savedProfile, setSavedProfile] = useState<authService.ProfileRow | null>(null);
+  // Whose profile has been loaded; nothing is saved before that, so a slow load can't be overwritten
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const onProfileLoadedRef = useRef(onProfileLoaded);
+
+  useEffect(() => {
+    onProfileLoadedRef.current = onProfileLoaded;
+  }, [onProfileLoaded]);
+
+  useEffect(() => {
+    if (!userId) {
+      setAccount(null);
+      setSavedProfile(null);
+      setLoadedUserId(null);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([authService.getCurrentUser(), authService.getProfile(userId)]).then(([user, profile]) => {
+      if (cancelled) return;
+      if (user.ok) setAccount(user.value);
+      if (!profile.ok) {
+        console.warn('⚠️ Could not load profile:', profile.error.kind, profile.error.message);
+        return;
+      }
+      setSavedProfile(profile.value);
+      setLoadedUserId(userId);
+      if (profile.value) onProfileLoadedRef.current(profile.value);
+    });
+    return () => { cancelled = true; };
+  }, [userId, reloadCount]);
+
+  useEffect(() => {
+    const name = username.trim();
+    if (!userId || loadedUserId !== userId || !name) return;
+    if (savedProfile && savedProfile.username === name && (savedProfile.avatar || '') === avatar) return;
+
+    const timeout = setTimeout(async () => {
+      const saved = await authService.saveProfile(userId, name, avatar || null);
+      if (saved.ok) {
+        setSavedProfile(saved.value);
+      } else {
+        console.warn('⚠️ Could not save profile:', saved.error.kind, saved.error.message);
+      }
+    }, PROFILE_SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [userId, loadedUserId, username, avatar, savedProfile]);
+
+  // Read the account again, e.g. after linking an email
+  const reloadAccount = useCallback(() => setReloadCount(count => count + 1), []);
+
+  return { account, reloadAccount };
+}
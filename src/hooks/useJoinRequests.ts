@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import * as roomService from '../services/roomService';
+
+/**
+ * Players waiting for the host to let them into a private room (host only)
+ */
+export function useJoinRequests(roomId: string | null, isHost: boolean) {
+  const [requests, setRequests] = useState<roomService.RoomJoinRequestRow[]>([]);
+
+  useEffect(() => {
+    if (!roomId || !isHost) {
+      setRequests([]);
+      return;
+    }
+
+    let cancelled = false;
+    const showPending = (rows: roomService.RoomJoinRequestRow[]) => {
+      if (!cancelled) setRequests(rows.filter(r => r.status === 'pending'));
+    };
+
+    roomService.getJoinRequests(roomId).then(rows => {
+      if (rows.ok) showPending(rows.value);
+    });
+    const subscription = roomService.subscribeToJoinRequests(roomId, showPending);
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [roomId, isHost]);
+
+  return requests;
+}
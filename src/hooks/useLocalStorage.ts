@@ -1,23 +1,38 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+
+function readItem<T>(key: string, defaultValue: T): T {
+  try {
+    const item = window.localStorage.getItem(key);
+    return item ? JSON.parse(item) : defaultValue;
+  } catch (error) {
+    console.warn(`Error reading localStorage key "${key}":`, error);
+    return defaultValue;
+  }
+}
 
 export function useLocalStorage<T>(key: string, defaultValue: T) {
-  const [value, setValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : defaultValue;
-    } catch (error) {
-      console.warn(`Error reading localStorage key "${key}":`, error);
-      return defaultValue;
-    }
-  });
+  const [stored, setStored] = useState(() => ({ key, value: readItem(key, defaultValue) }));
+
+  // A new key starts from what is already stored under it, not from the old key's value
+  if (stored.key !== key) {
+    setStored({ key, value: readItem(key, defaultValue) });
+  }
 
   useEffect(() => {
     try {
-      window.localStorage.setItem(key, JSON.stringify(value));
+      window.localStorage.setItem(stored.key, JSON.stringify(stored.value));
     } catch (error) {
-      console.warn(`Error setting localStorage key "${key}":`, error);
+      console.warn(`Error setting localStorage key "${stored.key}":`, error);
     }
-  }, [key, value]);
+  }, [stored]);
+
+  const value = stored.key === key ? stored.value : readItem(key, defaultValue);
+  const setValue = useCallback((next: T | ((previous: T) => T)) => {
+    setStored(previous => ({
+      key: previous.key,
+      value: next instanceof Function ? next(previous.value) : next
+    }));
+  }, []);
 
   return [value, setValue] as const;
-}
\ No newline at end of file
+}
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import * as roomService from '../services/roomService';
+import { PHASE_DURATIONS_MS, secondsUntil, TimedPhase } from '../utils/phaseDeadline';
+
+// Ticks faster than once a second so the display turns over close to each whole second
+const COUNTDOWN_TICK_MS = 250;
+
+/**
+ * Seconds left until the host's phase deadline, on the server clock
+ * Shows the full phase length until the deadline has synced; isTimeUp only once it has passed
+ */
+export function usePhaseCountdown(deadline: number | undefined, phase: TimedPhase) {
+  const [now, setNow] = useState(() => roomService.serverNow());
+
+  useEffect(() => {
+    if (deadline === undefined) return;
+
+    setNow(roomService.serverNow());
+    const timer = setInterval(() => setNow(roomService.serverNow()), COUNTDOWN_TICK_MS);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  if (deadline === undefined) {
+    return { secondsLeft: PHASE_DURATIONS_MS[phase] / 1000, isTimeUp: false };
+  }
+  const secondsLeft = secondsUntil(deadline, now);
+  return { secondsLeft, isTimeUp: secondsLeft === 0 };
+}
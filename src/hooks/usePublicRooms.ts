@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { RoomError } from '../types';
+import * as roomService from '../services/roomService';
+
+/**
+ * Public rooms someone can join right now, kept up to date while the room browser is open
+ */
+export function usePublicRooms() {
+  const [rooms, setRooms] = useState<roomService.RoomRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<RoomError | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    roomService.getPublicRooms().then(result => {
+      if (cancelled) return;
+      if (result.ok) {
+        setRooms(result.value);
+        setError(null);
+      } else {
+        console.warn('⚠️ Could not load public rooms:', result.error.kind, result.error.message);
+        setError(result.error);
+      }
+      setIsLoading(false);
+    });
+    const subscription = roomService.subscribeToPublicRooms(updated => {
+      if (cancelled) return;
+      setRooms(updated);
+      setError(null);
+    });
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return { rooms, isLoading, error };
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import * as roomService from '../services/roomService';
+
+const IDLE_STATUS: roomService.RoomOutboxStatus = { pending: 0, failed: 0, isOnline: true, isRetrying: false };
+
+/**
+ * Track the room's queued writes so the UI can show when it is still syncing
+ */
+export function useRoomOutbox(roomId: string | null) {
+  const [status, setStatus] = useState<roomService.RoomOutboxStatus>(() =>
+    roomId ? roomService.getRoomOutboxStatus(roomId) : IDLE_STATUS
+  );
+
+  useEffect(() => {
+    if (!roomId) {
+      setStatus(IDLE_STATUS);
+      return;
+    }
+
+    setStatus(roomService.getRoomOutboxStatus(roomId));
+    const subscription = roomService.subscribeToRoomOutbox(roomId, setStatus);
+    return () => subscription.unsubscribe();
+  }, [roomId]);
+
+  return {
+    status,
+    retry: () => roomId && roomService.retryFailedRoomWrites(roomId),
+    discard: () => roomId && roomService.discardFailedRoomWrites(roomId)
+  };
+}
@@ -3,26 +3,65 @@ import { GameState, Player } from '../types';
 import * as roomService from '../services/roomService';
 import { signInAnonymously, getCurrentUserId } from '../services/authService';
 import { roomPlayerToPlayer, roomToGameState } from '../utils/supabaseUtils';
+import { applyGameStatePatch } from '../utils/gameStatePatch';
+
+// How long the host may be offline before a connected player takes over the room
+// One fixed value: migrate_room_host refuses takeovers until the host's last heartbeat is this old
+export const HOST_MIGRATION_TIMEOUT_MS = 20000;
+// How often the host tells the server they are still here
+const HOST_HEARTBEAT_MS = 5000;
 
 interface UseSupabaseRoomOptions {
   roomId: string | null;
+  isHost?: boolean; // The host writes presence changes into room_players
+  hostId?: string; // Watched through presence so a vanished host can be replaced
   onGameStateUpdate?: (gameState: GameState) => void;
   onPlayersUpdate?: (players: Player[]) => void;
   onScreenUpdate?: (screen: string) => void;
 }
 
-export function useSupabaseRoom({ roomId, onGameStateUpdate, onPlayersUpdate, onScreenUpdate }: UseSupabaseRoomOptions) {
+export function useSupabaseRoom({
+  roomId,
+  isHost = false,
+  hostId,
+  onGameStateUpdate,
+  onPlayersUpdate,
+  onScreenUpdate
+}: UseSupabaseRoomOptions) {
   const [isInitialized, setIsInitialized] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const subscriptionsRef = useRef<Array<{ unsubscribe: () => void }>>([]);
+  const isHostRef = useRef(isHost);
+  const hostIdRef = useRef(hostId);
+  // The callbacks change on every render; the subscriptions read them through refs
+  // so they stay up (and keep their patch base) for as long as the room does
+  const onGameStateUpdateRef = useRef(onGameStateUpdate);
+  const onPlayersUpdateRef = useRef(onPlayersUpdate);
+  const onScreenUpdateRef = useRef(onScreenUpdate);
+
+  useEffect(() => {
+    isHostRef.current = isHost;
+    hostIdRef.current = hostId;
+  }, [isHost, hostId]);
+
+  useEffect(() => {
+    onGameStateUpdateRef.current = onGameStateUpdate;
+    onPlayersUpdateRef.current = onPlayersUpdate;
+    onScreenUpdateRef.current = onScreenUpdate;
+  }, [onGameStateUpdate, onPlayersUpdate, onScreenUpdate]);
 
   // Initialize authentication
   useEffect(() => {
     async function init() {
-      let userId = await getCurrentUserId();
+      const existing = await getCurrentUserId();
+      let userId = existing.ok ? existing.value : null;
       
       if (!userId) {
-        userId = await signInAnonymously();
+        const signedIn = await signInAnonymously();
+        if (!signedIn.ok) {
+          console.error('❌ Could not sign in:', signedIn.error.kind, signedIn.error.message);
+        }
+        userId = signedIn.ok ? signedIn.value : null;
       }
       
       setCurrentUserId(userId);
@@ -50,6 +89,7 @@ export function useSupabaseRoom({ roomId, onGameStateUpdate, onPlayersUpdate, on
     // OPTIMIZED: Use cached game state instead of fetching every time
     // This significantly improves performance on mobile devices
     const playersSubscription = roomService.subscribeToRoomPlayers(roomId, (roomPlayers) => {
+      const onPlayersUpdate = onPlayersUpdateRef.current;
       if (onPlayersUpdate) {
         // Use cached game state instead of fetching every time
         // This significantly improves performance on mobile
@@ -58,27 +98,104 @@ export function useSupabaseRoom({ roomId, onGameStateUpdate, onPlayersUpdate, on
       }
     });
 
-    // Subscribe to game state changes
-    const gameStateSubscription = roomService.subscribeToGameState(roomId, (gameStateData) => {
-      if (onGameStateUpdate) {
-        const gameState = gameStateData.state as GameState;
-        
+    // Game state arrives as patches against the stored (redacted) state kept here
+    // A patch for any other version means one was missed - fetch the full state instead
+    let storedGameState: { state: Record<string, unknown>; version: number } | null = null;
+    let isResyncing = false;
+    let needsResync = false;
+    let forceResync = false;
+    // Last version that failed validation, so a state that is broken on the server too is only refetched once
+    let invalidVersion: number | null = null;
+    // Cleared when the room changes, so late fetches and deliveries are dropped
+    let isSubscribed = true;
+
+    // Secrets are looked up per update, so deliveries are chained to stay in order
+    let delivery = Promise.resolve();
+    const deliverGameState = (storedState: Record<string, unknown>, version: number) => {
+      delivery = delivery.then(async () => {
+        if (!isSubscribed || !onGameStateUpdateRef.current) return;
+        const revealed = await roomService.revealGameState(roomId, storedState);
+        if (!isSubscribed) return;
+        if (!revealed.ok) {
+          // Keep showing the last good state; the patched copy may have drifted, so fetch the real one
+          if (invalidVersion !== version) {
+            invalidVersion = version;
+            console.warn('⚠️ Game state version', version, 'failed validation - resyncing from the server');
+            resyncGameState(true);
+          } else {
+            console.error('❌ Game state version', version, 'is invalid on the server too - waiting for the next update');
+          }
+          return;
+        }
+        const gameState = revealed.value;
+
+        // The host's next save is diffed against what it was built from
+        roomService.acknowledgeGameState(roomId, storedState, version);
+
         // Cache game state for use in player updates (performance optimization)
         cachedGameState = gameState;
-        
-        onGameStateUpdate(gameState);
-        
+
+        onGameStateUpdateRef.current?.(gameState);
+
         // Sync screen from game state
-        if (gameState.currentScreen && onScreenUpdate) {
-          onScreenUpdate(gameState.currentScreen);
+        if (gameState.currentScreen && onScreenUpdateRef.current) {
+          onScreenUpdateRef.current(gameState.currentScreen);
+        }
+      });
+    };
+
+    // force replaces the local copy even at the same version (it failed validation)
+    const resyncGameState = async (force = false) => {
+      forceResync = forceResync || force;
+      if (isResyncing) {
+        needsResync = true;
+        return;
+      }
+      isResyncing = true;
+      const isForced = forceResync;
+      forceResync = false;
+      try {
+        const stored = await roomService.getStoredGameState(roomId);
+        const row = stored.ok ? stored.value : null;
+        if (isSubscribed && row && (!storedGameState || row.version > storedGameState.version || (isForced && row.version >= storedGameState.version))) {
+          console.log('🔄 Game state resync - loaded full state at version', row.version);
+          storedGameState = { state: row.state, version: row.version };
+          deliverGameState(row.state, row.version);
+        }
+      } finally {
+        isResyncing = false;
+        if (needsResync) {
+          needsResync = false;
+          resyncGameState();
         }
       }
+    };
+
+    const gameStateSubscription = roomService.subscribeToGameStatePatches(roomId, (patch) => {
+      // A patch from version 0 replaces the whole state (a game state was just created)
+      const isFullState = patch.base_version === 0;
+      if (!isFullState && storedGameState && patch.version <= storedGameState.version) {
+        return; // Already covered by a full state we fetched
+      }
+      if (!isFullState && storedGameState?.version !== patch.base_version) {
+        resyncGameState();
+        return;
+      }
+
+      storedGameState = {
+        state: applyGameStatePatch(storedGameState?.state || {}, patch.ops),
+        version: patch.version
+      };
+      deliverGameState(storedGameState.state, storedGameState.version);
     });
     
-    // Initial fetch of game state to populate cache
-    roomService.getGameState(roomId).then((gameStateData) => {
-      if (gameStateData?.state) {
-        cachedGameState = gameStateData.state as GameState;
+    // Initial fetch of the state the patches build on; delivered like any update, unless
+    // a patch or resync already got past it (acknowledgeGameState never goes backwards)
+    roomService.getStoredGameState(roomId).then((stored) => {
+      const row = stored.ok ? stored.value : null;
+      if (isSubscribed && row && (!storedGameState || row.version > storedGameState.version)) {
+        storedGameState = { state: row.state, version: row.version };
+        deliverGameState(row.state, row.version);
       }
     }).catch((error) => {
       console.warn('Could not fetch initial game state for cache:', error);
@@ -91,10 +208,74 @@ export function useSupabaseRoom({ roomId, onGameStateUpdate, onPlayersUpdate, on
     ];
 
     return () => {
+      isSubscribed = false;
       subscriptionsRef.current.forEach(sub => sub.unsubscribe());
       subscriptionsRef.current = [];
     };
-  }, [roomId, isInitialized, onGameStateUpdate, onPlayersUpdate, onScreenUpdate]);
+  }, [roomId, isInitialized]);
+
+  // Track presence in its own effect - it needs the signed-in user, and re-joining
+  // presence whenever anything else changed would flap everyone's status
+  useEffect(() => {
+    if (!roomId || !currentUserId) return;
+
+    let latestOnlinePlayerIds: string[] = [];
+    let hostMigrationTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    const sendHostHeartbeat = () => {
+      if (isHostRef.current) roomService.touchRoomHost(roomId);
+    };
+    sendHostHeartbeat();
+    const hostHeartbeat = setInterval(sendHostHeartbeat, HOST_HEARTBEAT_MS);
+
+    // The server may still have a fresh heartbeat when presence gives up on the host, so keep trying
+    const scheduleTakeover = (delayMs: number) => {
+      hostMigrationTimeout = setTimeout(async () => {
+        const claimed = await roomService.claimHostIfAbsent(roomId, currentUserId, latestOnlinePlayerIds);
+        const currentHostId = hostIdRef.current;
+        if (hostMigrationTimeout && claimed.ok && !claimed.value &&
+            currentHostId && !latestOnlinePlayerIds.includes(currentHostId)) {
+          scheduleTakeover(HOST_HEARTBEAT_MS);
+        } else {
+          hostMigrationTimeout = null;
+        }
+      }, delayMs);
+    };
+
+    const presenceSubscription = roomService.trackPresence(roomId, currentUserId, (onlinePlayerIds) => {
+      console.log('👥 Players online:', onlinePlayerIds.length);
+      latestOnlinePlayerIds = onlinePlayerIds;
+
+      if (isHostRef.current) {
+        roomService.syncPlayerConnections(roomId, onlinePlayerIds);
+      }
+
+      // Host is here (or unknown yet) - cancel any pending takeover
+      const currentHostId = hostIdRef.current;
+      if (!currentHostId || onlinePlayerIds.includes(currentHostId)) {
+        if (hostMigrationTimeout) {
+          clearTimeout(hostMigrationTimeout);
+          hostMigrationTimeout = null;
+        }
+        return;
+      }
+
+      // Host dropped - if they are still gone after the timeout, elect a new one
+      if (!hostMigrationTimeout) {
+        console.log('⏳ Host went offline, waiting before electing a new host');
+        scheduleTakeover(HOST_MIGRATION_TIMEOUT_MS);
+      }
+    });
+
+    return () => {
+      if (hostMigrationTimeout) {
+        clearTimeout(hostMigrationTimeout);
+        hostMigrationTimeout = null;
+      }
+      clearInterval(hostHeartbeat);
+      presenceSubscription.unsubscribe();
+    };
+  }, [roomId, currentUserId]);
 
   return {
     currentUserId,
@@ -1,18 +1,20 @@
 import { createClient } from '@supabase/supabase-js';
 
 // These should be set in your environment variables
-// For now, we'll use placeholders that need to be replaced
+// Without them the app falls back to the local (offline) room transport
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  console.warn('Supabase URL and Anon Key must be set in environment variables');
+export const isSupabaseConfigured = !!supabaseUrl && !!supabaseAnonKey;
+
+if (!isSupabaseConfigured) {
+  console.warn('Supabase URL and Anon Key are not set - using the local room transport');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+// createClient throws on an empty URL, so point an unconfigured client at the Supabase CLI default
+export const supabase = createClient(supabaseUrl || 'http://localhost:54321', supabaseAnonKey || 'anon-key-not-set', {
   auth: {
     persistSession: true,
     autoRefreshToken: true,
   },
 });
-
@@ -1,39 +1,93 @@
-import { supabase } from '../lib/supabase';
+import { Result } from '../types';
+import { getRoomTransport } from './roomTransport';
+import type { AuthUser, ProfileRow } from './roomTransport';
+import { ok, withTimeout } from '../utils/result';
+
+export type { AuthUser, ProfileRow } from './roomTransport';
+
+// Same budget as a room call
+const AUTH_REQUEST_TIMEOUT_MS = 10000;
 
 /**
  * Sign in anonymously (for guest users)
  */
-export async function signInAnonymously(): Promise<string | null> {
-  const { data, error } = await supabase.auth.signInAnonymously();
+export async function signInAnonymously(): Promise<Result<string>> {
+  return withTimeout(getRoomTransport().signInAnonymously(), AUTH_REQUEST_TIMEOUT_MS, 'Signing in');
+}
+
+/**
+ * Get current user ID (null when nobody is signed in)
+ */
+export async function getCurrentUserId(): Promise<Result<string | null>> {
+  return withTimeout(getRoomTransport().getCurrentUserId(), AUTH_REQUEST_TIMEOUT_MS, 'Loading the current user');
+}
+
+/**
+ * Sign out
+ */
+export async function signOut(): Promise<Result<void>> {
+  return withTimeout(getRoomTransport().signOut(), AUTH_REQUEST_TIMEOUT_MS, 'Signing out');
+}
 
-  if (error) {
-    console.error('Error signing in anonymously:', error);
-    return null;
+/**
+ * Check if user is authenticated
+ */
+export async function isAuthenticated(): Promise<Result<boolean>> {
+  const userId = await getCurrentUserId();
+  return userId.ok ? ok(!!userId.value) : userId;
+}
+
+/**
+ * Get the signed-in user, with their email once they have linked one
+ */
+export async function getCurrentUser(): Promise<Result<AuthUser | null>> {
+  return withTimeout(getRoomTransport().getCurrentUser(), AUTH_REQUEST_TIMEOUT_MS, 'Loading the current user');
+}
+
+/**
+ * Turn the signed-in guest into an account that can be signed in to from any device
+ * Until a password is set (after the email is confirmed) it is signed in to with magic links
+ */
+export async function linkEmail(email: string): Promise<Result<AuthUser>> {
+  const linked = await withTimeout(getRoomTransport().linkEmail(email.trim()), AUTH_REQUEST_TIMEOUT_MS, 'Linking the email');
+  if (linked.ok) {
+    console.log('🔗 Linked email to user:', linked.value.id, linked.value.new_email ? '(waiting for confirmation)' : '');
   }
+  return linked;
+}
 
-  return data.user?.id || null;
+/**
+ * Add or change the account's password ('forbidden' until the email is confirmed)
+ */
+export async function setPassword(password: string): Promise<Result<void>> {
+  return withTimeout(getRoomTransport().setPassword(password), AUTH_REQUEST_TIMEOUT_MS, 'Saving the password');
 }
 
 /**
- * Get current user ID
+ * Sign in to an existing account with its password
+ * The guest user this device had until now is left behind
  */
-export async function getCurrentUserId(): Promise<string | null> {
-  const { data: { user } } = await supabase.auth.getUser();
-  return user?.id || null;
+export async function signInWithPassword(email: string, password: string): Promise<Result<AuthUser>> {
+  return withTimeout(getRoomTransport().signInWithPassword(email.trim(), password), AUTH_REQUEST_TIMEOUT_MS, 'Signing in');
 }
 
 /**
- * Sign out
+ * Email a sign-in link to an existing account
  */
-export async function signOut(): Promise<void> {
-  await supabase.auth.signOut();
+export async function sendMagicLink(email: string): Promise<Result<void>> {
+  return withTimeout(getRoomTransport().sendMagicLink(email.trim()), AUTH_REQUEST_TIMEOUT_MS, 'Sending the sign-in link');
 }
 
 /**
- * Check if user is authenticated
+ * Get the saved username and avatar (null if the user never saved them)
  */
-export async function isAuthenticated(): Promise<boolean> {
-  const { data: { user } } = await supabase.auth.getUser();
-  return !!user;
+export async function getProfile(userId: string): Promise<Result<ProfileRow | null>> {
+  return withTimeout(getRoomTransport().getProfile(userId), AUTH_REQUEST_TIMEOUT_MS, 'Loading the profile');
 }
 
+/**
+ * Save the username and avatar on the user's profile
+ */
+export async function saveProfile(userId: string, username: string, avatar: string | null): Promise<Result<ProfileRow>> {
+  return withTimeout(getRoomTransport().saveProfile(userId, username.trim(), avatar), AUTH_REQUEST_TIMEOUT_MS, 'Saving the profile');
+}
@@ -0,0 +1,1016 @@
+import { GameState, PlayerAction, Result, VoteOutcome } from '../types';
+import { generateUUID } from '../utils/uuid';
+import { err, ok } from '../utils/result';
+import { changesWinners, computeVoteOutcome, earnedWinners, validateOutcomeWrite } from '../utils/voteTally';
+import { gameReducer } from '../utils/gameReducer';
+import { stampPhaseDeadline } from '../utils/phaseDeadline';
+import { dealtRoles, redactGameState, withDealtRoles } from '../utils/playerSecrets';
+import { applyPlayerAction, validatePlayerAction } from '../utils/playerActions';
+import { applyGameStatePatch, diffGameState } from '../utils/gameStatePatch';
+import { GameEvent, describeGameStateWrite, describePlayerAction, describeTally } from '../utils/gameEvents';
+import type {
+  AuthUser,
+  ProfileRow,
+  RoomTransport,
+  RoomRow,
+  RoomPlayerRow,
+  RoomBanRow,
+  RoomJoinRequestRow,
+  GameStateRow,
+  GameStatePatchRow,
+  GameEventRow,
+  PlayerActionRow,
+  PlayerSecretRow,
+  RoomSubscription
+} from './roomTransport';
+
+/**
+ * Local Room Transport
+ *
+ * Offline stand-in for Supabase. Tables live in localStorage (shared by every tab
+ * of the same origin) and changes are announced over a BroadcastChannel, so several
+ * tabs on one machine can play together. Without localStorage (tests, headless bots)
+ * the tables stay in memory and only the current context sees them.
+ */
+
+interface LocalPresenceRow {
+  room_id: string;
+  player_id: string;
+  last_seen_at: number;
+}
+
+// Only ever on this machine, so the password is kept as typed (Supabase stores a bcrypt hash)
+interface LocalRoomPasswordRow {
+  room_id: string;
+  password: string;
+}
+
+// Stand-in for GoTrue's auth.users: only users who linked an email have a row, anonymous ones are just an id
+interface LocalAuthUserRow {
+  id: string;
+  email: string; // Lower case
+  password: string | null; // Kept as typed, like room passwords; null for magic-link only accounts
+  created_at: string;
+}
+
+// Mirror of room_host_heartbeats
+interface LocalHostHeartbeatRow {
+  room_id: string;
+  host_id: string;
+  last_seen_at: number;
+}
+
+interface LocalVoteBallotRow {
+  room_id: string;
+  voter_id: string;
+  target_ids: string[];
+  cast_at: string;
+  tallied_at: string | null;
+  outcome: VoteOutcome | null; // Set when tallied
+}
+
+interface LocalDatabase {
+  rooms: RoomRow[];
+  room_players: RoomPlayerRow[];
+  room_bans: RoomBanRow[];
+  room_passwords: LocalRoomPasswordRow[];
+  room_join_requests: RoomJoinRequestRow[];
+  game_states: GameStateRow[];
+  game_state_patches: GameStatePatchRow[];
+  game_events: GameEventRow[];
+  player_secrets: PlayerSecretRow[];
+  player_actions: PlayerActionRow[];
+  presence: LocalPresenceRow[];
+  room_host_heartbeats: LocalHostHeartbeatRow[];
+  vote_ballots: LocalVoteBallotRow[];
+  auth_users: LocalAuthUserRow[];
+  profiles: ProfileRow[];
+}
+
+type LocalTable = keyof LocalDatabase;
+
+interface LocalChange {
+  table: LocalTable;
+  roomId: string;
+}
+
+const DATABASE_KEY = 'impasta:local-db';
+const CHANNEL_NAME = 'impasta:local-transport';
+const USER_ID_KEY = 'impasta:local-user-id';
+
+// Each tab heartbeats while it is in a room; a tab that misses a few beats counts as gone
+const PRESENCE_HEARTBEAT_MS = 2000;
+const PRESENCE_TIMEOUT_MS = 6000;
+// Same as the interval in migrate_room_host: a takeover waits this long after the host's last heartbeat
+const HOST_HEARTBEAT_TIMEOUT_MS = 20000;
+const GAME_STATE_PATCHES_KEPT = 100;
+// GoTrue's default minimum
+const MIN_PASSWORD_LENGTH = 6;
+
+function emptyDatabase(): LocalDatabase {
+  return { rooms: [], room_players: [], room_bans: [], room_passwords: [], room_join_requests: [], game_states: [], game_state_patches: [], game_events: [], player_secrets: [], player_actions: [], presence: [], room_host_heartbeats: [], vote_ballots: [], auth_users: [], profiles: [] };
+}
+
+function getBrowserStorage(type: 'localStorage' | 'sessionStorage'): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window[type] : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createLocalTransport(
+  storage: Storage | null = getBrowserStorage('localStorage'),
+  identityStorage: Storage | null = getBrowserStorage('sessionStorage')
+): RoomTransport {
+  let memoryDatabase = emptyDatabase();
+  let memoryUserId: string | null = null;
+  const listeners = new Set<(change: LocalChange) => void>();
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<LocalChange>) => {
+      listeners.forEach(listener => listener(event.data));
+    };
+  }
+
+  function read(): LocalDatabase {
+    if (!storage) return memoryDatabase;
+    try {
+      const raw = storage.getItem(DATABASE_KEY);
+      return raw ? { ...emptyDatabase(), ...JSON.parse(raw) } : emptyDatabase();
+    } catch (error) {
+      console.warn('Error reading local room database:', error);
+      return emptyDatabase();
+    }
+  }
+
+  function write(database: LocalDatabase) {
+    if (!storage) {
+      memoryDatabase = database;
+      return;
+    }
+    storage.setItem(DATABASE_KEY, JSON.stringify(database));
+  }
+
+  // Supabase Realtime echoes changes back to the writer, so notify this tab as well as the others
+  function notify(change: LocalChange) {
+    listeners.forEach(listener => listener(change));
+    channel?.postMessage(change);
+  }
+
+  // A null roomId listens to every room
+  function subscribe(table: LocalTable, roomId: string | null, onChange: () => void): RoomSubscription {
+    const listener = (change: LocalChange) => {
+      if (change.table === table && (roomId === null || change.roomId === roomId)) {
+        onChange();
+      }
+    };
+    listeners.add(listener);
+    return { unsubscribe: () => { listeners.delete(listener); } };
+  }
+
+  function now() {
+    return new Date().toISOString();
+  }
+
+  // Mirror of the touch_room_activity trigger: any write inside a room keeps it alive
+  function touchRoom(database: LocalDatabase, roomId: string): LocalDatabase {
+    return {
+      ...database,
+      rooms: database.rooms.map(r => (r.id === roomId ? { ...r, last_activity_at: now() } : r)),
+    };
+  }
+
+  // Mirror of the sync_room_player_count and sync_room_phase triggers
+  // Leaves database.rooms untouched when nothing changed, so callers can tell whether to notify
+  function syncRoomSummary(database: LocalDatabase, roomId: string): LocalDatabase {
+    const room = database.rooms.find(r => r.id === roomId);
+    if (!room) return database;
+
+    const playerCount = database.room_players.filter(p => p.room_id === roomId).length;
+    const gameState = database.game_states.find(g => g.room_id === roomId);
+    const phase = (gameState?.state as unknown as GameState | undefined)?.phase || 'lobby';
+    if (room.player_count === playerCount && room.phase === phase) return database;
+    return {
+      ...database,
+      rooms: database.rooms.map(r => (r === room ? { ...r, player_count: playerCount, phase } : r)),
+    };
+  }
+
+  // Mirror of the record_game_state_patch trigger: every game state write is logged as a patch
+  function withGameStatePatch(database: LocalDatabase, previous: GameStateRow | undefined, row: GameStateRow): LocalDatabase {
+    const patch: GameStatePatchRow = {
+      id: generateUUID(),
+      room_id: row.room_id,
+      base_version: previous ? previous.version : 0,
+      version: row.version,
+      ops: previous ? diffGameState(previous.state, row.state) : [{ op: 'replace', path: '', value: row.state }],
+      created_at: now(),
+    };
+    const kept = database.game_state_patches.filter(p =>
+      p.room_id !== row.room_id || p.version > row.version - GAME_STATE_PATCHES_KEPT);
+    return { ...database, game_state_patches: [...kept, patch] };
+  }
+
+  // Mirror of append_game_event: events go into the same write as what they describe
+  function withGameEvents(database: LocalDatabase, roomId: string, actorId: string, events: GameEvent[]): LocalDatabase {
+    if (events.length === 0) return database;
+
+    const lastSeq = database.game_events
+      .filter(e => e.room_id === roomId)
+      .reduce((max, e) => Math.max(max, e.seq), 0);
+    const rows: GameEventRow[] = events.map((event, index) => ({
+      id: generateUUID(),
+      room_id: roomId,
+      seq: lastSeq + index + 1,
+      actor_id: actorId,
+      event,
+      created_at: now(),
+    }));
+    return { ...database, game_events: [...database.game_events, ...rows] };
+  }
+
+  function currentUserId(): string | null {
+    return identityStorage ? identityStorage.getItem(USER_ID_KEY) : memoryUserId;
+  }
+
+  function setCurrentUserId(userId: string) {
+    if (identityStorage) {
+      identityStorage.setItem(USER_ID_KEY, userId);
+    } else {
+      memoryUserId = userId;
+    }
+  }
+
+  function toAuthUser(database: LocalDatabase, userId: string): AuthUser {
+    const account = database.auth_users.find(u => u.id === userId);
+    return { id: userId, email: account?.email || null, new_email: null, is_anonymous: !account };
+  }
+
+  // Mirror of GoTrue's checks on a new email and password
+  function checkCredentials(email: string, password: string | null): string | null {
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return 'Invalid email address';
+    if (password !== null && password.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    return null;
+  }
+
+  async function getCurrentUserId(): Promise<Result<string | null>> {
+    return ok(currentUserId());
+  }
+
+  // Mirror of the player_actions insert policy and the apply_player_action trigger:
+  // your own action (or a bot's if you host the room), checked and applied in one write.
+  // An actionId that is already stored was a retry of an applied action, so it is skipped.
+  async function recordPlayerAction(
+    roomId: string,
+    playerId: string,
+    action: PlayerAction,
+    actionId: string = generateUUID()
+  ): Promise<Result<GameStateRow>> {
+    const database = read();
+    const userId = currentUserId();
+    const existing = database.game_states.find(g => g.room_id === roomId);
+    const isHost = database.rooms.some(r => r.id === roomId && r.host_id === userId);
+    const isBot = database.room_players.some(p => p.room_id === roomId && p.player_id === playerId && p.is_bot);
+    if (!userId || (playerId !== userId && !(isHost && isBot))) {
+      console.error('❌ Not allowed to submit this action', { roomId, playerId, kind: action.kind });
+      return err('forbidden', 'Not allowed to submit this action');
+    }
+    if (!existing) {
+      return err('notFound', 'No game in this room');
+    }
+    if (database.player_actions.some(a => a.id === actionId)) {
+      return ok(existing);
+    }
+
+    const state = existing.state as unknown as GameState;
+    // Like apply_player_action, ballots are checked against the dealt roles
+    const secrets = database.player_secrets.filter(s => s.room_id === roomId).map(s => s.secret);
+    const rejection = validatePlayerAction(withDealtRoles(state, secrets), playerId, action);
+    if (rejection) {
+      console.error('❌ Player action rejected:', rejection, { playerId, action });
+      return err('conflict', `Player action rejected: ${rejection}`);
+    }
+
+    let voteBallots = database.vote_ballots;
+    if (action.kind === 'vote') {
+      // Re-voting replaces the ballot but keeps its place in the casting order
+      const previous = voteBallots.find(b => b.room_id === roomId && b.voter_id === playerId && !b.tallied_at);
+      const ballot: LocalVoteBallotRow = {
+        room_id: roomId,
+        voter_id: playerId,
+        target_ids: action.targetIds,
+        cast_at: previous?.cast_at || now(),
+        tallied_at: null,
+        outcome: null,
+      };
+      voteBallots = previous ? voteBallots.map(b => (b === previous ? ballot : b)) : [...voteBallots, ballot];
+    }
+
+    const row: GameStateRow = {
+      ...existing,
+      state: applyPlayerAction(state, playerId, action) as unknown as Record<string, unknown>,
+      version: existing.version + 1,
+      updated_at: now(),
+    };
+    const { kind, ...payload } = action;
+    const actionRow: PlayerActionRow = {
+      id: actionId,
+      room_id: roomId,
+      player_id: playerId,
+      actor_id: userId,
+      kind,
+      payload,
+      applied_version: row.version,
+      created_at: now(),
+    };
+    const saved = withGameStatePatch(touchRoom({
+      ...database,
+      player_actions: [...database.player_actions, actionRow],
+      vote_ballots: voteBallots,
+      game_states: database.game_states.map(g => (g === existing ? row : g)),
+    }, roomId), existing, row);
+    write(withGameEvents(saved, roomId, userId, [describePlayerAction(playerId, action)]));
+    notify({ table: 'game_state_patches', roomId });
+    notify({ table: 'game_events', roomId });
+    return ok(row);
+  }
+
+  // One identity per tab, so each tab acts as a separate player
+  async function signInAnonymously(): Promise<Result<string>> {
+    const existingUserId = currentUserId();
+    if (existingUserId) return ok(existingUserId);
+
+    const userId = generateUUID();
+    setCurrentUserId(userId);
+    return ok(userId);
+  }
+
+  async function signOut(): Promise<Result<void>> {
+    identityStorage?.removeItem(USER_ID_KEY);
+    memoryUserId = null;
+    return ok();
+  }
+
+  const transport: RoomTransport = {
+    name: 'local',
+    getCurrentUserId,
+    signInAnonymously,
+    signOut,
+
+    async getCurrentUser() {
+      const userId = currentUserId();
+      return ok(userId ? toAuthUser(read(), userId) : null);
+    },
+
+    // Like updateUser: the signed-in user gets the email, so its id and rooms stay the same
+    async linkEmail(email) {
+      const userId = currentUserId();
+      if (!userId) return err('forbidden', 'Nobody is signed in');
+
+      const address = email.trim().toLowerCase();
+      const rejection = checkCredentials(address, null);
+      if (rejection) return err('invalid', rejection);
+
+      const database = read();
+      if (database.auth_users.some(u => u.email === address && u.id !== userId)) {
+        return err('conflict', 'This email already has an account');
+      }
+
+      // No mail on this machine, so the confirmation link counts as opened straight away
+      const existing = database.auth_users.find(u => u.id === userId);
+      const account: LocalAuthUserRow = {
+        id: userId,
+        email: address,
+        password: existing?.password ?? null,
+        created_at: existing?.created_at || now(),
+      };
+      const updated = { ...database, auth_users: [...database.auth_users.filter(u => u !== existing), account] };
+      write(updated);
+      return ok(toAuthUser(updated, userId));
+    },
+
+    // The email counts as confirmed as soon as it is linked, so the account only has to exist
+    async setPassword(password) {
+      const userId = currentUserId();
+      const database = read();
+      const account = database.auth_users.find(u => u.id === userId);
+      if (!account) return err('forbidden', 'Link an email before setting a password');
+
+      const rejection = checkCredentials(account.email, password);
+      if (rejection) return err('invalid', rejection);
+
+      write({ ...database, auth_users: database.auth_users.map(u => (u === account ? { ...u, password } : u)) });
+      return ok();
+    },
+
+    async signInWithPassword(email, password) {
+      const database = read();
+      const account = database.auth_users.find(u => u.email === email.trim().toLowerCase());
+      if (!account || account.password === null || account.password !== password) {
+        return err('wrongPassword', 'Wrong email or password');
+      }
+
+      setCurrentUserId(account.id);
+      return ok(toAuthUser(database, account.id));
+    },
+
+    // Nothing to send on this machine, so the link counts as opened straight away
+    async sendMagicLink(email) {
+      const account = read().auth_users.find(u => u.email === email.trim().toLowerCase());
+      if (!account) return err('notFound', 'No account with this email');
+
+      setCurrentUserId(account.id);
+      return ok();
+    },
+
+    // Mirror of the profiles policies: your own row only
+    async getProfile(userId) {
+      if (userId !== currentUserId()) return err('forbidden', 'Not your profile');
+      return ok(read().profiles.find(p => p.id === userId) || null);
+    },
+
+    async saveProfile(userId, username, avatar) {
+      if (userId !== currentUserId()) return err('forbidden', 'Not your profile');
+
+      const database = read();
+      const existing = database.profiles.find(p => p.id === userId);
+      const profile: ProfileRow = {
+        id: userId,
+        username,
+        avatar,
+        created_at: existing?.created_at || now(),
+        updated_at: now(),
+      };
+      write({ ...database, profiles: [...database.profiles.filter(p => p !== existing), profile] });
+      return ok(profile);
+    },
+
+    async createRoom(hostId, code, gameMode, impostorCount, hasJester, isRandomizeMode, selectedPack, language, capacity) {
+      const database = read();
+      if (database.rooms.some(r => r.code === code && r.is_active)) {
+        console.error('Error creating room: code already in use', code);
+        return err('conflict', `Room code ${code} is already in use`);
+      }
+
+      const room: RoomRow = {
+        id: generateUUID(),
+        code,
+        host_id: hostId,
+        game_mode: gameMode,
+        impostor_count: impostorCount,
+        has_jester: hasJester,
+        is_randomize_mode: isRandomizeMode,
+        selected_pack: selectedPack,
+        privacy: 'open',
+        is_public: false,
+        language,
+        capacity,
+        player_count: 0,
+        phase: 'lobby',
+        is_active: true,
+        last_activity_at: now(),
+        created_at: now(),
+        updated_at: now(),
+      };
+      write({ ...database, rooms: [...database.rooms, room] });
+      notify({ table: 'rooms', roomId: room.id });
+      return ok(room);
+    },
+
+    async getRoomByCode(code) {
+      const rooms = read().rooms
+        .filter(r => r.code === code)
+        .sort((a, b) => Number(b.is_active) - Number(a.is_active) || b.created_at.localeCompare(a.created_at));
+      return rooms[0] ? ok(rooms[0]) : err('notFound', `No room with code ${code}`);
+    },
+
+    async getRoomById(roomId) {
+      const room = read().rooms.find(r => r.id === roomId);
+      return room ? ok(room) : err('notFound', 'Room not found');
+    },
+
+    async getPublicRooms() {
+      return ok(read().rooms
+        .filter(r => r.is_active && r.is_public)
+        .sort((a, b) => b.last_activity_at.localeCompare(a.last_activity_at)));
+    },
+
+    async updateRoom(roomId, updates) {
+      const database = read();
+      const existing = database.rooms.find(r => r.id === roomId);
+      if (!existing) return err('notFound', 'Room not found');
+
+      const room: RoomRow = { ...existing, ...updates, updated_at: now() };
+      write({ ...database, rooms: database.rooms.map(r => (r.id === roomId ? room : r)) });
+      notify({ table: 'rooms', roomId });
+      return ok(room);
+    },
+
+    async cleanupStaleRooms(inactiveForMs) {
+      const database = read();
+      const cutoff = Date.now() - inactiveForMs;
+      const staleRoomIds = database.rooms
+        .filter(r => r.is_active && Date.parse(r.last_activity_at || r.updated_at) < cutoff)
+        .map(r => r.id);
+      if (staleRoomIds.length === 0) return ok(0);
+
+      const isStale = (row: { room_id: string }) => staleRoomIds.includes(row.room_id);
+      write({
+        ...database,
+        rooms: database.rooms.map(r => (staleRoomIds.includes(r.id) ? { ...r, is_active: false, player_count: 0, updated_at: now() } : r)),
+        room_players: database.room_players.filter(p => !isStale(p)),
+        room_passwords: database.room_passwords.filter(p => !isStale(p)),
+        room_join_requests: database.room_join_requests.filter(r => !isStale(r)),
+        game_states: database.game_states.filter(g => !isStale(g)),
+        game_state_patches: database.game_state_patches.filter(p => !isStale(p)),
+        player_secrets: database.player_secrets.filter(s => !isStale(s)),
+        player_actions: database.player_actions.filter(a => !isStale(a)),
+        presence: database.presence.filter(p => !isStale(p)),
+        room_host_heartbeats: database.room_host_heartbeats.filter(h => !isStale(h)),
+        vote_ballots: database.vote_ballots.filter(b => !isStale(b)),
+      });
+      staleRoomIds.forEach(roomId => {
+        notify({ table: 'rooms', roomId });
+        notify({ table: 'room_players', roomId });
+      });
+      return ok(staleRoomIds.length);
+    },
+
+    async addPlayerToRoom(roomId, playerId, username, avatar, isHost, isBot) {
+      const database = read();
+      const room = database.rooms.find(r => r.id === roomId);
+      if (!room) return err('notFound', 'Room not found');
+      // Mirror of the room_players_insert policy
+      if (database.room_bans.some(b => b.room_id === roomId && b.player_id === playerId)) {
+        return err('banned', 'Player is banned from the room');
+      }
+
+      const existing = database.room_players.find(p => p.room_id === roomId && p.player_id === playerId);
+      const isAdmitted = room.privacy === 'open' || isBot || room.host_id === playerId || !!existing ||
+        database.room_join_requests.some(r => r.room_id === roomId && r.player_id === playerId && r.status === 'admitted');
+      if (!isAdmitted) return err('forbidden', 'Player has not been admitted to the room');
+      // Mirror of the enforce_room_capacity trigger: one read and write, so joins can't race past it
+      if (!existing && database.room_players.filter(p => p.room_id === roomId).length >= room.capacity) {
+        return err('full', `Room already has ${room.capacity} players`);
+      }
+      const player: RoomPlayerRow = {
+        id: existing?.id || generateUUID(),
+        room_id: roomId,
+        player_id: playerId,
+        username,
+        avatar,
+        is_host: isHost,
+        is_bot: isBot,
+        is_connected: true,
+        created_at: existing?.created_at || now(),
+        updated_at: now(),
+      };
+      const others = database.room_players.filter(p => p !== existing);
+      const joined = touchRoom({ ...database, room_players: [...others, player] }, roomId);
+      write(syncRoomSummary(joined, roomId));
+      notify({ table: 'room_players', roomId });
+      if (!existing) notify({ table: 'rooms', roomId });
+      return ok(player);
+    },
+
+    async getRoomPlayers(roomId) {
+      return ok(read().room_players
+        .filter(p => p.room_id === roomId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at)));
+    },
+
+    async updateRoomPlayer(roomId, playerId, updates) {
+      const database = read();
+      const existing = database.room_players.find(p => p.room_id === roomId && p.player_id === playerId);
+      if (!existing) return err('notFound', 'Player is not in the room');
+
+      const player: RoomPlayerRow = { ...existing, ...updates, updated_at: now() };
+      write(touchRoom({ ...database, room_players: database.room_players.map(p => (p === existing ? player : p)) }, roomId));
+      notify({ table: 'room_players', roomId });
+      return ok(player);
+    },
+
+    async removePlayerFromRoom(roomId, playerId) {
+      const database = read();
+      write(syncRoomSummary({
+        ...database,
+        room_players: database.room_players.filter(p => !(p.room_id === roomId && p.player_id === playerId)),
+      }, roomId));
+      notify({ table: 'room_players', roomId });
+      notify({ table: 'rooms', roomId });
+      return ok();
+    },
+
+    async banPlayerFromRoom(roomId, playerId, bannedBy) {
+      const database = read();
+      const room = database.rooms.find(r => r.id === roomId);
+      if (!room) return err('notFound', 'Room not found');
+      if (room.host_id !== bannedBy) return err('forbidden', 'Only the host can ban players');
+      if (playerId === bannedBy) return err('conflict', 'The host can not ban themselves');
+      if (database.room_bans.some(b => b.room_id === roomId && b.player_id === playerId)) return ok();
+
+      const ban: RoomBanRow = { room_id: roomId, player_id: playerId, banned_by: bannedBy, created_at: now() };
+      write({ ...database, room_bans: [...database.room_bans, ban] });
+      return ok();
+    },
+
+    async isPlayerBanned(roomId, playerId) {
+      return ok(read().room_bans.some(b => b.room_id === roomId && b.player_id === playerId));
+    },
+
+    async setRoomPassword(roomId, password) {
+      const database = read();
+      if (!database.rooms.some(r => r.id === roomId)) return err('notFound', 'Room not found');
+
+      const others = database.room_passwords.filter(p => p.room_id !== roomId);
+      write({ ...database, room_passwords: password ? [...others, { room_id: roomId, password }] : others });
+      return ok();
+    },
+
+    // Mirror of request_room_join()
+    async requestToJoinRoom(roomId, playerId, username, avatar, password) {
+      const database = read();
+      const room = database.rooms.find(r => r.id === roomId);
+      if (!room) return err('notFound', 'Room not found');
+      if (database.room_bans.some(b => b.room_id === roomId && b.player_id === playerId)) {
+        return err('banned', 'Player is banned from the room');
+      }
+      if (room.privacy === 'password') {
+        const roomPassword = database.room_passwords.find(p => p.room_id === roomId);
+        if (!roomPassword) return err('wrongPassword', 'The room password has not been set');
+        if (roomPassword.password !== password) return err('wrongPassword', 'Wrong room password');
+      }
+
+      // Asking again keeps an admission; a rejected player may ask once more
+      const existing = database.room_join_requests.find(r => r.room_id === roomId && r.player_id === playerId);
+      const request: RoomJoinRequestRow = {
+        room_id: roomId,
+        player_id: playerId,
+        username,
+        avatar,
+        status: existing?.status === 'admitted' || room.privacy !== 'approval' ? 'admitted' : 'pending',
+        created_at: existing?.created_at || now(),
+        updated_at: now(),
+      };
+      const others = database.room_join_requests.filter(r => r !== existing);
+      write({ ...database, room_join_requests: [...others, request] });
+      notify({ table: 'room_join_requests', roomId });
+      return ok(request);
+    },
+
+    async getJoinRequests(roomId) {
+      return ok(read().room_join_requests
+        .filter(r => r.room_id === roomId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at)));
+    },
+
+    async answerJoinRequest(roomId, playerId, admit) {
+      const database = read();
+      const existing = database.room_join_requests.find(r => r.room_id === roomId && r.player_id === playerId);
+      if (!existing) return err('notFound', 'No such join request');
+
+      const request: RoomJoinRequestRow = { ...existing, status: admit ? 'admitted' : 'rejected', updated_at: now() };
+      write({ ...database, room_join_requests: database.room_join_requests.map(r => (r === existing ? request : r)) });
+      notify({ table: 'room_join_requests', roomId });
+      return ok(request);
+    },
+
+    async migrateHost(roomId, expectedHostId, newHostId) {
+      const database = read();
+      const room = database.rooms.find(r => r.id === roomId);
+      const newHost = database.room_players.find(p => p.room_id === roomId && p.player_id === newHostId);
+      if (!room) return err('notFound', 'Room not found');
+      if (room.host_id !== expectedHostId || !newHost || newHost.is_bot) return err('conflict', 'Host already changed');
+      const userId = currentUserId();
+      if (userId !== newHostId && userId !== expectedHostId) return err('conflict', 'Host already changed');
+
+      // Taking over (rather than being handed the room) needs the host to have gone quiet
+      const heartbeat = database.room_host_heartbeats.find(h => h.room_id === roomId && h.host_id === expectedHostId);
+      const lastSeenAt = heartbeat ? heartbeat.last_seen_at : Date.parse(room.created_at);
+      if (userId !== expectedHostId && lastSeenAt > Date.now() - HOST_HEARTBEAT_TIMEOUT_MS) {
+        return err('conflict', 'Host already changed');
+      }
+
+      // One write covers the room, the players and the game state, like the RPC's transaction
+      const gameState = database.game_states.find(g => g.room_id === roomId);
+      const migratedGameState: GameStateRow | undefined = gameState && {
+        ...gameState,
+        state: { ...gameState.state, hostId: newHostId },
+        version: gameState.version + 1,
+        updated_at: now(),
+      };
+      const migrated: LocalDatabase = {
+        ...database,
+        rooms: database.rooms.map(r => (r === room ? { ...r, host_id: newHostId, updated_at: now() } : r)),
+        room_players: database.room_players.map(p => (p.room_id === roomId && p.is_host !== (p.player_id === newHostId)
+          ? { ...p, is_host: p.player_id === newHostId, updated_at: now() }
+          : p)),
+        game_states: database.game_states.map(g => (g === gameState && migratedGameState ? migratedGameState : g)),
+        // The new host counts as just seen until their own heartbeats arrive
+        room_host_heartbeats: [
+          ...database.room_host_heartbeats.filter(h => h.room_id !== roomId),
+          { room_id: roomId, host_id: newHostId, last_seen_at: Date.now() },
+        ],
+      };
+      write(migratedGameState ? withGameStatePatch(migrated, gameState, migratedGameState) : migrated);
+      notify({ table: 'rooms', roomId });
+      notify({ table: 'room_players', roomId });
+      notify({ table: 'game_state_patches', roomId });
+      return ok();
+    },
+
+    async touchRoomHost(roomId) {
+      const database = read();
+      const userId = currentUserId();
+      // Mirror of touch_room_host: only the active room's current host has a heartbeat
+      if (!userId || !database.rooms.some(r => r.id === roomId && r.host_id === userId && r.is_active)) return ok();
+
+      write({
+        ...database,
+        room_host_heartbeats: [
+          ...database.room_host_heartbeats.filter(h => h.room_id !== roomId),
+          { room_id: roomId, host_id: userId, last_seen_at: Date.now() },
+        ],
+      });
+      return ok();
+    },
+
+    async saveGameState(roomId, gameState) {
+      const database = read();
+      if (!database.rooms.some(r => r.id === roomId)) return err('notFound', 'Room not found');
+
+      const existing = database.game_states.find(g => g.room_id === roomId);
+      const before = existing?.state as unknown as GameState | undefined;
+      // Mirror of the guard_game_state_outcome trigger
+      const rejection = validateOutcomeWrite(before, gameState as unknown as GameState);
+      if (rejection) {
+        console.error('❌ Game state rejected:', rejection, { roomId });
+        return err('conflict', `Game state rejected: ${rejection}`);
+      }
+
+      // Mirror of the guard finishing the game with the winners it has earned, and of
+      // reveal_results_deal putting the whole deal back at results
+      let state = gameState as unknown as GameState;
+      if (state.phase === 'results') {
+        const secrets = database.player_secrets.filter(s => s.room_id === roomId).map(s => s.secret);
+        if (changesWinners(before, state)) {
+          state = { ...state, ...earnedWinners(state, dealtRoles(before || { playerRoles: {}, eliminatedPlayers: [] }, secrets)) };
+        }
+        state = withDealtRoles(state, secrets);
+      }
+
+      const row: GameStateRow = {
+        id: existing?.id || generateUUID(),
+        room_id: roomId,
+        state: state as unknown as Record<string, unknown>,
+        version: existing ? existing.version + 1 : 1,
+        created_at: existing?.created_at || now(),
+        updated_at: now(),
+      };
+      const others = database.game_states.filter(g => g !== existing);
+      // Mirror of the log_game_state_events trigger
+      const events = describeGameStateWrite(before, state);
+      const actorId = currentUserId() || database.rooms.find(r => r.id === roomId)!.host_id;
+      const saved = withGameStatePatch(touchRoom({ ...database, game_states: [...others, row] }, roomId), existing, row);
+      const synced = syncRoomSummary(withGameEvents(saved, roomId, actorId, events), roomId);
+      write(synced);
+      notify({ table: 'game_state_patches', roomId });
+      if (events.length > 0) notify({ table: 'game_events', roomId });
+      if (synced.rooms !== saved.rooms) notify({ table: 'rooms', roomId });
+      return ok(row);
+    },
+
+    async updateGameState(roomId, gameState) {
+      if (!read().game_states.some(g => g.room_id === roomId)) {
+        console.warn('⚠️ Game state not found - host may not have started the game yet');
+        return err('notFound', 'No game in this room');
+      }
+      return transport.saveGameState(roomId, gameState);
+    },
+
+    async getGameState(roomId) {
+      return ok(read().game_states.find(g => g.room_id === roomId) || null);
+    },
+
+    async patchGameState(roomId, baseVersion, ops) {
+      const existing = read().game_states.find(g => g.room_id === roomId);
+      if (!existing) return err('notFound', 'No game in this room');
+      if (existing.version !== baseVersion) return err('conflict', `Game state is no longer at version ${baseVersion}`);
+
+      const saved = await transport.saveGameState(roomId, applyGameStatePatch(existing.state, ops));
+      return saved.ok ? ok(saved.value.version) : saved;
+    },
+
+    async getGameEvents(roomId) {
+      return ok(read().game_events
+        .filter(e => e.room_id === roomId)
+        .sort((a, b) => a.seq - b.seq));
+    },
+
+    async savePlayerSecrets(roomId, secrets) {
+      const database = read();
+      if (!database.rooms.some(r => r.id === roomId)) return err('notFound', 'Room not found');
+      // Same as the player_secrets policies: once the game has left the lobby its deal is fixed
+      const existing = database.game_states.find(g => g.room_id === roomId);
+      if (existing && existing.state.phase !== 'lobby') {
+        console.error('❌ Player secrets can only be dealt in the lobby', { roomId });
+        return err('forbidden', 'Player secrets can only be dealt in the lobby');
+      }
+
+      // A new deal replaces the previous one
+      const rows: PlayerSecretRow[] = secrets.map(secret => ({
+        room_id: roomId,
+        player_id: secret.playerId,
+        secret,
+        created_at: now(),
+        updated_at: now(),
+      }));
+      const others = database.player_secrets.filter(s => s.room_id !== roomId);
+      write({
+        ...database,
+        player_secrets: [...others, ...rows],
+        // Like the clear_vote_ballots trigger: ballots never carry over into a new deal
+        vote_ballots: database.vote_ballots.filter(b => b.room_id !== roomId),
+      });
+      return ok();
+    },
+
+    // Same visibility as the Supabase policy: only your own row, even for the host
+    async getPlayerSecrets(roomId) {
+      const userId = currentUserId();
+      return ok(read().player_secrets
+        .filter(s => s.room_id === roomId && s.player_id === userId)
+        .map(s => s.secret));
+    },
+
+    async castVote(roomId, voterId, targetIds) {
+      return recordPlayerAction(roomId, voterId, { kind: 'vote', targetIds });
+    },
+
+    async submitPlayerAction(roomId, playerId, action, actionId) {
+      const recorded = await recordPlayerAction(roomId, playerId, action, actionId);
+      return recorded.ok ? ok() : recorded;
+    },
+
+    // Same as the tally_votes RPC: host only, the outcome is applied to the game in the
+    // same write, and with no open ballots it resolves to null and changes nothing
+    async tallyVotes(roomId) {
+      const database = read();
+      const userId = currentUserId();
+      const existing = database.game_states.find(g => g.room_id === roomId);
+      if (!database.rooms.some(r => r.id === roomId && r.host_id === userId)) {
+        console.error('❌ Only the host can tally votes', { roomId });
+        return err('forbidden', 'Only the host can tally votes');
+      }
+      if (!existing) {
+        return err('notFound', 'No game in this room');
+      }
+
+      const open = database.vote_ballots
+        .filter(b => b.room_id === roomId && !b.tallied_at)
+        .sort((a, b) => a.cast_at.localeCompare(b.cast_at));
+      if (open.length === 0) {
+        return ok(null);
+      }
+
+      const ballots = Object.fromEntries(open.map(b => [b.voter_id, b.target_ids]));
+      const outcome = computeVoteOutcome(existing.state as unknown as GameState, ballots);
+      const talliedAt = now();
+      const tallied: LocalDatabase = {
+        ...database,
+        vote_ballots: database.vote_ballots.map(b => (open.includes(b) ? { ...b, tallied_at: talliedAt, outcome } : b)),
+      };
+
+      // Mirror of apply_vote_outcome: the reducer's transition, with the dealt roles only
+      const secrets = database.player_secrets.filter(s => s.room_id === roomId).map(s => s.secret);
+      const revealed = withDealtRoles(existing.state as unknown as GameState, secrets);
+      const next = gameReducer(revealed, { type: 'tallyVotes', outcome });
+      if (next === revealed) {
+        write(withGameEvents(tallied, roomId, userId!, describeTally(outcome, existing.state as unknown as GameState, existing.state as unknown as GameState)));
+        notify({ table: 'game_events', roomId });
+        return ok(outcome);
+      }
+
+      const row: GameStateRow = {
+        ...existing,
+        state: redactGameState(stampPhaseDeadline(revealed, next, Date.now())) as unknown as Record<string, unknown>,
+        version: existing.version + 1,
+        updated_at: talliedAt,
+      };
+      const saved = withGameStatePatch(touchRoom({
+        ...tallied,
+        game_states: tallied.game_states.map(g => (g === existing ? row : g)),
+      }, roomId), existing, row);
+      const events = describeTally(outcome, existing.state as unknown as GameState, row.state as unknown as GameState);
+      const synced = syncRoomSummary(withGameEvents(saved, roomId, userId!, events), roomId);
+      write(synced);
+      notify({ table: 'game_state_patches', roomId });
+      notify({ table: 'game_events', roomId });
+      if (synced.rooms !== saved.rooms) notify({ table: 'rooms', roomId });
+      return ok(outcome);
+    },
+
+    trackPresence(roomId, playerId, callback) {
+      let lastReported: string | null = null;
+
+      const beat = () => {
+        const database = read();
+        const staleBefore = Date.now() - PRESENCE_TIMEOUT_MS * 10;
+        const others = database.presence.filter(p =>
+          !(p.room_id === roomId && p.player_id === playerId) && p.last_seen_at >= staleBefore
+        );
+        write({ ...database, presence: [...others, { room_id: roomId, player_id: playerId, last_seen_at: Date.now() }] });
+      };
+
+      const report = () => {
+        const onlineSince = Date.now() - PRESENCE_TIMEOUT_MS;
+        const onlinePlayerIds = read().presence
+          .filter(p => p.room_id === roomId && p.last_seen_at >= onlineSince)
+          .map(p => p.player_id)
+          .sort();
+        const key = onlinePlayerIds.join(',');
+        if (key !== lastReported) {
+          lastReported = key;
+          callback(onlinePlayerIds);
+        }
+      };
+
+      // Leaving on pagehide lets the other tabs notice right away instead of after the timeout
+      const leave = () => {
+        const database = read();
+        write({ ...database, presence: database.presence.filter(p => !(p.room_id === roomId && p.player_id === playerId)) });
+        notify({ table: 'presence', roomId });
+      };
+
+      const subscription = subscribe('presence', roomId, report);
+      beat();
+      notify({ table: 'presence', roomId });
+      const heartbeat = setInterval(() => {
+        beat();
+        report();
+      }, PRESENCE_HEARTBEAT_MS);
+      if (typeof window !== 'undefined') {
+        window.addEventListener('pagehide', leave);
+      }
+
+      return {
+        unsubscribe: () => {
+          clearInterval(heartbeat);
+          subscription.unsubscribe();
+          if (typeof window !== 'undefined') {
+            window.removeEventListener('pagehide', leave);
+          }
+          leave();
+        },
+      };
+    },
+
+    // Every tab shares this machine's clock, so it is the server clock
+    async getServerTime() {
+      return ok(Date.now());
+    },
+
+    subscribeToRoom(roomId, callback) {
+      return subscribe('rooms', roomId, () => {
+        const room = read().rooms.find(r => r.id === roomId);
+        if (room) callback(room);
+      });
+    },
+
+    subscribeToPublicRooms(callback) {
+      return subscribe('rooms', null, async () => {
+        const rooms = await transport.getPublicRooms();
+        if (rooms.ok) callback(rooms.value);
+      });
+    },
+
+    subscribeToRoomPlayers(roomId, callback) {
+      return subscribe('room_players', roomId, async () => {
+        const players = await transport.getRoomPlayers(roomId);
+        if (players.ok) callback(players.value);
+      });
+    },
+
+    subscribeToJoinRequests(roomId, callback) {
+      return subscribe('room_join_requests', roomId, async () => {
+        const requests = await transport.getJoinRequests(roomId);
+        if (requests.ok) callback(requests.value);
+      });
+    },
+
+    // Like a Realtime INSERT feed: each patch is delivered once, in the order it was written
+    subscribeToGameStatePatches(roomId, callback) {
+      const roomPatches = () => read().game_state_patches.filter(p => p.room_id === roomId);
+      let delivered = new Set(roomPatches().map(p => p.id));
+      return subscribe('game_state_patches', roomId, () => {
+        const patches = roomPatches();
+        patches.filter(p => !delivered.has(p.id)).forEach(callback);
+        delivered = new Set(patches.map(p => p.id));
+      });
+    },
+  };
+
+  return transport;
+}
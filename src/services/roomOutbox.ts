@@ -0,0 +1,362 @@
+import { PlayerAction, PlayerSecret, Result, RoomError } from '../types';
+import { applyGameStatePatch, diffGameState, GameStatePatchOp } from '../utils/gameStatePatch';
+import { err, isTransientRoomError, ok, withTimeout } from '../utils/result';
+import { getRoomTransport, RoomSubscription } from './roomTransport';
+
+/**
+ * Room Outbox
+ *
+ * Room writes are queued here instead of being sent and forgotten. Each room's
+ * queue is sent strictly in order: a write goes out only once every earlier write
+ * for that room has been settled. A write that fails with a timeout or network error
+ * is retried with exponential backoff, and nothing is sent (or counted as an attempt)
+ * while the browser is offline. A write that keeps failing is marked failed and holds
+ * its room's queue until the player retries or discards it. Any other error (e.g. a
+ * rejected answer) is final: the write is dropped and its caller gets the error.
+ *
+ * A game state save is queued as the patch ops from the stored version it was built
+ * on and sent through patchGameState as a compare-and-swap on that version, so only
+ * what the host changed goes over the wire. If the stored state has moved on, it is
+ * re-read and the ops re-applied to it, so answers and votes that landed in between
+ * are kept.
+ *
+ * A write that timed out may still land after it is retried, so player actions carry
+ * ids chosen when they are queued. The backend skips an id it already has, and the
+ * retry counts as saved instead of applying (and logging) it twice.
+ *
+ * The queue is kept in sessionStorage, so writes survive a reload but each tab
+ * (each local-transport player) has its own.
+ */
+
+// baseVersion is the stored version the ops were diffed from (null: the ops replace the whole state)
+export type RoomWrite =
+  | { kind: 'saveGameState'; baseVersion: number | null; ops: GameStatePatchOp[] }
+  | { kind: 'updateGameState'; baseVersion: number | null; ops: GameStatePatchOp[] }
+  | { kind: 'submitPlayerAction'; playerId: string; action: PlayerAction; actionId: string }
+  | { kind: 'savePlayerSecrets'; secrets: PlayerSecret[] };
+
+export interface RoomOutboxStatus {
+  pending: number; // Writes not saved yet, including the failed one
+  failed: number; // Writes that gave up and wait for retry or discard
+  isOnline: boolean;
+  isRetrying: boolean; // The write at the head of the queue failed at least once
+}
+
+interface OutboxEntry {
+  id: string;
+  roomId: string;
+  write: RoomWrite;
+  attempts: number;
+  status: 'pending' | 'failed';
+  lastError?: RoomError;
+  queuedAt: number;
+}
+
+const OUTBOX_KEY = 'impasta:room-outbox';
+const MAX_WRITE_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 30000;
+const WRITE_TIMEOUT_MS = 10000;
+const MAX_REBASE_ATTEMPTS = 5;
+// Writes older than this are dropped on reload - the room has moved on without them
+const OUTBOX_MAX_AGE_MS = 15 * 60 * 1000;
+
+let entries: OutboxEntry[] = loadEntries();
+let nextEntryId = 0;
+// Callers waiting on a write; not persisted, a reload has no one left to tell
+const waiters = new Map<string, Array<(result: Result<unknown>) => void>>();
+const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const drainingRooms = new Set<string>();
+const statusListeners = new Set<() => void>();
+
+function getSessionStorage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window.sessionStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+function loadEntries(): OutboxEntry[] {
+  const storage = getSessionStorage();
+  if (!storage) return [];
+  try {
+    const raw = storage.getItem(OUTBOX_KEY);
+    const stored: OutboxEntry[] = raw ? JSON.parse(raw) : [];
+    return stored.filter(entry => Date.now() - entry.queuedAt < OUTBOX_MAX_AGE_MS);
+  } catch (error) {
+    console.warn('Error reading room outbox:', error);
+    return [];
+  }
+}
+
+function persistEntries() {
+  const storage = getSessionStorage();
+  if (!storage) return;
+  try {
+    if (entries.length === 0) {
+      storage.removeItem(OUTBOX_KEY);
+    } else {
+      storage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+    }
+  } catch (error) {
+    // Still queued in memory, just not across a reload
+    console.warn('Error saving room outbox:', error);
+  }
+}
+
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+function changed() {
+  persistEntries();
+  statusListeners.forEach(listener => listener());
+}
+
+function settle(entryId: string, result: Result<unknown>) {
+  waiters.get(entryId)?.forEach(resolve => resolve(result));
+  waiters.delete(entryId);
+}
+
+// Patch the game state against the version the save was built on; if that is gone,
+// re-apply the ops to the latest stored state and try again against its version
+// Resolves to the stored version after the save
+async function sendGameState(
+  roomId: string,
+  write: Extract<RoomWrite, { kind: 'saveGameState' | 'updateGameState' }>
+): Promise<Result<number>> {
+  const transport = getRoomTransport();
+  let baseVersion = write.baseVersion;
+  let ops = write.ops;
+
+  for (let attempt = 1; attempt <= MAX_REBASE_ATTEMPTS; attempt++) {
+    if (baseVersion !== null) {
+      const patched = await transport.patchGameState(roomId, baseVersion, ops);
+      if (patched.ok || patched.error.kind !== 'conflict') {
+        return patched;
+      }
+    }
+
+    const latest = await transport.getGameState(roomId);
+    if (!latest.ok) {
+      return latest;
+    }
+    if (!latest.value) {
+      // Nothing to build on yet - the first save creates the row
+      const state = applyGameStatePatch({}, write.ops);
+      const created = write.kind === 'saveGameState'
+        ? await transport.saveGameState(roomId, state)
+        : await transport.updateGameState(roomId, state);
+      return created.ok ? ok(created.value.version) : created;
+    }
+
+    const row = latest.value;
+    ops = diffGameState(row.state, applyGameStatePatch(row.state, write.ops));
+    if (ops.length === 0) {
+      return ok(row.version);
+    }
+    baseVersion = row.version;
+  }
+  return err('conflict', 'Game state kept changing underneath the save');
+}
+
+async function sendWrite(roomId: string, write: RoomWrite): Promise<Result<unknown>> {
+  const transport = getRoomTransport();
+  switch (write.kind) {
+    case 'saveGameState':
+    case 'updateGameState':
+      return sendGameState(roomId, write);
+    case 'submitPlayerAction':
+      return transport.submitPlayerAction(roomId, write.playerId, write.action, write.actionId);
+    case 'savePlayerSecrets':
+      return transport.savePlayerSecrets(roomId, write.secrets);
+  }
+}
+
+function retryDelay(attempts: number): number {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+  // Jittered so clients that lost the connection together don't all come back at once
+  return delay * (0.5 + Math.random());
+}
+
+async function drainRoom(roomId: string) {
+  if (drainingRooms.has(roomId)) return;
+  drainingRooms.add(roomId);
+
+  try {
+    for (;;) {
+      const entry = entries.find(e => e.roomId === roomId);
+      if (!entry || entry.status === 'failed' || retryTimers.has(roomId) || !isOnline()) {
+        return;
+      }
+
+      let result: Result<unknown>;
+      try {
+        result = await withTimeout(sendWrite(roomId, entry.write), WRITE_TIMEOUT_MS, entry.write.kind);
+      } catch (error) {
+        console.error('❌ Room write threw:', entry.write.kind, error);
+        result = err('network', String(error));
+      }
+
+      // Saved, or refused for good - either way the next write can go
+      if (result.ok || !isTransientRoomError(result.error)) {
+        if (!result.ok) {
+          console.warn(`⚠️ ${entry.write.kind} was refused (${result.error.kind}) - dropping it`, result.error.message);
+        }
+        entries = entries.filter(e => e.id !== entry.id);
+        settle(entry.id, result);
+        changed();
+        continue;
+      }
+      entry.lastError = result.error;
+
+      // Failures while offline are the outage, not the write
+      if (!isOnline()) {
+        console.log(`📴 Offline - ${entry.write.kind} will be sent when the connection is back`);
+        changed();
+        return;
+      }
+
+      entry.attempts += 1;
+      if (entry.attempts >= MAX_WRITE_ATTEMPTS) {
+        console.error(`❌ Giving up on ${entry.write.kind} after ${entry.attempts} attempts`, { roomId });
+        entry.status = 'failed';
+        settle(entry.id, result);
+        changed();
+        return;
+      }
+
+      const delay = retryDelay(entry.attempts);
+      console.log(`🔁 ${entry.write.kind} failed (attempt ${entry.attempts}/${MAX_WRITE_ATTEMPTS}), retrying in ${Math.round(delay)}ms`);
+      retryTimers.set(roomId, setTimeout(() => {
+        retryTimers.delete(roomId);
+        drainRoom(roomId);
+      }, delay));
+      changed();
+      return;
+    }
+  } finally {
+    drainingRooms.delete(roomId);
+  }
+}
+
+function drainAllRooms() {
+  new Set(entries.map(entry => entry.roomId)).forEach(roomId => drainRoom(roomId));
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    console.log('📶 Back online - sending queued room writes');
+    // Don't sit out the rest of a backoff that was only waiting for the network
+    retryTimers.forEach(timer => clearTimeout(timer));
+    retryTimers.clear();
+    changed();
+    drainAllRooms();
+  });
+  window.addEventListener('offline', () => changed());
+}
+
+// Writes restored from a previous page load
+drainAllRooms();
+
+/**
+ * Queue a write for a room and resolve with the transport's result once it is settled
+ * Resolves with the last error if the write gives up or is discarded.
+ * A full game state save replaces one that is still waiting behind it - only the latest state matters.
+ */
+export function enqueueRoomWrite<T>(roomId: string, write: RoomWrite): Promise<Result<T>> {
+  return new Promise(resolve => {
+    const roomEntries = entries.filter(e => e.roomId === roomId);
+    const last = roomEntries[roomEntries.length - 1];
+    // The head may already be on its way, so only a waiting entry behind it is replaced
+    const canReplaceLast = last && roomEntries.length > 1 && last.status === 'pending' &&
+      (write.kind === 'saveGameState' || write.kind === 'updateGameState') && last.write.kind === write.kind;
+
+    const entry: OutboxEntry = canReplaceLast
+      ? last
+      : { id: `${Date.now()}-${nextEntryId++}`, roomId, write, attempts: 0, status: 'pending', queuedAt: Date.now() };
+
+    if (canReplaceLast) {
+      entry.write = write;
+    } else {
+      entries.push(entry);
+    }
+    waiters.set(entry.id, [...(waiters.get(entry.id) || []), resolve as (result: Result<unknown>) => void]);
+
+    changed();
+    drainRoom(roomId);
+  });
+}
+
+/**
+ * Resolve once nothing is waiting to be sent for the room (or its queue is held by a failed write)
+ * Read-modify-write calls wait for this so they build on the writes queued before them
+ */
+export function whenRoomWritesSettled(roomId: string): Promise<void> {
+  return new Promise(resolve => {
+    const check = () => {
+      const head = entries.find(e => e.roomId === roomId);
+      if (!head || head.status === 'failed') {
+        statusListeners.delete(check);
+        resolve();
+      }
+    };
+    statusListeners.add(check);
+    check();
+  });
+}
+
+/**
+ * How the room's queued writes are doing
+ */
+export function getRoomOutboxStatus(roomId: string): RoomOutboxStatus {
+  const roomEntries = entries.filter(e => e.roomId === roomId);
+  return {
+    pending: roomEntries.length,
+    failed: roomEntries.filter(e => e.status === 'failed').length,
+    isOnline: isOnline(),
+    isRetrying: (roomEntries[0]?.attempts || 0) > 0
+  };
+}
+
+/**
+ * Get told whenever any room's queue changes
+ */
+export function subscribeToRoomOutbox(roomId: string, callback: (status: RoomOutboxStatus) => void): RoomSubscription {
+  const listener = () => callback(getRoomOutboxStatus(roomId));
+  statusListeners.add(listener);
+  return {
+    unsubscribe: () => {
+      statusListeners.delete(listener);
+    }
+  };
+}
+
+/**
+ * Try a room's failed write again, with a fresh set of attempts
+ */
+export function retryFailedRoomWrites(roomId: string): void {
+  entries.forEach(entry => {
+    if (entry.roomId === roomId && entry.status === 'failed') {
+      entry.status = 'pending';
+      entry.attempts = 0;
+    }
+  });
+  changed();
+  drainRoom(roomId);
+}
+
+/**
+ * Drop a room's failed write so the writes queued after it can go out
+ */
+export function discardFailedRoomWrites(roomId: string): void {
+  const discarded = entries.filter(e => e.roomId === roomId && e.status === 'failed');
+  if (discarded.length === 0) return;
+
+  console.warn(`🗑️ Discarding ${discarded.length} room write(s) that could not be saved`, { roomId });
+  entries = entries.filter(e => !discarded.includes(e));
+  discarded.forEach(entry => settle(entry.id, err(entry.lastError?.kind || 'network', 'Discarded by the player')));
+  changed();
+  drainRoom(roomId);
+}
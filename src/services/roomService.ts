@@ -1,141 +1,158 @@
-import { supabase } from '../lib/supabase';
-import { GameMode } from '../types';
-
-export interface RoomRow {
-  id: string;
-  code: string;
-  host_id: string;
-  game_mode: GameMode;
-  impostor_count: number;
-  has_jester: boolean;
-  is_randomize_mode: boolean;
-  selected_pack: string | null;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-}
-
-export interface RoomPlayerRow {
-  id: string;
-  room_id: string;
-  player_id: string;
-  username: string;
-  avatar: string | null;
-  is_host: boolean;
-  is_bot: boolean;
-  is_connected: boolean;
-  created_at: string;
-  updated_at: string;
-}
-
-export interface GameStateRow {
-  id: string;
-  room_id: string;
-  state: Record<string, unknown>; // JSONB field containing the full GameState
-  created_at: string;
-  updated_at: string;
+import { GameMode, GameState, Language, PlayerAction, PlayerSecret, Result, RoomCode, RoomPrivacy, VoteOutcome } from '../types';
+import {
+  getRoomTransport,
+  RoomRow,
+  RoomPlayerRow,
+  RoomJoinRequestRow,
+  RoomJoinRequestStatus,
+  GameStateRow,
+  GameStatePatchRow,
+  GameEventRow,
+  RoomUpdates,
+  RoomPlayerUpdates,
+  RoomSubscription
+} from './roomTransport';
+import { GameAction, gameReducer } from '../utils/gameReducer';
+import { foldGameEvents } from '../utils/gameEvents';
+import { applyPlayerSecrets, redactGameState } from '../utils/playerSecrets';
+import { applyGameStatePatch, diffGameState } from '../utils/gameStatePatch';
+import { GAME_STATE_SCHEMA_VERSION, parseStoredGameState } from '../utils/gameStateSchema';
+import { ClockSample, estimateClockOffset, stampPhaseDeadline } from '../utils/phaseDeadline';
+import { enqueueRoomWrite, whenRoomWritesSettled } from './roomOutbox';
+import { err, ok, withTimeout } from '../utils/result';
+import { generateRoomCode, getRoomCodeFormat } from '../utils/roomCode';
+import { generateUUID } from '../utils/uuid';
+
+export type { RoomRow, RoomPlayerRow, RoomBanRow, RoomJoinRequestRow, RoomJoinRequestStatus, GameStateRow, GameStatePatchRow, GameEventRow, RoomSubscription } from './roomTransport';
+export type { RoomOutboxStatus } from './roomOutbox';
+export { getRoomOutboxStatus, subscribeToRoomOutbox, retryFailedRoomWrites, discardFailedRoomWrites } from './roomOutbox';
+
+/**
+ * Room Service
+ *
+ * Every call is forwarded to the active RoomTransport (Supabase or local),
+ * so screens and hooks never depend on a specific backend.
+ * Fire-and-forget writes (game state saves, events, player actions, secrets) go
+ * through the room outbox, which retries them in order until they are saved.
+ * Calls resolve to a Result; a call with no answer in time is a 'timeout' error.
+ */
+
+// How long a single backend call may take before it counts as a timeout
+export const ROOM_REQUEST_TIMEOUT_MS = 10000;
+
+// Seats in a new room, bots included; the backend enforces rooms.capacity
+export const MAX_ROOM_PLAYERS = 10;
+
+function request<T>(call: Promise<Result<T>>, what: string): Promise<Result<T>> {
+  return withTimeout(call, ROOM_REQUEST_TIMEOUT_MS, what);
 }
 
+// Fresh codes to try when the one we picked belongs to another active room
+const MAX_ROOM_CODE_ATTEMPTS = 5;
+
 /**
  * Create a new room
+ * code is tried first; while an active room already has it, fresh codes of the same format are tried.
+ * Resolves to the room with the code it actually got - use room.code, not the one passed in
  */
 export async function createRoom(
   hostId: string,
-  code: string,
+  code: RoomCode,
   gameMode: GameMode,
   impostorCount: number,
   hasJester: boolean,
   isRandomizeMode: boolean,
-  selectedPack: string | null
-): Promise<RoomRow | null> {
-  const { data, error } = await supabase
-    .from('rooms')
-    .insert({
-      code,
-      host_id: hostId,
-      game_mode: gameMode,
-      impostor_count: impostorCount,
-      has_jester: hasJester,
-      is_randomize_mode: isRandomizeMode,
-      selected_pack: selectedPack,
-      is_active: true,
-    })
-    .select()
-    .single();
-
-  if (error) {
-    console.error('Error creating room:', error);
-    return null;
+  selectedPack: string | null,
+  language: Language
+): Promise<Result<RoomRow>> {
+  let candidate = code;
+  for (let attempt = 1; ; attempt++) {
+    const created = await request(
+      getRoomTransport().createRoom(hostId, candidate, gameMode, impostorCount, hasJester, isRandomizeMode, selectedPack, language, MAX_ROOM_PLAYERS),
+      'Creating the room'
+    );
+    if (created.ok || created.error.kind !== 'conflict' || attempt >= MAX_ROOM_CODE_ATTEMPTS) {
+      return created;
+    }
+    console.log(`🔁 Room code ${candidate} is taken (attempt ${attempt}/${MAX_ROOM_CODE_ATTEMPTS}), trying another`);
+    candidate = generateRoomCode(getRoomCodeFormat(candidate));
   }
-
-  return data;
 }
 
 /**
- * Get room by code
+ * Get the room to join for a code
+ * 'notFound' if no room ever had the code, 'inactive' if it expired or was closed
  */
-export async function getRoomByCode(code: string): Promise<RoomRow | null> {
-  const { data, error } = await supabase
-    .from('rooms')
-    .select('*')
-    .eq('code', code)
-    .eq('is_active', true)
-    .single();
-
-  if (error) {
-    console.error('Error fetching room:', error);
-    return null;
+export async function getRoomByCode(code: RoomCode): Promise<Result<RoomRow>> {
+  const room = await request(getRoomTransport().getRoomByCode(code), 'Looking up the room');
+  if (room.ok && isRoomExpired(room.value)) {
+    return err('inactive', `Room ${code} has expired`);
   }
+  return room;
+}
 
-  return data;
+/**
+ * Get room by ID (expired rooms included - check isRoomExpired)
+ */
+export async function getRoomById(roomId: string): Promise<Result<RoomRow>> {
+  return request(getRoomTransport().getRoomById(roomId), 'Loading the room');
 }
 
 /**
- * Get room by ID
+ * Update room
  */
-export async function getRoomById(roomId: string): Promise<RoomRow | null> {
-  const { data, error } = await supabase
-    .from('rooms')
-    .select('*')
-    .eq('id', roomId)
-    .single();
+export async function updateRoom(roomId: string, updates: RoomUpdates): Promise<Result<RoomRow>> {
+  return request(getRoomTransport().updateRoom(roomId, updates), 'Updating the room');
+}
 
-  if (error) {
-    console.error('Error fetching room:', error);
-    return null;
+// Rooms with no activity for this long are closed and their codes freed (VITE_ROOM_INACTIVITY_TIMEOUT_MINUTES)
+export const ROOM_INACTIVITY_TIMEOUT_MS = (Number(import.meta.env.VITE_ROOM_INACTIVITY_TIMEOUT_MINUTES) || 120) * 60 * 1000;
+
+/**
+ * Whether a room is closed or has been idle past the inactivity timeout
+ * A stale room may not have been cleaned up yet, so check the timestamp too
+ */
+export function isRoomExpired(room: RoomRow): boolean {
+  if (!room.is_active) {
+    return true;
   }
+  const lastActivityAt = Date.parse(room.last_activity_at || room.updated_at);
+  return Date.now() - lastActivityAt > ROOM_INACTIVITY_TIMEOUT_MS;
+}
 
-  return data;
+/**
+ * Whether a public room is worth showing in the room browser: still open,
+ * in the lobby, and with a seat left
+ */
+export function isRoomJoinable(room: RoomRow): boolean {
+  return !isRoomExpired(room) && room.phase === 'lobby' && room.player_count < room.capacity;
 }
 
 /**
- * Update room
+ * Public rooms someone can join right now, most recently active first
  */
-export async function updateRoom(
-  roomId: string,
-  updates: Partial<Omit<RoomRow, 'id' | 'created_at' | 'updated_at'>>
-): Promise<RoomRow | null> {
-  const { data, error } = await supabase
-    .from('rooms')
-    .update({
-      ...updates,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', roomId)
-    .select()
-    .single();
+export async function getPublicRooms(): Promise<Result<RoomRow[]>> {
+  const rooms = await request(getRoomTransport().getPublicRooms(), 'Loading public rooms');
+  return rooms.ok ? ok(rooms.value.filter(isRoomJoinable)) : rooms;
+}
 
-  if (error) {
-    console.error('Error updating room:', error);
-    return null;
+/**
+ * Close rooms nobody has touched within the inactivity timeout
+ * Their players, game state and secrets are deleted; the event log is kept for stats
+ */
+export async function cleanupStaleRooms(inactiveForMs: number = ROOM_INACTIVITY_TIMEOUT_MS): Promise<Result<number>> {
+  const closed = await request(getRoomTransport().cleanupStaleRooms(inactiveForMs), 'Cleaning up rooms');
+  if (closed.ok && closed.value > 0) {
+    console.log(`🧹 Closed ${closed.value} abandoned room(s)`);
   }
-
-  return data;
+  return closed;
 }
 
 /**
  * Add a player to a room (or update if they already exist)
- * Uses UPSERT to handle re-joins gracefully
+ * A new player is refused with 'full' once the room's capacity is taken - the backend
+ * checks this in the same write, so two players joining at once can't both get the last seat.
+ * A player the host banned is refused with 'banned'
  */
 export async function addPlayerToRoom(
   roomId: string,
@@ -144,49 +161,28 @@ export async function addPlayerToRoom(
   avatar: string | null,
   isHost: boolean,
   isBot: boolean = false
-): Promise<RoomPlayerRow | null> {
-  const { data, error } = await supabase
-    .from('room_players')
-    .upsert({
-      room_id: roomId,
-      player_id: playerId,
-      username,
-      avatar,
-      is_host: isHost,
-      is_bot: isBot,
-      is_connected: true,
-      updated_at: new Date().toISOString(),
-    }, {
-      onConflict: 'room_id,player_id',
-      ignoreDuplicates: false
-    })
-    .select()
-    .single();
-
-  if (error) {
-    console.error('Error adding player to room:', error);
-    return null;
-  }
-
-  return data;
+): Promise<Result<RoomPlayerRow>> {
+  const banned = isBot
+    ? ok(false)
+    : await request(getRoomTransport().isPlayerBanned(roomId, playerId), 'Checking the room bans');
+  if (!banned.ok) {
+    return banned;
+  }
+  if (banned.value) {
+    return err('banned', 'Player is banned from the room');
+  }
+
+  return request(
+    getRoomTransport().addPlayerToRoom(roomId, playerId, username, avatar, isHost, isBot),
+    'Joining the room'
+  );
 }
 
 /**
  * Get all players in a room
  */
-export async function getRoomPlayers(roomId: string): Promise<RoomPlayerRow[]> {
-  const { data, error } = await supabase
-    .from('room_players')
-    .select('*')
-    .eq('room_id', roomId)
-    .order('created_at', { ascending: true });
-
-  if (error) {
-    console.error('Error fetching room players:', error);
-    return [];
-  }
-
-  return data || [];
+export async function getRoomPlayers(roomId: string): Promise<Result<RoomPlayerRow[]>> {
+  return request(getRoomTransport().getRoomPlayers(roomId), 'Loading the players');
 }
 
 /**
@@ -195,221 +191,601 @@ export async function getRoomPlayers(roomId: string): Promise<RoomPlayerRow[]> {
 export async function updateRoomPlayer(
   roomId: string,
   playerId: string,
-  updates: Partial<Omit<RoomPlayerRow, 'id' | 'room_id' | 'player_id' | 'created_at' | 'updated_at'>>
-): Promise<RoomPlayerRow | null> {
-  const { data, error } = await supabase
-    .from('room_players')
-    .update({
-      ...updates,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('room_id', roomId)
-    .eq('player_id', playerId)
-    .select()
-    .single();
+  updates: RoomPlayerUpdates
+): Promise<Result<RoomPlayerRow>> {
+  return request(getRoomTransport().updateRoomPlayer(roomId, playerId, updates), 'Updating the player');
+}
+
+/**
+ * Remove a player from a room
+ */
+export async function removePlayerFromRoom(roomId: string, playerId: string): Promise<Result<void>> {
+  return request(getRoomTransport().removePlayerFromRoom(roomId, playerId), 'Removing the player');
+}
 
-  if (error) {
-    console.error('Error updating room player:', error);
-    return null;
+/**
+ * Ban a player from a room and remove them from it (host only)
+ * The ban is written first, so a banned player can't slip back in between the two calls
+ */
+export async function banPlayer(roomId: string, hostId: string, playerId: string): Promise<Result<void>> {
+  const banned = await request(getRoomTransport().banPlayerFromRoom(roomId, playerId, hostId), 'Banning the player');
+  if (!banned.ok) {
+    return banned;
   }
+  return removePlayerFromRoom(roomId, playerId);
+}
 
-  return data;
+/**
+ * Check whether the host has banned a player from a room
+ */
+export async function isPlayerBanned(roomId: string, playerId: string): Promise<Result<boolean>> {
+  return request(getRoomTransport().isPlayerBanned(roomId, playerId), 'Checking the room bans');
+}
+
+// Secrets are cached per room for the deal they came with (GameState.dealId): each client only has its own
+const playerSecretsCache = new Map<string, { dealId: string | undefined; secrets: PlayerSecret[] }>();
+const lastPlayerSecretsFetch = new Map<string, number>();
+const PLAYER_SECRETS_REFETCH_INTERVAL_MS = 2000;
+
+async function loadPlayerSecrets(roomId: string, state: GameState): Promise<PlayerSecret[]> {
+  // Nothing is dealt in the lobby
+  if (state.phase === 'lobby') {
+    return [];
+  }
+
+  // A state from another deal never gets this one's secrets, however it was missed
+  const cached = playerSecretsCache.get(roomId);
+  const sameDeal = cached?.dealId === state.dealId;
+  if (cached && sameDeal && cached.secrets.length > 0) {
+    return cached.secrets;
+  }
+
+  // Late joiners have no secret; don't refetch on every state update of the same deal
+  const lastFetch = lastPlayerSecretsFetch.get(roomId) || 0;
+  if (sameDeal && Date.now() - lastFetch < PLAYER_SECRETS_REFETCH_INTERVAL_MS) {
+    return cached?.secrets || [];
+  }
+  lastPlayerSecretsFetch.set(roomId, Date.now());
+
+  const secrets = await request(getRoomTransport().getPlayerSecrets(roomId), 'Loading player secrets');
+  if (!secrets.ok) {
+    // Play on without them - the next update tries again
+    return sameDeal && cached ? cached.secrets : [];
+  }
+  playerSecretsCache.set(roomId, { dealId: state.dealId, secrets: secrets.value });
+  return secrets.value;
+}
+
+// Shared state never carries roles, the impostor question or the secret word
+// It is stamped with the schema version it was written in, so later clients can migrate it
+function toStoredState(gameState: Record<string, unknown>): Record<string, unknown> {
+  const redacted = redactGameState(gameState as unknown as GameState) as unknown as Record<string, unknown>;
+  return { ...redacted, schemaVersion: GAME_STATE_SCHEMA_VERSION };
+}
+
+// Put back the secrets this client may read
+async function withPlayerSecrets(roomId: string, row: GameStateRow): Promise<Result<GameStateRow>> {
+  const revealed = await revealGameState(roomId, row.state);
+  return revealed.ok ? ok({ ...row, state: revealed.value as unknown as Record<string, unknown> }) : revealed;
 }
 
 /**
- * Remove a player from a room
+ * Migrate and validate a stored (redacted) game state and put back the secrets this client may read
+ * Fails with 'invalid' if the state doesn't fit the GameState schema - resync it from the server.
+ * Missing secrets are not an error: if they can't be loaded the state is returned without them
  */
-export async function removePlayerFromRoom(
-  roomId: string,
-  playerId: string
-): Promise<boolean> {
-  const { error } = await supabase
-    .from('room_players')
-    .delete()
-    .eq('room_id', roomId)
-    .eq('player_id', playerId);
+export async function revealGameState(roomId: string, storedState: Record<string, unknown>): Promise<Result<GameState>> {
+  const parsed = parseStoredGameState(storedState);
+  if (!parsed.ok) {
+    console.error('❌ Stored game state failed validation:', parsed.error.join(', '));
+    return err('invalid', `Stored game state failed validation: ${parsed.error.join(', ')}`);
+  }
+  const secrets = await loadPlayerSecrets(roomId, parsed.value);
+  return ok(applyPlayerSecrets(parsed.value, secrets));
+}
+
+/**
+ * Store each player's share of a new deal (host, before saving the dealt game state)
+ */
+export async function savePlayerSecrets(roomId: string, secrets: PlayerSecret[]): Promise<Result<void>> {
+  // Not cached: like everyone else, the host reads back only its own secret
+  return enqueueRoomWrite<void>(roomId, { kind: 'savePlayerSecrets', secrets });
+}
 
-  if (error) {
-    console.error('Error removing player from room:', error);
-    return false;
+/**
+ * Get a player's own secret for the current deal (role, question/word, jester clue)
+ * null if there is no game yet or this player was not dealt in
+ */
+export async function getPlayerSecret(roomId: string, playerId: string): Promise<Result<PlayerSecret | null>> {
+  const row = await getStoredGameState(roomId);
+  if (!row.ok || !row.value) {
+    return row.ok ? ok(null) : row;
   }
+  const secrets = await loadPlayerSecrets(roomId, row.value.state as unknown as GameState);
+  return ok(secrets.find(s => s.playerId === playerId) || null);
+}
 
-  return true;
+// The stored (redacted) state and version each room's game state on this client was last built from
+const acknowledgedGameStates = new Map<string, AcknowledgedGameState>();
+
+export interface AcknowledgedGameState {
+  state: Record<string, unknown>;
+  version: number;
 }
 
 /**
- * Save game state
+ * Record the stored state this client's game state now comes from (useSupabaseRoom, on every update)
+ * Host saves are diffed against it, so only the host's own changes are sent.
+ * Only a newer version replaces it, so a slow fetch can't move the base back
  */
-export async function saveGameState(
+export function acknowledgeGameState(roomId: string, storedState: Record<string, unknown>, version: number): void {
+  const acknowledged = acknowledgedGameStates.get(roomId);
+  if (!acknowledged || version > acknowledged.version) {
+    acknowledgedGameStates.set(roomId, { state: storedState, version });
+  }
+}
+
+/**
+ * The stored state the client's game state was last built from, to pass to a later save
+ */
+export function getAcknowledgedGameState(roomId: string): AcknowledgedGameState | null {
+  return acknowledgedGameStates.get(roomId) || null;
+}
+
+// Queue the ops from the acknowledged state to gameState, or the whole state if nothing is acknowledged yet
+async function enqueueGameStateWrite(
   roomId: string,
-  gameState: Record<string, unknown>
-): Promise<GameStateRow | null> {
-  // CRITICAL FIX: Use UPSERT to avoid race conditions
-  // UPSERT will INSERT if row doesn't exist, UPDATE if it does
-  // This eliminates the race condition between check and insert that causes 409 Conflict errors
-  console.log('💾 Upserting game state to Supabase (INSERT or UPDATE)...', {
-    roomId,
-    hasCurrentScreen: !!(gameState as any).currentScreen,
-    currentScreen: (gameState as any).currentScreen,
-    phase: (gameState as any).phase
-  });
-  
-  // Use upsert with onConflict on room_id (which is UNIQUE)
-  // If room_id exists, UPDATE; if not, INSERT
-  const { data: upserted, error: upsertError } = await supabase
-    .from('game_states')
-    .upsert({
-      room_id: roomId, // UNIQUE constraint - if exists, UPDATE; if not, INSERT
-      state: gameState,
-      updated_at: new Date().toISOString(),
-    }, {
-      onConflict: 'room_id', // Conflict on room_id (UNIQUE constraint)
-      ignoreDuplicates: false // Update on conflict instead of ignoring
-    })
-    .select()
-    .single();
-
-  if (upsertError) {
-    // Handle specific error cases
-    if (upsertError.code === '42501') {
-      console.error('❌ RLS policy blocked upsert:', {
-        errorCode: upsertError.code,
-        errorMessage: upsertError.message,
-        roomId,
-        message: 'Check RLS policies - user must be host to INSERT, or in room_players to UPDATE'
-      });
-    } else if (upsertError.code === '23505') {
-      // Still got duplicate key error (shouldn't happen with upsert, but handle it)
-      console.error('❌ Duplicate key error even with upsert - race condition detected:', upsertError);
-      // Try UPDATE as fallback
-      const { data: updated, error: updateError } = await supabase
-        .from('game_states')
-        .update({
-          state: gameState,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('room_id', roomId)
-        .select()
-        .single();
-      
-      if (updateError) {
-        console.error('❌ Error updating game state after upsert failure:', updateError);
-        return null;
-      }
-      
-      console.log('✅ Game state updated successfully after upsert fallback - realtime WILL trigger');
-      return updated;
-    } else if (upsertError.code === 'PGRST116') {
-      // No rows returned (shouldn't happen with single(), but handle it)
-      console.warn('⚠️ Upsert returned no rows (PGRST116) - this is unexpected');
-      return null;
-    } else {
-      console.error('❌ Error upserting game state:', {
-        error: upsertError,
-        errorCode: upsertError.code,
-        errorMessage: upsertError.message,
-        roomId
-      });
-    }
-    return null;
+  kind: 'saveGameState' | 'updateGameState',
+  gameState: Record<string, unknown>,
+  base: AcknowledgedGameState | null
+): Promise<Result<number>> {
+  const stored = toStoredState(gameState);
+  if (!base) {
+    return enqueueRoomWrite<number>(roomId, { kind, baseVersion: null, ops: [{ op: 'replace', path: '', value: stored }] });
   }
 
-  console.log('✅ Game state upserted successfully in Supabase - realtime WILL trigger', {
-    currentScreen: (gameState as any).currentScreen,
-    phase: (gameState as any).phase,
-    playerCount: (gameState as any).players?.length,
-    hasPlayerRoles: !!(gameState as any).playerRoles && Object.keys((gameState as any).playerRoles || {}).length > 0
-  });
-  
-  return upserted;
+  const ops = diffGameState(base.state, stored);
+  if (ops.length === 0) {
+    return ok(base.version);
+  }
+  return enqueueRoomWrite<number>(roomId, { kind, baseVersion: base.version, ops });
 }
 
 /**
- * Update game state (for non-host players - uses UPDATE only, no INSERT)
- * This allows non-host players to update their submissions
- * RLS policy allows UPDATE for players in room_players
+ * Save game state (host - INSERT or UPDATE)
+ * Queued in the outbox as a patch from base (by default the last acknowledged state) and
+ * sent through patchGameState against its version. If the stored state has moved on, the
+ * patch is re-applied to the latest one, so answers and votes that landed meanwhile are kept.
+ * Resolves to the stored version once saved, or with the error if the write gave up
+ */
+export async function saveGameState(
+  roomId: string,
+  gameState: Record<string, unknown>,
+  base: AcknowledgedGameState | null = getAcknowledgedGameState(roomId)
+): Promise<Result<number>> {
+  return enqueueGameStateWrite(roomId, 'saveGameState', gameState, base);
+}
+
+/**
+ * Update game state (host - UPDATE only, no INSERT)
+ * Sent like saveGameState; resolves to the stored version, or with the error if the write gave up
  */
 export async function updateGameState(
   roomId: string,
-  gameState: Record<string, unknown>
-): Promise<GameStateRow | null> {
-  console.log('💾 Updating game state in Supabase (UPDATE only)...', {
-    roomId,
-    hasCurrentScreen: !!(gameState as any).currentScreen,
-    currentScreen: (gameState as any).currentScreen,
-    phase: (gameState as any).phase
-  });
-  
-  // Use UPDATE only (no INSERT) - RLS policy allows UPDATE for players in room_players
-  const { data: updated, error: updateError } = await supabase
-    .from('game_states')
-    .update({
-      state: gameState,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('room_id', roomId)
-    .select()
-    .single();
-
-  if (updateError) {
-    if (updateError.code === '42501') {
-      console.error('❌ RLS policy blocked update:', {
-        errorCode: updateError.code,
-        errorMessage: updateError.message,
-        roomId,
-        message: 'User must be in room_players to UPDATE game state'
-      });
-    } else if (updateError.code === 'PGRST116') {
-      // No rows found - game state doesn't exist yet
-      console.warn('⚠️ Game state not found - host may not have started the game yet');
-    } else {
-      console.error('Error updating game state:', updateError);
+  gameState: Record<string, unknown>,
+  base: AcknowledgedGameState | null = getAcknowledgedGameState(roomId)
+): Promise<Result<number>> {
+  return enqueueGameStateWrite(roomId, 'updateGameState', gameState, base);
+}
+
+/**
+ * Get game state for a room (null before the host first saves one)
+ */
+export async function getGameState(roomId: string): Promise<Result<GameStateRow | null>> {
+  const row = await getStoredGameState(roomId);
+  return row.ok && row.value ? withPlayerSecrets(roomId, row.value) : row;
+}
+
+/**
+ * Get game state exactly as stored (redacted) - the base that patches apply to
+ */
+export async function getStoredGameState(roomId: string): Promise<Result<GameStateRow | null>> {
+  return request(getRoomTransport().getGameState(roomId), 'Loading the game');
+}
+
+const MAX_MUTATION_ATTEMPTS = 5;
+const MUTATION_RETRY_DELAY_MS = 100;
+
+/**
+ * Apply a player's intent to the latest stored game state with compare-and-swap
+ * Only the ops between the stored state and the new one are sent, against its version.
+ * On a version conflict the state is re-fetched and the intent re-applied, so
+ * concurrent votes and answers never overwrite each other.
+ * Resolves to the stored row after the write (or unchanged row if the intent was a no-op)
+ */
+export async function mutateGameState(
+  roomId: string,
+  intent: (latest: GameState) => GameState
+): Promise<Result<GameStateRow>> {
+  // Build on the writes already queued, not on the state from before them
+  await whenRoomWritesSettled(roomId);
+
+  for (let attempt = 1; attempt <= MAX_MUTATION_ATTEMPTS; attempt++) {
+    const stored = await getStoredGameState(roomId);
+    if (!stored.ok) {
+      return stored;
+    }
+    const storedRow = stored.value;
+    if (!storedRow) {
+      return err('notFound', 'No game in this room');
+    }
+
+    // Never build on a state that failed validation - the intent would write garbage back
+    const revealed = await withPlayerSecrets(roomId, storedRow);
+    if (!revealed.ok) {
+      return revealed;
+    }
+    const latestRow = revealed.value;
+    const latestState = latestRow.state as unknown as GameState;
+    const nextState = intent(latestState);
+    if (nextState === latestState) {
+      return ok(latestRow);
+    }
+
+    const ops = diffGameState(storedRow.state, toStoredState(nextState as unknown as Record<string, unknown>));
+    if (ops.length === 0) {
+      return ok(latestRow);
     }
-    return null;
+    const patched = await request(getRoomTransport().patchGameState(roomId, storedRow.version, ops), 'Saving the game');
+
+    if (patched.ok) {
+      const savedRow = { ...storedRow, state: applyGameStatePatch(storedRow.state, ops), version: patched.value };
+      return withPlayerSecrets(roomId, savedRow);
+    }
+    if (patched.error.kind !== 'conflict') {
+      return patched;
+    }
+
+    // Jittered delay so clients that collided don't collide again
+    await new Promise(resolve => setTimeout(resolve, MUTATION_RETRY_DELAY_MS * attempt * (0.5 + Math.random())));
   }
 
-  return updated;
+  console.error('❌ Gave up writing game state after repeated version conflicts', { roomId });
+  return err('conflict', 'Game state kept changing underneath the write');
 }
 
 /**
- * Get game state for a room
+ * Run a reducer action and stamp the deadline of the phase it leads into (host)
  */
-export async function getGameState(roomId: string): Promise<GameStateRow | null> {
-  // CRITICAL FIX: Use maybeSingle() instead of single() to avoid errors when no row exists
-  // This fixes the 400 Bad Request error when game state doesn't exist yet
-  const { data, error } = await supabase
-    .from('game_states')
-    .select('*')
-    .eq('room_id', roomId)
-    .maybeSingle(); // Use maybeSingle() to return null instead of error when no row exists
+export function applyGameAction(state: GameState, action: GameAction): GameState {
+  return stampPhaseDeadline(state, gameReducer(state, action), serverNow());
+}
 
-  if (error) {
-    // PGRST116 means no rows found - this is expected if game hasn't started yet
-    if (error.code === 'PGRST116') {
-      console.log('ℹ️ No game state found (game not started yet)');
-      return null;
-    }
-    
-    // Other errors (like RLS policy blocks) should be logged
-    if (error.code === '42501' || error.code === 'PGRST301') {
-      console.error('❌ RLS policy blocked game state fetch:', {
-        errorCode: error.code,
-        errorMessage: error.message,
-        roomId,
-        message: 'Check RLS SELECT policy - user must be in room_players'
-      });
-    } else {
-      console.error('❌ Error fetching game state:', {
-        error,
-        errorCode: error.code,
-        errorMessage: error.message,
-        roomId
-      });
+/**
+ * Apply a reducer action to the latest stored game state (the backend logs it as game events)
+ * shouldApply is checked against the latest state on every attempt, so an action
+ * that no longer fits (e.g. the round already moved on) is skipped rather than replayed
+ */
+export async function dispatchGameAction(
+  roomId: string,
+  action: GameAction,
+  shouldApply: (latest: GameState) => boolean = () => true
+): Promise<Result<GameStateRow>> {
+  return mutateGameState(roomId, latest => (shouldApply(latest) ? applyGameAction(latest, action) : latest));
+}
+
+/**
+ * Cast a ballot for the current voting round
+ * The backend validates it and returns the game state with the vote recorded
+ */
+export async function castVote(roomId: string, voterId: string, targetIds: string[]): Promise<Result<GameStateRow>> {
+  await whenRoomWritesSettled(roomId);
+  const row = await request(getRoomTransport().castVote(roomId, voterId, targetIds), 'Casting the vote');
+  return row.ok ? withPlayerSecrets(roomId, row.value) : row;
+}
+
+export interface TalliedVotes {
+  outcome: VoteOutcome | null; // null: no ballots were open, so nothing was tallied
+  row: GameStateRow; // The game with the outcome applied (or as stored), with the secrets this client may read
+}
+
+/**
+ * Tally the current round's ballots on the backend (host only)
+ * The backend also applies the outcome to the game, so no client decides or writes it;
+ * the tallied state is read back and acknowledged, so later host saves build on it.
+ * With no open ballots the outcome is null and the row is the game as it stands
+ */
+export async function tallyVotes(roomId: string): Promise<Result<TalliedVotes>> {
+  await whenRoomWritesSettled(roomId);
+  const outcome = await request(getRoomTransport().tallyVotes(roomId), 'Tallying the votes');
+  if (!outcome.ok) {
+    return outcome;
+  }
+
+  const stored = await getStoredGameState(roomId);
+  if (!stored.ok) {
+    return stored;
+  }
+  if (!stored.value) {
+    return err('notFound', 'No game in this room');
+  }
+  acknowledgeGameState(roomId, stored.value.state, stored.value.version);
+  const row = await withPlayerSecrets(roomId, stored.value);
+  return row.ok ? ok({ outcome: outcome.value, row: row.value }) : row;
+}
+
+/**
+ * Submit an answer, vote, ready or seen-role for the backend to apply to the game state
+ * playerId is the current player, or a bot when the host submits for it
+ */
+export async function submitPlayerAction(roomId: string, playerId: string, action: PlayerAction): Promise<Result<void>> {
+  return enqueueRoomWrite<void>(roomId, { kind: 'submitPlayerAction', playerId, action, actionId: generateUUID() });
+}
+
+/**
+ * Get the room's game event log in order
+ */
+export async function getGameEvents(roomId: string): Promise<Result<GameEventRow[]>> {
+  return request(getRoomTransport().getGameEvents(roomId), 'Loading the game log');
+}
+
+/**
+ * Rebuild the game by folding the room's event log
+ * The logged deal is redacted, so this client's own secret is put back before folding.
+ * Eliminations follow the logged outcomes; winners decided by the backend from roles this
+ * client can't read may come out differently than stored.
+ * Resolves to null if the game has not been started in this room
+ */
+export async function rebuildGameState(roomId: string): Promise<Result<GameState | null>> {
+  const rows = await getGameEvents(roomId);
+  if (!rows.ok) {
+    return rows;
+  }
+  const events = rows.value.map(row => row.event);
+  const lastDeal = [...events].reverse().find(event => event.type === 'rolesAssigned');
+  if (!lastDeal || lastDeal.type !== 'rolesAssigned') {
+    return ok(null);
+  }
+
+  const secrets = await loadPlayerSecrets(roomId, lastDeal.state);
+  return ok(foldGameEvents(events.map(event =>
+    event.type === 'rolesAssigned' ? { ...event, state: applyPlayerSecrets(event.state, secrets) } : event
+  )));
+}
+
+/**
+ * The game a joining or resuming client catches up from
+ * The stored state, checked against the game rebuilt from the event log: a stored state
+ * that eliminated different players than the log did is reported, and the rebuilt game
+ * stands in when nothing is stored. Resolves to null if the room has no game yet
+ */
+export async function loadGameState(roomId: string): Promise<Result<GameState | null>> {
+  const [stored, rebuilt] = await Promise.all([getGameState(roomId), rebuildGameState(roomId)]);
+  if (!stored.ok) {
+    return stored;
+  }
+  if (!rebuilt.ok) {
+    // The stored state is enough to play on
+    console.warn('⚠️ Could not rebuild the game from its event log:', rebuilt.error.kind, rebuilt.error.message);
+  }
+
+  const storedState = stored.value ? stored.value.state as unknown as GameState : null;
+  const rebuiltState = rebuilt.ok ? rebuilt.value : null;
+  if (!storedState) {
+    return ok(rebuiltState);
+  }
+
+  const eliminated = (state: GameState) => [...(state.eliminatedPlayers || [])].sort().join(',');
+  if (rebuiltState && eliminated(rebuiltState) !== eliminated(storedState)) {
+    console.warn('⚠️ Stored game disagrees with its event log about eliminations', {
+      stored: storedState.eliminatedPlayers,
+      logged: rebuiltState.eliminatedPlayers
+    });
+  }
+  return ok(storedState);
+}
+
+// The server clock is the local clock plus this, as last measured by syncServerClock
+let serverClockOffsetMs = 0;
+const SERVER_CLOCK_SAMPLES = 3;
+
+/**
+ * Measure how far this device's clock is from the backend's
+ * Takes a few round trips and keeps the estimate from the fastest one
+ */
+export async function syncServerClock(): Promise<Result<number>> {
+  const samples: ClockSample[] = [];
+  for (let i = 0; i < SERVER_CLOCK_SAMPLES; i++) {
+    const sentAt = Date.now();
+    const serverTime = await request(getRoomTransport().getServerTime(), 'Reading the server clock');
+    if (!serverTime.ok) {
+      return serverTime;
     }
-    return null;
+    samples.push({ sentAt, serverTime: serverTime.value, receivedAt: Date.now() });
   }
 
-  return data;
+  serverClockOffsetMs = estimateClockOffset(samples);
+  console.log(`🕒 Server clock offset: ${serverClockOffsetMs}ms`);
+  return ok(serverClockOffsetMs);
+}
+
+/**
+ * The current time on the server clock (epoch ms), which phase deadlines are set on
+ */
+export function serverNow(): number {
+  return Date.now() + serverClockOffsetMs;
+}
+
+/**
+ * Announce the current player in a room and get told who is online
+ */
+export function trackPresence(
+  roomId: string,
+  playerId: string,
+  callback: (onlinePlayerIds: string[]) => void
+): RoomSubscription {
+  return getRoomTransport().trackPresence(roomId, playerId, callback);
+}
+
+/**
+ * Write presence into room_players.is_connected (host only - RLS lets the host update any player)
+ * Bots live on the host's client and are never marked disconnected
+ */
+export async function syncPlayerConnections(roomId: string, onlinePlayerIds: string[]): Promise<Result<void>> {
+  const roomPlayers = await getRoomPlayers(roomId);
+  if (!roomPlayers.ok) {
+    return roomPlayers;
+  }
+  const changed = roomPlayers.value.filter(p =>
+    !p.is_bot && p.is_connected !== onlinePlayerIds.includes(p.player_id)
+  );
+
+  const updates = await Promise.all(changed.map(p => {
+    const isConnected = onlinePlayerIds.includes(p.player_id);
+    console.log(isConnected ? `🟢 ${p.username} reconnected` : `🔴 ${p.username} disconnected`);
+    return updateRoomPlayer(roomId, p.player_id, { is_connected: isConnected });
+  }));
+  const failed = updates.find(update => !update.ok);
+  return failed && !failed.ok ? failed : ok();
+}
+
+/**
+ * Pick who takes over from an absent host: the connected human who has been in the room longest
+ * Every client elects from the same rows, so they all agree on the winner
+ */
+export function electNextHost(
+  roomPlayers: RoomPlayerRow[],
+  onlinePlayerIds: string[],
+  currentHostId: string
+): string | null {
+  const candidates = roomPlayers
+    .filter(p => !p.is_bot && p.player_id !== currentHostId && onlinePlayerIds.includes(p.player_id))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.player_id.localeCompare(b.player_id));
+  return candidates[0]?.player_id || null;
+}
+
+/**
+ * Hand the room to newHostId if expectedHostId is still the host
+ * rooms.host_id, room_players.is_host and GameState.hostId change together.
+ * Bots are run by whoever is host, so the new host takes them over with the room.
+ */
+export async function migrateHost(roomId: string, expectedHostId: string, newHostId: string): Promise<Result<void>> {
+  return request(getRoomTransport().migrateHost(roomId, expectedHostId, newHostId), 'Handing over the room');
+}
+
+/**
+ * Tell the server the host is still here, so nobody can take the room over
+ */
+export async function touchRoomHost(roomId: string): Promise<Result<void>> {
+  return request(getRoomTransport().touchRoomHost(roomId), 'Sending the host heartbeat');
+}
+
+/**
+ * Change who may join the room (host only)
+ * A password room needs the password set before it is switched over; leaving password mode clears it
+ */
+export async function setRoomPrivacy(roomId: string, privacy: RoomPrivacy, password?: string): Promise<Result<RoomRow>> {
+  if (privacy === 'password' && !password) {
+    return err('wrongPassword', 'A password room needs a password');
+  }
+  const passwordSet = await request(
+    getRoomTransport().setRoomPassword(roomId, privacy === 'password' ? password || null : null),
+    'Setting the room password'
+  );
+  if (!passwordSet.ok) {
+    return passwordSet;
+  }
+  return updateRoom(roomId, { privacy });
+}
+
+/**
+ * Find out whether a player may join a room yet, asking the backend if the room is private
+ * Open rooms, the host and players already in the room are let straight in.
+ * Resolves to 'pending' while an approval room waits for the host.
+ */
+export async function requestRoomEntry(
+  room: RoomRow,
+  playerId: string,
+  username: string,
+  avatar: string | null,
+  password: string | null
+): Promise<Result<RoomJoinRequestStatus>> {
+  if (room.privacy === 'open' || room.host_id === playerId) {
+    return ok('admitted');
+  }
+
+  const [roomPlayers, banned] = await Promise.all([getRoomPlayers(room.id), isPlayerBanned(room.id, playerId)]);
+  if (!roomPlayers.ok) {
+    return roomPlayers;
+  }
+  if (!banned.ok) {
+    return banned;
+  }
+  if (banned.value) {
+    return err('banned', 'Player is banned from the room');
+  }
+  if (roomPlayers.value.some(p => p.player_id === playerId)) {
+    return ok('admitted');
+  }
+
+  const joinRequest = await request(
+    getRoomTransport().requestToJoinRoom(room.id, playerId, username, avatar, password),
+    'Asking to join the room'
+  );
+  return joinRequest.ok ? ok(joinRequest.value.status) : joinRequest;
+}
+
+/**
+ * Get a room's join requests (the host sees all, a player only their own)
+ */
+export async function getJoinRequests(roomId: string): Promise<Result<RoomJoinRequestRow[]>> {
+  return request(getRoomTransport().getJoinRequests(roomId), 'Loading the join requests');
+}
+
+/**
+ * Let a waiting player in, or turn them away (host only)
+ */
+export async function answerJoinRequest(roomId: string, playerId: string, admit: boolean): Promise<Result<RoomJoinRequestRow>> {
+  return request(getRoomTransport().answerJoinRequest(roomId, playerId, admit), admit ? 'Admitting the player' : 'Rejecting the player');
+}
+
+/**
+ * Hand the room to another player in it (host only)
+ */
+export async function transferHost(roomId: string, hostId: string, newHostId: string): Promise<Result<void>> {
+  console.log('👑 Handing the room over to', newHostId);
+  return migrateHost(roomId, hostId, newHostId);
+}
+
+/**
+ * Take over as host if the host is still offline and playerId wins the election
+ * Resolves to true if this player became host
+ */
+export async function claimHostIfAbsent(roomId: string, playerId: string, onlinePlayerIds: string[]): Promise<Result<boolean>> {
+  const [roomResult, roomPlayers] = await Promise.all([getRoomById(roomId), getRoomPlayers(roomId)]);
+  if (!roomResult.ok) {
+    return roomResult;
+  }
+  if (!roomPlayers.ok) {
+    return roomPlayers;
+  }
+
+  const room = roomResult.value;
+  if (!room.is_active || onlinePlayerIds.includes(room.host_id)) {
+    return ok(false);
+  }
+
+  if (electNextHost(roomPlayers.value, onlinePlayerIds, room.host_id) !== playerId) {
+    return ok(false);
+  }
+
+  console.log('👑 Host has been gone too long - taking over room', room.code);
+  const migrated = await migrateHost(roomId, room.host_id, playerId);
+  if (!migrated.ok) {
+    // Someone else took over first, or the server still has a recent heartbeat from the host
+    return migrated.error.kind === 'conflict' ? ok(false) : migrated;
+  }
+  return ok(true);
 }
 
 /**
@@ -418,22 +794,15 @@ export async function getGameState(roomId: string): Promise<GameStateRow | null>
 export function subscribeToRoom(
   roomId: string,
   callback: (room: RoomRow) => void
-) {
-  return supabase
-    .channel(`room:${roomId}`)
-    .on(
-      'postgres_changes',
-      {
-        event: '*',
-        schema: 'public',
-        table: 'rooms',
-        filter: `id=eq.${roomId}`,
-      },
-      (payload) => {
-        callback(payload.new as RoomRow);
-      }
-    )
-    .subscribe();
+): RoomSubscription {
+  return getRoomTransport().subscribeToRoom(roomId, callback);
+}
+
+/**
+ * Subscribe to the public rooms someone can join right now
+ */
+export function subscribeToPublicRooms(callback: (rooms: RoomRow[]) => void): RoomSubscription {
+  return getRoomTransport().subscribeToPublicRooms(rooms => callback(rooms.filter(isRoomJoinable)));
 }
 
 /**
@@ -442,55 +811,26 @@ export function subscribeToRoom(
 export function subscribeToRoomPlayers(
   roomId: string,
   callback: (players: RoomPlayerRow[]) => void
-) {
-  return supabase
-    .channel(`room_players:${roomId}`)
-    .on(
-      'postgres_changes',
-      {
-        event: '*',
-        schema: 'public',
-        table: 'room_players',
-        filter: `room_id=eq.${roomId}`,
-      },
-      async () => {
-        // Fetch all players when any change occurs
-        const players = await getRoomPlayers(roomId);
-        callback(players);
-      }
-    )
-    .subscribe();
-}
-
-/**
- * Subscribe to game state changes
- */
-export function subscribeToGameState(
+): RoomSubscription {
+  return getRoomTransport().subscribeToRoomPlayers(roomId, callback);
+}
+
+/**
+ * Subscribe to a room's join requests
+ */
+export function subscribeToJoinRequests(
   roomId: string,
-  callback: (gameState: GameStateRow) => void
-) {
-  const channel = supabase
-    .channel(`game_state:${roomId}`)
-    .on(
-      'postgres_changes',
-      {
-        event: '*',
-        schema: 'public',
-        table: 'game_states',
-        filter: `room_id=eq.${roomId}`,
-      },
-      (payload) => {
-        console.log('Game state subscription triggered:', payload.eventType, payload);
-        // For UPDATE events, use payload.new; for INSERT, also use payload.new
-        if (payload.new) {
-          callback(payload.new as GameStateRow);
-        }
-      }
-    )
-    .subscribe((status) => {
-      console.log('Game state subscription status:', status);
-    });
-  
-  return channel;
+  callback: (requests: RoomJoinRequestRow[]) => void
+): RoomSubscription {
+  return getRoomTransport().subscribeToJoinRequests(roomId, callback);
 }
 
+/**
+ * Subscribe to game state patches (applied by useSupabaseRoom to the stored state)
+ */
+export function subscribeToGameStatePatches(
+  roomId: string,
+  callback: (patch: GameStatePatchRow) => void
+): RoomSubscription {
+  return getRoomTransport().subscribeToGameStatePatches(roomId, callback);
+}
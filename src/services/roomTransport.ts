@@ -0,0 +1,282 @@
+import { GameMode, GamePhase, Language, PlayerAction, PlayerSecret, Result, RoomCode, RoomPrivacy, VoteOutcome } from '../types';
+import type { GameEvent } from '../utils/gameEvents';
+import type { GameStatePatchOp } from '../utils/gameStatePatch';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { supabaseTransport } from './supabaseTransport';
+import { createLocalTransport } from './localTransport';
+
+// The signed-in user, shaped like a GoTrue user
+export interface AuthUser {
+  id: string; // Stays the same when an anonymous user links an email
+  email: string | null; // null while anonymous
+  new_email: string | null; // Sent a confirmation link that hasn't been opened yet
+  is_anonymous: boolean;
+}
+
+// The name and avatar a user picked, so they don't have to enter them again on another device
+export interface ProfileRow {
+  id: string; // The user's id
+  username: string;
+  avatar: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RoomRow {
+  id: string;
+  code: RoomCode;
+  host_id: string;
+  game_mode: GameMode;
+  impostor_count: number;
+  has_jester: boolean;
+  is_randomize_mode: boolean;
+  selected_pack: string | null;
+  privacy: RoomPrivacy; // The password itself is never readable, only set and checked by the backend
+  is_public: boolean; // Listed in the public room browser
+  language: Language;
+  capacity: number; // Seats, bots included; the backend refuses new players with 'full' once they are taken
+  player_count: number; // Kept current by the backend from room_players, bots included
+  phase: GamePhase; // Copied by the backend from the game state, 'lobby' until the first game
+  is_active: boolean;
+  last_activity_at: string; // Bumped by player, game state and event writes; stale rooms are cleaned up
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RoomPlayerRow {
+  id: string;
+  room_id: string;
+  player_id: string;
+  username: string;
+  avatar: string | null;
+  is_host: boolean;
+  is_bot: boolean;
+  is_connected: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// A player the host has banned from a room; they can't join it again
+export interface RoomBanRow {
+  room_id: string;
+  player_id: string;
+  banned_by: string;
+  created_at: string;
+}
+
+export type RoomJoinRequestStatus = 'pending' | 'admitted' | 'rejected';
+
+// A player asking to join a private room; they add themselves to room_players once admitted
+export interface RoomJoinRequestRow {
+  room_id: string;
+  player_id: string;
+  username: string;
+  avatar: string | null;
+  status: RoomJoinRequestStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GameStateRow {
+  id: string;
+  room_id: string;
+  state: Record<string, unknown>; // JSONB field containing the full GameState
+  version: number; // Incremented on every write, used for compare-and-swap
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GameEventRow {
+  id: string;
+  room_id: string;
+  seq: number; // Position in the room's stream, assigned by the backend
+  actor_id: string; // Whose write the event describes (the host for bot actions)
+  event: GameEvent;
+  created_at: string;
+}
+
+// One write to a room's game state, as ops against the version before it
+export interface GameStatePatchRow {
+  id: string;
+  room_id: string;
+  base_version: number; // Version the ops apply to; 0 means the ops replace the whole state
+  version: number; // Version after the ops
+  ops: GameStatePatchOp[];
+  created_at: string;
+}
+
+export interface PlayerActionRow {
+  id: string;
+  room_id: string;
+  player_id: string; // Whose action it is
+  actor_id: string; // Who submitted it (the host for bots)
+  kind: PlayerAction['kind'];
+  payload: Record<string, unknown>; // The action without its kind, e.g. { answer }
+  applied_version: number | null; // game_states.version once the backend applied it
+  created_at: string;
+}
+
+export interface PlayerSecretRow {
+  room_id: string;
+  player_id: string;
+  secret: PlayerSecret;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RoomUpdates = Partial<Omit<RoomRow, 'id' | 'capacity' | 'player_count' | 'phase' | 'created_at' | 'updated_at'>>;
+export type RoomPlayerUpdates = Partial<Omit<RoomPlayerRow, 'id' | 'room_id' | 'player_id' | 'created_at' | 'updated_at'>>;
+
+/**
+ * Handle returned by the subscribeTo* functions
+ */
+export interface RoomSubscription {
+  unsubscribe: () => void;
+}
+
+/**
+ * Everything the app needs from a backend to host and play a room.
+ * Every call resolves to a Result: the row on success, or a RoomError saying why not.
+ */
+export interface RoomTransport {
+  name: 'supabase' | 'local';
+
+  // Identity
+  getCurrentUserId(): Promise<Result<string | null>>; // null when nobody is signed in
+  signInAnonymously(): Promise<Result<string>>;
+  signOut(): Promise<Result<void>>;
+
+  // Accounts: linking upgrades the signed-in anonymous user in place, keeping its id and rooms
+  getCurrentUser(): Promise<Result<AuthUser | null>>; // null when nobody is signed in
+  linkEmail(email: string): Promise<Result<AuthUser>>; // 'conflict' if the email has an account
+  // Only for a confirmed email ('forbidden' while anonymous or waiting for the confirmation link)
+  setPassword(password: string): Promise<Result<void>>;
+  signInWithPassword(email: string, password: string): Promise<Result<AuthUser>>; // 'wrongPassword' for a wrong email or password
+  // Email a sign-in link; the user is signed in once they open it ('notFound' if no account has the email)
+  sendMagicLink(email: string): Promise<Result<void>>;
+
+  // Profiles: each user reads and writes only their own
+  getProfile(userId: string): Promise<Result<ProfileRow | null>>; // null before the first save
+  saveProfile(userId: string, username: string, avatar: string | null): Promise<Result<ProfileRow>>;
+
+  // Rooms
+  createRoom(
+    hostId: string,
+    code: RoomCode,
+    gameMode: GameMode,
+    impostorCount: number,
+    hasJester: boolean,
+    isRandomizeMode: boolean,
+    selectedPack: string | null,
+    language: Language,
+    capacity: number
+  ): Promise<Result<RoomRow>>; // 'conflict' if the code is taken by an active room
+  getRoomByCode(code: RoomCode): Promise<Result<RoomRow>>; // Newest room with the code, active or not
+  getRoomById(roomId: string): Promise<Result<RoomRow>>;
+  getPublicRooms(): Promise<Result<RoomRow[]>>; // Active public rooms, most recently active first
+  updateRoom(roomId: string, updates: RoomUpdates): Promise<Result<RoomRow>>;
+  // Close rooms idle for longer than inactiveForMs and delete their players and game state
+  // Resolves to how many rooms were closed
+  cleanupStaleRooms(inactiveForMs: number): Promise<Result<number>>;
+
+  // Players
+  addPlayerToRoom(
+    roomId: string,
+    playerId: string,
+    username: string,
+    avatar: string | null,
+    isHost: boolean,
+    isBot: boolean
+  ): Promise<Result<RoomPlayerRow>>; // 'full' for a new player once every seat is taken
+  getRoomPlayers(roomId: string): Promise<Result<RoomPlayerRow[]>>;
+  updateRoomPlayer(roomId: string, playerId: string, updates: RoomPlayerUpdates): Promise<Result<RoomPlayerRow>>;
+  removePlayerFromRoom(roomId: string, playerId: string): Promise<Result<void>>;
+
+  // Bans (host only); a banned player can't be added to the room again
+  banPlayerFromRoom(roomId: string, playerId: string, bannedBy: string): Promise<Result<void>>;
+  isPlayerBanned(roomId: string, playerId: string): Promise<Result<boolean>>;
+
+  // Private rooms
+  setRoomPassword(roomId: string, password: string | null): Promise<Result<void>>; // Host only; null clears it
+  // Ask to join: admitted at once in open rooms and with the right password ('wrongPassword' otherwise),
+  // pending in approval rooms until the host answers. 'banned' for banned players.
+  requestToJoinRoom(
+    roomId: string,
+    playerId: string,
+    username: string,
+    avatar: string | null,
+    password: string | null
+  ): Promise<Result<RoomJoinRequestRow>>;
+  getJoinRequests(roomId: string): Promise<Result<RoomJoinRequestRow[]>>; // The host sees all, a player only their own
+  answerJoinRequest(roomId: string, playerId: string, admit: boolean): Promise<Result<RoomJoinRequestRow>>; // Host only
+
+  // Host migration: atomically move rooms.host_id, room_players.is_host and GameState.hostId
+  // to newHostId, only if expectedHostId is still the host ('conflict' otherwise)
+  // Called by a player taking over an absent host, or by the host handing the room over
+  // A takeover is also a 'conflict' while the host's heartbeat is younger than the disconnect timeout
+  migrateHost(roomId: string, expectedHostId: string, newHostId: string): Promise<Result<void>>;
+  // The host's heartbeat, sent every few seconds while hosting; does nothing for anyone else
+  touchRoomHost(roomId: string): Promise<Result<void>>;
+
+  // Game state
+  saveGameState(roomId: string, gameState: Record<string, unknown>): Promise<Result<GameStateRow>>;
+  updateGameState(roomId: string, gameState: Record<string, unknown>): Promise<Result<GameStateRow>>;
+  getGameState(roomId: string): Promise<Result<GameStateRow | null>>; // null before the first save
+  // Apply ops only if the stored version is still baseVersion (compare-and-swap)
+  // Resolves to the new version; 'conflict' means another client wrote first - re-fetch, re-apply and retry
+  patchGameState(roomId: string, baseVersion: number, ops: GameStatePatchOp[]): Promise<Result<number>>;
+
+  // Game events (append-only), appended by the backend with each write they describe - never by a client
+  getGameEvents(roomId: string): Promise<Result<GameEventRow[]>>;
+
+  // Votes: the backend validates every ballot and decides the tally, never a client
+  // castVote records a ballot (your own, or a bot's if you host) and returns the game state with it
+  castVote(roomId: string, voterId: string, targetIds: string[]): Promise<Result<GameStateRow>>;
+  // Host only; the outcome is applied to the game state in the same write (eliminations,
+  // tie-breakers, winners), and no other write may change those. Resolves to null, changing
+  // nothing, when no ballots are open (nobody voted yet, or a retry after the tally)
+  tallyVotes(roomId: string): Promise<Result<VoteOutcome | null>>;
+
+  // Player actions: answers, votes, ready and seen-role go in here and the backend
+  // applies them to the game state, so players never write game_states themselves
+  // A rejected action is a 'conflict' (the state doesn't allow it) or 'forbidden'
+  // actionId is chosen by the client; resubmitting an id that was already applied succeeds without applying it again
+  submitPlayerAction(roomId: string, playerId: string, action: PlayerAction, actionId: string): Promise<Result<void>>;
+
+  // Player secrets (host writes in the lobby; everyone, the host included, reads only their own row)
+  savePlayerSecrets(roomId: string, secrets: PlayerSecret[]): Promise<Result<void>>;
+  getPlayerSecrets(roomId: string): Promise<Result<PlayerSecret[]>>;
+
+  // Realtime
+  subscribeToRoom(roomId: string, callback: (room: RoomRow) => void): RoomSubscription;
+  subscribeToPublicRooms(callback: (rooms: RoomRow[]) => void): RoomSubscription;
+  subscribeToRoomPlayers(roomId: string, callback: (players: RoomPlayerRow[]) => void): RoomSubscription;
+  subscribeToJoinRequests(roomId: string, callback: (requests: RoomJoinRequestRow[]) => void): RoomSubscription;
+  // Every game state write arrives as a patch, in version order
+  subscribeToGameStatePatches(roomId: string, callback: (patch: GameStatePatchRow) => void): RoomSubscription;
+
+  // Presence: announce playerId as online and report everyone online in the room
+  trackPresence(roomId: string, playerId: string, callback: (onlinePlayerIds: string[]) => void): RoomSubscription;
+
+  // Clock: the backend's current time in epoch ms, which phase deadlines are measured on
+  getServerTime(): Promise<Result<number>>;
+}
+
+// Use the local transport when asked to, or when there is no Supabase project to talk to
+const useLocalTransport = import.meta.env.VITE_ROOM_TRANSPORT === 'local' || !isSupabaseConfigured;
+
+let activeTransport: RoomTransport = useLocalTransport ? createLocalTransport() : supabaseTransport;
+
+/**
+ * Get the transport every room call goes through
+ */
+export function getRoomTransport(): RoomTransport {
+  return activeTransport;
+}
+
+/**
+ * Swap the transport (e.g. an in-memory one for tests or headless bots)
+ */
+export function setRoomTransport(transport: RoomTransport): void {
+  activeTransport = transport;
+}
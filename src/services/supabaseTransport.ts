@@ -0,0 +1,1247 @@
+import { supabase } from '../lib/supabase';
+import { GameMode, Language, PlayerAction, PlayerSecret, Result, RoomCode, VoteOutcome } from '../types';
+import type { GameStatePatchOp } from '../utils/gameStatePatch';
+import { err, ok } from '../utils/result';
+import type { User } from '@supabase/supabase-js';
+import type {
+  AuthUser,
+  ProfileRow,
+  RoomTransport,
+  RoomRow,
+  RoomPlayerRow,
+  RoomJoinRequestRow,
+  GameStateRow,
+  GameStatePatchRow,
+  GameEventRow,
+  RoomUpdates,
+  RoomPlayerUpdates
+} from './roomTransport';
+
+interface SupabaseError {
+  code?: string;
+  message: string;
+}
+
+/**
+ * Turn a Postgres / PostgREST / auth error into a RoomError
+ * Only the codes the app can act on get their own kind; anything else (including
+ * fetch failures, which have no code) means the request did not go through
+ */
+function toRoomError(error: SupabaseError): Result<never> {
+  const code = error.code || undefined;
+  switch (code) {
+    case '42501': // insufficient_privilege: RLS, or a permission check in an RPC
+    case 'PGRST301': // JWT rejected
+      return err('forbidden', error.message, code);
+    case 'PGRST116': // .single() matched no row
+    case 'P0002': // no_data_found, raised by RPCs
+    case '23503': // foreign_key_violation: the room is gone
+      return err('notFound', error.message, code);
+    case 'invalid_credentials': // auth: wrong email or password
+      return err('wrongPassword', error.message, code);
+    case 'otp_disabled': // auth: magic link for an email without an account (sign-ups are off for links)
+    case 'user_not_found':
+      return err('notFound', error.message, code);
+    case 'email_address_invalid': // auth: the backend refused the email or password
+    case 'weak_password':
+    case 'validation_failed':
+      return err('invalid', error.message, code);
+    case 'email_exists': // auth: the email belongs to another account
+    case 'user_already_exists':
+    case '23505': // unique_violation
+    case '23514': // check_violation, also raised for rejected player actions
+    case '40001': // serialization_failure
+    case '40P01': // deadlock_detected
+      return err('conflict', error.message, code);
+    case '28P01': // invalid_password, raised by request_room_join
+      return err('wrongPassword', error.message, code);
+    case '53400': // configuration_limit_exceeded, raised by enforce_room_capacity
+      return err('full', error.message, code);
+    case '57014': // query_canceled by statement_timeout
+      return err('timeout', error.message, code);
+    default:
+      return err('network', error.message, code);
+  }
+}
+
+/**
+ * Sign in anonymously (for guest users)
+ */
+async function signInAnonymously(): Promise<Result<string>> {
+  const { data, error } = await supabase.auth.signInAnonymously();
+
+  if (error) {
+    console.error('Error signing in anonymously:', error);
+    return toRoomError(error);
+  }
+
+  return data.user ? ok(data.user.id) : err('forbidden', 'Anonymous sign-in returned no user');
+}
+
+/**
+ * Get current user ID
+ */
+async function getCurrentUserId(): Promise<Result<string | null>> {
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  // No session is not an error - nobody has signed in yet
+  if (error && error.name !== 'AuthSessionMissingError') {
+    console.error('Error fetching current user:', error);
+    return toRoomError(error);
+  }
+
+  return ok(user?.id || null);
+}
+
+/**
+ * Sign out
+ */
+async function signOut(): Promise<Result<void>> {
+  const { error } = await supabase.auth.signOut();
+
+  if (error) {
+    console.error('Error signing out:', error);
+    return toRoomError(error);
+  }
+
+  return ok();
+}
+
+function toAuthUser(user: User): AuthUser {
+  return {
+    id: user.id,
+    email: user.email || null,
+    new_email: user.new_email || null,
+    is_anonymous: !!user.is_anonymous
+  };
+}
+
+// Magic and confirmation links bring the player back to the app, which picks up the session from the URL
+function authRedirectUrl(): string | undefined {
+  return typeof window !== 'undefined' ? window.location.origin : undefined;
+}
+
+/**
+ * Get the signed-in user (null when nobody is signed in)
+ */
+async function getCurrentUser(): Promise<Result<AuthUser | null>> {
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error && error.name !== 'AuthSessionMissingError') {
+    console.error('Error fetching current user:', error);
+    return toRoomError(error);
+  }
+
+  return ok(user ? toAuthUser(user) : null);
+}
+
+/**
+ * Link an email to the signed-in user
+ * An anonymous user keeps its id; the email is confirmed through the link sent to it
+ */
+async function linkEmail(email: string): Promise<Result<AuthUser>> {
+  const { data, error } = await supabase.auth.updateUser({ email }, { emailRedirectTo: authRedirectUrl() });
+
+  if (error) {
+    console.error('Error linking email:', error);
+    return toRoomError(error);
+  }
+
+  return ok(toAuthUser(data.user));
+}
+
+/**
+ * Set the signed-in user's password, once their email is confirmed
+ * Before that the password would sit on an address nobody has proven they own
+ */
+async function setPassword(password: string): Promise<Result<void>> {
+  const user = await getCurrentUser();
+  if (!user.ok) return user;
+  if (!user.value || user.value.is_anonymous || !user.value.email || user.value.new_email) {
+    return err('forbidden', 'Confirm the email before setting a password');
+  }
+
+  const { error } = await supabase.auth.updateUser({ password });
+
+  if (error) {
+    console.error('Error setting password:', error);
+    return toRoomError(error);
+  }
+
+  return ok();
+}
+
+/**
+ * Sign in to an existing account with its password
+ */
+async function signInWithPassword(email: string, password: string): Promise<Result<AuthUser>> {
+  const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+
+  if (error) {
+    console.error('Error signing in with password:', error);
+    return toRoomError(error);
+  }
+
+  return ok(toAuthUser(data.user));
+}
+
+/**
+ * Email a sign-in link to an existing account
+ */
+async function sendMagicLink(email: string): Promise<Result<void>> {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { shouldCreateUser: false, emailRedirectTo: authRedirectUrl() }
+  });
+
+  if (error) {
+    console.error('Error sending magic link:', error);
+    return toRoomError(error);
+  }
+
+  return ok();
+}
+
+/**
+ * Get a user's profile (null before the first save)
+ */
+async function getProfile(userId: string): Promise<Result<ProfileRow | null>> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching profile:', error);
+    return toRoomError(error);
+  }
+
+  return ok(data);
+}
+
+/**
+ * Create or update a user's profile
+ */
+async function saveProfile(userId: string, username: string, avatar: string | null): Promise<Result<ProfileRow>> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .upsert({ id: userId, username, avatar }, { onConflict: 'id' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving profile:', error);
+    return toRoomError(error);
+  }
+
+  return ok(data);
+}
+
+/**
+ * Create a new room
+ */
+async function createRoom(
+  hostId: string,
+  code: RoomCode,
+  gameMode: GameMode,
+  impostorCount: number,
+  hasJester: boolean,
+  isRandomizeMode: boolean,
+  selectedPack: string | null,
+  language: Language,
+  capacity: number
+): Promise<Result<RoomRow>> {
+  const { data, error } = await supabase
+    .from('rooms')
+    .insert({
+      code,
+      host_id: hostId,
+      game_mode: gameMode,
+      impostor_count: impostorCount,
+      has_jester: hasJester,
+      is_randomize_mode: isRandomizeMode,
+      selected_pack: selectedPack,
+      language,
+      capacity,
+      is_active: true,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating room:', error);
+    return toRoomError(error);
+  }
+
+  return ok(data);
+}
+
+/**
+ * Get room by code
+ * Codes are only unique among active rooms, so the newest room with the code wins -
+ * an inactive result means the room expired or was closed
+ */
+async function getRoomByCode(code: RoomCode): Promise<Result<RoomRow>> {
+  const { data, error } = await supabase
+    .from('rooms')
+    .select('*')
+    .eq('code', code)
+    .order('is_active', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching room:', error);
+    return toRoomError(error);
+  }
+
+  return data ? ok(data) : err('notFound', `No room with code ${code}`);
+}
+
+/**
+ * Get room by ID
+ */
+async function getRoomById(roomId: string): Promise<Result<RoomRow>> {
+  const { data, error } = await supabase
+    .from('rooms')
+    .select('*')
+    .eq('id', roomId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching room:', error);
+    return toRoomError(error);
+  }
+
+  return ok(data);
+}
+
+// Enough to fill the room browser; the oldest idle rooms drop off the end
+const PUBLIC_ROOMS_LIMIT = 50;
+
+/**
+ * Get active public rooms for the room browser
+ */
+async function getPublicRooms(): Promise<Result<RoomRow[]>> {
+  const { data, error } = await supabase
+    .from('rooms')
+    .select('*')
+    .eq('is_active', true)
+    .eq('is_public', true)
+    .order('last_activity_at', { ascending: false })
+    .limit(PUBLIC_ROOMS_LIMIT);
+
+  if (error) {
+    console.error('Error fetching public rooms:', error);
+    return toRoomError(error);
+  }
+
+  return ok(data || []);
+}
+
+/**
+ * Update room
+ */
+async function updateRoom(
+  roomId: string,
+  updates: RoomUpdates
+): Promise<Result<RoomRow>> {
+  const { data, error } = await supabase
+    .from('rooms')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', roomId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating room:', error);
+    return toRoomError(error);
+  }
+
+  return ok(data);
+}
+
+/**
+ * Close idle rooms (cleanup_stale_rooms RPC, also scheduled with pg_cron)
+ */
+async function cleanupStaleRooms(inactiveForMs: number): Promise<Result<number>> {
+  const { data, error } = await supabase.rpc('cleanup_stale_rooms', {
+    p_inactive_for_minutes: Math.max(1, Math.round(inactiveForMs / 60000)),
+  });
+
+  if (error) {
+    console.error('Error cleaning up stale rooms:', error);
+    return toRoomError(error);
+  }
+
+  return ok(data ?? 0);
+}
+
+/**
+ * Add a player to a room (or update if they already exist)
+ * Uses UPSERT to handle re-joins gracefully
+ */
+async function addPlayerToRoom(
+  roomId: string,
+  playerId: string,
+  username: string,
+  avatar: string | null,
+  isHost: boolean,
+  isBot: boolean = false
+): Promise<Result<RoomPlayerRow>> {
+  const { data, error } = await supabase
+    .from('room_players')
+    .upsert({
+      room_id: roomId,
+      player_id: playerId,
+      username,
+      avatar,
+      is_host: isHost,
+      is_bot: isBot,
+      is_connected: true,
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'room_id,player_id',
+      ignoreDuplicates: false
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding player to room:', error);
+    return toRoomError(error);
+  }
+
+  return ok(data);
+}
+
+/**
+ * Get all players in a room
+ */
+async function getRoomPlayers(roomId: string): Promise<Result<RoomPlayerRow[]>> {
+  const { data, error } = await supabase
+    .from('room_players')
+    .select('*')
+    .eq('room_id', roomId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching room players:', error);
+    return toRoomError(error);
+  }
+
+  return ok(data || []);
+}
+
+/**
+ * Update a player in a room
+ */
+async function updateRoomPlayer(
+  roomId: string,
+  playerId: string,
+  updates: RoomPlayerUpdates
+): Promise<Result<RoomPlayerRow>> {
+  const { data, error } = await supabase
+    .from('room_players')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('room_id', roomId)
+    .eq('player_id', playerId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating room player:', error);
+    return toRoomError(error);
+  }
+
+  return ok(data);
+}
+
+/**
+ * Remove a player from a room
+ */
+async function removePlayerFromRoom(
+  roomId: string,
+  playerId: string
+): Promise<Result<void>> {
+  const { error } = await supabase
+    .from('room_players')
+    .delete()
+    .eq('room_id', roomId)
+    .eq('player_id', playerId);
+
+  if (error) {
+    console.error('Error removing player from room:', error);
+    return toRoomError(error);
+  }
+
+  return ok();
+}
+
+/**
+ * Ban a player from a room (host only, enforced by RLS)
+ */
+async function banPlayerFromRoom(
+  roomId: string,
+  playerId: string,
+  bannedBy: string
+): Promise<Result<void>> {
+  const { error } = await supabase
+    .from('room_bans')
+    .upsert({
+      room_id: roomId,
+      player_id: playerId,
+      banned_by: bannedBy,
+    }, {
+      onConflict: 'room_id,player_id',
+      ignoreDuplicates: true
+    });
+
+  if (error) {
+    console.error('Error banning player from room:', error);
+    return toRoomError(error);
+  }
+
+  return ok();
+}
+
+/**
+ * Check whether a player is banned from a room
+ * RLS lets players see their own bans, so this works before they have joined
+ */
+async function isPlayerBanned(roomId: string, playerId: string): Promise<Result<boolean>> {
+  const { data, error } = await supabase
+    .from('room_bans')
+    .select('player_id')
+    .eq('room_id', roomId)
+    .eq('player_id', playerId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking room ban:', error);
+    return toRoomError(error);
+  }
+
+  return ok(!!data);
+}
+
+/**
+ * Set or clear the room password (host only)
+ * Only a bcrypt hash is stored, in a table no client can read
+ */
+async function setRoomPassword(roomId: string, password: string | null): Promise<Result<void>> {
+  const { error } = await supabase.rpc('set_room_password', {
+    p_room_id: roomId,
+    p_password: password,
+  });
+
+  if (error) {
+    console.error('Error setting room password:', error);
+    return toRoomError(error);
+  }
+
+  return ok();
+}
+
+/**
+ * Ask to join a private room
+ * request_room_join() checks bans and the password and acts as the signed-in player,
+ * so playerId is only used by the local transport
+ */
+async function requestToJoinRoom(
+  roomId: string,
+  _playerId: string,
+  username: string,
+  avatar: string | null,
+  password: string | null
+): Promise<Result<RoomJoinRequestRow>> {
+  const { data, error } = await supabase.rpc('request_room_join', {
+    p_room_id: roomId,
+    p_username: username,
+    p_avatar: avatar,
+    p_password: password,
+  });
+
+  if (error) {
+    console.error('Error requesting to join room:', error);
+    return toRoomError(error);
+  }
+
+  return ok(data as RoomJoinRequestRow);
+}
+
+/**
+ * Get a room's join requests (RLS: the host sees all, a player only their own)
+ */
+async function getJoinRequests(roomId: string): Promise<Result<RoomJoinRequestRow[]>> {
+  const { data, error } = await supabase
+    .from('room_join_requests')
+    .select('*')
+    .eq('room_id', roomId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error getting join requests:', error);
+    return toRoomError(error);
+  }
+
+  return ok(data || []);
+}
+
+/**
+ * Admit or reject a join request (host only, enforced by RLS)
+ */
+async function answerJoinRequest(roomId: string, playerId: string, admit: boolean): Promise<Result<RoomJoinRequestRow>> {
+  const { data, error } = await supabase
+    .from('room_join_requests')
+    .update({
+      status: admit ? 'admitted' : 'rejected',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('room_id', roomId)
+    .eq('player_id', playerId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error answering join request:', error);
+    return toRoomError(error);
+  }
+
+  return ok(data);
+}
+
+/**
+ * Save game state
+ */
+async function saveGameState(
+  roomId: string,
+  gameState: Record<string, unknown>
+): Promise<Result<GameStateRow>> {
+  // CRITICAL FIX: Use UPSERT to avoid race conditions
+  // UPSERT will INSERT if row doesn't exist, UPDATE if it does
+  // This eliminates the race condition between check and insert that causes 409 Conflict errors
+  console.log('💾 Upserting game state to Supabase (INSERT or UPDATE)...', {
+    roomId,
+    hasCurrentScreen: !!(gameState as any).currentScreen,
+    currentScreen: (gameState as any).currentScreen,
+    phase: (gameState as any).phase
+  });
+  
+  // Use upsert with onConflict on room_id (which is UNIQUE)
+  // If room_id exists, UPDATE; if not, INSERT
+  const { data: upserted, error: upsertError } = await supabase
+    .from('game_states')
+    .upsert({
+      room_id: roomId, // UNIQUE constraint - if exists, UPDATE; if not, INSERT
+      state: gameState,
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'room_id', // Conflict on room_id (UNIQUE constraint)
+      ignoreDuplicates: false // Update on conflict instead of ignoring
+    })
+    .select()
+    .single();
+
+  if (upsertError) {
+    // Handle specific error cases
+    if (upsertError.code === '42501') {
+      console.error('❌ RLS policy blocked upsert:', {
+        errorCode: upsertError.code,
+        errorMessage: upsertError.message,
+        roomId,
+        message: 'Check RLS policies - user must be host to INSERT, or in room_players to UPDATE'
+      });
+    } else if (upsertError.code === '23505') {
+      // Still got duplicate key error (shouldn't happen with upsert, but handle it)
+      console.error('❌ Duplicate key error even with upsert - race condition detected:', upsertError);
+      // Try UPDATE as fallback
+      const { data: updated, error: updateError } = await supabase
+        .from('game_states')
+        .update({
+          state: gameState,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('room_id', roomId)
+        .select()
+        .single();
+      
+      if (updateError) {
+        console.error('❌ Error updating game state after upsert failure:', updateError);
+        return toRoomError(updateError);
+      }
+      
+      console.log('✅ Game state updated successfully after upsert fallback - realtime WILL trigger');
+      return ok(updated);
+    } else if (upsertError.code === 'PGRST116') {
+      // No rows returned (shouldn't happen with single(), but handle it)
+      console.warn('⚠️ Upsert returned no rows (PGRST116) - this is unexpected');
+    } else {
+      console.error('❌ Error upserting game state:', {
+        error: upsertError,
+        errorCode: upsertError.code,
+        errorMessage: upsertError.message,
+        roomId
+      });
+    }
+    return toRoomError(upsertError);
+  }
+
+  console.log('✅ Game state upserted successfully in Supabase - realtime WILL trigger', {
+    currentScreen: (gameState as any).currentScreen,
+    phase: (gameState as any).phase,
+    playerCount: (gameState as any).players?.length,
+    hasPlayerRoles: !!(gameState as any).playerRoles && Object.keys((gameState as any).playerRoles || {}).length > 0
+  });
+  
+  return ok(upserted);
+}
+
+/**
+ * Update game state (host only - uses UPDATE only, no INSERT)
+ * Players submit through player_actions instead; RLS only lets the host UPDATE
+ */
+async function updateGameState(
+  roomId: string,
+  gameState: Record<string, unknown>
+): Promise<Result<GameStateRow>> {
+  console.log('💾 Updating game state in Supabase (UPDATE only)...', {
+    roomId,
+    hasCurrentScreen: !!(gameState as any).currentScreen,
+    currentScreen: (gameState as any).currentScreen,
+    phase: (gameState as any).phase
+  });
+  
+  // Use UPDATE only (no INSERT) - RLS policy allows UPDATE for players in room_players
+  const { data: updated, error: updateError } = await supabase
+    .from('game_states')
+    .update({
+      state: gameState,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('room_id', roomId)
+    .select()
+    .single();
+
+  if (updateError) {
+    if (updateError.code === '42501') {
+      console.error('❌ RLS policy blocked update:', {
+        errorCode: updateError.code,
+        errorMessage: updateError.message,
+        roomId,
+        message: 'User must be in room_players to UPDATE game state'
+      });
+    } else if (updateError.code === 'PGRST116') {
+      // No rows found - game state doesn't exist yet
+      console.warn('⚠️ Game state not found - host may not have started the game yet');
+    } else {
+      console.error('Error updating game state:', updateError);
+    }
+    return toRoomError(updateError);
+  }
+
+  return ok(updated);
+}
+
+/**
+ * Get game state for a room
+ */
+async function getGameState(roomId: string): Promise<Result<GameStateRow | null>> {
+  // CRITICAL FIX: Use maybeSingle() instead of single() to avoid errors when no row exists
+  // This fixes the 400 Bad Request error when game state doesn't exist yet
+  const { data, error } = await supabase
+    .from('game_states')
+    .select('*')
+    .eq('room_id', roomId)
+    .maybeSingle(); // Use maybeSingle() to return null instead of error when no row exists
+
+  if (error) {
+    // PGRST116 means no rows found - this is expected if game hasn't started yet
+    if (error.code === 'PGRST116') {
+      console.log('ℹ️ No game state found (game not started yet)');
+      return ok(null);
+    }
+    
+    // Other errors (like RLS policy blocks) should be logged
+    if (error.code === '42501' || error.code === 'PGRST301') {
+      console.error('❌ RLS policy blocked game state fetch:', {
+        errorCode: error.code,
+        errorMessage: error.message,
+        roomId,
+        message: 'Check RLS SELECT policy - user must be in room_players'
+      });
+    } else {
+      console.error('❌ Error fetching game state:', {
+        error,
+        errorCode: error.code,
+        errorMessage: error.message,
+        roomId
+      });
+    }
+    return toRoomError(error);
+  }
+
+  return ok(data);
+}
+
+/**
+ * Apply a patch to game state only if the stored version is still baseVersion
+ * The patch_game_state RPC returns the new version, or NULL when another write came first
+ */
+async function patchGameState(
+  roomId: string,
+  baseVersion: number,
+  ops: GameStatePatchOp[]
+): Promise<Result<number>> {
+  const { data, error } = await supabase.rpc('patch_game_state', {
+    p_room_id: roomId,
+    p_base_version: baseVersion,
+    p_ops: ops,
+  });
+
+  if (error) {
+    console.error('❌ Error patching game state:', {
+      errorCode: error.code,
+      errorMessage: error.message,
+      roomId,
+      baseVersion
+    });
+    return toRoomError(error);
+  }
+
+  // No row matched the base version - someone else wrote first
+  if (data === null) {
+    return err('conflict', `Game state is no longer at version ${baseVersion}`);
+  }
+
+  return ok(data);
+}
+
+/**
+ * Get a room's game event stream in order
+ */
+async function getGameEvents(roomId: string): Promise<Result<GameEventRow[]>> {
+  const { data, error } = await supabase
+    .from('game_events')
+    .select('id, room_id, seq, actor_id, event, created_at')
+    .eq('room_id', roomId)
+    .order('seq', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching game events:', error);
+    return toRoomError(error);
+  }
+
+  return ok(data || []);
+}
+
+/**
+ * Cast a ballot through the cast_vote RPC, which checks it against the current round
+ */
+async function castVote(roomId: string, voterId: string, targetIds: string[]): Promise<Result<GameStateRow>> {
+  const { data, error } = await supabase.rpc('cast_vote', {
+    p_room_id: roomId,
+    p_voter_id: voterId,
+    p_target_ids: targetIds,
+  });
+
+  if (error) {
+    console.error('❌ Error casting vote:', {
+      errorCode: error.code,
+      errorMessage: error.message,
+      roomId,
+      voterId
+    });
+    return toRoomError(error);
+  }
+
+  return ok(data);
+}
+
+/**
+ * Tally the round's ballots with the tally_votes RPC (host only)
+ */
+async function tallyVotes(roomId: string): Promise<Result<VoteOutcome | null>> {
+  const { data, error } = await supabase.rpc('tally_votes', { p_room_id: roomId });
+
+  if (error) {
+    console.error('❌ Error tallying votes:', {
+      errorCode: error.code,
+      errorMessage: error.message,
+      roomId
+    });
+    return toRoomError(error);
+  }
+
+  return ok(data || null);
+}
+
+/**
+ * Insert a player action; the apply_player_action trigger checks it and applies it
+ * to game_states in the same transaction, so a rejected action is never stored.
+ * The trigger skips an actionId that is already stored, so a retry succeeds without re-applying.
+ */
+async function submitPlayerAction(
+  roomId: string,
+  playerId: string,
+  action: PlayerAction,
+  actionId: string
+): Promise<Result<void>> {
+  const { kind, ...payload } = action;
+  const { error } = await supabase
+    .from('player_actions')
+    .insert({
+      id: actionId,
+      room_id: roomId,
+      player_id: playerId,
+      kind,
+      payload,
+    });
+
+  if (error) {
+    console.error('❌ Error submitting player action:', {
+      errorCode: error.code,
+      errorMessage: error.message,
+      roomId,
+      playerId,
+      kind
+    });
+    return toRoomError(error);
+  }
+
+  return ok();
+}
+
+/**
+ * Store a new deal's player secrets (host only)
+ * Rows from the previous deal are removed first so stale roles never leak into a new game
+ */
+async function savePlayerSecrets(roomId: string, secrets: PlayerSecret[]): Promise<Result<void>> {
+  const { error: deleteError } = await supabase
+    .from('player_secrets')
+    .delete()
+    .eq('room_id', roomId);
+
+  if (deleteError) {
+    console.error('❌ Error clearing player secrets:', deleteError);
+    return toRoomError(deleteError);
+  }
+
+  const { error } = await supabase
+    .from('player_secrets')
+    .insert(secrets.map(secret => ({
+      room_id: roomId,
+      player_id: secret.playerId,
+      secret,
+    })));
+
+  if (error) {
+    console.error('❌ Error saving player secrets:', {
+      errorCode: error.code,
+      errorMessage: error.message,
+      roomId
+    });
+    return toRoomError(error);
+  }
+
+  return ok();
+}
+
+/**
+ * Get the player secrets RLS lets the current user read
+ * (only their own row, the host's included)
+ */
+async function getPlayerSecrets(roomId: string): Promise<Result<PlayerSecret[]>> {
+  const { data, error } = await supabase
+    .from('player_secrets')
+    .select('secret')
+    .eq('room_id', roomId);
+
+  if (error) {
+    console.error('Error fetching player secrets:', error);
+    return toRoomError(error);
+  }
+
+  return ok((data || []).map(row => row.secret as PlayerSecret));
+}
+
+/**
+ * Hand the room to a new host in one transaction (migrate_room_host RPC)
+ * A 'conflict' if the host already changed, is still sending heartbeats, or newHostId can't take over
+ */
+async function migrateHost(roomId: string, expectedHostId: string, newHostId: string): Promise<Result<void>> {
+  const { data, error } = await supabase.rpc('migrate_room_host', {
+    p_room_id: roomId,
+    p_expected_host_id: expectedHostId,
+    p_new_host_id: newHostId,
+  });
+
+  if (error) {
+    console.error('❌ Error migrating host:', {
+      errorCode: error.code,
+      errorMessage: error.message,
+      roomId,
+      expectedHostId,
+      newHostId
+    });
+    return toRoomError(error);
+  }
+
+  return data === true ? ok() : err('conflict', 'Host already changed');
+}
+
+/**
+ * Tell the server the host is still here, so nobody can take the room over meanwhile
+ */
+async function touchRoomHost(roomId: string): Promise<Result<void>> {
+  const { error } = await supabase.rpc('touch_room_host', { p_room_id: roomId });
+
+  if (error) {
+    console.error('❌ Error sending host heartbeat:', error);
+    return toRoomError(error);
+  }
+
+  return ok();
+}
+
+/**
+ * Subscribe to room changes
+ */
+function subscribeToRoom(
+  roomId: string,
+  callback: (room: RoomRow) => void
+) {
+  return supabase
+    .channel(`room:${roomId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'rooms',
+        filter: `id=eq.${roomId}`,
+      },
+      (payload) => {
+        callback(payload.new as RoomRow);
+      }
+    )
+    .subscribe();
+}
+
+/**
+ * Subscribe to the public room list
+ * player_count and phase live on rooms, so joins and game starts arrive as rooms changes too.
+ * A room made private again stops matching the filter; the next fetch drops it
+ */
+function subscribeToPublicRooms(callback: (rooms: RoomRow[]) => void) {
+  return supabase
+    .channel('public_rooms')
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'rooms',
+        filter: 'is_public=eq.true',
+      },
+      async () => {
+        const rooms = await getPublicRooms();
+        if (rooms.ok) {
+          callback(rooms.value);
+        }
+      }
+    )
+    .subscribe();
+}
+
+/**
+ * Subscribe to room players changes
+ */
+function subscribeToRoomPlayers(
+  roomId: string,
+  callback: (players: RoomPlayerRow[]) => void
+) {
+  return supabase
+    .channel(`room_players:${roomId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'room_players',
+        filter: `room_id=eq.${roomId}`,
+      },
+      async () => {
+        // Fetch all players when any change occurs
+        const players = await getRoomPlayers(roomId);
+        if (players.ok) {
+          callback(players.value);
+        }
+      }
+    )
+    .subscribe();
+}
+
+/**
+ * Subscribe to a room's join requests
+ * Realtime applies RLS, so a waiting player only hears about their own request
+ */
+function subscribeToJoinRequests(
+  roomId: string,
+  callback: (requests: RoomJoinRequestRow[]) => void
+) {
+  return supabase
+    .channel(`room_join_requests:${roomId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'room_join_requests',
+        filter: `room_id=eq.${roomId}`,
+      },
+      async () => {
+        const requests = await getJoinRequests(roomId);
+        if (requests.ok) {
+          callback(requests.value);
+        }
+      }
+    )
+    .subscribe();
+}
+
+/**
+ * Subscribe to game state patches
+ * The record_game_state_patch trigger logs every game_states write as a small patch row
+ */
+function subscribeToGameStatePatches(
+  roomId: string,
+  callback: (patch: GameStatePatchRow) => void
+) {
+  const channel = supabase
+    .channel(`game_state_patches:${roomId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'game_state_patches',
+        filter: `room_id=eq.${roomId}`,
+      },
+      (payload) => {
+        const patch = payload.new as GameStatePatchRow;
+        console.log('Game state patch received:', patch.base_version, '→', patch.version, `(${patch.ops.length} ops)`);
+        callback(patch);
+      }
+    )
+    .subscribe((status) => {
+      console.log('Game state patch subscription status:', status);
+    });
+  
+  return channel;
+}
+
+/**
+ * Track who is online in a room with Realtime presence
+ * A closed tab or lost connection drops out of the presence state within seconds
+ */
+function trackPresence(
+  roomId: string,
+  playerId: string,
+  callback: (onlinePlayerIds: string[]) => void
+) {
+  const channel = supabase.channel(`presence:${roomId}`, {
+    config: { presence: { key: playerId } },
+  });
+
+  channel
+    .on('presence', { event: 'sync' }, () => {
+      callback(Object.keys(channel.presenceState()));
+    })
+    .subscribe(async (status) => {
+      if (status === 'SUBSCRIBED') {
+        await channel.track({ online_at: new Date().toISOString() });
+      }
+    });
+
+  return {
+    unsubscribe: () => {
+      channel.untrack();
+      supabase.removeChannel(channel);
+    },
+  };
+}
+
+/**
+ * Read the database clock (server_time RPC)
+ */
+async function getServerTime(): Promise<Result<number>> {
+  const { data, error } = await supabase.rpc('server_time');
+
+  if (error) {
+    console.error('Error reading the server time:', error);
+    return toRoomError(error);
+  }
+
+  return ok(Number(data));
+}
+
+/**
+ * Supabase (Postgres + Realtime) implementation of the room transport
+ */
+export const supabaseTransport: RoomTransport = {
+  name: 'supabase',
+  getCurrentUserId,
+  signInAnonymously,
+  signOut,
+  getCurrentUser,
+  linkEmail,
+  setPassword,
+  signInWithPassword,
+  sendMagicLink,
+  getProfile,
+  saveProfile,
+  createRoom,
+  getRoomByCode,
+  getRoomById,
+  getPublicRooms,
+  updateRoom,
+  cleanupStaleRooms,
+  addPlayerToRoom,
+  getRoomPlayers,
+  updateRoomPlayer,
+  removePlayerFromRoom,
+  banPlayerFromRoom,
+  isPlayerBanned,
+  setRoomPassword,
+  requestToJoinRoom,
+  getJoinRequests,
+  answerJoinRequest,
+  migrateHost,
+  touchRoomHost,
+  saveGameState,
+  updateGameState,
+  getGameState,
+  patchGameState,
+  getGameEvents,
+  castVote,
+  tallyVotes,
+  submitPlayerAction,
+  savePlayerSecrets,
+  getPlayerSecrets,
+  subscribeToRoom,
+  subscribeToPublicRooms,
+  subscribeToRoomPlayers,
+  subscribeToJoinRequests,
+  subscribeToGameStatePatches,
+  trackPresence,
+  getServerTime,
+};
@@ -38,6 +38,24 @@ export interface PlayerRoleAssignment {
   question: string;
 }
 
+// What only one player may know about a dealt game
+// Stored per player (player_secrets), never in the shared game state
+export interface PlayerSecret {
+  playerId: string;
+  role: PlayerRole;
+  question: string; // Question this player answers (impostors get the impostor question)
+  word: string; // Word shown to this player in the words game
+  hasJesterClue: boolean;
+}
+
+// Something a player submits for the backend to apply to the shared game state
+// Stored in player_actions; players never write game_states themselves
+export type PlayerAction =
+  | { kind: 'answer'; answer: string }
+  | { kind: 'vote'; targetIds: string[] }
+  | { kind: 'ready' }
+  | { kind: 'seenRole' };
+
 export interface GameAnswer {
   playerId: string;
   answer: string;
@@ -63,12 +81,42 @@ export interface VoteResult {
   tiedPlayers: string[];
 }
 
+// What a vote tally decided: who is out, and who goes into another tie-breaker vote
+export interface VoteOutcome {
+  eliminatedPlayerIds: string[];
+  tiedPlayers: string[]; // Empty unless another vote is needed
+}
+
 export interface GameEndCondition {
   reason: 'jester_win' | 'impostor_win' | 'innocent_win' | 'tie' | 'host_ended';
   winners: Player[];
   eliminatedPlayers: string[];
 }
 
+// Why a room or auth call failed; screens pick their message from the kind
+export type RoomErrorKind =
+  | 'notFound' // No such room, player or game
+  | 'inactive' // The room expired or was closed
+  | 'full' // No seats left in the room
+  | 'banned' // The host banned this player from the room
+  | 'wrongPassword' // The room password (or the account's email or password) was missing or wrong
+  | 'rejected' // The host turned down the request to join
+  | 'forbidden' // Not allowed (row-level security, not the host, not your player)
+  | 'conflict' // The room moved on - a duplicate, a stale version or a rejected action
+  | 'invalid' // The stored game state failed validation, or the backend refused an email or password
+  | 'timeout' // No answer in time
+  | 'network'; // The request did not go through
+
+export interface RoomError {
+  kind: RoomErrorKind;
+  message: string; // For logs, not for players
+  code?: string; // Postgres / PostgREST code, e.g. 42501, 23505, PGRST116
+}
+
+export type Result<T, E = RoomError> =
+  | { ok: true; value: T }
+  | { ok: false; error: E };
+
 export type Language = 'en' | 'ru' | 'ka';
 
 export type GameMode = 'questions' | 'words';
@@ -76,8 +124,15 @@ export type GameMode = 'questions' | 'words';
 export type GamePack = 'party' | 'spicy' | 'normal' | 'custom';
 export type WordPack = 'celebrities' | 'characters' | 'objects' | 'spicy' | 'custom';
 
-// Type for room codes - 6 digit numeric strings
-export type RoomCode = `${number}${number}${number}${number}${number}${number}`;
+// Type for room codes - 6 digit numeric strings, or 5 characters without look-alikes
+// Plain strings don't fit: codes come from generateRoomCode / parseRoomCode (utils/roomCode)
+export type NumericRoomCode = `${number}${number}${number}${number}${number}${number}`;
+export type AlphanumericRoomCode = string & { readonly __roomCodeFormat: 'alphanumeric' };
+export type RoomCode = NumericRoomCode | AlphanumericRoomCode;
+export type RoomCodeFormat = 'numeric' | 'alphanumeric';
+
+// Who may join a room with its code: anyone, anyone with the password, or whoever the host lets in
+export type RoomPrivacy = 'open' | 'password' | 'approval';
 
 // Type for player roles
 export type PlayerRole = 'innocent' | 'impostor' | 'jester' | 'spectator';
@@ -89,15 +144,17 @@ export type GamePhase = 'lobby' | 'questions' | 'roleReveal' | 'answerDisplay' |
 export type WinnerType = 'innocent' | 'impostor' | 'jester' | 'tie';
 
 export interface GameState {
+  schemaVersion?: number; // Stamped on every stored state, see utils/gameStateSchema
   phase: GamePhase;
   players: Player[];
+  spectators?: Player[]; // Joined after the game started - they watch and join on the next Play Again
   currentRound: number;
   maxRounds: number;
   impostorCount: number;
   hasJester: boolean;
   isRandomizeMode: boolean;
   hostId: string;
-  roomCode: string;
+  roomCode: RoomCode | ''; // '' until the room is created
   gameMode: GameMode;
   currentQuestion: string;
   currentImpostorQuestion: string;
@@ -120,6 +177,7 @@ export interface GameState {
   winnerType?: WinnerType;
   playerRoles: Record<string, PlayerRole>;
   originalPlayerRoles?: Record<string, PlayerRole>; // Store original roles before eliminations
+  dealId?: string; // New on every startGame - the player secrets belong to this deal
   continueCount?: number; // Track how many times host has continued the game (max 3 for randomize mode)
   selectedPack: string | null; // Track selected content pack
   startingPlayer?: Player | null; // Track starting player for Word Game
@@ -131,7 +189,9 @@ export interface GameState {
   jesterCluePlayers: string[]; // IDs of players who see jester clue
   isTieVote: boolean;
   tiedPlayers: string[];
+  readyPlayers?: Record<string, boolean>; // Players who marked themselves ready for the next game
   gameEndReason?: 'jester_win' | 'impostor_win' | 'innocent_win' | 'tie' | 'host_ended';
   currentVoteResult?: VoteResult;
   currentScreen?: 'lobby' | 'questions' | 'answers' | 'roleReveal' | 'discussion' | 'voting' | 'voteResults' | 'results';
+  phaseDeadline?: number; // When the current timed phase ends, epoch ms on the server clock (see utils/phaseDeadline)
 }
\ No newline at end of file
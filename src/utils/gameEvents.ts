@@ -0,0 +1,193 @@
+import { GameState, PlayerAction, VoteOutcome, WinnerType } from '../types';
+import { GameAction, gameReducer } from './gameReducer';
+
+/**
+ * Game Events
+ *
+ * Every meaningful game action is appended to a per-room event stream. The stream
+ * is folded through gameReducer to rebuild the game, so it doubles as an audit trail
+ * for disputed votes, a catch-up log for late joiners and a source for replays/stats.
+ *
+ * Clients never append events. The backend appends them in the same transaction as
+ * the write they describe: player actions (bots' too), the vote tally, and the host's
+ * game state saves (COMPLETE_SUPABASE_SETUP.sql, the local transport here). The
+ * describe* functions below are what both derive the events from - keep them in step.
+ *
+ * Role assignment is the only random step, so rolesAssigned carries the dealt game.
+ * Tallies are decided by the backend, so votesTallied carries the outcome it returned.
+ * Eliminations, tie-breakers and winners are outcomes of votesTallied: they are
+ * recorded for the audit trail and are no-ops when folding.
+ */
+
+export type GameEvent =
+  | { type: 'rolesAssigned'; state: GameState }
+  | { type: 'answerSubmitted'; playerId: string; answer: string }
+  | { type: 'voteCast'; playerId: string; targetIds: string[] }
+  | { type: 'roleSeen'; playerId: string }
+  | { type: 'playerReady'; playerId: string }
+  | { type: 'rolesRevealed' }
+  | { type: 'rolesConfirmed' }
+  | { type: 'votingStarted' }
+  | { type: 'votesTallied'; outcome?: VoteOutcome }
+  | { type: 'playerEliminated'; playerIds: string[] }
+  | { type: 'tieBreakerStarted'; round: number; tiedPlayers: string[]; votes: Record<string, string[]> }
+  | { type: 'winnerDecided'; winnerIds: string[]; winnerType?: WinnerType }
+  | { type: 'roundContinued' }
+  | { type: 'gameFinished' }
+  | { type: 'gameReset' };
+
+export type GameEventType = GameEvent['type'];
+
+/**
+ * The event a player action is logged as (apply_player_action)
+ */
+export function describePlayerAction(playerId: string, action: PlayerAction): GameEvent {
+  switch (action.kind) {
+    case 'answer':
+      return { type: 'answerSubmitted', playerId, answer: action.answer };
+    case 'vote':
+      return { type: 'voteCast', playerId, targetIds: action.targetIds };
+    case 'seenRole':
+      return { type: 'roleSeen', playerId };
+    case 'ready':
+      return { type: 'playerReady', playerId };
+  }
+}
+
+/**
+ * The events a tally is logged as (tally_votes)
+ * `before` and `after` are the stored states the outcome was applied to and produced
+ */
+export function describeTally(outcome: VoteOutcome, before: GameState, after: GameState): GameEvent[] {
+  return [{ type: 'votesTallied', outcome }, ...describeOutcome(before, after)];
+}
+
+/**
+ * The events a host's game state save is logged as (describe_game_state_write)
+ * Saves only carry the resulting state, so each reducer transition is told apart by
+ * what it changes; saves that change none of it (roster, deadlines) log nothing
+ */
+export function describeGameStateWrite(before: GameState | undefined, after: GameState): GameEvent[] {
+  const beforePhase = before?.phase || 'lobby';
+
+  if (after.phase === 'lobby') {
+    return beforePhase !== 'lobby' ? [{ type: 'gameReset' }] : [];
+  }
+
+  // Leaving the lobby deals a new game
+  if (!before || beforePhase === 'lobby') {
+    return [{ type: 'rolesAssigned', state: after }];
+  }
+
+  if (after.phase === 'results' && beforePhase !== 'results') {
+    return [{ type: 'gameFinished' }, ...describeOutcome(before, after)];
+  }
+
+  if (after.phase === 'voting' && beforePhase !== 'voting') {
+    return [{ type: 'votingStarted' }];
+  }
+
+  if ((after.continueCount || 0) > (before.continueCount || 0)) {
+    return [{ type: 'roundContinued' }];
+  }
+
+  if (after.currentScreen !== before.currentScreen) {
+    if (after.currentScreen === 'roleReveal') {
+      return [{ type: 'rolesRevealed' }];
+    }
+    if (before.currentScreen === 'roleReveal') {
+      return [{ type: 'rolesConfirmed' }];
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Outcome events (elimination, tie-breaker, winner) produced by a tally or finish
+ * Mirror of describe_outcome_events
+ */
+function describeOutcome(before: GameState, after: GameState): GameEvent[] {
+  const events: GameEvent[] = [];
+
+  const newlyEliminated = after.players
+    .filter(p => p.isEliminated && !before.players.find(bp => bp.id === p.id)?.isEliminated)
+    .map(p => p.id);
+  if (newlyEliminated.length > 0) {
+    events.push({ type: 'playerEliminated', playerIds: newlyEliminated });
+  }
+
+  // A tally that ends in a tie always opens a fresh tie-breaker round
+  if (after.isTieVote) {
+    events.push({
+      type: 'tieBreakerStarted',
+      round: after.currentTieBreakerRound ?? 1,
+      tiedPlayers: after.tiedPlayers,
+      votes: JSON.parse(JSON.stringify(before.votes))
+    });
+  }
+
+  if (after.winners.length > 0 && before.winners.length === 0) {
+    events.push({ type: 'winnerDecided', winnerIds: after.winners.map(w => w.id), winnerType: after.winnerType });
+  }
+
+  return events;
+}
+
+/**
+ * Map an event back to the reducer action that produced it
+ * Returns null for events that only record an outcome
+ */
+function toGameAction(event: GameEvent): GameAction | null {
+  switch (event.type) {
+    case 'answerSubmitted':
+      return { type: 'submitAnswer', playerId: event.playerId, answer: event.answer };
+    case 'voteCast':
+      return { type: 'castVote', playerId: event.playerId, targetIds: event.targetIds };
+    case 'roleSeen':
+      return { type: 'markRoleSeen', playerId: event.playerId };
+    case 'playerReady':
+      return { type: 'markReady', playerId: event.playerId };
+    case 'rolesRevealed':
+      return { type: 'revealRoles' };
+    case 'rolesConfirmed':
+      return { type: 'confirmRoles' };
+    case 'votingStarted':
+      return { type: 'startVoting' };
+    case 'votesTallied':
+      return { type: 'tallyVotes', outcome: event.outcome };
+    case 'roundContinued':
+      return { type: 'continueRound' };
+    case 'gameFinished':
+      return { type: 'finishGame' };
+    case 'gameReset':
+      return { type: 'resetToLobby' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Apply one event to a state
+ */
+export function applyGameEvent(state: GameState | null, event: GameEvent): GameState | null {
+  if (event.type === 'rolesAssigned') {
+    return event.state;
+  }
+
+  // Nothing to apply until the game has been dealt
+  if (!state) {
+    return null;
+  }
+
+  const action = toGameAction(event);
+  return action ? gameReducer(state, action) : state;
+}
+
+/**
+ * Rebuild the game by folding its events in order
+ * Returns null if the stream has no rolesAssigned event yet (game not started)
+ */
+export function foldGameEvents(events: GameEvent[]): GameState | null {
+  return events.reduce<GameState | null>(applyGameEvent, null);
+}
@@ -0,0 +1,312 @@
+import { GameState, Player, PlayerRole, VoteOutcome } from '../types';
+import { determineWinner, initializeGame } from './gameLogic';
+import {
+  processRandomizeVotes,
+  checkRandomizeAutoEnd,
+  determineRandomizeWinner,
+  updateGameStateAfterRandomizeElimination,
+  prepareNextRandomizeRound,
+  appendUniqueTieVote
+} from './randomizeGameLogic';
+import { processWordsGameVotes, determineWordsGameWinner } from './wordsGameLogic';
+import { processVotingResults } from './votingUtils';
+import { generateUUID } from './uuid';
+
+/**
+ * Game Reducer
+ *
+ * Owns every phase transition of a game. The reducer never touches React,
+ * Supabase or timers, so the same logic runs in App.tsx, in bots and headless.
+ * Randomness (role assignment, pack content) still comes from initializeGame.
+ */
+
+export type GameScreen = NonNullable<GameState['currentScreen']>;
+
+export type GameAction =
+  | { type: 'startGame' }
+  | { type: 'submitAnswer'; playerId: string; answer: string }
+  | { type: 'castVote'; playerId: string; targetIds: string[] }
+  | { type: 'markRoleSeen'; playerId: string }
+  | { type: 'markReady'; playerId: string }
+  | { type: 'revealRoles' }
+  | { type: 'confirmRoles' }
+  | { type: 'startVoting' }
+  | { type: 'tallyVotes'; outcome?: VoteOutcome } // outcome from the backend tally; computed locally if absent
+  | { type: 'continueRound' }
+  | { type: 'finishGame' }
+  | { type: 'resetToLobby' };
+
+export const MIN_PLAYERS_TO_START = 3;
+
+export function gameReducer(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case 'startGame':
+      return startGame(state);
+
+    case 'submitAnswer':
+      return {
+        ...state,
+        playerAnswers: { ...state.playerAnswers, [action.playerId]: action.answer },
+        submittedAnswers: { ...state.submittedAnswers, [action.playerId]: true }
+      };
+
+    case 'castVote':
+      return {
+        ...state,
+        votes: { ...state.votes, [action.playerId]: action.targetIds }
+      };
+
+    case 'markRoleSeen':
+      return {
+        ...state,
+        players: state.players.map(p => (p.id === action.playerId ? { ...p, hasSeenRole: true } : p))
+      };
+
+    case 'markReady':
+      return { ...state, readyPlayers: { ...state.readyPlayers, [action.playerId]: true } };
+
+    case 'revealRoles':
+      return { ...state, currentScreen: 'roleReveal' };
+
+    case 'confirmRoles':
+      return { ...state, currentScreen: state.gameMode === 'words' ? 'discussion' : 'answers' };
+
+    case 'startVoting':
+      return { ...state, phase: 'voting', currentScreen: 'voting' };
+
+    case 'tallyVotes':
+      return tallyVotes(state, action.outcome);
+
+    case 'continueRound':
+      return {
+        ...state,
+        continueCount: (state.continueCount || 0) + 1,
+        ...prepareNextRandomizeRound(state),
+        currentScreen: state.gameMode === 'words' ? 'discussion' : 'answers'
+      };
+
+    case 'finishGame': {
+      const { winners, winnerType } = state.gameMode === 'words'
+        ? determineWordsGameWinner(state, state.players)
+        : determineRandomizeWinner(state, state.players);
+
+      return {
+        ...state,
+        phase: 'results',
+        currentScreen: 'results',
+        winners,
+        winnerType
+      };
+    }
+
+    case 'resetToLobby':
+      return resetToLobby(state);
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * Returns true once every player who is expected to vote has a ballot in state.votes
+ * Spectators only sit out in custom packs, where the host spectates
+ * Disconnected players are not waited for
+ */
+export function haveAllPlayersVoted(state: GameState): boolean {
+  const votingPlayers = state.players.filter(p =>
+    !p.isEliminated && p.isConnected && (state.selectedPackType !== 'custom' || p.role !== 'spectator')
+  );
+
+  return votingPlayers.length > 0 && votingPlayers.every(p => state.votes[p.id] !== undefined);
+}
+
+/**
+ * Apply the room's current roster (room_players) to the game
+ * In the lobby everyone in the room plays. Once a game is running its players are fixed:
+ * anyone who joined since watches as a spectator until the next resetToLobby
+ */
+export function applyRoomRoster(state: GameState, roster: Player[]): GameState {
+  if (state.phase === 'lobby') {
+    return { ...state, players: roster, spectators: [] };
+  }
+
+  const playerIds = new Set(state.players.map(p => p.id));
+  return {
+    ...state,
+    players: roster.filter(p => playerIds.has(p.id)),
+    spectators: roster
+      .filter(p => !playerIds.has(p.id))
+      .map(p => ({ ...p, role: 'spectator' as PlayerRole }))
+  };
+}
+
+function startGame(state: GameState): GameState {
+  if (state.players.length < MIN_PLAYERS_TO_START) {
+    return state;
+  }
+
+  const customContent = state.gameMode === 'questions'
+    ? [state.currentQuestion, state.currentImpostorQuestion]
+    : [state.currentWord];
+
+  const newGameState = initializeGame(
+    state.players,
+    state.isRandomizeMode ? 'randomize' : state.impostorCount,
+    state.hasJester,
+    state.gameMode,
+    state.isRandomizeMode,
+    state.selectedPackType === 'custom' ? customContent : undefined,
+    state.selectedPackType
+  );
+
+  // Spectating hosts (custom packs) skip the questions and wait on the answers screen
+  const host = state.players.find(p => p.id === state.hostId);
+  const targetScreen: GameScreen = host?.role === 'spectator' ? 'answers' : 'questions';
+
+  return {
+    ...state,
+    ...newGameState,
+    // Preserve players and room info from lobby
+    players: newGameState.players.map(p => {
+      const oldPlayer = state.players.find(op => op.id === p.id);
+      return { ...oldPlayer, ...p };
+    }),
+    hostId: state.hostId,
+    roomCode: state.roomCode,
+    selectedPack: state.selectedPack,
+    selectedPackType: state.selectedPackType,
+    dealId: generateUUID(),
+    readyPlayers: {},
+    currentScreen: targetScreen
+  };
+}
+
+function tallyVotes(state: GameState, outcome?: VoteOutcome): GameState {
+  const allVotes = state.votes;
+
+  if (state.gameMode === 'words') {
+    if (state.isRandomizeMode) {
+      const wasTieBreakerRound = state.isTieVote;
+      const { isTie, tiedPlayers, eliminatedPlayerIds } = processRandomizeVotes(state, allVotes, state.players, outcome);
+
+      if (isTie) {
+        const votesSnapshot = JSON.parse(JSON.stringify(allVotes));
+        const nextTieBreakerRound = (state.currentTieBreakerRound || 0) + 1;
+        const existingHistory = state.tieBreakerHistory || [];
+
+        return {
+          ...state,
+          phase: 'voting',
+          currentScreen: 'voting',
+          isTieVote: true,
+          tiedPlayers,
+          votes: {},
+          originalVotes: state.originalVotes || votesSnapshot,
+          tieBreakerVotes: state.isTieVote
+            ? appendUniqueTieVote(state.tieBreakerVotes, votesSnapshot)
+            : undefined,
+          tieBreakerHistory: state.isTieVote
+            ? [...existingHistory, { round: nextTieBreakerRound - 1, votes: votesSnapshot, tiedPlayers }]
+            : existingHistory,
+          currentTieBreakerRound: nextTieBreakerRound,
+        };
+      }
+
+      const autoEndResult = checkRandomizeAutoEnd(state, state.players, eliminatedPlayerIds);
+
+      if (autoEndResult.shouldAutoEnd) {
+        const { winners, winnerType } = determineRandomizeWinner(state, state.players);
+
+        return {
+          ...state,
+          winners,
+          winnerType,
+          phase: 'results',
+          currentScreen: 'results',
+          isTieVote: false
+        };
+      }
+
+      if (eliminatedPlayerIds.length === 0) {
+        return state;
+      }
+
+      return {
+        ...state,
+        ...updateGameStateAfterRandomizeElimination(state, eliminatedPlayerIds, allVotes, wasTieBreakerRound),
+        currentScreen: 'voteResults'
+      };
+    }
+
+    const updatedGameState = processWordsGameVotes(state, allVotes, state.players, outcome);
+
+    return {
+      ...updatedGameState,
+      currentScreen: updatedGameState.phase === 'results' ? 'results'
+        : updatedGameState.phase === 'voteResults' ? 'voteResults'
+        : updatedGameState.phase === 'voting' && updatedGameState.isTieVote ? 'voting'
+        : state.currentScreen
+    };
+  }
+
+  // Questions game: processVotingResults reports through setters, so capture them synchronously
+  let nextState = state;
+  processVotingResults(
+    allVotes,
+    state,
+    (update: GameState | ((prev: GameState) => GameState)) => {
+      nextState = typeof update === 'function' ? update(nextState) : update;
+    },
+    () => {},
+    (gameState: GameState, players: Player[], eliminatedPlayers: string[]) =>
+      determineWinner(gameState, players, eliminatedPlayers),
+    outcome
+  );
+
+  return nextState;
+}
+
+function resetToLobby(state: GameState): GameState {
+  // Reset isEliminated status and roles for all players
+  // Spectators who joined mid-game play from the next game on
+  const resetPlayers = [...state.players, ...(state.spectators || [])].map(p => ({
+    ...p,
+    isEliminated: false,
+    role: undefined as unknown as PlayerRole // Reset role to undefined so it gets reassigned in new game
+  }));
+
+  return {
+    ...state,
+    players: resetPlayers,
+    spectators: [],
+    phase: 'lobby',
+    currentRound: 1,
+    eliminatedPlayers: [],
+    previousEliminatedPlayers: undefined,
+    winners: [],
+    winnerType: undefined,
+    playerAnswers: {},
+    submittedAnswers: {},
+    votes: {},
+    originalVotes: undefined, // Clear previous game's original votes
+    tieBreakerVotes: undefined, // Clear previous game's tie-breaker votes
+    tieBreakerHistory: [],
+    currentTieBreakerRound: undefined,
+    originalPlayerRoles: undefined, // Clear previous game's original player roles
+    dealId: undefined,
+    continueCount: 0, // Reset continue count for new game
+    playerRoles: {},
+    jesterCluePlayers: [],
+    isTieVote: false,
+    tiedPlayers: [],
+    readyPlayers: {},
+    gameEndReason: undefined,
+    currentVoteResult: undefined,
+    // Reset game settings to defaults
+    impostorCount: 1,
+    hasJester: false,
+    isRandomizeMode: false,
+    currentImpostorWord: '', // Clear previous game's custom word
+    currentScreen: 'lobby'
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Game State Patches
+ *
+ * Writes and Realtime updates carry JSON-patch (RFC 6902) style deltas instead of the
+ * whole GameState, so a vote doesn't resend every player's data-URL avatar.
+ * Each patch names the version it applies to; a client that is not on that version
+ * has missed something and re-fetches the full state instead.
+ *
+ * Only add, replace and remove are produced. Objects are diffed key by key and
+ * arrays index by index while their length is unchanged; an array that grows or
+ * shrinks is replaced whole. diff_game_state in COMPLETE_SUPABASE_SETUP.sql makes
+ * the same ops on the server - keep the two in step.
+ */
+
+export type GameStatePatchOp =
+  | { op: 'add' | 'replace'; path: string; value: unknown }
+  | { op: 'remove'; path: string };
+
+type Json = unknown;
+
+// Stored states went through JSON: undefined keys are gone, undefined array items are null
+function toJson<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// RFC 6901: "~" and "/" inside a key are escaped as "~0" and "~1"
+function escapePointerSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function parsePointer(path: string): string[] {
+  if (path === '') return [];
+  return path.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function isObject(value: Json): value is Record<string, Json> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: Json, b: Json): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffValues(before: Json, after: Json, path: string, ops: GameStatePatchOp[]) {
+  if (isEqual(before, after)) return;
+
+  if (isObject(before) && isObject(after)) {
+    Object.keys(before).forEach(key => {
+      if (!(key in after)) {
+        ops.push({ op: 'remove', path: `${path}/${escapePointerSegment(key)}` });
+      }
+    });
+    Object.keys(after).forEach(key => {
+      const keyPath = `${path}/${escapePointerSegment(key)}`;
+      if (key in before) {
+        diffValues(before[key], after[key], keyPath, ops);
+      } else {
+        ops.push({ op: 'add', path: keyPath, value: after[key] });
+      }
+    });
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after) && before.length === after.length) {
+    after.forEach((item, index) => diffValues(before[index], item, `${path}/${index}`, ops));
+    return;
+  }
+
+  ops.push({ op: 'replace', path, value: after });
+}
+
+/**
+ * Ops that turn `before` into `after` (both as they would be stored)
+ */
+export function diffGameState(before: Record<string, unknown>, after: Record<string, unknown>): GameStatePatchOp[] {
+  const ops: GameStatePatchOp[] = [];
+  diffValues(toJson(before), toJson(after), '', ops);
+  return ops;
+}
+
+/**
+ * Apply ops to a state without changing it; the path "" replaces the whole state
+ */
+export function applyGameStatePatch(state: Record<string, unknown>, ops: GameStatePatchOp[]): Record<string, unknown> {
+  let document: Json = toJson(state);
+
+  ops.forEach(operation => {
+    const segments = parsePointer(operation.path);
+    if (segments.length === 0) {
+      document = operation.op === 'remove' ? {} : toJson(operation.value);
+      return;
+    }
+
+    const parent = segments.slice(0, -1).reduce<Json>(
+      (node, segment) => (node as Record<string, Json> | null)?.[segment],
+      document
+    );
+    const key = segments[segments.length - 1];
+
+    if (Array.isArray(parent)) {
+      if (operation.op === 'remove') {
+        parent.splice(Number(key), 1);
+      } else {
+        parent[Number(key)] = toJson(operation.value);
+      }
+    } else if (isObject(parent)) {
+      if (operation.op === 'remove') {
+        delete parent[key];
+      } else {
+        parent[key] = toJson(operation.value);
+      }
+    } else {
+      console.warn('⚠️ Game state patch path not found:', operation.path);
+    }
+  });
+
+  return document as Record<string, unknown>;
+}
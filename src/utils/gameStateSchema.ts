@@ -0,0 +1,179 @@
+import { GameState, Result } from '../types';
+import { isRoomCode } from './roomCode';
+
+/**
+ * Game State Schema
+ *
+ * Stored game states come from other clients, older builds and half-finished writes,
+ * so nothing read from a room is trusted as a GameState until it has been checked here.
+ * Every stored state carries a schemaVersion. A state from an older version is upgraded
+ * by running the migrations after its version in order, then validated field by field.
+ *
+ * To change the stored shape: bump GAME_STATE_SCHEMA_VERSION, add a migration from the
+ * previous version, and update the schema below.
+ */
+
+export const GAME_STATE_SCHEMA_VERSION = 2;
+
+// States written before versioning have no schemaVersion field
+const UNVERSIONED_SCHEMA_VERSION = 1;
+
+type StoredState = Record<string, unknown>;
+
+// Each migration upgrades a state from its key version to the next one
+const migrations: Record<number, (state: StoredState) => StoredState> = {
+  // Older clients left collections out until they were first used - fill them in
+  1: state => ({
+    currentRound: 1,
+    maxRounds: 3,
+    impostorCount: 1,
+    hasJester: false,
+    isRandomizeMode: false,
+    currentQuestion: '',
+    currentImpostorQuestion: '',
+    currentWord: '',
+    currentImpostorWord: '',
+    playerAnswers: {},
+    submittedAnswers: {},
+    votes: {},
+    eliminatedPlayers: [],
+    winners: [],
+    playerRoles: {},
+    selectedPack: null,
+    turnOrder: [],
+    selectedQuestionPack: null,
+    selectedPackType: null,
+    jesterCluePlayers: [],
+    isTieVote: false,
+    tiedPlayers: [],
+    ...state
+  })
+};
+
+// A check says whether a value fits; optional fields may also be missing (undefined)
+type Check = (value: unknown) => boolean;
+
+const isString: Check = value => typeof value === 'string';
+const isNumber: Check = value => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: Check = value => typeof value === 'boolean';
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const oneOf = (...options: string[]): Check => value => typeof value === 'string' && options.includes(value);
+const optional = (check: Check): Check => value => value === undefined || check(value);
+const nullable = (check: Check): Check => value => value === null || check(value);
+const arrayOf = (check: Check): Check => value => Array.isArray(value) && value.every(check);
+const recordOf = (check: Check): Check => value => isObject(value) && Object.values(value).every(check);
+const shape = (fields: Record<string, Check>): Check => value =>
+  isObject(value) && Object.entries(fields).every(([key, check]) => check(value[key]));
+
+const isPlayerRole = oneOf('innocent', 'impostor', 'jester', 'spectator');
+const isVotes = recordOf(arrayOf(isString));
+
+const isPlayer = shape({
+  id: isString,
+  username: isString,
+  isHost: isBoolean,
+  // Secret roles are stripped from the shared state
+  role: optional(isPlayerRole),
+  isEliminated: optional(isBoolean),
+  isBot: optional(isBoolean)
+});
+
+const gameStateSchema: Record<keyof GameState, Check> = {
+  schemaVersion: optional(isNumber),
+  phase: oneOf('lobby', 'questions', 'roleReveal', 'answerDisplay', 'discussion', 'voting', 'votingResults', 'voteResults', 'results'),
+  players: arrayOf(isPlayer),
+  spectators: optional(arrayOf(isPlayer)),
+  currentRound: isNumber,
+  maxRounds: isNumber,
+  impostorCount: isNumber,
+  hasJester: isBoolean,
+  isRandomizeMode: isBoolean,
+  hostId: isString,
+  roomCode: value => value === '' || isRoomCode(value),
+  gameMode: oneOf('questions', 'words'),
+  currentQuestion: isString,
+  currentImpostorQuestion: isString,
+  currentWord: isString,
+  currentImpostorWord: isString,
+  playerAnswers: recordOf(isString),
+  submittedAnswers: recordOf(isBoolean),
+  votes: isVotes,
+  originalVotes: optional(isVotes),
+  tieBreakerVotes: optional(arrayOf(isVotes)),
+  currentTieBreakerRound: optional(isNumber),
+  tieBreakerHistory: optional(arrayOf(shape({ round: isNumber, votes: isVotes, tiedPlayers: arrayOf(isString) }))),
+  eliminatedPlayers: arrayOf(isString),
+  previousEliminatedPlayers: optional(arrayOf(isString)),
+  winners: arrayOf(isPlayer),
+  winnerType: optional(oneOf('innocent', 'impostor', 'jester', 'tie')),
+  playerRoles: recordOf(isPlayerRole),
+  originalPlayerRoles: optional(recordOf(isPlayerRole)),
+  dealId: optional(isString),
+  continueCount: optional(isNumber),
+  selectedPack: nullable(isString),
+  startingPlayer: optional(nullable(isPlayer)),
+  turnOrder: arrayOf(isPlayer),
+  currentTurnPlayer: optional(nullable(isPlayer)),
+  selectedQuestionPack: nullable(shape({ id: isString, name: isString, innocent: isString, impostor: isString })),
+  selectedPackType: nullable(isString),
+  jesterCluePlayers: arrayOf(isString),
+  isTieVote: isBoolean,
+  tiedPlayers: arrayOf(isString),
+  readyPlayers: optional(recordOf(isBoolean)),
+  gameEndReason: optional(oneOf('jester_win', 'impostor_win', 'innocent_win', 'tie', 'host_ended')),
+  currentVoteResult: optional(shape({
+    eliminatedPlayers: arrayOf(isString),
+    voteBreakdown: isVotes,
+    isTie: isBoolean,
+    tiedPlayers: arrayOf(isString)
+  })),
+  currentScreen: optional(oneOf('lobby', 'questions', 'answers', 'roleReveal', 'discussion', 'voting', 'voteResults', 'results')),
+  phaseDeadline: optional(isNumber)
+};
+
+/**
+ * Upgrade a stored state to the current schema version
+ * States from a newer version are returned as they are - validation decides if they are usable
+ */
+export function migrateGameState(state: StoredState): StoredState {
+  let version = isNumber(state.schemaVersion) ? state.schemaVersion as number : UNVERSIONED_SCHEMA_VERSION;
+  let migrated = state;
+
+  while (version < GAME_STATE_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) break;
+    migrated = migrate(migrated);
+    version += 1;
+  }
+  return version === GAME_STATE_SCHEMA_VERSION ? { ...migrated, schemaVersion: version } : migrated;
+}
+
+/**
+ * Check a value against the GameState schema
+ * Fails with the names of the fields that don't fit
+ */
+export function validateGameState(value: unknown): Result<GameState, string[]> {
+  if (!isObject(value)) {
+    return { ok: false, error: ['(not an object)'] };
+  }
+  const issues = Object.entries(gameStateSchema)
+    .filter(([key, check]) => !check(value[key]))
+    .map(([key]) => key);
+  return issues.length === 0 ? { ok: true, value: value as unknown as GameState } : { ok: false, error: issues };
+}
+
+/**
+ * Turn a stored state into a GameState: migrate it, then validate it
+ */
+export function parseStoredGameState(value: unknown): Result<GameState, string[]> {
+  if (!isObject(value)) {
+    return validateGameState(value);
+  }
+  const version = value.schemaVersion;
+  if (isNumber(version) && (version as number) > GAME_STATE_SCHEMA_VERSION) {
+    return { ok: false, error: [`schemaVersion ${version} is newer than this client understands`] };
+  }
+  return validateGameState(migrateGameState(value));
+}
@@ -1,10 +1,5 @@
 import { PlayerRole } from '../types';
 
-export function generateRoomCode(): string {
-  const code = Math.floor(100000 + Math.random() * 900000).toString();
-  return code as `${number}${number}${number}${number}${number}${number}`;
-}
-
 export function generatePlayerId(): string {
   return Math.random().toString(36).substr(2, 9);
 }
@@ -0,0 +1,43 @@
+import { RoomCode } from '../types';
+import { parseRoomCode } from './roomCode';
+
+/**
+ * Invite Links
+ *
+ * A room can be joined from a link like https://impasta.app/?room=482913 (or a QR code of it).
+ * The app reads the code at startup and joins once the player has entered their name.
+ * The code is taken out of the address bar once it has been used or dismissed,
+ * so a later reload doesn't try to join the same room again.
+ */
+
+const INVITE_PARAM = 'room';
+
+/**
+ * Link that opens the app and joins the room
+ */
+export function buildInviteUrl(code: RoomCode): string {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(INVITE_PARAM, code);
+  return url.toString();
+}
+
+/**
+ * The room code from the link the app was opened with, if it has a valid one
+ */
+export function readInviteCode(): RoomCode | null {
+  if (typeof window === 'undefined') return null;
+  const value = new URLSearchParams(window.location.search).get(INVITE_PARAM);
+  return value ? parseRoomCode(value) : null;
+}
+
+/**
+ * Drop the invite from the address bar without reloading
+ */
+export function clearInviteFromUrl(): void {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has(INVITE_PARAM)) return;
+  url.searchParams.delete(INVITE_PARAM);
+  window.history.replaceState(window.history.state, '', url.toString());
+}
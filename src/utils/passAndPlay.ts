@@ -0,0 +1,128 @@
+import { GameMode, GamePack, GameState, Player, WordPack } from '../types';
+import { GameAction, gameReducer } from './gameReducer';
+import { generateUUID } from './uuid';
+
+/**
+ * Pass and Play
+ *
+ * One device, no backend: the host types in everyone's name and the phone goes
+ * round the table. The game itself is the same reducer the rooms use; this module
+ * only sets up the players and decides whose turn it is with the phone.
+ */
+
+export interface PassAndPlaySettings {
+  playerNames: string[];
+  gameMode: GameMode;
+  packType: Exclude<GamePack | WordPack, 'custom'>;
+  impostorCount: number;
+  hasJester: boolean;
+}
+
+export const MAX_PASS_AND_PLAY_PLAYERS = 10;
+
+/**
+ * Most impostors a game of this many players can have (fewer than half)
+ */
+export function getMaxImpostorCount(playerCount: number): number {
+  return Math.max(1, Math.floor((playerCount - 1) / 2));
+}
+
+/**
+ * A lobby state for the players at the table - the first one holds the phone and hosts
+ */
+export function createPassAndPlayState(settings: PassAndPlaySettings): GameState {
+  const players: Player[] = settings.playerNames.map((name, index) => ({
+    id: generateUUID(),
+    username: name.trim(),
+    isHost: index === 0,
+    role: 'innocent',
+    isConnected: true, // Everyone is at the table
+    answer: '',
+    hasVoted: false,
+    hasSubmittedAnswer: false,
+    hasSeenRole: false,
+    isEliminated: false
+  }));
+
+  return {
+    phase: 'lobby',
+    players,
+    currentRound: 1,
+    maxRounds: 3,
+    impostorCount: Math.min(settings.impostorCount, getMaxImpostorCount(players.length)),
+    hasJester: settings.hasJester,
+    isRandomizeMode: false,
+    hostId: players[0]?.id || '',
+    roomCode: '',
+    gameMode: settings.gameMode,
+    currentQuestion: '',
+    currentImpostorQuestion: '',
+    currentWord: '',
+    currentImpostorWord: '',
+    playerAnswers: {},
+    submittedAnswers: {},
+    votes: {},
+    eliminatedPlayers: [],
+    winners: [],
+    playerRoles: {},
+    selectedPack: settings.packType,
+    turnOrder: [],
+    selectedQuestionPack: null,
+    selectedPackType: settings.packType,
+    jesterCluePlayers: [],
+    isTieVote: false,
+    tiedPlayers: [],
+    currentScreen: 'lobby'
+  };
+}
+
+/**
+ * Deal a new game for the table
+ * Word games have nothing to answer, so they go straight on to the role reveal
+ */
+export function startPassAndPlayGame(settings: PassAndPlaySettings): GameState {
+  const dealt = gameReducer(createPassAndPlayState(settings), { type: 'startGame' });
+  return settings.gameMode === 'words' ? gameReducer(dealt, { type: 'revealRoles' }) : dealt;
+}
+
+// What happens once the phone has been round everyone on a screen
+export const ROUND_END_ACTIONS: Partial<Record<NonNullable<GameState['currentScreen']>, GameAction>> = {
+  questions: { type: 'revealRoles' },
+  roleReveal: { type: 'confirmRoles' },
+  voting: { type: 'tallyVotes' }
+};
+
+/**
+ * Who gets the phone, in order, on the current screen
+ * Everyone answers and sees their role; everyone still in the game votes
+ */
+export function getTurnPlayers(state: GameState): Player[] {
+  switch (state.currentScreen) {
+    case 'questions':
+    case 'roleReveal':
+      return state.players;
+    case 'voting':
+      return state.players.filter(p => !p.isEliminated && !state.eliminatedPlayers.includes(p.id));
+    default:
+      return [];
+  }
+}
+
+/**
+ * How many players a voter picks, and who they can pick from
+ * Same rules as the voting screen: one pick in randomize mode and tie-breakers,
+ * otherwise one per impostor still in the game; never yourself
+ */
+export function getVoteChoices(state: GameState, voterId: string): { votesNeeded: number; candidates: Player[] } {
+  const candidates = state.players.filter(p =>
+    p.id !== voterId &&
+    !p.isEliminated &&
+    !state.eliminatedPlayers.includes(p.id) &&
+    (!state.isTieVote || state.tiedPlayers.includes(p.id))
+  );
+  const votesNeeded = state.isRandomizeMode || state.isTieVote
+    ? 1
+    : state.impostorCount - state.eliminatedPlayers.length;
+
+  return { votesNeeded: Math.max(1, Math.min(votesNeeded, candidates.length)), candidates };
+}
@@ -0,0 +1,87 @@
+import { GameState } from '../types';
+
+/**
+ * Phase Deadlines
+ *
+ * Timed phases end at an absolute moment the host stamps on the game state
+ * (phaseDeadline, epoch ms on the server clock). Every client counts down to that
+ * same moment, so a reload or a slow device shows the time that is really left,
+ * and the host acts on it when it passes. Device clocks are put on the server
+ * clock with an offset measured by round trips (see estimateClockOffset).
+ */
+
+export type TimedPhase = 'questions' | 'wordReveal' | 'answers' | 'discussion' | 'votingDiscussion';
+
+export const PHASE_DURATIONS_MS: Record<TimedPhase, number> = {
+  questions: 120000, // Answering the question
+  wordReveal: 60000, // Words game: memorising the word
+  answers: 180000, // Discussing the answers
+  discussion: 180000, // Words game discussion
+  votingDiscussion: 60000 // Last words on the voting screen before voting opens
+};
+
+// The host moves on this long after a deadline, so answers sent in the last second still land
+export const PHASE_DEADLINE_GRACE_MS = 1500;
+
+/**
+ * The timed phase a state is in, or null when nothing is counting down
+ */
+export function getTimedPhase(state: GameState): TimedPhase | null {
+  switch (state.currentScreen) {
+    case 'questions':
+      return state.gameMode === 'words' ? 'wordReveal' : 'questions';
+    case 'answers':
+      return 'answers';
+    case 'discussion':
+      return 'discussion';
+    case 'voting':
+      // Voting opens straight away once started, in randomize rounds and in tie-breakers
+      return state.phase === 'voting' || state.isRandomizeMode || state.isTieVote ? null : 'votingDiscussion';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Give a state entering a timed phase its deadline, measured from now (server clock)
+ * A state staying in the same timed phase keeps its deadline; an untimed one has none
+ */
+export function stampPhaseDeadline(before: GameState, after: GameState, now: number): GameState {
+  if (after === before) {
+    return after; // No transition
+  }
+  const phase = getTimedPhase(after);
+  if (!phase) {
+    return after.phaseDeadline === undefined ? after : { ...after, phaseDeadline: undefined };
+  }
+  if (phase === getTimedPhase(before) && after.phaseDeadline !== undefined) {
+    return after;
+  }
+  return { ...after, phaseDeadline: now + PHASE_DURATIONS_MS[phase] };
+}
+
+/**
+ * Whole seconds left until a deadline, never below 0
+ */
+export function secondsUntil(deadline: number, now: number): number {
+  return Math.max(0, Math.ceil((deadline - now) / 1000));
+}
+
+// One round trip to read the server clock, timed on the local clock
+export interface ClockSample {
+  sentAt: number;
+  serverTime: number;
+  receivedAt: number;
+}
+
+/**
+ * How far the server clock is ahead of the local one (ms, negative if behind)
+ * Trusts the fastest round trip, assuming the server read its clock halfway through it
+ */
+export function estimateClockOffset(samples: ClockSample[]): number {
+  if (samples.length === 0) return 0;
+  const fastest = samples.reduce((best, sample) =>
+    sample.receivedAt - sample.sentAt < best.receivedAt - best.sentAt ? sample : best
+  );
+  return Math.round(fastest.serverTime - (fastest.sentAt + fastest.receivedAt) / 2);
+}
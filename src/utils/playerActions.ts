@@ -0,0 +1,72 @@
+import { GameState, PlayerAction } from '../types';
+import { GameAction, gameReducer } from './gameReducer';
+import { validateBallot } from './voteTally';
+
+/**
+ * Player Actions
+ *
+ * Players don't write the shared game state. Each answer, vote, ready or seen-role
+ * is inserted into player_actions and the backend applies it to game_states
+ * (apply_player_action in COMPLETE_SUPABASE_SETUP.sql, the local transport here).
+ * Keep the two in step: any rule changed here must be changed in the SQL too.
+ */
+
+export const MAX_ANSWER_LENGTH = 500;
+
+/**
+ * Why an action can't be applied to the current state, or null if it can
+ */
+export function validatePlayerAction(state: GameState, playerId: string, action: PlayerAction): string | null {
+  if (!state.players.some(p => p.id === playerId)) {
+    return 'Player is not in the game';
+  }
+
+  switch (action.kind) {
+    case 'answer':
+      if (state.phase !== 'questions' || state.gameMode !== 'questions') {
+        return 'Answers are not open';
+      }
+      if (state.submittedAnswers[playerId]) {
+        return 'Answer already submitted';
+      }
+      if (typeof action.answer !== 'string' || action.answer.length > MAX_ANSWER_LENGTH) {
+        return `Answers are text of at most ${MAX_ANSWER_LENGTH} characters`;
+      }
+      return null;
+
+    case 'vote':
+      return validateBallot(state, playerId, action.targetIds);
+
+    case 'seenRole':
+      return state.phase === 'lobby' ? 'No roles have been dealt' : null;
+
+    case 'ready':
+      return null;
+
+    default:
+      return 'Unknown action';
+  }
+}
+
+/**
+ * The reducer action a player action stands for
+ */
+export function toGameAction(playerId: string, action: PlayerAction): GameAction {
+  switch (action.kind) {
+    case 'answer':
+      return { type: 'submitAnswer', playerId, answer: action.answer };
+    case 'vote':
+      return { type: 'castVote', playerId, targetIds: action.targetIds };
+    case 'seenRole':
+      return { type: 'markRoleSeen', playerId };
+    case 'ready':
+      return { type: 'markReady', playerId };
+  }
+}
+
+/**
+ * Apply a validated action to a state
+ */
+export function applyPlayerAction(state: GameState, playerId: string, action: PlayerAction): GameState {
+  return gameReducer(state, toGameAction(playerId, action));
+}
@@ -0,0 +1,146 @@
+import { GameState, Player, PlayerRole, PlayerSecret } from '../types';
+
+/**
+ * Player Secrets
+ *
+ * Roles, the impostor question, the secret word and jester clues are dealt into
+ * one GameState, but the shared game_states row is readable by everyone in the room.
+ * Before a state is stored it is redacted, and each player's share of the deal is
+ * stored separately as a PlayerSecret that only that player can read.
+ *
+ * Redaction stops once the game reaches results: no client can read the whole deal, so the
+ * backend puts it back into every results state (reveal_results_deal, withDealtRoles here).
+ * In the lobby nothing has been dealt yet, so lobby states are stored as they are.
+ */
+
+/**
+ * Split a freshly dealt game into one secret per player
+ */
+export function buildPlayerSecrets(state: GameState): PlayerSecret[] {
+  return state.players.map(player => {
+    const role = state.playerRoles[player.id] || player.role;
+
+    return {
+      playerId: player.id,
+      role,
+      question: state.gameMode === 'questions'
+        ? (role === 'impostor' ? state.currentImpostorQuestion : state.currentQuestion)
+        : '',
+      word: state.gameMode === 'words' && role !== 'impostor' ? state.currentWord : '',
+      hasJesterClue: (state.jesterCluePlayers || []).includes(player.id)
+    };
+  });
+}
+
+// Spectators (eliminated randomize players, spectating hosts) are public knowledge
+function isSecretRole(role: PlayerRole | undefined): boolean {
+  return !!role && role !== 'spectator';
+}
+
+function withoutSecretRole<T extends Player | null | undefined>(player: T): T {
+  if (!player || !isSecretRole(player.role)) return player;
+  return { ...player, role: undefined as unknown as PlayerRole };
+}
+
+function onlyPublicRoles(roles: Record<string, PlayerRole> | undefined) {
+  if (!roles) return roles;
+  return Object.fromEntries(Object.entries(roles).filter(([, role]) => !isSecretRole(role)));
+}
+
+/**
+ * Strip everything from a state that only some players may know
+ */
+export function redactGameState(state: GameState): GameState {
+  if (state.phase === 'lobby' || state.phase === 'results') {
+    return state;
+  }
+
+  return {
+    ...state,
+    players: state.players.map(p => withoutSecretRole(p)),
+    playerRoles: onlyPublicRoles(state.playerRoles) || {},
+    originalPlayerRoles: onlyPublicRoles(state.originalPlayerRoles),
+    jesterCluePlayers: [],
+    // The innocent question is shown to everyone once answers are in
+    currentQuestion: state.currentScreen === 'questions' ? '' : state.currentQuestion,
+    currentImpostorQuestion: '',
+    currentWord: state.gameMode === 'words' ? '' : state.currentWord,
+    currentImpostorWord: '',
+    startingPlayer: withoutSecretRole(state.startingPlayer),
+    currentTurnPlayer: withoutSecretRole(state.currentTurnPlayer),
+    turnOrder: (state.turnOrder || []).map(p => withoutSecretRole(p))
+  };
+}
+
+/**
+ * Every player's role as the backend judges the game: the dealt ones, plus 'spectator' for
+ * players the vote tally eliminated in randomize mode. Roles written anywhere else in the
+ * state don't count. Mirror of vote_dealt_roles in COMPLETE_SUPABASE_SETUP.sql
+ */
+export function dealtRoles(state: Pick<GameState, 'playerRoles' | 'eliminatedPlayers'>, secrets: PlayerSecret[]): Record<string, PlayerRole> {
+  const eliminatedSpectators = Object.entries(state.playerRoles || {})
+    .filter(([playerId, role]) => role === 'spectator' && (state.eliminatedPlayers || []).includes(playerId));
+  return {
+    ...Object.fromEntries(secrets.map(s => [s.playerId, s.role])),
+    ...Object.fromEntries(eliminatedSpectators)
+  };
+}
+
+/**
+ * A state with every secret put back and only the dealt roles on it: the local transport's
+ * backend view, and what a results state shows. Mirror of reveal_results_deal for results
+ */
+export function withDealtRoles(state: GameState, secrets: PlayerSecret[]): GameState {
+  const revealed = applyPlayerSecrets(state, secrets);
+  if (revealed === state) {
+    return state;
+  }
+
+  const roles = dealtRoles(state, secrets);
+  return {
+    ...revealed,
+    players: revealed.players.map(p => ({ ...p, role: roles[p.id] })),
+    playerRoles: roles,
+    // As dealt, before anyone was eliminated
+    originalPlayerRoles: Object.fromEntries(secrets.map(s => [s.playerId, s.role]))
+  };
+}
+
+/**
+ * Put the secrets this client may read back into a redacted state
+ * Every client (the host too) only reads its own secret
+ */
+export function applyPlayerSecrets(state: GameState, secrets: PlayerSecret[]): GameState {
+  if (secrets.length === 0 || state.phase === 'lobby') {
+    return state;
+  }
+
+  const secretRoles = Object.fromEntries(secrets.map(s => [s.playerId, s.role])) as Record<string, PlayerRole>;
+  const withSecretRole = <T extends Player | null | undefined>(player: T): T => {
+    if (!player || player.role || !secretRoles[player.id]) return player;
+    return { ...player, role: secretRoles[player.id] };
+  };
+
+  const impostorSecret = secrets.find(s => s.role === 'impostor');
+  const innocentSecret = secrets.find(s => s.role !== 'impostor' && s.role !== 'spectator');
+
+  return {
+    ...state,
+    players: state.players.map(p => withSecretRole(p)),
+    // Public roles win: a player eliminated in randomize mode is now a spectator
+    playerRoles: { ...secretRoles, ...state.playerRoles },
+    originalPlayerRoles: state.originalPlayerRoles
+      ? { ...secretRoles, ...state.originalPlayerRoles }
+      : state.originalPlayerRoles,
+    jesterCluePlayers: Array.from(new Set([
+      ...(state.jesterCluePlayers || []),
+      ...secrets.filter(s => s.hasJesterClue).map(s => s.playerId)
+    ])),
+    currentQuestion: state.currentQuestion || (state.gameMode === 'questions' ? innocentSecret?.question || '' : ''),
+    currentImpostorQuestion: state.currentImpostorQuestion || (state.gameMode === 'questions' ? impostorSecret?.question || '' : ''),
+    currentWord: state.currentWord || innocentSecret?.word || '',
+    startingPlayer: withSecretRole(state.startingPlayer),
+    currentTurnPlayer: withSecretRole(state.currentTurnPlayer),
+    turnOrder: (state.turnOrder || []).map(p => withSecretRole(p))
+  };
+}
@@ -1,4 +1,5 @@
-import { Player, GameState, WinnerType } from '../types';
+import { Player, GameState, VoteOutcome, WinnerType } from '../types';
+import { computeVoteOutcome } from './voteTally';
 
 export function appendUniqueTieVote(
   existingVotes: Record<string, string[]>[] | undefined,
@@ -26,11 +27,13 @@ export function appendUniqueTieVote(
 /**
  * Processes votes specifically for randomize mode
  * Always eliminates exactly 1 player per round
+ * The outcome comes from the backend tally; without one it is computed from allVotes
  */
 export function processRandomizeVotes(
   gameState: GameState,
   allVotes: Record<string, string[]>,
-  players: Player[]
+  players: Player[],
+  outcome: VoteOutcome = computeVoteOutcome(gameState, allVotes)
 ): {
   isTie: boolean;
   tiedPlayers: string[];
@@ -39,58 +42,27 @@ export function processRandomizeVotes(
 } {
   console.log('=== RANDOMIZE MODE VOTE PROCESSING ===');
   console.log('Processing votes for', players.length, 'players in phase', gameState.phase);
-  
-  // Count votes for each player
-  const voteCounts: Record<string, number> = {};
-  
-  Object.values(allVotes).forEach(playerVotes => {
-    playerVotes.forEach(votedPlayerId => {
-      voteCounts[votedPlayerId] = (voteCounts[votedPlayerId] || 0) + 1;
-    });
-  });
-
-  console.log('Vote counts:', voteCounts);
-
-  // If no votes cast, return error state
-  if (Object.keys(voteCounts).length === 0) {
-    return {
-      isTie: false,
-      tiedPlayers: [],
-      eliminatedPlayerIds: [],
-      shouldContinue: false
-    };
-  }
-
-  // Find players with most votes
-  const voteValues = Object.values(voteCounts);
-  const maxVotes = Math.max(...voteValues);
-  const playersWithMostVotes = Object.keys(voteCounts).filter(
-    playerId => voteCounts[playerId] === maxVotes
-  );
-
-  console.log('Players with most votes:', playersWithMostVotes, 'votes:', maxVotes);
+  console.log('Vote outcome:', outcome);
 
   // Check for tie
-  if (playersWithMostVotes.length > 1 && maxVotes > 0) {
+  if (outcome.tiedPlayers.length > 0) {
     console.log('TIE DETECTED in randomize mode');
     return {
       isTie: true,
-      tiedPlayers: playersWithMostVotes,
+      tiedPlayers: outcome.tiedPlayers,
       eliminatedPlayerIds: [],
       shouldContinue: false
     };
   }
 
-  // No tie - eliminate exactly 1 player (the one with most votes)
-  const eliminatedPlayerIds = maxVotes > 0 ? [playersWithMostVotes[0]] : [];
-  
-  console.log('RANDOMIZE ELIMINATION:', eliminatedPlayerIds);
+  // No tie - eliminate exactly 1 player (the one with most votes), if anyone voted
+  console.log('RANDOMIZE ELIMINATION:', outcome.eliminatedPlayerIds);
 
   return {
     isTie: false,
     tiedPlayers: [],
-    eliminatedPlayerIds,
-    shouldContinue: true
+    eliminatedPlayerIds: outcome.eliminatedPlayerIds,
+    shouldContinue: outcome.eliminatedPlayerIds.length > 0
   };
 }
 
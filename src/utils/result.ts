@@ -0,0 +1,37 @@
+import { Result, RoomError, RoomErrorKind } from '../types';
+
+/**
+ * Results
+ *
+ * Room and auth calls return a Result instead of null / false / [] so callers can
+ * tell "room not found" from "permission denied" from "offline".
+ */
+
+export function ok(): Result<void>;
+export function ok<T>(value: T): Result<T>;
+export function ok<T>(value?: T): Result<T | undefined> {
+  return { ok: true, value };
+}
+
+export function err(kind: RoomErrorKind, message: string, code?: string): Result<never> {
+  return { ok: false, error: { kind, message, code } };
+}
+
+/**
+ * Whether trying the same call again later may succeed
+ */
+export function isTransientRoomError(error: RoomError): boolean {
+  return error.kind === 'timeout' || error.kind === 'network';
+}
+
+/**
+ * Resolve to a 'timeout' error if the call takes longer than timeoutMs
+ * The call itself keeps running; only its answer is ignored
+ */
+export function withTimeout<T>(call: Promise<Result<T>>, timeoutMs: number, what: string): Promise<Result<T>> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<Result<T>>(resolve => {
+    timer = setTimeout(() => resolve(err('timeout', `${what} took longer than ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([call, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,74 @@
+import { RoomCode, RoomCodeFormat } from '../types';
+
+/**
+ * Room Codes
+ *
+ * Two formats, both always accepted when joining:
+ * - numeric: 6 digits, e.g. 482913
+ * - alphanumeric: 5 characters from an alphabet without look-alikes (no 0/O, 1/I/L or U),
+ *   e.g. K7QX3 - shorter and easier to read out to someone across the room
+ * VITE_ROOM_CODE_FORMAT picks the format new rooms get (numeric by default).
+ *
+ * Codes are only unique among active rooms; createRoom retries with a fresh code on a collision.
+ */
+
+const ALPHANUMERIC_ALPHABET = '23456789ABCDEFGHJKMNPQRSTVWXYZ';
+const NUMERIC_CODE_PATTERN = /^[0-9]{6}$/;
+const ALPHANUMERIC_CODE_PATTERN = new RegExp(`^[${ALPHANUMERIC_ALPHABET}]{5}$`);
+
+// Longest code in either format - the join input never needs more
+export const ROOM_CODE_MAX_LENGTH = 6;
+
+export const DEFAULT_ROOM_CODE_FORMAT: RoomCodeFormat =
+  import.meta.env.VITE_ROOM_CODE_FORMAT === 'alphanumeric' ? 'alphanumeric' : 'numeric';
+
+function randomIndex(size: number): number {
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    return crypto.getRandomValues(new Uint32Array(1))[0] % size;
+  }
+  return Math.floor(Math.random() * size);
+}
+
+/**
+ * Make a random room code (not checked for collisions - createRoom does that)
+ */
+export function generateRoomCode(format: RoomCodeFormat = DEFAULT_ROOM_CODE_FORMAT): RoomCode {
+  if (format === 'alphanumeric') {
+    const code = Array.from({ length: 5 }, () => ALPHANUMERIC_ALPHABET[randomIndex(ALPHANUMERIC_ALPHABET.length)]).join('');
+    return code as RoomCode;
+  }
+  const code = (100000 + randomIndex(900000)).toString();
+  return code as RoomCode;
+}
+
+/**
+ * Whether a value is a well-formed room code in either format
+ */
+export function isRoomCode(value: unknown): value is RoomCode {
+  return typeof value === 'string' && (NUMERIC_CODE_PATTERN.test(value) || ALPHANUMERIC_CODE_PATTERN.test(value));
+}
+
+/**
+ * Which format a code is in
+ */
+export function getRoomCodeFormat(code: RoomCode): RoomCodeFormat {
+  return NUMERIC_CODE_PATTERN.test(code) ? 'numeric' : 'alphanumeric';
+}
+
+/**
+ * Clean up what a player typed: upper case, no spaces or dashes, nothing outside either format
+ */
+export function normalizeRoomCodeInput(input: string): string {
+  return input
+    .toUpperCase()
+    .replace(new RegExp(`[^0-9${ALPHANUMERIC_ALPHABET}]`, 'g'), '')
+    .slice(0, ROOM_CODE_MAX_LENGTH);
+}
+
+/**
+ * Turn typed input into a room code, or null if it isn't one yet
+ */
+export function parseRoomCode(input: string): RoomCode | null {
+  const code = normalizeRoomCodeInput(input);
+  return isRoomCode(code) ? code : null;
+}
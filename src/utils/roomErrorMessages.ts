@@ -0,0 +1,50 @@
+import { Language, RoomError, RoomErrorKind } from '../types';
+
+const texts: Record<Language, Record<RoomErrorKind, string>> = {
+  en: {
+    notFound: 'Room not found',
+    inactive: 'This room has expired. Ask the host to create a new one.',
+    full: 'This room is full',
+    banned: 'The host has banned you from this room',
+    wrongPassword: 'Wrong password',
+    rejected: 'The host did not let you in',
+    forbidden: 'You are not allowed to do that',
+    conflict: 'Someone else got there first - try again',
+    invalid: 'The game in this room could not be loaded. Try again in a moment.',
+    timeout: 'The server is taking too long to answer. Try again.',
+    network: 'Could not reach the server. Check your connection and try again.'
+  },
+  ru: {
+    notFound: 'Комната не найдена',
+    inactive: 'Срок действия комнаты истёк. Попросите хоста создать новую.',
+    full: 'Комната заполнена',
+    banned: 'Хост заблокировал вас в этой комнате',
+    wrongPassword: 'Неверный пароль',
+    rejected: 'Хост не впустил вас в комнату',
+    forbidden: 'У вас нет прав на это действие',
+    conflict: 'Кто-то успел раньше - попробуйте ещё раз',
+    invalid: 'Не удалось загрузить игру в этой комнате. Попробуйте чуть позже.',
+    timeout: 'Сервер слишком долго не отвечает. Попробуйте ещё раз.',
+    network: 'Не удалось связаться с сервером. Проверьте подключение и попробуйте ещё раз.'
+  },
+  ka: {
+    notFound: 'ოთახი ვერ მოიძებნა',
+    inactive: 'ოთახის ვადა ამოიწურა. სთხოვეთ მასპინძელს ახალის შექმნა.',
+    full: 'ოთახი სავსეა',
+    banned: 'მასპინძელმა ამ ოთახში შესვლა აგიკრძალათ',
+    wrongPassword: 'პაროლი არასწორია',
+    rejected: 'მასპინძელმა ოთახში არ შეგიშვათ',
+    forbidden: 'ამის გაკეთების უფლება არ გაქვთ',
+    conflict: 'ვიღაცამ დაგასწროთ - სცადეთ თავიდან',
+    invalid: 'ამ ოთახის თამაში ვერ ჩაიტვირთა. სცადეთ ცოტა ხანში.',
+    timeout: 'სერვერი დიდხანს არ პასუხობს. სცადეთ თავიდან.',
+    network: 'სერვერთან დაკავშირება ვერ მოხერხდა. შეამოწმეთ კავშირი და სცადეთ თავიდან.'
+  }
+};
+
+/**
+ * What to tell the player about a failed room call, in their language
+ */
+export function getRoomErrorMessage(error: RoomError, language: Language): string {
+  return texts[language][error.kind];
+}
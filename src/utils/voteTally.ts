@@ -0,0 +1,228 @@
+import { GameState, PlayerRole, VoteOutcome } from '../types';
+
+/**
+ * Vote Tally
+ *
+ * Decides who a round of votes eliminates. Ballots are cast and tallied by the backend
+ * (cast_vote / tally_votes in COMPLETE_SUPABASE_SETUP.sql), so a client never picks the
+ * outcome; this is the same logic for the local transport and for replaying events.
+ * Keep the two in step: any rule changed here must be changed in the SQL too.
+ *
+ * - Randomize mode: exactly one player goes; a tie for the most votes is re-voted
+ * - Standard mode: the top N go (N = impostor count); players tied at the N-th place
+ *   (and any above them that still fit) go into a tie-breaker
+ * - Tie-breaker: only votes for tied players count, until the remaining slots are filled
+ */
+
+type Ballots = Record<string, string[]>;
+
+/**
+ * Why a ballot can't be accepted in the current round, or null if it can
+ * The state's playerRoles must be the dealt ones (withDealtRoles), not what the host wrote
+ */
+export function validateBallot(state: GameState, voterId: string, targetIds: string[]): string | null {
+  if (state.phase !== 'voting') {
+    return 'Voting is not open';
+  }
+
+  const isOut = (playerId: string) => {
+    const player = state.players.find(p => p.id === playerId);
+    return !player || player.isEliminated || state.eliminatedPlayers.includes(playerId);
+  };
+
+  if (isOut(voterId) || state.playerRoles[voterId] === 'spectator') {
+    return 'Voter is not in the game';
+  }
+
+  const maxTargets = state.isRandomizeMode || state.isTieVote
+    ? 1
+    : Math.max(state.impostorCount - state.eliminatedPlayers.length, 1);
+  if (targetIds.length === 0 || targetIds.length > maxTargets || new Set(targetIds).size !== targetIds.length) {
+    return `Expected between 1 and ${maxTargets} different targets`;
+  }
+
+  if (targetIds.some(isOut)) {
+    return 'Target is not in the game';
+  }
+
+  if (state.isTieVote && targetIds.some(id => !state.tiedPlayers.includes(id))) {
+    return 'Only tied players can be voted for in a tie-breaker';
+  }
+
+  return null;
+}
+
+// Votes per candidate, most first; equal counts keep candidate order
+function rankCandidates(candidates: string[], ballots: Ballots): Array<[string, number]> {
+  const counts = new Map<string, number>(candidates.map(id => [id, 0]));
+  Object.values(ballots).forEach(targetIds => {
+    targetIds.forEach(targetId => {
+      if (counts.has(targetId)) {
+        counts.set(targetId, counts.get(targetId)! + 1);
+      }
+    });
+  });
+  return Array.from(counts.entries()).sort(([, a], [, b]) => b - a);
+}
+
+function tallyRandomize(ballots: Ballots): VoteOutcome {
+  // Every voted-for player is a candidate, in the order they were first voted for
+  const candidates = Array.from(new Set(Object.values(ballots).flat()));
+  const ranked = rankCandidates(candidates, ballots);
+  if (ranked.length === 0) {
+    return { eliminatedPlayerIds: [], tiedPlayers: [] };
+  }
+
+  const topIds = ranked.filter(([, count]) => count === ranked[0][1]).map(([id]) => id);
+  return topIds.length > 1
+    ? { eliminatedPlayerIds: [], tiedPlayers: topIds }
+    : { eliminatedPlayerIds: topIds, tiedPlayers: [] };
+}
+
+function tallyStandard(state: GameState, ballots: Ballots): VoteOutcome {
+  const impostorCount = state.impostorCount;
+  const candidates = state.players.map(p => p.id).filter(id => !state.eliminatedPlayers.includes(id));
+  const ranked = rankCandidates(candidates, ballots);
+
+  if (ranked.length < impostorCount) {
+    return { eliminatedPlayerIds: [], tiedPlayers: [] };
+  }
+
+  // Anyone outside the top N with as many votes as the N-th player forces a tie-breaker
+  const nthVotes = ranked[impostorCount - 1] ? ranked[impostorCount - 1][1] : -1;
+  const tiedOutsideTopN = ranked.slice(impostorCount).some(([, count]) => count === nthVotes);
+  if (!tiedOutsideTopN) {
+    return { eliminatedPlayerIds: ranked.slice(0, impostorCount).map(([id]) => id), tiedPlayers: [] };
+  }
+
+  // Players clearly above the tie go now
+  const eliminatedPlayerIds = ranked.slice(0, impostorCount).filter(([, count]) => count > nthVotes).map(([id]) => id);
+  const remainingToEliminate = impostorCount - (state.eliminatedPlayers.length + eliminatedPlayerIds.length);
+  if (remainingToEliminate <= 0) {
+    return { eliminatedPlayerIds, tiedPlayers: [] };
+  }
+
+  return {
+    eliminatedPlayerIds,
+    tiedPlayers: ranked.filter(([, count]) => count === nthVotes).map(([id]) => id)
+  };
+}
+
+function tallyTieBreaker(state: GameState, ballots: Ballots): VoteOutcome {
+  // Eliminated players don't vote in tie-breakers
+  const activeBallots = Object.fromEntries(
+    Object.entries(ballots).filter(([voterId]) => !state.eliminatedPlayers.includes(voterId))
+  );
+  const ranked = rankCandidates(Array.from(new Set(state.tiedPlayers)), activeBallots);
+  if (ranked.length === 0) {
+    return { eliminatedPlayerIds: [], tiedPlayers: [] };
+  }
+
+  // Still tied at the top - vote again between them
+  const topIds = ranked.filter(([, count]) => count === ranked[0][1]).map(([id]) => id);
+  if (topIds.length > 1) {
+    return { eliminatedPlayerIds: [], tiedPlayers: topIds };
+  }
+
+  const slots = Math.max(state.impostorCount - state.eliminatedPlayers.length, 0);
+  if (slots === 0) {
+    return { eliminatedPlayerIds: [], tiedPlayers: [] };
+  }
+
+  // Fill the slots from the top; a tie at the last slot goes to another tie-breaker
+  const thresholdVotes = ranked[Math.min(ranked.length - 1, slots - 1)][1];
+  const eliminatedPlayerIds = ranked.filter(([, count]) => count > thresholdVotes).map(([id]) => id);
+  const atThreshold = ranked.filter(([, count]) => count === thresholdVotes).map(([id]) => id);
+  const slotsRemaining = slots - eliminatedPlayerIds.length;
+
+  if (slotsRemaining > 0 && atThreshold.length > slotsRemaining) {
+    return { eliminatedPlayerIds, tiedPlayers: atThreshold };
+  }
+  return {
+    eliminatedPlayerIds: slotsRemaining > 0 ? [...eliminatedPlayerIds, ...atThreshold] : eliminatedPlayerIds,
+    tiedPlayers: []
+  };
+}
+
+/**
+ * Decide the outcome of a round of ballots
+ */
+export function computeVoteOutcome(state: GameState, ballots: Ballots): VoteOutcome {
+  if (state.isRandomizeMode) {
+    return tallyRandomize(ballots);
+  }
+  return state.isTieVote ? tallyTieBreaker(state, ballots) : tallyStandard(state, ballots);
+}
+
+/**
+ * Whether a write sets other winners than the stored state has (a new deal has none)
+ */
+export function changesWinners(before: GameState | undefined, after: GameState): boolean {
+  const previous = !before || before.phase === 'lobby' ? { winners: [], winnerType: undefined } : before;
+  return JSON.stringify(after.winners || []) !== JSON.stringify(previous.winners || []) || after.winnerType !== previous.winnerType;
+}
+
+/**
+ * The winners of a game the host finishes: the impostors while any of them is still in,
+ * otherwise the innocents. Same rule as determineRandomizeWinner / determineWordsGameWinner,
+ * decided with the dealt roles (mirror of vote_final_winners)
+ */
+export function earnedWinners(state: GameState, roles: Record<string, PlayerRole>): Pick<GameState, 'winners' | 'winnerType'> {
+  const dealt = (role: PlayerRole) => state.players.filter(p => roles[p.id] === role).map(p => ({ ...p, role }));
+  const impostorsLeft = dealt('impostor').some(p => !state.eliminatedPlayers.includes(p.id));
+  return impostorsLeft
+    ? { winners: dealt('impostor'), winnerType: 'impostor' }
+    : { winners: dealt('innocent'), winnerType: 'innocent' };
+}
+
+/**
+ * Why a write other than the tally can't store this state, or null if it can
+ * Mirror of the guard_game_state_outcome trigger: eliminations, tie-breakers and the end
+ * of a vote only come from the tally, the deal is fixed until the game is back in the lobby,
+ * and winners only change by finishing the game (which then takes earnedWinners).
+ * Both states are the stored (redacted) ones.
+ */
+export function validateOutcomeWrite(before: GameState | undefined, after: GameState): string | null {
+  if (after.phase === 'lobby') {
+    return null;
+  }
+  const startsOver = !before || before.phase === 'lobby';
+  const previous: Pick<GameState, 'eliminatedPlayers' | 'players' | 'isTieVote' | 'tiedPlayers' | 'phase'> = startsOver
+    ? { eliminatedPlayers: [], players: [], isTieVote: false, tiedPlayers: [], phase: 'lobby' }
+    : before;
+
+  const wasEliminated = (playerId: string) => previous.players.some(p => p.id === playerId && p.isEliminated);
+  if (JSON.stringify(after.eliminatedPlayers || []) !== JSON.stringify(previous.eliminatedPlayers || [])
+    || after.players.some(p => p.isEliminated && !wasEliminated(p.id))) {
+    return 'Only the vote tally eliminates players';
+  }
+
+  const tiedPlayers = after.tiedPlayers || [];
+  if ((after.isTieVote && !previous.isTieVote)
+    || (tiedPlayers.length > 0 && JSON.stringify(tiedPlayers) !== JSON.stringify(previous.tiedPlayers || []))) {
+    return 'Only the vote tally starts a tie-breaker';
+  }
+
+  if (previous.phase === 'voting' && (after.phase === 'voteResults' || after.phase === 'results')) {
+    return 'Only the vote tally ends a vote';
+  }
+
+  // Players may leave a running game but nobody is dealt in; results states carry every role
+  if (before && !startsOver && (
+    after.impostorCount !== before.impostorCount
+    || after.isRandomizeMode !== before.isRandomizeMode
+    || after.hasJester !== before.hasJester
+    || after.gameMode !== before.gameMode
+    || after.dealId !== before.dealId
+    || after.players.some(p => !before.players.some(b => b.id === p.id))
+    || (after.phase !== 'results' && JSON.stringify(after.playerRoles || {}) !== JSON.stringify(before.playerRoles || {}))
+  )) {
+    return 'The deal is fixed until the game is back in the lobby';
+  }
+
+  if (changesWinners(before, after) && after.phase !== 'results') {
+    return 'The winners are decided by the game';
+  }
+
+  return null;
+}
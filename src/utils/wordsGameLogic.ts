@@ -1,4 +1,5 @@
-import { Player, GameState, WinnerType } from '../types';
+import { Player, GameState, VoteOutcome, WinnerType } from '../types';
+import { computeVoteOutcome } from './voteTally';
 
 /**
  * Words Game Voting Logic
@@ -99,12 +100,14 @@ export function checkWordsGameWinConditions(
  * @param gameState - The current game state
  * @param votes - Record of votes cast by players
  * @param players - Array of all players in the game
+ * @param outcome - Who the backend tally eliminated / tied (computed from votes if not given)
  * @returns Updated game state
  */
 export function processWordsGameVotes(
   gameState: GameState,
   votes: Record<string, string[]>,
-  players: Player[]
+  players: Player[],
+  outcome: VoteOutcome = computeVoteOutcome(gameState, votes)
 ): GameState {
   console.log('=== WORDS GAME VOTE PROCESSING ===');
   console.log('Input votes:', votes);
@@ -114,115 +117,64 @@ export function processWordsGameVotes(
     eliminatedPlayers: gameState.eliminatedPlayers,
     impostorCount: gameState.impostorCount
   });
-  
+  console.log('Vote outcome:', outcome);
+
+  const { eliminatedPlayerIds, tiedPlayers } = outcome;
+
   // Handle tie-breaker results first
   if (gameState.isTieVote) {
     console.log('Processing tie-breaker results for words game...');
-    
-    const tiedPlayerIds = new Set(gameState.tiedPlayers);
-    const tieBreakerVoteCounts: { [key: string]: number } = {};
-    
-    // Initialize tied players with 0 votes
-    gameState.tiedPlayers?.forEach(pId => tieBreakerVoteCounts[pId] = 0);
 
-    // Count votes for only the tied players
-    Object.values(votes).flat().forEach(targetId => {
-      if (tiedPlayerIds.has(targetId)) {
-        tieBreakerVoteCounts[targetId]++;
-      }
-    });
+    // Store the current tie-breaker votes alongside the earlier rounds
+    const tieBreakerLog = [...(gameState.tieBreakerVotes || []), votes];
 
-    const sortedTiedPlayers = Object.entries(tieBreakerVoteCounts).sort(([, a], [, b]) => b - a);
-    
-    const alreadyEliminatedCount = gameState.eliminatedPlayers.length;
-    const totalNeeded = gameState.impostorCount;
-    const remainingToEliminate = totalNeeded - alreadyEliminatedCount;
-
-    // If no one voted, end the round.
-    // Note: Continue tie-breaking until no ties remain, regardless of elimination count
-    if (sortedTiedPlayers.length === 0) {
-      const playersToEliminate = sortedTiedPlayers.slice(0, remainingToEliminate).map(([id]) => id);
-      const newEliminatedPlayers = [...gameState.eliminatedPlayers, ...playersToEliminate];
-      
+    // Nobody to break the tie between - end the round
+    if (!gameState.tiedPlayers || gameState.tiedPlayers.length === 0) {
       const { winners, winnerType } = checkWordsGameWinConditions(
         gameState,
         players,
-        newEliminatedPlayers
+        gameState.eliminatedPlayers
       );
 
       return {
         ...gameState,
         phase: 'voteResults', // Always go to voteResults first
-        eliminatedPlayers: newEliminatedPlayers,
+        eliminatedPlayers: [...gameState.eliminatedPlayers],
         votes: {},
-        tieBreakerVotes: [...(gameState.tieBreakerVotes || []), votes],
+        tieBreakerVotes: tieBreakerLog,
         winners,
         winnerType,
         isTieVote: false,
         tiedPlayers: [],
       };
     }
-    
-    // Check if there's a tie at the top (highest vote count)
-    const highestVoteCount = sortedTiedPlayers[0][1];
-    const playersWithHighestVotes = sortedTiedPlayers.filter(([, votes]) => votes === highestVoteCount);
-    
+
     // If there's still a tie at the highest vote count, continue tie-breaking
-    if (playersWithHighestVotes.length > 1) {
+    if (tiedPlayers.length > 0 && eliminatedPlayerIds.length === 0) {
       console.log('Another tie detected in tie-breaker round for words game.');
-      
-      // Store the current tie-breaker votes before starting the next tie-breaker round
-      const newTieBreakerVotes = [...(gameState.tieBreakerVotes || []), votes];
-      
+
       return {
         ...gameState,
         phase: 'voting',
         isTieVote: true,
-        tiedPlayers: playersWithHighestVotes.map(([id]) => id),
+        tiedPlayers,
         votes: {}, // Clear votes for the next round
-        tieBreakerVotes: newTieBreakerVotes, // Store current tie-breaker votes
+        tieBreakerVotes: tieBreakerLog,
       };
     }
 
-    // Determine eliminations accounting for ties at the elimination boundary
-    const eliminationSlots = Math.max(remainingToEliminate, 0);
-    const tieBreakerLog = [...(gameState.tieBreakerVotes || []), votes];
-
-    let eliminatedFromTieBreaker: string[] = [];
-    let nextTieCandidates: string[] = [];
-
-    if (eliminationSlots > 0 && sortedTiedPlayers.length > 0) {
-      const thresholdIndex = Math.min(sortedTiedPlayers.length - 1, eliminationSlots - 1);
-      const thresholdVotes = thresholdIndex >= 0 ? sortedTiedPlayers[thresholdIndex][1] : -Infinity;
-
-      const playersAboveThreshold = sortedTiedPlayers.filter(([, voteCount]) => voteCount > thresholdVotes);
-      eliminatedFromTieBreaker = playersAboveThreshold.map(([id]) => id);
+    const newEliminatedPlayers = [...gameState.eliminatedPlayers, ...eliminatedPlayerIds];
 
-      let slotsRemaining = eliminationSlots - eliminatedFromTieBreaker.length;
-
-      if (slotsRemaining > 0) {
-        const playersAtThreshold = sortedTiedPlayers.filter(([, voteCount]) => voteCount === thresholdVotes);
-
-        if (playersAtThreshold.length <= slotsRemaining) {
-          eliminatedFromTieBreaker.push(...playersAtThreshold.map(([id]) => id));
-          slotsRemaining = 0;
-        } else {
-          nextTieCandidates = playersAtThreshold.map(([id]) => id);
-        }
-      }
-    }
-
-    const newEliminatedPlayers = [...gameState.eliminatedPlayers, ...eliminatedFromTieBreaker];
-
-    if (nextTieCandidates.length > 0) {
-      console.log('Tie persists after partial eliminations in words game tie-breaker. Continuing with tied players:', nextTieCandidates);
+    // Some players went, but there is still a tie for the last slot(s)
+    if (tiedPlayers.length > 0) {
+      console.log('Tie persists after partial eliminations in words game tie-breaker. Continuing with tied players:', tiedPlayers);
       return {
         ...gameState,
         phase: 'voting',
         eliminatedPlayers: newEliminatedPlayers,
         votes: {},
         isTieVote: true,
-        tiedPlayers: nextTieCandidates,
+        tiedPlayers,
         tieBreakerVotes: tieBreakerLog,
       };
     }
@@ -246,46 +198,11 @@ export function processWordsGameVotes(
     };
   }
 
-  // Calculate vote counts - include ALL players, even those with 0 votes
-  const voteCounts: { [key: string]: number } = {};
-  
-  // Initialize all non-eliminated players with 0 votes
-  players.forEach(player => {
-    if (!gameState.eliminatedPlayers.includes(player.id)) {
-      voteCounts[player.id] = 0;
-    }
-  });
-  
-  // Count actual votes
-  Object.entries(votes).forEach(([voterId, playerVotes]) => {
-    console.log(`Voter ${voterId} voted for:`, playerVotes);
-    playerVotes.forEach(targetId => {
-      if (Object.prototype.hasOwnProperty.call(voteCounts, targetId)) {
-        voteCounts[targetId] = (voteCounts[targetId] || 0) + 1;
-      }
-    });
-  });
-
-  console.log('All vote counts:', voteCounts);
-
-  // Sort players by vote count (highest first)
-  const sortedPlayers = Object.entries(voteCounts)
-    .filter(([playerId]) => !gameState.eliminatedPlayers.includes(playerId))
-    .sort(([, a], [, b]) => b - a);
-
   const impostorCount = gameState.impostorCount;
-  
-  console.log('WORDS GAME VOTING RESULTS:', {
-    allVotes: votes,
-    voteCounts: voteCounts,
-    sortedPlayers: sortedPlayers.map(([id, votes]) => ({ id, votes })),
-    impostorCount,
-    totalPlayers: sortedPlayers.length,
-    eliminatedPlayers: gameState.eliminatedPlayers
-  });
+  const remainingPlayers = players.filter(player => !gameState.eliminatedPlayers.includes(player.id));
 
   // Check if we have enough players to eliminate
-  if (sortedPlayers.length < impostorCount) {
+  if (remainingPlayers.length < impostorCount) {
     console.log('Not enough players to eliminate in words game');
     return {
       ...gameState,
@@ -293,131 +210,79 @@ export function processWordsGameVotes(
       phase: 'discussion'
     };
   }
-  
-  // Get the vote count of the N-th player (where N = impostor count)
-  let nthPlayerVotes = -1;
-  if (sortedPlayers.length > 0) {
-    nthPlayerVotes = sortedPlayers[impostorCount - 1] ? sortedPlayers[impostorCount - 1][1] : -1;
+
+  if (tiedPlayers.length > 0) {
+    console.log('TIE DETECTED IN WORDS GAME - players in tie-breaker:', tiedPlayers);
+    console.log('Players automatically eliminated (in top N with more votes):', eliminatedPlayerIds);
+
+    // Start tie-breaker vote for all players with Nth position votes - clear votes for new round
+    return {
+      ...gameState,
+      eliminatedPlayers: [...gameState.eliminatedPlayers, ...eliminatedPlayerIds],
+      phase: 'voting',
+      isTieVote: true,
+      tiedPlayers,
+      votes: {}, // Clear all votes for tie-breaker round
+      originalVotes: { ...votes }, // Store original votes
+    };
   }
-  
-  console.log('TIE DETECTION FOR WORDS GAME:', {
-    impostorCount,
-    nthPlayerIndex: impostorCount - 1,
-    nthPlayerVotes,
-    sortedPlayers: sortedPlayers.map(([id, votes]) => ({ id, votes }))
-  });
-  
-  // Find all players with the same vote count as the N-th position
-  const playersWithNthVotes = sortedPlayers.filter(([, votes]) => votes === nthPlayerVotes);
-  
-  // Check if there are players OUTSIDE the top N with the same vote count as N-th position
-  const playersInTopN = sortedPlayers.slice(0, impostorCount);
-  const playersOutsideTopN = sortedPlayers.slice(impostorCount);
-  
-  const tiedPlayersOutsideTopN = playersOutsideTopN.filter(([, votes]) => votes === nthPlayerVotes);
-  
-  console.log('Players with Nth position votes:', playersWithNthVotes.map(([id, votes]) => ({ id, votes })));
-  console.log('Players in top N:', playersInTopN.map(([id, votes]) => ({ id, votes })));
-  console.log('Players outside top N:', playersOutsideTopN.map(([id, votes]) => ({ id, votes })));
-  console.log('Tied players outside top N:', tiedPlayersOutsideTopN.map(([id, votes]) => ({ id, votes })));
-    
-  if (tiedPlayersOutsideTopN.length > 0) {
-    console.log('TIE DETECTED IN WORDS GAME - players outside top N have same votes as N-th position:', tiedPlayersOutsideTopN.map(([id, votes]) => ({ id, votes })));
-    
-    // CORRECT LOGIC: Eliminate players who are in top N positions (have >= Nth position votes and are in top N)
-    const playersToEliminate = playersInTopN.filter(([, votes]) => votes > nthPlayerVotes);
-    const alreadyEliminatedPlayers = playersToEliminate.map(([playerId]) => playerId);
-    
-    console.log('Players automatically eliminated (in top N with more votes):', alreadyEliminatedPlayers);
-    console.log('Players in tie-breaker (all with Nth position votes):', playersWithNthVotes.map(([playerId]) => playerId));
-    
-    // Calculate how many players we need to eliminate total
-    const totalEliminated = gameState.eliminatedPlayers.length + alreadyEliminatedPlayers.length;
-    const remainingToEliminate = impostorCount - totalEliminated;
-    
-    console.log('Total eliminated so far:', totalEliminated, 'Remaining to eliminate:', remainingToEliminate);
-    
-    if (remainingToEliminate <= 0) {
-      // We've already eliminated enough players, no need for tie-breaker
-      console.log('Already eliminated enough players, no tie-breaker needed in words game');
-      const finalEliminatedPlayers = [...gameState.eliminatedPlayers, ...alreadyEliminatedPlayers];
-      
-      const { winners, winnerType } = checkWordsGameWinConditions(gameState, players, finalEliminatedPlayers);
-      
-      if (winnerType) {
-        console.log('Words game ended! Winner type:', winnerType);
-        return {
-          ...gameState,
-          phase: 'results',
-          votes: votes,
-          eliminatedPlayers: finalEliminatedPlayers,
-          winners,
-          winnerType: winnerType || undefined,
-          isTieVote: false,
-          tiedPlayers: []
-        };
-      }
 
-      // Game continues
+  // Fewer than N eliminated without a tie-breaker: earlier rounds already filled the slots
+  if (eliminatedPlayerIds.length < impostorCount) {
+    console.log('Already eliminated enough players, no tie-breaker needed in words game');
+    const finalEliminatedPlayers = [...gameState.eliminatedPlayers, ...eliminatedPlayerIds];
+
+    const { winners, winnerType } = checkWordsGameWinConditions(gameState, players, finalEliminatedPlayers);
+
+    if (winnerType) {
+      console.log('Words game ended! Winner type:', winnerType);
       return {
         ...gameState,
-        phase: 'voteResults',
+        phase: 'results',
         votes: votes,
         eliminatedPlayers: finalEliminatedPlayers,
         winners,
-        winnerType,
+        winnerType: winnerType || undefined,
         isTieVote: false,
         tiedPlayers: []
       };
     }
-      
-    // Update game state with automatically eliminated players
-    const updatedGameState = {
-      ...gameState,
-      eliminatedPlayers: [...gameState.eliminatedPlayers, ...alreadyEliminatedPlayers],
-      votes: votes
-    };
-    
-    // Store original votes before starting tie-breaker
-    const originalVotes = { ...votes };
-    
-    // Start tie-breaker vote for all players with Nth position votes - clear votes for new round
+
+    // Game continues
     return {
-      ...updatedGameState,
-      phase: 'voting',
-      isTieVote: true,
-      tiedPlayers: playersWithNthVotes.map(([playerId]) => playerId),
-      votes: {}, // Clear all votes for tie-breaker round
-      originalVotes: originalVotes, // Store original votes
+      ...gameState,
+      phase: 'voteResults',
+      votes: votes,
+      eliminatedPlayers: finalEliminatedPlayers,
+      winners,
+      winnerType,
+      isTieVote: false,
+      tiedPlayers: []
     };
-  } else {
-    // No tie, eliminate top N players directly
-    const eliminatedPlayerIds = sortedPlayers.slice(0, impostorCount).map(([playerId]) => playerId);
-    
-    console.log('NO TIE IN WORDS GAME - eliminating top N players:', eliminatedPlayerIds);
-    
-    const { winners, winnerType } = checkWordsGameWinConditions(gameState, players, eliminatedPlayerIds);
-    
-         // Always go to voteResults first to show vote breakdown and eliminations
-         // The host will then decide whether to continue or reveal winners
-         console.log('Words game vote processing complete. Game ended:', !!winnerType, 'Winner type:', winnerType);
-
-         const result = {
-           ...gameState,
-           phase: 'voteResults' as const,
-           votes: votes,
-           originalVotes: votes, // Store original votes for vote breakdown
-           eliminatedPlayers: [...gameState.eliminatedPlayers, ...eliminatedPlayerIds],
-           winners,
-           winnerType,
-           isTieVote: false,
-           tiedPlayers: [],
-           previousEliminatedPlayers: gameState.eliminatedPlayers,
-         };
-         console.log('WORDS GAME: Returning voteResults phase:', result.phase);
-         return result;
-         }
-       }
+  }
+
+  // No tie, eliminate top N players directly
+  console.log('NO TIE IN WORDS GAME - eliminating top N players:', eliminatedPlayerIds);
+
+  const { winners, winnerType } = checkWordsGameWinConditions(gameState, players, eliminatedPlayerIds);
+
+  // Always go to voteResults first to show vote breakdown and eliminations
+  // The host will then decide whether to continue or reveal winners
+  console.log('Words game vote processing complete. Game ended:', !!winnerType, 'Winner type:', winnerType);
+
+  return {
+    ...gameState,
+    phase: 'voteResults' as const,
+    votes: votes,
+    originalVotes: votes, // Store original votes for vote breakdown
+    eliminatedPlayers: [...gameState.eliminatedPlayers, ...eliminatedPlayerIds],
+    winners,
+    winnerType,
+    isTieVote: false,
+    tiedPlayers: [],
+    previousEliminatedPlayers: gameState.eliminatedPlayers,
+  };
+}
 
 /**
  * Determines the winner when host finishes the game in words game mode